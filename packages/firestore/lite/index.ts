@@ -77,6 +77,8 @@ export {
   and,
   endAt,
   endBefore,
+  findNearest,
+  FindNearestOptions,
   startAt,
   startAfter,
   limit,
@@ -95,7 +97,11 @@ export {
   QueryNonFilterConstraint,
   QueryStartAtConstraint,
   QueryEndAtConstraint,
+  QueryFindNearestConstraint,
+  QuerySelectConstraint,
+  select,
   OrderByDirection,
+  VectorDistanceMeasure,
   WhereFilterOp
 } from '../src/lite-api/query';
 
@@ -105,7 +111,8 @@ export {
   updateDoc,
   setDoc,
   getDoc,
-  getDocs
+  getDocs,
+  getEstimatedSize
 } from '../src/lite-api/reference_impl';
 
 export {
@@ -145,6 +152,8 @@ export { WriteBatch, writeBatch } from '../src/lite-api/write_batch';
 
 export { TransactionOptions } from '../src/lite-api/transaction_options';
 
+export { ReadOptions } from '../src/lite-api/read_options';
+
 export { Transaction, runTransaction } from '../src/lite-api/transaction';
 
 export { setLogLevel, LogLevelString as LogLevel } from '../src/util/log';
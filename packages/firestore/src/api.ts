@@ -20,8 +20,10 @@ export {
   aggregateQuerySnapshotEqual,
   average,
   count,
+  getAggregateFromCache,
   getAggregateFromServer,
   getCountFromServer,
+  onAggregateSnapshot,
   sum
 } from './api/aggregate';
 
@@ -35,6 +37,26 @@ export {
 } from './lite-api/aggregate_types';
 
 export {
+  BulkWriter,
+  bulkWriter,
+  BulkWriterOptions,
+  BulkWriterProgress
+} from './api/bulk_writer';
+
+export {
+  ExecutionStats,
+  explainLocalQuery,
+  ExplainMetrics,
+  ExplainOptions,
+  ExplainQueryOptions,
+  ExplainResults,
+  LocalQueryExplanation,
+  LocalQueryStrategy,
+  PlanSummary
+} from './api/explain';
+
+export {
+  fileKeyValueStore,
   FirestoreLocalCache,
   MemoryCacheSettings,
   MemoryEagerGarbageCollector,
@@ -45,6 +67,7 @@ export {
   MemoryLruGarbageCollector,
   memoryLruGarbageCollector,
   PersistentCacheSettings,
+  PersistentKeyValueStore,
   PersistentLocalCache,
   persistentLocalCache,
   PersistentMultipleTabManager,
@@ -66,6 +89,8 @@ export {
   enableMultiTabIndexedDbPersistence,
   enableNetwork,
   ensureFirestoreConfigured,
+  exportCacheAsBundle,
+  ExportCacheAsBundleOptions,
   Firestore,
   getFirestore,
   initializeFirestore,
@@ -81,22 +106,48 @@ export {
   TaskState
 } from './api/bundle';
 
+export { BundleBuilder, createBundleBuilder } from './api/bundle_builder';
+
+export {
+  PageCursor,
+  PageIterator,
+  PageIteratorResult,
+  paginate,
+  PaginateOptions,
+  QueryPaginator
+} from './api/pagination';
+
 export { FirestoreSettings, PersistenceSettings } from './api/settings';
 export type { PrivateSettings } from './lite-api/settings';
 export { ExperimentalLongPollingOptions } from './api/long_polling_options';
 
+export {
+  createInMemoryBackend,
+  InMemoryBackend
+} from './remote/in_memory_backend';
+
 export {
   DocumentChange,
   DocumentChangeType,
   DocumentSnapshot,
+  documentSnapshotFromJSON,
   FirestoreDataConverter,
   QueryDocumentSnapshot,
   QuerySnapshot,
+  querySnapshotFromJSON,
   snapshotEqual,
   SnapshotMetadata,
-  SnapshotOptions
+  SnapshotOptions,
+  ValidationFailureMode
 } from './api/snapshot';
 
+export {
+  Schema,
+  schemaConverter,
+  SchemaConverterOptions,
+  SchemaType
+} from './api/schema_converter';
+
 export {
   collection,
   collectionGroup,
@@ -117,6 +168,8 @@ export {
   and,
   endAt,
   endBefore,
+  findNearest,
+  FindNearestOptions,
   limit,
   limitToLast,
   or,
@@ -129,24 +182,57 @@ export {
   QueryEndAtConstraint,
   QueryFieldFilterConstraint,
   QueryFilterConstraint,
+  QueryFindNearestConstraint,
   QueryLimitConstraint,
   QueryNonFilterConstraint,
   QueryOrderByConstraint,
+  QuerySelectConstraint,
   QueryStartAtConstraint,
+  select,
   startAfter,
   startAt,
+  VectorDistanceMeasure,
   where,
   WhereFilterOp
 } from './api/filter';
 
 export {
   ListenSource,
+  SnapshotGroup,
+  SnapshotGroupTarget,
   SnapshotListenOptions,
   Unsubscribe
 } from './api/reference_impl';
 
+export {
+  discardPendingWrite,
+  getPendingWrites,
+  onWriteRejected,
+  PendingWrite,
+  PendingWriteOperation,
+  RejectedWrite
+} from './api/pending_writes';
+
+export {
+  onUsageStats,
+  setUsageLabel,
+  TargetUsageStats,
+  UsageStats,
+  UsageStatsOptions
+} from './api/usage_stats';
+
+export {
+  CacheStats,
+  collectGarbage,
+  CollectGarbageOptions,
+  GarbageCollectionResult,
+  getCacheStats
+} from './api/cache_stats';
+
 export { TransactionOptions } from './api/transaction_options';
 
+export { CacheThenServerReadOptions, ReadOptions } from './api/read_options';
+
 export { runTransaction, Transaction } from './api/transaction';
 
 export {
@@ -159,12 +245,17 @@ export {
   getDocs,
   getDocsFromCache,
   getDocsFromServer,
+  keepSynced,
   onSnapshot,
+  onSnapshotGroup,
+  onSnapshotResume,
   onSnapshotsInSync,
   setDoc,
   updateDoc
 } from './api/reference_impl';
 
+export { getEstimatedSize } from './lite-api/reference_impl';
+
 export { FieldValue } from './api/field_value';
 
 export {
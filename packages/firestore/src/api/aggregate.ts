@@ -16,16 +16,36 @@
  */
 
 import { AggregateField, AggregateSpec, DocumentData, Query } from '../api';
-import { AggregateImpl } from '../core/aggregate';
-import { firestoreClientRunAggregateQuery } from '../core/firestore_client';
+import { AggregateImpl, computeAggregates } from '../core/aggregate';
+import { ListenerDataSource } from '../core/event_manager';
+import {
+  firestoreClientExplainAggregateQuery,
+  firestoreClientGetDocumentsFromLocalCache,
+  firestoreClientListen,
+  firestoreClientRunAggregateQuery
+} from '../core/firestore_client';
 import { count } from '../lite-api/aggregate';
 import { AggregateQuerySnapshot } from '../lite-api/aggregate_types';
+import {
+  validateHasExplicitOrderByForLimitToLast,
+  validateQueryForListen
+} from '../lite-api/query';
+import { ReadOptions, validateReadOptions } from '../lite-api/read_options';
+import { valueEquals } from '../model/values';
 import { ApiClientObjectMap, Value } from '../protos/firestore_proto_api';
+import { FirestoreError } from '../util/error';
 import { cast } from '../util/input_validation';
 import { mapToArray } from '../util/obj';
 
 import { ensureFirestoreConfigured, Firestore } from './database';
-import { ExpUserDataWriter } from './reference_impl';
+import {
+  ExplainQueryOptions,
+  ExplainResults,
+  toExplainMetrics,
+  toInternalExplainOptions
+} from './explain';
+import { isPartialObserver, PartialObserver } from './observer';
+import { ExpUserDataWriter, Unsubscribe } from './reference_impl';
 
 export {
   aggregateQuerySnapshotEqual,
@@ -52,6 +72,7 @@ export {
  * the server.
  *
  * @param query The query whose result set size is calculated.
+ * @param options Options to count the documents at a specific point in time.
  * @returns A Promise that will be resolved with the count; the count can be
  * retrieved from `snapshot.data().count`, where `snapshot` is the
  * `AggregateQuerySnapshot` to which the returned Promise resolves.
@@ -60,7 +81,8 @@ export function getCountFromServer<
   AppModelType,
   DbModelType extends DocumentData
 >(
-  query: Query<AppModelType, DbModelType>
+  query: Query<AppModelType, DbModelType>,
+  options?: ReadOptions
 ): Promise<
   AggregateQuerySnapshot<
     { count: AggregateField<number> },
@@ -72,7 +94,7 @@ export function getCountFromServer<
     count: count()
   };
 
-  return getAggregateFromServer(query, countQuerySpec);
+  return getAggregateFromServer(query, countQuerySpec, options ?? {});
 }
 
 /**
@@ -117,28 +139,286 @@ export function getAggregateFromServer<
   aggregateSpec: AggregateSpecType
 ): Promise<
   AggregateQuerySnapshot<AggregateSpecType, AppModelType, DbModelType>
+>;
+/**
+ * Calculates the specified aggregations on the server over the documents in
+ * the result set of the given query as they were at `options.readTime`.
+ *
+ * @param query The query whose result set is aggregated over.
+ * @param aggregateSpec An `AggregateSpec` object that specifies the aggregates
+ * to perform over the result set.
+ * @param options Options to perform the aggregations at a specific point in
+ * time.
+ * @returns A Promise that will be resolved with the results of the
+ * aggregations.
+ */
+export function getAggregateFromServer<
+  AggregateSpecType extends AggregateSpec,
+  AppModelType,
+  DbModelType extends DocumentData
+>(
+  query: Query<AppModelType, DbModelType>,
+  aggregateSpec: AggregateSpecType,
+  options: ReadOptions
+): Promise<
+  AggregateQuerySnapshot<AggregateSpecType, AppModelType, DbModelType>
+>;
+/**
+ * Explains the aggregation on the backend and returns the query plan and, if
+ * `options.explainOptions.analyze` is `true`, the execution statistics and the
+ * results of the aggregation.
+ *
+ * @param query The query whose result set is aggregated over.
+ * @param aggregateSpec An `AggregateSpec` object that specifies the aggregates
+ * to perform over the result set.
+ * @param options The options used to explain the aggregation.
+ * @returns A Promise that will be resolved with the `ExplainMetrics` and, if
+ * the aggregation was analyzed, its results.
+ */
+export function getAggregateFromServer<
+  AggregateSpecType extends AggregateSpec,
+  AppModelType,
+  DbModelType extends DocumentData
+>(
+  query: Query<AppModelType, DbModelType>,
+  aggregateSpec: AggregateSpecType,
+  options: ExplainQueryOptions
+): Promise<
+  ExplainResults<
+    AggregateQuerySnapshot<AggregateSpecType, AppModelType, DbModelType>
+  >
+>;
+export function getAggregateFromServer<
+  AggregateSpecType extends AggregateSpec,
+  AppModelType,
+  DbModelType extends DocumentData
+>(
+  query: Query<AppModelType, DbModelType>,
+  aggregateSpec: AggregateSpecType,
+  options?: ReadOptions | ExplainQueryOptions
+): Promise<
+  | AggregateQuerySnapshot<AggregateSpecType, AppModelType, DbModelType>
+  | ExplainResults<
+      AggregateQuerySnapshot<AggregateSpecType, AppModelType, DbModelType>
+    >
 > {
   const firestore = cast(query.firestore, Firestore);
   const client = ensureFirestoreConfigured(firestore);
+  const internalAggregates = toInternalAggregates(aggregateSpec);
 
-  const internalAggregates = mapToArray(aggregateSpec, (aggregate, alias) => {
-    return new AggregateImpl(
-      alias,
-      aggregate.aggregateType,
-      aggregate._internalFieldPath
+  if (options && 'explainOptions' in options) {
+    return firestoreClientExplainAggregateQuery(
+      client,
+      query._query,
+      internalAggregates,
+      toInternalExplainOptions(options)
+    ).then(
+      ({ aggregateFields, explainMetrics }) =>
+        new ExplainResults(
+          toExplainMetrics(explainMetrics),
+          aggregateFields
+            ? convertToAggregateQuerySnapshot<
+                AggregateSpecType,
+                AppModelType,
+                DbModelType
+              >(firestore, query, aggregateFields)
+            : null
+        )
     );
-  });
+  }
 
   // Run the aggregation and convert the results
+  const readTime = validateReadOptions('getAggregateFromServer', options);
   return firestoreClientRunAggregateQuery(
     client,
     query._query,
-    internalAggregates
+    internalAggregates,
+    readTime
   ).then(aggregateResult =>
     convertToAggregateQuerySnapshot(firestore, query, aggregateResult)
   );
 }
 
+/**
+ * Calculates the specified aggregations over the documents in the local cache
+ * that match the given query.
+ *
+ * The aggregations are computed on the client, over the same documents that
+ * `getDocsFromCache()` would return. This includes local modifications that
+ * have not been synchronized with the server yet. The result is therefore an
+ * approximation of the value `getAggregateFromServer()` would return, but is
+ * available immediately and while offline.
+ *
+ * @param query The query whose cached result set is aggregated over.
+ * @param aggregateSpec An `AggregateSpec` object that specifies the aggregates
+ * to perform over the result set. The AggregateSpec specifies aliases for each
+ * aggregate, which can be used to retrieve the aggregate result.
+ * @returns A Promise that will be resolved with the results of the
+ * aggregations over the cached documents.
+ */
+export function getAggregateFromCache<
+  AggregateSpecType extends AggregateSpec,
+  AppModelType,
+  DbModelType extends DocumentData
+>(
+  query: Query<AppModelType, DbModelType>,
+  aggregateSpec: AggregateSpecType
+): Promise<
+  AggregateQuerySnapshot<AggregateSpecType, AppModelType, DbModelType>
+> {
+  query = cast<Query<AppModelType, DbModelType>>(query, Query);
+  const firestore = cast(query.firestore, Firestore);
+  const client = ensureFirestoreConfigured(firestore);
+  const internalAggregates = toInternalAggregates(aggregateSpec);
+  validateQueryForListen(query._query, 'getAggregateFromCache');
+
+  return firestoreClientGetDocumentsFromLocalCache(client, query._query).then(
+    snapshot =>
+      convertToAggregateQuerySnapshot(
+        firestore,
+        query,
+        computeAggregates(internalAggregates, snapshot.docs)
+      )
+  );
+}
+
+/**
+ * Attaches a listener for `AggregateQuerySnapshot` events. The aggregations
+ * are computed on the client over the documents that match the query, as
+ * they would be returned by `onSnapshot()`. A new event is raised whenever the
+ * result of the aggregations changes, including when documents are modified
+ * locally.
+ *
+ * NOTE: The listener keeps the documents that match the query synchronized
+ * with the backend, which incurs the same document reads as `onSnapshot()`.
+ *
+ * @param query The query whose result set is aggregated over.
+ * @param aggregateSpec An `AggregateSpec` object that specifies the aggregates
+ * to perform over the result set.
+ * @param observer A single object containing `next` and `error` callbacks.
+ * @returns An unsubscribe function that can be called to cancel the listener.
+ */
+export function onAggregateSnapshot<
+  AggregateSpecType extends AggregateSpec,
+  AppModelType,
+  DbModelType extends DocumentData
+>(
+  query: Query<AppModelType, DbModelType>,
+  aggregateSpec: AggregateSpecType,
+  observer: {
+    next?: (
+      snapshot: AggregateQuerySnapshot<
+        AggregateSpecType,
+        AppModelType,
+        DbModelType
+      >
+    ) => void;
+    error?: (error: FirestoreError) => void;
+    complete?: () => void;
+  }
+): Unsubscribe;
+/**
+ * Attaches a listener for `AggregateQuerySnapshot` events. The aggregations
+ * are computed on the client over the documents that match the query, as
+ * they would be returned by `onSnapshot()`. A new event is raised whenever the
+ * result of the aggregations changes, including when documents are modified
+ * locally.
+ *
+ * NOTE: The listener keeps the documents that match the query synchronized
+ * with the backend, which incurs the same document reads as `onSnapshot()`.
+ *
+ * @param query The query whose result set is aggregated over.
+ * @param aggregateSpec An `AggregateSpec` object that specifies the aggregates
+ * to perform over the result set.
+ * @param onNext A callback to be called every time a new
+ * `AggregateQuerySnapshot` is available.
+ * @param onError A callback to be called if the listen fails or is cancelled.
+ * No further callbacks will occur.
+ * @param onCompletion Can be provided, but will not be called since streams
+ * are never ending.
+ * @returns An unsubscribe function that can be called to cancel the listener.
+ */
+export function onAggregateSnapshot<
+  AggregateSpecType extends AggregateSpec,
+  AppModelType,
+  DbModelType extends DocumentData
+>(
+  query: Query<AppModelType, DbModelType>,
+  aggregateSpec: AggregateSpecType,
+  onNext: (
+    snapshot: AggregateQuerySnapshot<
+      AggregateSpecType,
+      AppModelType,
+      DbModelType
+    >
+  ) => void,
+  onError?: (error: FirestoreError) => void,
+  onCompletion?: () => void
+): Unsubscribe;
+export function onAggregateSnapshot<
+  AggregateSpecType extends AggregateSpec,
+  AppModelType,
+  DbModelType extends DocumentData
+>(
+  query: Query<AppModelType, DbModelType>,
+  aggregateSpec: AggregateSpecType,
+  ...args: unknown[]
+): Unsubscribe {
+  query = cast<Query<AppModelType, DbModelType>>(query, Query);
+  const firestore = cast(query.firestore, Firestore);
+  const client = ensureFirestoreConfigured(firestore);
+  const internalAggregates = toInternalAggregates(aggregateSpec);
+  validateHasExplicitOrderByForLimitToLast(query._query);
+  validateQueryForListen(query._query, 'onAggregateSnapshot');
+
+  type Snapshot = AggregateQuerySnapshot<
+    AggregateSpecType,
+    AppModelType,
+    DbModelType
+  >;
+  const userObserver: PartialObserver<Snapshot> = isPartialObserver(args[0])
+    ? (args[0] as PartialObserver<Snapshot>)
+    : {
+        next: args[0] as (snapshot: Snapshot) => void,
+        error: args[1] as (error: FirestoreError) => void,
+        complete: args[2] as () => void
+      };
+
+  // Only raise events when the result of the aggregations changes.
+  let lastResult: Value | null = null;
+  return firestoreClientListen(
+    client,
+    query._query,
+    { includeMetadataChanges: false, source: ListenerDataSource.Default },
+    {
+      next: snapshot => {
+        const aggregateResult = computeAggregates(
+          internalAggregates,
+          snapshot.docs
+        );
+        const result: Value = { mapValue: { fields: aggregateResult } };
+        if (lastResult === null || !valueEquals(lastResult, result)) {
+          lastResult = result;
+          userObserver.next?.(
+            convertToAggregateQuerySnapshot(firestore, query, aggregateResult)
+          );
+        }
+      },
+      error: error => userObserver.error?.(error)
+    }
+  );
+}
+
+function toInternalAggregates(aggregateSpec: AggregateSpec): AggregateImpl[] {
+  return mapToArray(aggregateSpec, (aggregate, alias) => {
+    return new AggregateImpl(
+      alias,
+      aggregate.aggregateType,
+      aggregate._internalFieldPath
+    );
+  });
+}
+
 /**
  * Converts the core aggregation result to an `AggregateQuerySnapshot`
  * that can be returned to the consumer.
@@ -0,0 +1,308 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { getModularInstance } from '@firebase/util';
+
+import {
+  BulkWriterProgress,
+  BulkWriterRunner,
+  isRetryableBulkWriterError
+} from '../core/bulk_writer';
+import { firestoreClientBulkWriter } from '../core/firestore_client';
+import { FieldPath } from '../lite-api/field_path';
+import {
+  DocumentData,
+  DocumentReference,
+  PartialWithFieldValue,
+  SetOptions,
+  UpdateData,
+  WithFieldValue
+} from '../lite-api/reference';
+import { applyFirestoreDataConverter } from '../lite-api/reference_impl';
+import {
+  newUserDataReader,
+  parseSetData,
+  parseUpdateData,
+  parseUpdateVarargs,
+  UserDataReader
+} from '../lite-api/user_data_reader';
+import { validateReference } from '../lite-api/write_batch';
+import { DeleteMutation, Precondition } from '../model/mutation';
+import { Code, FirestoreError } from '../util/error';
+import { cast } from '../util/input_validation';
+
+import { ensureFirestoreConfigured, Firestore } from './database';
+
+export { BulkWriterProgress };
+
+/**
+ * Options to customize the behavior of a {@link BulkWriter}.
+ */
+export interface BulkWriterOptions {
+  /**
+   * The maximum number of writes per second. The `BulkWriter` starts with at
+   * most 500 writes per second and increases the rate by 50% every 5 minutes,
+   * as recommended by the "500/50/5" rule, until this limit is reached.
+   * Defaults to no limit.
+   */
+  readonly maxOpsPerSecond?: number;
+
+  /**
+   * Decides whether a failed commit is retried. Called with the error and the
+   * number of attempts made so far. Commits are attempted at most 10 times.
+   *
+   * By default, commits that failed due to transient errors or contention
+   * (`aborted`) are retried.
+   */
+  readonly retryPredicate?: (
+    error: FirestoreError,
+    attempts: number
+  ) => boolean;
+
+  /**
+   * Called with the aggregated progress of the `BulkWriter` whenever writes
+   * succeed, fail or are retried.
+   */
+  readonly onProgress?: (progress: BulkWriterProgress) => void;
+}
+
+/**
+ * A `BulkWriter` performs a large number of writes, such as a data import or
+ * migration. Writes are grouped into commits, sent at a rate that lets the
+ * backend scale up, and retried if they fail.
+ *
+ * Unlike writes performed with {@link WriteBatch} or `setDoc()`, the writes
+ * are not applied to the local cache and are not atomic: each write succeeds
+ * or fails together with the other writes of its commit only. If the client is
+ * offline, the writes are retried until they fail.
+ *
+ * A `BulkWriter` can be acquired by calling {@link bulkWriter}.
+ */
+export class BulkWriter {
+  private readonly _dataReader: UserDataReader;
+
+  /** @hideconstructor */
+  constructor(
+    private readonly _firestore: Firestore,
+    private readonly _runner: BulkWriterRunner
+  ) {
+    this._dataReader = newUserDataReader(_firestore);
+  }
+
+  /**
+   * Writes to the document referred to by the provided {@link
+   * DocumentReference}. If the document does not exist yet, it will be created.
+   *
+   * @param documentRef - A reference to the document to be set.
+   * @param data - An object of the fields and values for the document.
+   * @throws Error - If the provided input is not a valid Firestore document.
+   * @returns A `Promise` resolved once the write succeeded, or rejected once it
+   * failed and is not retried.
+   */
+  set<AppModelType, DbModelType extends DocumentData>(
+    documentRef: DocumentReference<AppModelType, DbModelType>,
+    data: WithFieldValue<AppModelType>
+  ): Promise<void>;
+  /**
+   * Writes to the document referred to by the provided {@link
+   * DocumentReference}. If the document does not exist yet, it will be created.
+   * If you provide `merge` or `mergeFields`, the provided data can be merged
+   * into an existing document.
+   *
+   * @param documentRef - A reference to the document to be set.
+   * @param data - An object of the fields and values for the document.
+   * @param options - An object to configure the set behavior.
+   * @throws Error - If the provided input is not a valid Firestore document.
+   * @returns A `Promise` resolved once the write succeeded, or rejected once it
+   * failed and is not retried.
+   */
+  set<AppModelType, DbModelType extends DocumentData>(
+    documentRef: DocumentReference<AppModelType, DbModelType>,
+    data: PartialWithFieldValue<AppModelType>,
+    options: SetOptions
+  ): Promise<void>;
+  set<AppModelType, DbModelType extends DocumentData>(
+    documentRef: DocumentReference<AppModelType, DbModelType>,
+    data: WithFieldValue<AppModelType> | PartialWithFieldValue<AppModelType>,
+    options?: SetOptions
+  ): Promise<void> {
+    const ref = validateReference(documentRef, this._firestore);
+    const convertedValue = applyFirestoreDataConverter(
+      ref.converter,
+      data,
+      options
+    );
+    const parsed = parseSetData(
+      this._dataReader,
+      'BulkWriter.set',
+      ref._key,
+      convertedValue,
+      ref.converter !== null,
+      options
+    );
+    return this._runner.enqueue(
+      parsed.toMutation(ref._key, Precondition.none())
+    );
+  }
+
+  /**
+   * Updates fields in the document referred to by the provided {@link
+   * DocumentReference}. The update will fail if applied to a document that does
+   * not exist.
+   *
+   * @param documentRef - A reference to the document to be updated.
+   * @param data - An object containing the fields and values with which to
+   * update the document. Fields can contain dots to reference nested fields
+   * within the document.
+   * @throws Error - If the provided input is not valid Firestore data.
+   * @returns A `Promise` resolved once the write succeeded, or rejected once it
+   * failed and is not retried.
+   */
+  update<AppModelType, DbModelType extends DocumentData>(
+    documentRef: DocumentReference<AppModelType, DbModelType>,
+    data: UpdateData<DbModelType>
+  ): Promise<void>;
+  /**
+   * Updates fields in the document referred to by this {@link
+   * DocumentReference}. The update will fail if applied to a document that does
+   * not exist.
+   *
+   * Nested fields can be update by providing dot-separated field path strings
+   * or by providing `FieldPath` objects.
+   *
+   * @param documentRef - A reference to the document to be updated.
+   * @param field - The first field to update.
+   * @param value - The first value.
+   * @param moreFieldsAndValues - Additional key value pairs.
+   * @throws Error - If the provided input is not valid Firestore data.
+   * @returns A `Promise` resolved once the write succeeded, or rejected once it
+   * failed and is not retried.
+   */
+  update<AppModelType, DbModelType extends DocumentData>(
+    documentRef: DocumentReference<AppModelType, DbModelType>,
+    field: string | FieldPath,
+    value: unknown,
+    ...moreFieldsAndValues: unknown[]
+  ): Promise<void>;
+  update<AppModelType, DbModelType extends DocumentData>(
+    documentRef: DocumentReference<AppModelType, DbModelType>,
+    fieldOrUpdateData: string | FieldPath | UpdateData<DbModelType>,
+    value?: unknown,
+    ...moreFieldsAndValues: unknown[]
+  ): Promise<void> {
+    const ref = validateReference(documentRef, this._firestore);
+
+    // For Compat types, we have to "extract" the underlying types before
+    // performing validation.
+    fieldOrUpdateData = getModularInstance(fieldOrUpdateData);
+
+    let parsed;
+    if (
+      typeof fieldOrUpdateData === 'string' ||
+      fieldOrUpdateData instanceof FieldPath
+    ) {
+      parsed = parseUpdateVarargs(
+        this._dataReader,
+        'BulkWriter.update',
+        ref._key,
+        fieldOrUpdateData,
+        value,
+        moreFieldsAndValues
+      );
+    } else {
+      parsed = parseUpdateData(
+        this._dataReader,
+        'BulkWriter.update',
+        ref._key,
+        fieldOrUpdateData
+      );
+    }
+
+    return this._runner.enqueue(
+      parsed.toMutation(ref._key, Precondition.exists(true))
+    );
+  }
+
+  /**
+   * Deletes the document referred to by the provided {@link DocumentReference}.
+   *
+   * @param documentRef - A reference to the document to be deleted.
+   * @returns A `Promise` resolved once the write succeeded, or rejected once it
+   * failed and is not retried.
+   */
+  delete<AppModelType, DbModelType extends DocumentData>(
+    documentRef: DocumentReference<AppModelType, DbModelType>
+  ): Promise<void> {
+    const ref = validateReference(documentRef, this._firestore);
+    return this._runner.enqueue(
+      new DeleteMutation(ref._key, Precondition.none())
+    );
+  }
+
+  /**
+   * Sends all writes that were added so far, without waiting for more writes
+   * to fill up a commit.
+   *
+   * @returns A `Promise` resolved once all of these writes succeeded or
+   * failed. The `Promise` is never rejected; use the `Promise` returned for
+   * each write to handle failures.
+   */
+  flush(): Promise<void> {
+    return this._runner.flush();
+  }
+
+  /**
+   * Sends all writes that were added so far and closes the `BulkWriter`. No
+   * writes can be added after `close()` is called.
+   *
+   * @returns A `Promise` resolved once all writes succeeded or failed.
+   */
+  close(): Promise<void> {
+    return this._runner.close();
+  }
+}
+
+/**
+ * Creates a {@link BulkWriter} to perform a large number of writes, such as a
+ * data import or migration.
+ *
+ * @param firestore - The Firestore instance to write to.
+ * @param options - Options to customize the rate limit and retries.
+ * @returns A `BulkWriter` that writes to the given Firestore instance.
+ */
+export function bulkWriter(
+  firestore: Firestore,
+  options: BulkWriterOptions = {}
+): BulkWriter {
+  firestore = cast(firestore, Firestore);
+  const maxOpsPerSecond = options.maxOpsPerSecond ?? Number.POSITIVE_INFINITY;
+  if (!(maxOpsPerSecond >= 1)) {
+    throw new FirestoreError(
+      Code.INVALID_ARGUMENT,
+      `maxOpsPerSecond must be at least 1, but it was: ${maxOpsPerSecond}.`
+    );
+  }
+  const client = ensureFirestoreConfigured(firestore);
+  return new BulkWriter(
+    firestore,
+    firestoreClientBulkWriter(client, {
+      maxOpsPerSecond,
+      retryPredicate: options.retryPredicate ?? isRetryableBulkWriterError,
+      onProgress: options.onProgress ?? null
+    })
+  );
+}
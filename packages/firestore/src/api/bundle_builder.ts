@@ -0,0 +1,211 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { isServerOnlyQuery } from '../core/query';
+import { SnapshotVersion } from '../core/snapshot_version';
+import { DocumentData } from '../lite-api/reference';
+import { BundleBuilder as BundleBuilderImpl } from '../util/bundle_builder_impl';
+import { Code, FirestoreError } from '../util/error';
+import { cast } from '../util/input_validation';
+
+import { Firestore } from './database';
+import { DocumentSnapshot, QuerySnapshot } from './snapshot';
+
+/**
+ * A `BundleBuilder` creates a Firestore data bundle from snapshots that were
+ * read with the client SDK, for example in a build pipeline that runs in
+ * Node.js. The resulting bundle can be served to clients and loaded with
+ * {@link loadBundle}. Queries added to the bundle can then be read from the
+ * cache with {@link namedQuery}.
+ *
+ * A `BundleBuilder` can be acquired by calling {@link createBundleBuilder}.
+ */
+export class BundleBuilder {
+  private readonly _queryNames = new Set<string>();
+
+  /** @hideconstructor */
+  constructor(
+    private readonly _firestore: Firestore,
+    private readonly _builder: BundleBuilderImpl
+  ) {}
+
+  /** The ID of the bundle, as passed to {@link createBundleBuilder}. */
+  get bundleId(): string {
+    return this._builder.bundleId;
+  }
+
+  /**
+   * Adds a document to the bundle. Snapshots of documents that do not exist
+   * are ignored.
+   *
+   * If the same document is added more than once, the version with the most
+   * recent read time is kept.
+   *
+   * @param documentSnapshot - A snapshot of the document to add.
+   * @throws FirestoreError if the snapshot belongs to a different Firestore
+   * instance or contains local modifications that have not been written to the
+   * backend yet.
+   * @returns This `BundleBuilder` instance. Used for chaining method calls.
+   */
+  add<AppModelType, DbModelType extends DocumentData>(
+    documentSnapshot: DocumentSnapshot<AppModelType, DbModelType>
+  ): BundleBuilder;
+  /**
+   * Adds a query and its results to the bundle. Once the bundle is loaded, the
+   * query can be retrieved by calling {@link namedQuery} with `queryName`.
+   *
+   * @param queryName - The name of the query. Must be unique within the
+   * bundle.
+   * @param querySnapshot - A snapshot of the query results to add.
+   * @throws FirestoreError if the query name is already used, if the snapshot
+   * belongs to a different Firestore instance, or if it contains local
+   * modifications that have not been written to the backend yet.
+   * @returns This `BundleBuilder` instance. Used for chaining method calls.
+   */
+  add<AppModelType, DbModelType extends DocumentData>(
+    queryName: string,
+    querySnapshot: QuerySnapshot<AppModelType, DbModelType>
+  ): BundleBuilder;
+  add<AppModelType, DbModelType extends DocumentData>(
+    documentSnapshotOrQueryName:
+      | DocumentSnapshot<AppModelType, DbModelType>
+      | string,
+    querySnapshot?: QuerySnapshot<AppModelType, DbModelType>
+  ): BundleBuilder {
+    if (typeof documentSnapshotOrQueryName === 'string') {
+      this._addQuery(
+        documentSnapshotOrQueryName,
+        cast<QuerySnapshot<AppModelType, DbModelType>>(
+          querySnapshot!,
+          QuerySnapshot
+        )
+      );
+    } else {
+      this._addDocument(
+        cast<DocumentSnapshot<AppModelType, DbModelType>>(
+          documentSnapshotOrQueryName,
+          DocumentSnapshot
+        )
+      );
+    }
+    return this;
+  }
+
+  /**
+   * Returns the bundle as a string in the length-prefixed JSON format that is
+   * accepted by {@link loadBundle}.
+   *
+   * The builder can still be used after calling `build()`. Subsequent calls
+   * return a bundle that also contains the snapshots added in the meantime.
+   */
+  build(): string {
+    return this._builder.build();
+  }
+
+  private _addDocument<AppModelType, DbModelType extends DocumentData>(
+    snapshot: DocumentSnapshot<AppModelType, DbModelType>
+  ): void {
+    this._validateSnapshot(snapshot._firestore, snapshot.metadata);
+    if (snapshot._document) {
+      this._builder.addBundleDocument(snapshot._document);
+    }
+  }
+
+  private _addQuery<AppModelType, DbModelType extends DocumentData>(
+    queryName: string,
+    snapshot: QuerySnapshot<AppModelType, DbModelType>
+  ): void {
+    if (queryName.length === 0) {
+      throw new FirestoreError(
+        Code.INVALID_ARGUMENT,
+        'Function BundleBuilder.add() cannot be called with an empty query ' +
+          'name.'
+      );
+    }
+    if (this._queryNames.has(queryName)) {
+      throw new FirestoreError(
+        Code.INVALID_ARGUMENT,
+        `Function BundleBuilder.add() cannot add query "${queryName}" because ` +
+          'the bundle already contains a query with that name.'
+      );
+    }
+    this._validateSnapshot(snapshot._firestore, snapshot.metadata);
+    if (isServerOnlyQuery(snapshot.query._query)) {
+      throw new FirestoreError(
+        Code.INVALID_ARGUMENT,
+        'Function BundleBuilder.add() cannot add the results of queries that ' +
+          'can only be executed by the server.'
+      );
+    }
+
+    let readTime = SnapshotVersion.min();
+    snapshot._snapshot.docs.forEach(doc => {
+      this._builder.addBundleDocument(doc, [queryName]);
+      if (doc.readTime.compareTo(readTime) > 0) {
+        readTime = doc.readTime;
+      }
+    });
+    this._builder.addBundleQuery(queryName, snapshot.query._query, readTime);
+    this._queryNames.add(queryName);
+  }
+
+  private _validateSnapshot(
+    firestore: Firestore,
+    metadata: { hasPendingWrites: boolean }
+  ): void {
+    if (!firestore._databaseId.isEqual(this._firestore._databaseId)) {
+      throw new FirestoreError(
+        Code.INVALID_ARGUMENT,
+        'Function BundleBuilder.add() cannot add snapshots from a different ' +
+          'Firestore database.'
+      );
+    }
+    if (metadata.hasPendingWrites) {
+      throw new FirestoreError(
+        Code.FAILED_PRECONDITION,
+        'Function BundleBuilder.add() cannot add snapshots with pending ' +
+          'writes. Await waitForPendingWrites() before reading the snapshot.'
+      );
+    }
+  }
+}
+
+/**
+ * Creates a {@link BundleBuilder} to produce a Firestore data bundle from
+ * snapshots read with this Firestore instance.
+ *
+ * @param firestore - The Firestore instance the snapshots are read from.
+ * @param bundleId - The ID of the bundle. Clients skip loading a bundle if they
+ * already loaded a bundle with the same ID that is at least as recent.
+ * @returns A `BundleBuilder` for the given Firestore instance.
+ */
+export function createBundleBuilder(
+  firestore: Firestore,
+  bundleId: string
+): BundleBuilder {
+  firestore = cast(firestore, Firestore);
+  if (bundleId.length === 0) {
+    throw new FirestoreError(
+      Code.INVALID_ARGUMENT,
+      'Function createBundleBuilder() cannot be called with an empty bundle ID.'
+    );
+  }
+  return new BundleBuilder(
+    firestore,
+    new BundleBuilderImpl(firestore._databaseId, bundleId)
+  );
+}
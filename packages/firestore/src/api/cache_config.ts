@@ -23,6 +23,8 @@ import {
   OfflineComponentProvider,
   OnlineComponentProvider
 } from '../core/component_provider';
+import { newFileKeyValueStore } from '../platform/key_value_store';
+import { Code, FirestoreError } from '../util/error';
 
 /* eslint @typescript-eslint/consistent-type-definitions: ["error", "type"] */
 /**
@@ -72,7 +74,8 @@ class MemoryLocalCacheImpl implements MemoryLocalCache {
 }
 
 /**
- * Provides a persistent cache backed by IndexedDb to the SDK.
+ * Provides a persistent cache backed by IndexedDb, or by the key-value store
+ * configured in `PersistentCacheSettings.storage`, to the SDK.
  *
  * To use, create an instance using the factory function {@link persistentLocalCache()}, then
  * set the instance to `FirestoreSettings.cache` and call `initializeFirestore` using
@@ -246,10 +249,30 @@ export function memoryLocalCache(
   return new MemoryLocalCacheImpl(settings);
 }
 
+/**
+ * An asynchronous key-value store that a `PersistentLocalCache` can persist
+ * its data to instead of IndexedDB. React Native's `AsyncStorage` implements
+ * this interface, and {@link fileKeyValueStore()} provides an implementation
+ * that stores its entries in a directory in Node.js.
+ *
+ * The cached data is split into values of at most a few hundred kilobytes
+ * (unless a single document is larger), and a write only replaces the values
+ * that hold the changed data.
+ */
+export type PersistentKeyValueStore = {
+  /** Returns the value stored for `key`, or `null` if there is none. */
+  getItem(key: string): Promise<string | null>;
+  /** Stores `value` under `key`, replacing any existing value. */
+  setItem(key: string, value: string): Promise<void>;
+  /** Removes the value stored for `key`, if any. */
+  removeItem(key: string): Promise<void>;
+};
+
 /**
  * An settings object to configure an `PersistentLocalCache` instance.
  *
- * Persistent cache cannot be used in a Node.js environment.
+ * Persistent cache can only be used in a Node.js environment if `storage` is
+ * set.
  */
 export type PersistentCacheSettings = {
   /**
@@ -268,13 +291,29 @@ export type PersistentCacheSettings = {
    * Specifies how multiple tabs/windows will be managed by the SDK.
    */
   tabManager?: PersistentTabManager;
+
+  /**
+   * A key-value store to persist the cache to instead of IndexedDB. This
+   * allows using the persistent cache, including offline writes, on platforms
+   * that do not support IndexedDB.
+   *
+   * The cached data is held in memory and written to the store whenever it
+   * changes. A store can only be used by one Firestore instance at a time,
+   * and cannot be combined with `persistentMultipleTabManager()`. Stores
+   * created with `fileKeyValueStore()` are locked for the instance, also
+   * against other processes, until the instance is terminated or its process
+   * exits. Other stores are only locked within the current JavaScript
+   * environment.
+   */
+  storage?: PersistentKeyValueStore;
 };
 
 /**
  * Creates an instance of `PersistentLocalCache`. The instance can be set to
  * `FirestoreSettings.cache` to tell the SDK which cache layer to use.
  *
- * Persistent cache cannot be used in a Node.js environment.
+ * Persistent cache can only be used in a Node.js environment if
+ * `PersistentCacheSettings.storage` is set.
  */
 export function persistentLocalCache(
   settings?: PersistentCacheSettings
@@ -332,7 +371,8 @@ class SingleTabManagerImpl implements PersistentSingleTabManager {
     this._offlineComponentProvider = new IndexedDbOfflineComponentProvider(
       this._onlineComponentProvider,
       settings?.cacheSizeBytes,
-      this.forceOwnership
+      this.forceOwnership,
+      settings?.storage
     );
   }
 }
@@ -380,6 +420,12 @@ class MultiTabManagerImpl implements PersistentMultipleTabManager {
   _initialize(
     settings: Omit<PersistentCacheSettings, 'tabManager'> | undefined
   ): void {
+    if (settings?.storage) {
+      throw new FirestoreError(
+        Code.INVALID_ARGUMENT,
+        'persistentMultipleTabManager() cannot be used with a custom storage.'
+      );
+    }
     this._onlineComponentProvider = new OnlineComponentProvider();
     this._offlineComponentProvider = new MultiTabOfflineComponentProvider(
       this._onlineComponentProvider,
@@ -424,3 +470,18 @@ export function persistentSingleTabManager(
 export function persistentMultipleTabManager(): PersistentMultipleTabManager {
   return new MultiTabManagerImpl();
 }
+
+/**
+ * Creates a `PersistentKeyValueStore` that saves its entries as files in
+ * `directory`, which is created if it does not exist. The store can be set
+ * as `PersistentCacheSettings.storage` to use the persistent cache in
+ * Node.js. Pending writes then survive process restarts and are sent when the
+ * SDK is next started with the same directory.
+ *
+ * This function is only available in Node.js.
+ *
+ * @param directory - The directory to save the cache in.
+ */
+export function fileKeyValueStore(directory: string): PersistentKeyValueStore {
+  return newFileKeyValueStore(directory);
+}
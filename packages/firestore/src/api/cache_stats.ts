@@ -0,0 +1,95 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  firestoreClientCollectGarbage,
+  firestoreClientGetCacheStats
+} from '../core/firestore_client';
+import { CacheStats } from '../local/local_store_impl';
+import { Code, FirestoreError } from '../util/error';
+import { cast } from '../util/input_validation';
+
+import { ensureFirestoreConfigured, Firestore } from './database';
+
+export { CacheStats };
+
+/**
+ * Options to customize the behavior of {@link collectGarbage}.
+ */
+export interface CollectGarbageOptions {
+  /**
+   * The size in bytes that the cache should be reduced to. Defaults to the
+   * `cacheSizeBytes` of the configured cache.
+   */
+  readonly targetBytes?: number;
+}
+
+/**
+ * The result of a garbage collection run started with {@link collectGarbage}.
+ */
+export interface GarbageCollectionResult {
+  /** The number of documents removed from the cache. */
+  readonly documentsRemoved: number;
+  /** The number of query targets removed from the cache. */
+  readonly targetsRemoved: number;
+}
+
+/**
+ * Returns statistics about the contents of the local cache, such as the number
+ * of cached documents and their estimated size.
+ *
+ * @param firestore - The Firestore instance whose cache is inspected.
+ * @returns A `Promise` resolved with the statistics of the cache.
+ */
+export function getCacheStats(firestore: Firestore): Promise<CacheStats> {
+  firestore = cast(firestore, Firestore);
+  const client = ensureFirestoreConfigured(firestore);
+  return firestoreClientGetCacheStats(client);
+}
+
+/**
+ * Removes the least recently used documents and queries from the local cache
+ * until its size is below the target size, instead of waiting for the next
+ * scheduled garbage collection. Documents that are part of an active listener
+ * or have pending writes are never removed.
+ *
+ * This has no effect if the cache uses eager garbage collection, which is the
+ * default for the memory cache.
+ *
+ * @param firestore - The Firestore instance whose cache is collected.
+ * @param options - Options to set the size the cache should be reduced to.
+ * @returns A `Promise` resolved with the number of removed documents and
+ * queries once garbage collection finished.
+ */
+export function collectGarbage(
+  firestore: Firestore,
+  options: CollectGarbageOptions = {}
+): Promise<GarbageCollectionResult> {
+  firestore = cast(firestore, Firestore);
+  const targetBytes = options.targetBytes;
+  if (targetBytes !== undefined && !(targetBytes >= 0)) {
+    throw new FirestoreError(
+      Code.INVALID_ARGUMENT,
+      `targetBytes must be at least 0, but it was: ${targetBytes}.`
+    );
+  }
+  const client = ensureFirestoreConfigured(firestore);
+  return firestoreClientCollectGarbage(client, targetBytes).then(results => ({
+    documentsRemoved: results.documentsRemoved,
+    targetsRemoved: results.targetsRemoved
+  }));
+}
@@ -36,12 +36,14 @@ import {
   FirestoreClient,
   firestoreClientDisableNetwork,
   firestoreClientEnableNetwork,
+  firestoreClientExportCacheAsBundle,
   firestoreClientGetNamedQuery,
   firestoreClientLoadBundle,
   firestoreClientWaitForPendingWrites,
   setOfflineComponentProvider,
   setOnlineComponentProvider
 } from '../core/firestore_client';
+import { isServerOnlyQuery, Query as InternalQuery } from '../core/query';
 import { makeDatabaseInfo } from '../lite-api/components';
 import {
   Firestore as LiteFirestore,
@@ -491,8 +493,16 @@ export function clearIndexedDbPersistence(firestore: Firestore): Promise<void> {
   const deferred = new Deferred<void>();
   firestore._queue.enqueueAndForgetEvenWhileRestricted(async () => {
     try {
+      const offlineComponentProvider =
+        firestore._getSettings().localCache?._offlineComponentProvider;
       await indexedDbClearPersistence(
-        indexedDbStoragePrefix(firestore._databaseId, firestore._persistenceKey)
+        indexedDbStoragePrefix(
+          firestore._databaseId,
+          firestore._persistenceKey
+        ),
+        offlineComponentProvider instanceof IndexedDbOfflineComponentProvider
+          ? offlineComponentProvider.storage
+          : null
       );
       deferred.resolve();
     } catch (e) {
@@ -608,6 +618,56 @@ export function loadBundle(
   return resultTask;
 }
 
+/**
+ * Options that configure how the local cache is exported with
+ * {@link exportCacheAsBundle}.
+ */
+export interface ExportCacheAsBundleOptions {
+  /**
+   * Queries to save as named queries in the bundle, keyed by name. Their
+   * results are computed from the documents in the cache, and can be read with
+   * {@link namedQuery} once the bundle is loaded.
+   */
+  readonly queries?: Record<string, Query<unknown>>;
+}
+
+/**
+ * Exports the documents in the local cache as a Firestore bundle, which can be
+ * loaded into the cache of another client with {@link loadBundle}. This allows
+ * apps to ship a pre-populated cache, or to inspect the cache of a client.
+ *
+ * The bundle contains the documents as last received from the backend and the
+ * documents that are known to not exist. Pending writes are not included.
+ *
+ * @param firestore - The {@link Firestore} instance to export the cache of.
+ * @param options - Options to add named queries to the bundle.
+ * @returns A `Promise` that is resolved with the bundle.
+ */
+export function exportCacheAsBundle(
+  firestore: Firestore,
+  options: ExportCacheAsBundleOptions = {}
+): Promise<string> {
+  firestore = cast(firestore, Firestore);
+  const queries = new Map<string, InternalQuery>();
+  for (const name of Object.keys(options.queries ?? {})) {
+    const query = cast<Query<unknown>>(options.queries![name], Query);
+    if (isServerOnlyQuery(query._query)) {
+      throw new FirestoreError(
+        Code.INVALID_ARGUMENT,
+        `Query "${name}" cannot be exported since its results are only ` +
+          'available from the server.'
+      );
+    }
+    queries.set(name, query._query);
+  }
+  const client = ensureFirestoreConfigured(firestore);
+  return firestoreClientExportCacheAsBundle(
+    client,
+    firestore._databaseId,
+    queries
+  );
+}
+
 /**
  * Reads a Firestore {@link Query} from local cache, identified by the given
  * name.
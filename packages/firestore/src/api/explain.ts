@@ -0,0 +1,176 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  ExecutionStats,
+  ExplainMetrics as InternalExplainMetrics,
+  ExplainOptions as InternalExplainOptions,
+  PlanSummary
+} from '../core/explain_metrics';
+import { firestoreClientExplainLocalQuery } from '../core/firestore_client';
+import { DocumentData, Query } from '../lite-api/reference';
+import { QueryStrategy } from '../local/query_context';
+import { fail } from '../util/assert';
+import { cast } from '../util/input_validation';
+
+import { ensureFirestoreConfigured, Firestore } from './database';
+import { Index, toIndex } from './index_configuration';
+
+export { ExecutionStats, PlanSummary };
+
+/**
+ * Options that control how a query is explained by the backend.
+ */
+export interface ExplainOptions {
+  /**
+   * Whether to execute the query. If `false` (the default), the query is only
+   * planned and no results are returned. If `true`, the query is executed and
+   * the results are returned along with execution statistics.
+   */
+  readonly analyze?: boolean;
+}
+
+/**
+ * An options object that can be passed to {@link getDocs} and
+ * {@link getAggregateFromServer} to request query explain metrics.
+ */
+export interface ExplainQueryOptions {
+  /** The options used to explain the query. */
+  readonly explainOptions: ExplainOptions;
+}
+
+/**
+ * The planning and execution metrics the backend returned for an explained
+ * query.
+ */
+export class ExplainMetrics {
+  /** @hideconstructor */
+  constructor(
+    /** The summary of the query plan, including the indexes used. */
+    readonly planSummary: PlanSummary,
+    /**
+     * The execution statistics of the query, or `null` if the query was not
+     * analyzed.
+     */
+    readonly executionStats: ExecutionStats | null
+  ) {}
+}
+
+/**
+ * The result of an explained query: the explain metrics and, if the query was
+ * analyzed, its results.
+ */
+export class ExplainResults<T> {
+  /** @hideconstructor */
+  constructor(
+    /** The metrics the backend returned for the query. */
+    readonly metrics: ExplainMetrics,
+    /**
+     * The results of the query, or `null` if the query was not analyzed.
+     */
+    readonly snapshot: T | null
+  ) {}
+}
+
+export function toInternalExplainOptions(
+  options: ExplainQueryOptions
+): InternalExplainOptions {
+  return { analyze: options.explainOptions.analyze ?? false };
+}
+
+export function toExplainMetrics(
+  explainMetrics: InternalExplainMetrics
+): ExplainMetrics {
+  return new ExplainMetrics(
+    explainMetrics.planSummary,
+    explainMetrics.executionStats
+  );
+}
+
+/**
+ * The strategies the SDK uses to execute a query against the local cache:
+ *
+ * - `INDEX`: The query was served from the cache indexes, either configured
+ *   via `setIndexConfiguration()` or created automatically.
+ * - `PREVIOUS_RESULTS`: The query re-used the results of its last snapshot
+ *   from the server, plus the documents that changed since.
+ * - `FULL_COLLECTION_SCAN`: All cached documents of the collection were
+ *   scanned.
+ */
+export type LocalQueryStrategy =
+  | 'INDEX'
+  | 'PREVIOUS_RESULTS'
+  | 'FULL_COLLECTION_SCAN';
+
+/** Describes how the SDK executed a query against the local cache. */
+export interface LocalQueryExplanation {
+  /** The strategy used to execute the query. */
+  readonly strategy: LocalQueryStrategy;
+  /** The number of cached documents read to execute the query. */
+  readonly documentsScanned: number;
+  /** The number of documents in the query result. */
+  readonly documentsReturned: number;
+  /** The cache indexes used if `strategy` is `INDEX`. */
+  readonly indexesUsed: Index[];
+  /**
+   * Whether executing the query caused the SDK to create cache indexes. This
+   * only happens if persistent cache index auto-creation is enabled.
+   */
+  readonly indexAutoCreationTriggered: boolean;
+}
+
+/**
+ * Executes the query against the local cache and reports how it was executed:
+ * the strategy the SDK selected, the number of documents scanned and
+ * returned, and the cache indexes used.
+ *
+ * Like `getDocsFromCache()`, this may create cache indexes if persistent cache
+ * index auto-creation is enabled.
+ *
+ * @param query - The query to explain.
+ * @returns A `Promise` that will be resolved with the explanation.
+ */
+export function explainLocalQuery<
+  AppModelType,
+  DbModelType extends DocumentData
+>(query: Query<AppModelType, DbModelType>): Promise<LocalQueryExplanation> {
+  query = cast<Query<AppModelType, DbModelType>>(query, Query);
+  const firestore = cast(query.firestore, Firestore);
+  const client = ensureFirestoreConfigured(firestore);
+  return firestoreClientExplainLocalQuery(client, query._query).then(
+    ({ context, documentCount }) => ({
+      strategy: toLocalQueryStrategy(context.strategy!),
+      documentsScanned: context.documentReadCount,
+      documentsReturned: documentCount,
+      indexesUsed: context.indexesUsed.map(toIndex),
+      indexAutoCreationTriggered: context.indexAutoCreationTriggered
+    })
+  );
+}
+
+function toLocalQueryStrategy(strategy: QueryStrategy): LocalQueryStrategy {
+  switch (strategy) {
+    case QueryStrategy.Index:
+      return 'INDEX';
+    case QueryStrategy.PreviousResults:
+      return 'PREVIOUS_RESULTS';
+    case QueryStrategy.FullCollectionScan:
+      return 'FULL_COLLECTION_SCAN';
+    default:
+      return fail('Unknown query strategy: ' + strategy);
+  }
+}
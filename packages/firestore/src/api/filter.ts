@@ -19,6 +19,8 @@ export {
   and,
   endAt,
   endBefore,
+  findNearest,
+  FindNearestOptions,
   startAfter,
   startAt,
   limitToLast,
@@ -38,5 +40,9 @@ export {
   QueryLimitConstraint,
   QueryStartAtConstraint,
   QueryEndAtConstraint,
-  QueryNonFilterConstraint
+  QueryFindNearestConstraint,
+  QueryNonFilterConstraint,
+  QuerySelectConstraint,
+  select,
+  VectorDistanceMeasure
 } from '../lite-api/query';
@@ -231,6 +231,23 @@ export function parseIndexes(
   return parsedIndexes;
 }
 
+/** Converts a `FieldIndex` into the format used by `setIndexConfiguration()`. */
+export function toIndex(fieldIndex: FieldIndex): Index {
+  return {
+    collectionGroup: fieldIndex.collectionGroup,
+    fields: fieldIndex.fields.map(segment => {
+      const fieldPath = segment.fieldPath.canonicalString();
+      if (segment.kind === IndexKind.CONTAINS) {
+        return { fieldPath, arrayConfig: 'CONTAINS' };
+      }
+      return {
+        fieldPath,
+        order: segment.kind === IndexKind.ASCENDING ? 'ASCENDING' : 'DESCENDING'
+      };
+    })
+  };
+}
+
 function tryParseJson(json: string): Record<string, unknown> {
   try {
     return JSON.parse(json);
@@ -0,0 +1,435 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Bound } from '../core/bound';
+import { Direction } from '../core/order_by';
+import {
+  isServerOnlyQuery,
+  LimitType,
+  Query as InternalQuery,
+  queryNormalizedOrderBy,
+  queryWithLimit,
+  queryWithStartAt
+} from '../core/query';
+import {
+  newQueryBoundFromDocument,
+  validateHasExplicitOrderByForLimitToLast
+} from '../lite-api/query';
+import { DocumentData, Query } from '../lite-api/reference';
+import { normalizeByteString } from '../model/normalize';
+import { Value as ProtoValue } from '../protos/firestore_proto_api';
+import { Code, FirestoreError } from '../util/error';
+import { cast, validatePositiveNumber } from '../util/input_validation';
+import { forEach } from '../util/obj';
+
+import { Firestore } from './database';
+import { getDocs } from './reference_impl';
+import { QuerySnapshot } from './snapshot';
+
+// Declares `Symbol.asyncIterator` so that the typings of `QueryPaginator`
+// compile without the `es2018.asynciterable` lib.
+declare global {
+  interface SymbolConstructor {
+    readonly asyncIterator: unique symbol;
+  }
+}
+
+const PAGE_CURSOR_JSON_TYPE = 'firestore/pageCursor/1.0';
+
+/** The JSON representation of a `PageCursor`, as returned by `toJSON()`. */
+interface PageCursorJson {
+  /** The kind and schema version of the serialized cursor. */
+  type: string;
+  /**
+   * The canonical field paths and directions of the query's normalized
+   * order-by clauses.
+   */
+  orderBy: Array<[string, Direction]>;
+  /** The values of the last document returned, one per order-by clause. */
+  position: ProtoValue[];
+}
+
+/**
+ * A `PageCursor` marks the position after the last document returned by a
+ * {@link QueryPaginator}. Pass it to {@link paginate} to resume reading pages
+ * from this position, for example after navigating back to a screen.
+ *
+ * Cursors can be serialized with `toJSON()` and restored with
+ * {@link PageCursor.fromJSON}, which allows pagination to be resumed on a
+ * different client or on the server.
+ */
+export class PageCursor {
+  /** @hideconstructor */
+  constructor(
+    readonly _orderBy: Array<[string, Direction]>,
+    readonly _position: Bound
+  ) {}
+
+  /**
+   * Creates a `PageCursor` from the JSON representation returned by
+   * {@link PageCursor.toJSON}.
+   *
+   * @param json - The result of `PageCursor.toJSON()`.
+   * @returns The restored `PageCursor`.
+   */
+  static fromJSON(json: object): PageCursor {
+    const cursorJson = json as Partial<PageCursorJson>;
+    if (
+      cursorJson.type !== PAGE_CURSOR_JSON_TYPE ||
+      !Array.isArray(cursorJson.orderBy) ||
+      !Array.isArray(cursorJson.position) ||
+      cursorJson.orderBy.length !== cursorJson.position.length ||
+      !cursorJson.orderBy.every(isOrderByJson) ||
+      !cursorJson.position.every(isValueJson)
+    ) {
+      throw new FirestoreError(
+        Code.INVALID_ARGUMENT,
+        'Function PageCursor.fromJSON() requires its argument to be the ' +
+          'result of PageCursor.toJSON().'
+      );
+    }
+    return new PageCursor(
+      cursorJson.orderBy,
+      new Bound(cursorJson.position, /* inclusive= */ false)
+    );
+  }
+
+  /** Returns a JSON-serializable representation of this `PageCursor`. */
+  toJSON(): object {
+    const json: PageCursorJson = {
+      type: PAGE_CURSOR_JSON_TYPE,
+      orderBy: this._orderBy,
+      position: this._position.position.map(toJsonValue)
+    };
+    return json;
+  }
+}
+
+/**
+ * Options to customize the pages returned by {@link paginate}.
+ */
+export interface PaginateOptions {
+  /** The maximum number of documents per page. */
+  readonly pageSize: number;
+
+  /**
+   * A cursor returned by a previous {@link QueryPaginator} for the same query.
+   * If set, pagination resumes after the last document of the page that was
+   * read when the cursor was created.
+   */
+  readonly startAfter?: PageCursor;
+}
+
+/**
+ * The result of reading from a {@link PageIterator}: either the next page, or
+ * `done` once all pages have been read.
+ */
+export type PageIteratorResult<T> =
+  | { done: false; value: T }
+  | { done: true; value: undefined };
+
+/**
+ * An iterator over the pages of a {@link QueryPaginator}, as returned by its
+ * `[Symbol.asyncIterator]()` method.
+ */
+export interface PageIterator<T> {
+  /** Reads the next page. */
+  next(): Promise<PageIteratorResult<T>>;
+}
+
+/**
+ * A `QueryPaginator` reads the results of a query in pages, using cursors to
+ * continue each page after the last document of the previous page. The pages
+ * are read with `getDocs()` when they are iterated:
+ *
+ * ```
+ * for await (const page of paginate(query, { pageSize: 20 })) {
+ *   render(page.docs);
+ * }
+ * ```
+ *
+ * A `QueryPaginator` can be acquired by calling {@link paginate}. All
+ * iterators of a `QueryPaginator` share its position.
+ */
+export class QueryPaginator<
+  AppModelType = DocumentData,
+  DbModelType extends DocumentData = DocumentData
+> {
+  private _done = false;
+  // The page that is being read, which the next page waits for.
+  private _pendingPage: Promise<unknown> = Promise.resolve();
+
+  /** @hideconstructor */
+  constructor(
+    /** The query whose results are paginated. */
+    readonly query: Query<AppModelType, DbModelType>,
+    private readonly _pageSize: number,
+    private _cursor: PageCursor | null
+  ) {}
+
+  /**
+   * The cursor after the last document returned so far, or the cursor that
+   * was passed to {@link paginate} if no page has been read yet. `null` if no
+   * document has been read.
+   */
+  get cursor(): PageCursor | null {
+    return this._cursor;
+  }
+
+  /**
+   * Reads the next page of results.
+   *
+   * @returns A `Promise` resolved with the next page, or with `null` once all
+   * results have been read.
+   */
+  nextPage(): Promise<QuerySnapshot<AppModelType, DbModelType> | null> {
+    // Pages are read one after the other, so that overlapping calls continue
+    // after the page returned by the previous call.
+    const page = this._pendingPage.then(() => this._readNextPage());
+    this._pendingPage = page.catch(() => {});
+    return page;
+  }
+
+  private async _readNextPage(): Promise<QuerySnapshot<
+    AppModelType,
+    DbModelType
+  > | null> {
+    if (this._done) {
+      return null;
+    }
+
+    let query = queryWithLimit(
+      this.query._query,
+      this._pageSize,
+      LimitType.First
+    );
+    if (this._cursor) {
+      query = queryWithStartAt(query, this._cursor._position);
+    }
+    const snapshot = await getDocs(
+      new Query(this.query.firestore, this.query.converter, query)
+    );
+
+    const lastDocument = snapshot._snapshot.docs.last();
+    if (lastDocument) {
+      this._cursor = new PageCursor(
+        encodeOrderBy(query),
+        newQueryBoundFromDocument(
+          query,
+          this.query.firestore._databaseId,
+          'paginate',
+          lastDocument,
+          /* inclusive= */ false
+        )
+      );
+    }
+    if (snapshot.size < this._pageSize) {
+      this._done = true;
+    }
+    return snapshot.empty ? null : snapshot;
+  }
+
+  /**
+   * Returns an iterator over the pages that have not been read yet, which
+   * allows the paginator to be used in a `for await` loop.
+   */
+  [Symbol.asyncIterator](): PageIterator<
+    QuerySnapshot<AppModelType, DbModelType>
+  > {
+    return {
+      next: async () => {
+        const page = await this.nextPage();
+        return page
+          ? { done: false, value: page }
+          : { done: true, value: undefined };
+      }
+    };
+  }
+}
+
+/**
+ * Reads the results of the query in pages of `pageSize` documents.
+ *
+ * The query may specify order-by clauses, filters and a starting position, but
+ * not a limit, `findNearest()` or `select()`. Pages are ordered by the query's
+ * order-by clauses and the document ID.
+ *
+ * @param query - The query to paginate.
+ * @param options - The size of the pages and an optional cursor to resume
+ * from.
+ * @returns A `QueryPaginator` that reads the pages when they are iterated.
+ */
+export function paginate<AppModelType, DbModelType extends DocumentData>(
+  query: Query<AppModelType, DbModelType>,
+  options: PaginateOptions
+): QueryPaginator<AppModelType, DbModelType> {
+  query = cast<Query<AppModelType, DbModelType>>(query, Query);
+  cast(query.firestore, Firestore);
+  validateHasExplicitOrderByForLimitToLast(query._query);
+  validatePositiveNumber('paginate', options.pageSize);
+  if (query._query.findNearest !== null) {
+    throw new FirestoreError(
+      Code.INVALID_ARGUMENT,
+      'Function paginate() cannot be called with a findNearest() query.'
+    );
+  }
+  // The pages of server-only queries bypass the cache, and their documents
+  // may not contain the fields that are needed to build the cursors.
+  if (isServerOnlyQuery(query._query)) {
+    throw new FirestoreError(
+      Code.INVALID_ARGUMENT,
+      'Function paginate() cannot be called with a select() query or any ' +
+        'other query that can only be executed by the server.'
+    );
+  }
+  if (query._query.limit !== null) {
+    throw new FirestoreError(
+      Code.INVALID_ARGUMENT,
+      'Function paginate() cannot be called with a query that has a limit.'
+    );
+  }
+
+  const cursor = options.startAfter ?? null;
+  if (cursor) {
+    const orderBy = encodeOrderBy(query._query);
+    const matches =
+      orderBy.length === cursor._orderBy.length &&
+      orderBy.every(
+        ([field, dir], i) =>
+          field === cursor._orderBy[i][0] && dir === cursor._orderBy[i][1]
+      );
+    if (!matches) {
+      throw new FirestoreError(
+        Code.INVALID_ARGUMENT,
+        'Function paginate() requires the "startAfter" cursor to be created ' +
+          'for a query with the same order-by clauses.'
+      );
+    }
+  }
+  return new QueryPaginator(query, options.pageSize, cursor);
+}
+
+function isOrderByJson(orderBy: unknown): boolean {
+  return (
+    Array.isArray(orderBy) &&
+    orderBy.length === 2 &&
+    typeof orderBy[0] === 'string' &&
+    (orderBy[1] === Direction.ASCENDING || orderBy[1] === Direction.DESCENDING)
+  );
+}
+
+function isNumberJson(value: unknown): boolean {
+  return (
+    typeof value === 'number' ||
+    (typeof value === 'string' && /^-?\d+$/.test(value))
+  );
+}
+
+function isObjectJson(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Returns whether `value` is a `Value` proto as written by `toJsonValue()`,
+ * with exactly one value field of the expected type.
+ */
+function isValueJson(value: unknown): boolean {
+  if (!isObjectJson(value)) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  if (keys.length !== 1) {
+    return false;
+  }
+  const field = value[keys[0]];
+  switch (keys[0]) {
+    case 'nullValue':
+      return field === null || field === 'NULL_VALUE';
+    case 'booleanValue':
+      return typeof field === 'boolean';
+    case 'integerValue':
+      return isNumberJson(field);
+    case 'doubleValue':
+      return (
+        typeof field === 'number' ||
+        field === 'NaN' ||
+        field === 'Infinity' ||
+        field === '-Infinity'
+      );
+    case 'timestampValue':
+      return (
+        typeof field === 'string' ||
+        (isObjectJson(field) &&
+          isNumberJson(field.seconds) &&
+          (field.nanos === undefined || typeof field.nanos === 'number'))
+      );
+    case 'stringValue':
+    case 'bytesValue':
+    case 'referenceValue':
+      return typeof field === 'string';
+    case 'geoPointValue':
+      return (
+        isObjectJson(field) &&
+        typeof (field.latitude ?? 0) === 'number' &&
+        typeof (field.longitude ?? 0) === 'number'
+      );
+    case 'arrayValue':
+      return (
+        isObjectJson(field) &&
+        (field.values === undefined ||
+          (Array.isArray(field.values) && field.values.every(isValueJson)))
+      );
+    case 'mapValue':
+      return (
+        isObjectJson(field) &&
+        (field.fields === undefined ||
+          (isObjectJson(field.fields) &&
+            Object.values(field.fields).every(isValueJson)))
+      );
+    default:
+      return false;
+  }
+}
+
+function encodeOrderBy(query: InternalQuery): Array<[string, Direction]> {
+  return queryNormalizedOrderBy(query).map(orderBy => [
+    orderBy.field.canonicalString(),
+    orderBy.dir
+  ]);
+}
+
+/**
+ * Returns a copy of `value` that survives a round trip through
+ * `JSON.stringify()`. Bytes are encoded as base64 strings, which are accepted
+ * wherever bytes values are read.
+ */
+function toJsonValue(value: ProtoValue): ProtoValue {
+  if ('bytesValue' in value) {
+    return { bytesValue: normalizeByteString(value.bytesValue!).toBase64() };
+  } else if ('arrayValue' in value) {
+    return {
+      arrayValue: { values: (value.arrayValue!.values || []).map(toJsonValue) }
+    };
+  } else if ('mapValue' in value) {
+    const fields: Record<string, ProtoValue> = {};
+    forEach(value.mapValue!.fields || {}, (key, field) => {
+      fields[key] = toJsonValue(field);
+    });
+    return { mapValue: { fields } };
+  }
+  return value;
+}
@@ -0,0 +1,206 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  firestoreClientAddWriteRejectedListener,
+  firestoreClientDiscardPendingWrite,
+  firestoreClientGetPendingWrites
+} from '../core/firestore_client';
+import { DocumentData, DocumentReference } from '../lite-api/reference';
+import { Timestamp } from '../lite-api/timestamp';
+import {
+  Mutation,
+  MutationType,
+  PatchMutation,
+  SetMutation
+} from '../model/mutation';
+import { MutationBatch } from '../model/mutation_batch';
+import { fail } from '../util/assert';
+import { FirestoreError } from '../util/error';
+import { cast } from '../util/input_validation';
+
+import { ensureFirestoreConfigured, Firestore } from './database';
+import { ExpUserDataWriter, Unsubscribe } from './reference_impl';
+
+/**
+ * A write to a single document that is part of a {@link PendingWrite}.
+ */
+export interface PendingWriteOperation {
+  /**
+   * The type of the write: `'set'` for `setDoc()` and `addDoc()`, `'update'`
+   * for `updateDoc()` and `setDoc()` with merge, and `'delete'` for
+   * `deleteDoc()`.
+   */
+  readonly type: 'set' | 'update' | 'delete';
+
+  /** The document that is written. */
+  readonly documentRef: DocumentReference<DocumentData, DocumentData>;
+
+  /**
+   * The fields written by a `'set'` or `'update'` write, where updated nested
+   * fields are represented as nested objects. Fields that are written with a
+   * sentinel such as `serverTimestamp()` or `deleteField()` are not included.
+   */
+  readonly data?: DocumentData;
+}
+
+/**
+ * A write that was applied to the local cache but has not yet been
+ * acknowledged by the backend. Writes made in a single `WriteBatch` form a
+ * single pending write.
+ */
+export interface PendingWrite {
+  /**
+   * The ID of the pending write, which can be passed to
+   * {@link discardPendingWrite}. IDs increase in the order in which the writes
+   * were made.
+   */
+  readonly batchId: number;
+
+  /** The time at which the write was made locally. */
+  readonly localWriteTime: Timestamp;
+
+  /** The writes to the individual documents, in the order they are applied. */
+  readonly operations: PendingWriteOperation[];
+}
+
+/**
+ * A write that was rejected by the backend, for example because it was not
+ * allowed by the security rules.
+ */
+export interface RejectedWrite extends PendingWrite {
+  /** The error with which the backend rejected the write. */
+  readonly error: FirestoreError;
+}
+
+/**
+ * Returns the writes of the current user that have not yet been acknowledged
+ * by the backend, including those made in a previous app session, in the order
+ * in which they will be sent.
+ *
+ * @param firestore - The `Firestore` instance to get the pending writes of.
+ * @returns A `Promise` resolved with the pending writes.
+ */
+export function getPendingWrites(
+  firestore: Firestore
+): Promise<PendingWrite[]> {
+  firestore = cast(firestore, Firestore);
+  const client = ensureFirestoreConfigured(firestore);
+  return firestoreClientGetPendingWrites(client).then(batches =>
+    batches.map(batch => toPendingWrite(firestore, batch))
+  );
+}
+
+/**
+ * Discards a pending write that has not yet been acknowledged by the backend,
+ * for example because it is known to be rejected by the security rules. The
+ * write is removed from the local cache and is never sent to the backend, and
+ * active listeners in all tabs raise new snapshots without the write. The
+ * `Promise` returned by the write is rejected with a `cancelled` error.
+ *
+ * If the write has already been sent to the backend, it might still be
+ * applied. When multi-tab persistence is enabled, writes can only be discarded
+ * in the primary tab.
+ *
+ * @param firestore - The `Firestore` instance to discard the write in.
+ * @param batchId - The ID of the {@link PendingWrite} to discard.
+ * @returns A `Promise` resolved once the write has been discarded, or rejected
+ * if no pending write with this ID exists.
+ */
+export function discardPendingWrite(
+  firestore: Firestore,
+  batchId: number
+): Promise<void> {
+  firestore = cast(firestore, Firestore);
+  const client = ensureFirestoreConfigured(firestore);
+  return firestoreClientDiscardPendingWrite(client, batchId);
+}
+
+/**
+ * Attaches a listener that is called whenever the backend rejects a write of
+ * the current user, such as a write made while offline that is not allowed by
+ * the security rules once the client reconnects. Unlike the `Promise` returned
+ * by the write, the listener is also called for writes made in a previous app
+ * session, which allows apps to notify users or to retry the write with
+ * corrected data.
+ *
+ * When multi-tab persistence is enabled, the listener is only called in the
+ * primary tab.
+ *
+ * @param firestore - The `Firestore` instance to listen to rejected writes of.
+ * @param onRejected - A callback to be called with every rejected write.
+ * @returns An unsubscribe function that can be called to remove the listener.
+ */
+export function onWriteRejected(
+  firestore: Firestore,
+  onRejected: (write: RejectedWrite) => void
+): Unsubscribe {
+  firestore = cast(firestore, Firestore);
+  const client = ensureFirestoreConfigured(firestore);
+  return firestoreClientAddWriteRejectedListener(client, {
+    next: ({ batch, error }) =>
+      onRejected({ ...toPendingWrite(firestore, batch), error })
+  });
+}
+
+function toPendingWrite(
+  firestore: Firestore,
+  batch: MutationBatch
+): PendingWrite {
+  const userDataWriter = new ExpUserDataWriter(firestore);
+  return {
+    batchId: batch.batchId,
+    localWriteTime: batch.localWriteTime,
+    operations: batch.mutations.map(mutation => {
+      const operation: PendingWriteOperation = {
+        type: operationType(mutation),
+        documentRef: new DocumentReference(firestore, null, mutation.key)
+      };
+      if (mutation instanceof SetMutation) {
+        return {
+          ...operation,
+          data: userDataWriter.convertObjectMap(
+            mutation.value.value.mapValue.fields
+          )
+        };
+      } else if (mutation instanceof PatchMutation) {
+        return {
+          ...operation,
+          data: userDataWriter.convertObjectMap(
+            mutation.data.value.mapValue.fields
+          )
+        };
+      }
+      return operation;
+    })
+  };
+}
+
+function operationType(mutation: Mutation): PendingWriteOperation['type'] {
+  switch (mutation.type) {
+    case MutationType.Set:
+      return 'set';
+    case MutationType.Patch:
+      return 'update';
+    case MutationType.Delete:
+      return 'delete';
+    default:
+      return fail(
+        'Unexpected mutation type in a pending write: ' + mutation.type
+      );
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ReadOptions } from '../lite-api/read_options';
+import { Code, FirestoreError } from '../util/error';
+
+export { ReadOptions };
+
+/**
+ * Options that let reads be served from the local cache if the cached data is
+ * recent enough, which avoids reading slowly changing data from the server
+ * every time.
+ */
+export interface CacheThenServerReadOptions {
+  /**
+   * Set to `'cache-then-server'` to serve the read from the cache if the
+   * cached data is at most `maxStaleness` old, and from the server otherwise.
+   */
+  readonly source: 'cache-then-server';
+
+  /**
+   * The maximum age of cached data in milliseconds. A document is fresh enough
+   * if it was read from the server within this time, and the results of a
+   * query are fresh enough if they were last in sync with the server within
+   * this time. The age is measured with the local clock. Pass `Infinity` to
+   * use any cached data.
+   */
+  readonly maxStaleness: number;
+}
+
+/**
+ * Validates the given `CacheThenServerReadOptions` and returns the maximum
+ * staleness in milliseconds.
+ */
+export function validateCacheThenServerReadOptions(
+  methodName: string,
+  options: CacheThenServerReadOptions
+): number {
+  if (options.source !== 'cache-then-server') {
+    throw new FirestoreError(
+      Code.INVALID_ARGUMENT,
+      `Function ${methodName}() requires "source" to be ` +
+        `'cache-then-server', but it was: ${options.source}.`
+    );
+  }
+  const maxStaleness = options.maxStaleness;
+  if (typeof maxStaleness !== 'number' || !(maxStaleness >= 0)) {
+    throw new FirestoreError(
+      Code.INVALID_ARGUMENT,
+      `Function ${methodName}() requires "maxStaleness" to be a non-negative ` +
+        `number, but it was: ${maxStaleness}.`
+    );
+  }
+  return maxStaleness;
+}
@@ -26,19 +26,36 @@ import {
 } from '../api/observer';
 import { ListenerDataSource } from '../core/event_manager';
 import {
+  FirestoreClient,
   firestoreClientAddSnapshotsInSyncListener,
+  firestoreClientExplainQuery,
+  firestoreClientGetDocumentAtReadTime,
   firestoreClientGetDocumentFromLocalCache,
   firestoreClientGetDocumentsFromLocalCache,
+  firestoreClientGetDocumentsViaCacheThenServer,
   firestoreClientGetDocumentsViaSnapshotListener,
+  firestoreClientGetDocumentViaCacheThenServer,
   firestoreClientGetDocumentViaSnapshotListener,
+  firestoreClientKeepSynced,
   firestoreClientListen,
+  firestoreClientListenGroup,
+  firestoreClientLoadBundle,
+  firestoreClientRunQuery,
   firestoreClientWrite
 } from '../core/firestore_client';
-import { newQueryForPath, Query as InternalQuery } from '../core/query';
+import {
+  isServerOnlyQuery,
+  newQueryForPath,
+  Query as InternalQuery
+} from '../core/query';
 import { ViewSnapshot } from '../core/view_snapshot';
 import { Bytes } from '../lite-api/bytes';
 import { FieldPath } from '../lite-api/field_path';
-import { validateHasExplicitOrderByForLimitToLast } from '../lite-api/query';
+import {
+  validateHasExplicitOrderByForLimitToLast,
+  validateQueryForListen
+} from '../lite-api/query';
+import { ReadOptions, validateReadOptions } from '../lite-api/read_options';
 import {
   CollectionReference,
   doc,
@@ -51,6 +68,7 @@ import {
   WithFieldValue
 } from '../lite-api/reference';
 import { applyFirestoreDataConverter } from '../lite-api/reference_impl';
+import { Timestamp } from '../lite-api/timestamp';
 import {
   newUserDataReader,
   ParsedUpdateData,
@@ -62,11 +80,27 @@ import { AbstractUserDataWriter } from '../lite-api/user_data_writer';
 import { DeleteMutation, Mutation, Precondition } from '../model/mutation';
 import { debugAssert } from '../util/assert';
 import { ByteString } from '../util/byte_string';
-import { FirestoreError } from '../util/error';
+import { Code, FirestoreError } from '../util/error';
 import { cast } from '../util/input_validation';
 
+import { LoadBundleTask } from './bundle';
 import { ensureFirestoreConfigured, Firestore } from './database';
-import { DocumentSnapshot, QuerySnapshot, SnapshotMetadata } from './snapshot';
+import {
+  ExplainQueryOptions,
+  ExplainResults,
+  toExplainMetrics,
+  toInternalExplainOptions
+} from './explain';
+import {
+  CacheThenServerReadOptions,
+  validateCacheThenServerReadOptions
+} from './read_options';
+import {
+  DocumentSnapshot,
+  parseSnapshotJson,
+  QuerySnapshot,
+  SnapshotMetadata
+} from './snapshot';
 
 /**
  * An options object that can be passed to {@link (onSnapshot:1)} and {@link
@@ -103,12 +137,24 @@ export type ListenSource = 'default' | 'cache';
  * offline and the server cannot be reached. To specify this behavior, invoke
  * {@link getDocFromCache} or {@link getDocFromServer}.
  *
+ * If `options.readTime` is set, the document is read from the server as it
+ * was at that time, and neither the local cache nor local modifications are
+ * used.
+ *
+ * If `options.source` is `'cache-then-server'`, the cached document is
+ * returned if it was read from the server at most `options.maxStaleness`
+ * milliseconds ago. Otherwise, the document is read as if no options were
+ * provided.
+ *
  * @param reference - The reference of the document to fetch.
+ * @param options - Options to read the document at a specific point in time
+ * or to serve it from the cache if it is fresh enough.
  * @returns A Promise resolved with a `DocumentSnapshot` containing the
  * current document contents.
  */
 export function getDoc<AppModelType, DbModelType extends DocumentData>(
-  reference: DocumentReference<AppModelType, DbModelType>
+  reference: DocumentReference<AppModelType, DbModelType>,
+  options?: ReadOptions | CacheThenServerReadOptions
 ): Promise<DocumentSnapshot<AppModelType, DbModelType>> {
   reference = cast<DocumentReference<AppModelType, DbModelType>>(
     reference,
@@ -117,6 +163,18 @@ export function getDoc<AppModelType, DbModelType extends DocumentData>(
   const firestore = cast(reference.firestore, Firestore);
   const client = ensureFirestoreConfigured(firestore);
 
+  if (options && 'source' in options) {
+    const maxStaleness = validateCacheThenServerReadOptions('getDoc', options);
+    return firestoreClientGetDocumentViaCacheThenServer(
+      client,
+      reference._key,
+      maxStaleness
+    ).then(snapshot => convertToDocSnapshot(firestore, reference, snapshot));
+  }
+  const readTime = validateReadOptions('getDoc', options);
+  if (readTime) {
+    return getDocAtReadTime(firestore, client, reference, readTime);
+  }
   return firestoreClientGetDocumentViaSnapshotListener(
     client,
     reference._key
@@ -176,6 +234,8 @@ export function getDocFromCache<AppModelType, DbModelType extends DocumentData>(
  * Reads the document referred to by this `DocumentReference` from the server.
  * Returns an error if the network is not available.
  *
+ * @param reference - The reference of the document to fetch.
+ * @param options - Options to read the document at a specific point in time.
  * @returns A `Promise` resolved with a `DocumentSnapshot` containing the
  * current document contents.
  */
@@ -183,7 +243,8 @@ export function getDocFromServer<
   AppModelType,
   DbModelType extends DocumentData
 >(
-  reference: DocumentReference<AppModelType, DbModelType>
+  reference: DocumentReference<AppModelType, DbModelType>,
+  options?: ReadOptions
 ): Promise<DocumentSnapshot<AppModelType, DbModelType>> {
   reference = cast<DocumentReference<AppModelType, DbModelType>>(
     reference,
@@ -192,6 +253,11 @@ export function getDocFromServer<
   const firestore = cast(reference.firestore, Firestore);
   const client = ensureFirestoreConfigured(firestore);
 
+  const readTime = validateReadOptions('getDocFromServer', options);
+  if (readTime) {
+    return getDocAtReadTime(firestore, client, reference, readTime);
+  }
+
   return firestoreClientGetDocumentViaSnapshotListener(client, reference._key, {
     source: 'server'
   }).then(snapshot => convertToDocSnapshot(firestore, reference, snapshot));
@@ -209,23 +275,112 @@ export function getDocFromServer<
  */
 export function getDocs<AppModelType, DbModelType extends DocumentData>(
   query: Query<AppModelType, DbModelType>
-): Promise<QuerySnapshot<AppModelType, DbModelType>> {
+): Promise<QuerySnapshot<AppModelType, DbModelType>>;
+/**
+ * Executes the query on the server as of `options.readTime` and returns the
+ * results as a `QuerySnapshot`. Neither the local cache nor local
+ * modifications are used.
+ *
+ * @param query - The query to execute.
+ * @param options - Options to execute the query at a specific point in time.
+ * @returns A `Promise` that will be resolved with the results of the query.
+ */
+export function getDocs<AppModelType, DbModelType extends DocumentData>(
+  query: Query<AppModelType, DbModelType>,
+  options: ReadOptions
+): Promise<QuerySnapshot<AppModelType, DbModelType>>;
+/**
+ * Executes the query and returns the results as a `QuerySnapshot`. The
+ * results are served from the cache if they were last in sync with the server
+ * at most `options.maxStaleness` milliseconds ago. Otherwise, the query is
+ * executed as if no options were provided.
+ *
+ * @param query - The query to execute.
+ * @param options - Options to serve the results from the cache if they are
+ * fresh enough.
+ * @returns A `Promise` that will be resolved with the results of the query.
+ */
+export function getDocs<AppModelType, DbModelType extends DocumentData>(
+  query: Query<AppModelType, DbModelType>,
+  options: CacheThenServerReadOptions
+): Promise<QuerySnapshot<AppModelType, DbModelType>>;
+/**
+ * Explains the query on the backend and returns the query plan and, if
+ * `options.explainOptions.analyze` is `true`, the execution statistics and the
+ * results of the query.
+ *
+ * Explained queries always run against the backend and never use or update
+ * the local cache.
+ *
+ * @param query - The query to explain.
+ * @param options - The options used to explain the query.
+ * @returns A `Promise` that will be resolved with the `ExplainMetrics` and,
+ * if the query was analyzed, its results.
+ */
+export function getDocs<AppModelType, DbModelType extends DocumentData>(
+  query: Query<AppModelType, DbModelType>,
+  options: ExplainQueryOptions
+): Promise<ExplainResults<QuerySnapshot<AppModelType, DbModelType>>>;
+export function getDocs<AppModelType, DbModelType extends DocumentData>(
+  query: Query<AppModelType, DbModelType>,
+  options?: ReadOptions | CacheThenServerReadOptions | ExplainQueryOptions
+): Promise<
+  | QuerySnapshot<AppModelType, DbModelType>
+  | ExplainResults<QuerySnapshot<AppModelType, DbModelType>>
+> {
   query = cast<Query<AppModelType, DbModelType>>(query, Query);
   const firestore = cast(query.firestore, Firestore);
   const client = ensureFirestoreConfigured(firestore);
   const userDataWriter = new ExpUserDataWriter(firestore);
 
   validateHasExplicitOrderByForLimitToLast(query._query);
-  return firestoreClientGetDocumentsViaSnapshotListener(
-    client,
-    query._query
-  ).then(
+  if (options && 'explainOptions' in options) {
+    return firestoreClientExplainQuery(
+      client,
+      query._query,
+      toInternalExplainOptions(options)
+    ).then(
+      ({ viewSnapshot, explainMetrics }) =>
+        new ExplainResults(
+          toExplainMetrics(explainMetrics),
+          viewSnapshot
+            ? new QuerySnapshot<AppModelType, DbModelType>(
+                firestore,
+                userDataWriter,
+                query,
+                viewSnapshot
+              )
+            : null
+        )
+    );
+  }
+
+  let viewSnapshot: Promise<ViewSnapshot>;
+  let readTime: Timestamp | undefined;
+  if (options && 'source' in options) {
+    const maxStaleness = validateCacheThenServerReadOptions('getDocs', options);
+    viewSnapshot = isServerOnlyQuery(query._query)
+      ? firestoreClientRunQuery(client, query._query)
+      : firestoreClientGetDocumentsViaCacheThenServer(
+          client,
+          query._query,
+          maxStaleness
+        );
+  } else {
+    readTime = validateReadOptions('getDocs', options);
+    viewSnapshot =
+      readTime || isServerOnlyQuery(query._query)
+        ? firestoreClientRunQuery(client, query._query, readTime)
+        : firestoreClientGetDocumentsViaSnapshotListener(client, query._query);
+  }
+  return viewSnapshot.then(
     snapshot =>
       new QuerySnapshot<AppModelType, DbModelType>(
         firestore,
         userDataWriter,
         query,
-        snapshot
+        snapshot,
+        readTime ?? null
       )
   );
 }
@@ -248,6 +403,7 @@ export function getDocsFromCache<
   const client = ensureFirestoreConfigured(firestore);
   const userDataWriter = new ExpUserDataWriter(firestore);
 
+  validateQueryForListen(query._query, 'getDocsFromCache');
   return firestoreClientGetDocumentsFromLocalCache(client, query._query).then(
     snapshot =>
       new QuerySnapshot<AppModelType, DbModelType>(
@@ -263,26 +419,67 @@ export function getDocsFromCache<
  * Executes the query and returns the results as a `QuerySnapshot` from the
  * server. Returns an error if the network is not available.
  *
+ * @param query - The query to execute.
+ * @param options - Options to execute the query at a specific point in time.
  * @returns A `Promise` that will be resolved with the results of the query.
  */
 export function getDocsFromServer<
   AppModelType,
   DbModelType extends DocumentData
 >(
-  query: Query<AppModelType, DbModelType>
+  query: Query<AppModelType, DbModelType>,
+  options?: ReadOptions
 ): Promise<QuerySnapshot<AppModelType, DbModelType>> {
   query = cast<Query<AppModelType, DbModelType>>(query, Query);
   const firestore = cast(query.firestore, Firestore);
   const client = ensureFirestoreConfigured(firestore);
   const userDataWriter = new ExpUserDataWriter(firestore);
 
-  return firestoreClientGetDocumentsViaSnapshotListener(client, query._query, {
-    source: 'server'
-  }).then(
-    snapshot => new QuerySnapshot(firestore, userDataWriter, query, snapshot)
+  const readTime = validateReadOptions('getDocsFromServer', options);
+  const viewSnapshot =
+    readTime || isServerOnlyQuery(query._query)
+      ? firestoreClientRunQuery(client, query._query, readTime)
+      : firestoreClientGetDocumentsViaSnapshotListener(client, query._query, {
+          source: 'server'
+        });
+  return viewSnapshot.then(
+    snapshot =>
+      new QuerySnapshot(
+        firestore,
+        userDataWriter,
+        query,
+        snapshot,
+        readTime ?? null
+      )
   );
 }
 
+/**
+ * Keeps the results of the query synced in the local cache, even when no
+ * listener is attached to the query.
+ *
+ * While a query is kept synced, the SDK listens to it in the background and
+ * its documents are exempt from garbage collection. If persistence is enabled,
+ * the query remains pinned across restarts and is listened to again once the
+ * Firestore instance is used.
+ *
+ * @param query - The query to keep synced.
+ * @param enabled - Whether the query should be kept synced. Pass `false` to
+ * stop syncing a query that was previously pinned.
+ * @returns A `Promise` resolved once the query has been pinned or unpinned.
+ */
+export function keepSynced<AppModelType, DbModelType extends DocumentData>(
+  query: Query<AppModelType, DbModelType>,
+  enabled: boolean
+): Promise<void> {
+  query = cast<Query<AppModelType, DbModelType>>(query, Query);
+  const firestore = cast(query.firestore, Firestore);
+  validateHasExplicitOrderByForLimitToLast(query._query);
+  validateQueryForListen(query._query, 'keepSynced');
+  const client = ensureFirestoreConfigured(firestore);
+  return firestoreClientKeepSynced(client, query._query, enabled);
+}
+
 /**
  * Writes to the document referred to by this `DocumentReference`. If the
  * document does not yet exist, it will be created.
@@ -750,6 +947,7 @@ export function onSnapshot<AppModelType, DbModelType extends DocumentData>(
     };
 
     validateHasExplicitOrderByForLimitToLast(reference._query);
+    validateQueryForListen(reference._query, 'onSnapshot');
   }
 
   const client = ensureFirestoreConfigured(firestore);
@@ -761,6 +959,300 @@ export function onSnapshot<AppModelType, DbModelType extends DocumentData>(
   );
 }
 
+/**
+ * Seeds the local cache with a `DocumentSnapshot` serialized by
+ * `DocumentSnapshot.toJSON()` and attaches a listener for `DocumentSnapshot` events.
+ * The first event is raised from the seeded cache, without waiting for the
+ * backend.
+ *
+ * @param reference - A reference to the document to listen to.
+ * @param snapshotJson - The result of `DocumentSnapshot.toJSON()`.
+ * @param observer - A single object containing `next` and `error` callbacks.
+ * @returns An unsubscribe function that can be called to cancel
+ * the snapshot listener.
+ */
+export function onSnapshotResume<
+  AppModelType,
+  DbModelType extends DocumentData
+>(
+  reference: DocumentReference<AppModelType, DbModelType>,
+  snapshotJson: object,
+  observer: {
+    next?: (snapshot: DocumentSnapshot<AppModelType, DbModelType>) => void;
+    error?: (error: FirestoreError) => void;
+    complete?: () => void;
+  }
+): Unsubscribe;
+/**
+ * Seeds the local cache with a `DocumentSnapshot` serialized by
+ * `DocumentSnapshot.toJSON()` and attaches a listener for `DocumentSnapshot` events.
+ * The first event is raised from the seeded cache, without waiting for the
+ * backend.
+ *
+ * @param reference - A reference to the document to listen to.
+ * @param snapshotJson - The result of `DocumentSnapshot.toJSON()`.
+ * @param options - Options controlling the listen behavior.
+ * @param observer - A single object containing `next` and `error` callbacks.
+ * @returns An unsubscribe function that can be called to cancel
+ * the snapshot listener.
+ */
+export function onSnapshotResume<
+  AppModelType,
+  DbModelType extends DocumentData
+>(
+  reference: DocumentReference<AppModelType, DbModelType>,
+  snapshotJson: object,
+  options: SnapshotListenOptions,
+  observer: {
+    next?: (snapshot: DocumentSnapshot<AppModelType, DbModelType>) => void;
+    error?: (error: FirestoreError) => void;
+    complete?: () => void;
+  }
+): Unsubscribe;
+/**
+ * Seeds the local cache with a `DocumentSnapshot` serialized by
+ * `DocumentSnapshot.toJSON()` and attaches a listener for `DocumentSnapshot` events.
+ * The first event is raised from the seeded cache, without waiting for the
+ * backend.
+ *
+ * @param reference - A reference to the document to listen to.
+ * @param snapshotJson - The result of `DocumentSnapshot.toJSON()`.
+ * @param onNext - A callback to be called every time a new `DocumentSnapshot`
+ * is available.
+ * @param onError - A callback to be called if the listen fails or is
+ * cancelled. No further callbacks will occur.
+ * @param onCompletion - Can be provided, but will not be called since streams are
+ * never ending.
+ * @returns An unsubscribe function that can be called to cancel
+ * the snapshot listener.
+ */
+export function onSnapshotResume<
+  AppModelType,
+  DbModelType extends DocumentData
+>(
+  reference: DocumentReference<AppModelType, DbModelType>,
+  snapshotJson: object,
+  onNext: (snapshot: DocumentSnapshot<AppModelType, DbModelType>) => void,
+  onError?: (error: FirestoreError) => void,
+  onCompletion?: () => void
+): Unsubscribe;
+/**
+ * Seeds the local cache with a `DocumentSnapshot` serialized by
+ * `DocumentSnapshot.toJSON()` and attaches a listener for `DocumentSnapshot` events.
+ * The first event is raised from the seeded cache, without waiting for the
+ * backend.
+ *
+ * @param reference - A reference to the document to listen to.
+ * @param snapshotJson - The result of `DocumentSnapshot.toJSON()`.
+ * @param options - Options controlling the listen behavior.
+ * @param onNext - A callback to be called every time a new `DocumentSnapshot`
+ * is available.
+ * @param onError - A callback to be called if the listen fails or is
+ * cancelled. No further callbacks will occur.
+ * @param onCompletion - Can be provided, but will not be called since streams are
+ * never ending.
+ * @returns An unsubscribe function that can be called to cancel
+ * the snapshot listener.
+ */
+export function onSnapshotResume<
+  AppModelType,
+  DbModelType extends DocumentData
+>(
+  reference: DocumentReference<AppModelType, DbModelType>,
+  snapshotJson: object,
+  options: SnapshotListenOptions,
+  onNext: (snapshot: DocumentSnapshot<AppModelType, DbModelType>) => void,
+  onError?: (error: FirestoreError) => void,
+  onCompletion?: () => void
+): Unsubscribe;
+/**
+ * Seeds the local cache with a `QuerySnapshot` serialized by
+ * `QuerySnapshot.toJSON()` and attaches a listener for `QuerySnapshot` events.
+ * The first event is raised from the seeded cache, without waiting for the
+ * backend.
+ *
+ * @param query - The query to listen to.
+ * @param snapshotJson - The result of `QuerySnapshot.toJSON()`.
+ * @param observer - A single object containing `next` and `error` callbacks.
+ * @returns An unsubscribe function that can be called to cancel
+ * the snapshot listener.
+ */
+export function onSnapshotResume<
+  AppModelType,
+  DbModelType extends DocumentData
+>(
+  query: Query<AppModelType, DbModelType>,
+  snapshotJson: object,
+  observer: {
+    next?: (snapshot: QuerySnapshot<AppModelType, DbModelType>) => void;
+    error?: (error: FirestoreError) => void;
+    complete?: () => void;
+  }
+): Unsubscribe;
+/**
+ * Seeds the local cache with a `QuerySnapshot` serialized by
+ * `QuerySnapshot.toJSON()` and attaches a listener for `QuerySnapshot` events.
+ * The first event is raised from the seeded cache, without waiting for the
+ * backend.
+ *
+ * @param query - The query to listen to.
+ * @param snapshotJson - The result of `QuerySnapshot.toJSON()`.
+ * @param options - Options controlling the listen behavior.
+ * @param observer - A single object containing `next` and `error` callbacks.
+ * @returns An unsubscribe function that can be called to cancel
+ * the snapshot listener.
+ */
+export function onSnapshotResume<
+  AppModelType,
+  DbModelType extends DocumentData
+>(
+  query: Query<AppModelType, DbModelType>,
+  snapshotJson: object,
+  options: SnapshotListenOptions,
+  observer: {
+    next?: (snapshot: QuerySnapshot<AppModelType, DbModelType>) => void;
+    error?: (error: FirestoreError) => void;
+    complete?: () => void;
+  }
+): Unsubscribe;
+/**
+ * Seeds the local cache with a `QuerySnapshot` serialized by
+ * `QuerySnapshot.toJSON()` and attaches a listener for `QuerySnapshot` events.
+ * The first event is raised from the seeded cache, without waiting for the
+ * backend.
+ *
+ * @param query - The query to listen to.
+ * @param snapshotJson - The result of `QuerySnapshot.toJSON()`.
+ * @param onNext - A callback to be called every time a new `QuerySnapshot`
+ * is available.
+ * @param onError - A callback to be called if the listen fails or is
+ * cancelled. No further callbacks will occur.
+ * @param onCompletion - Can be provided, but will not be called since streams are
+ * never ending.
+ * @returns An unsubscribe function that can be called to cancel
+ * the snapshot listener.
+ */
+export function onSnapshotResume<
+  AppModelType,
+  DbModelType extends DocumentData
+>(
+  query: Query<AppModelType, DbModelType>,
+  snapshotJson: object,
+  onNext: (snapshot: QuerySnapshot<AppModelType, DbModelType>) => void,
+  onError?: (error: FirestoreError) => void,
+  onCompletion?: () => void
+): Unsubscribe;
+/**
+ * Seeds the local cache with a `QuerySnapshot` serialized by
+ * `QuerySnapshot.toJSON()` and attaches a listener for `QuerySnapshot` events.
+ * The first event is raised from the seeded cache, without waiting for the
+ * backend.
+ *
+ * @param query - The query to listen to.
+ * @param snapshotJson - The result of `QuerySnapshot.toJSON()`.
+ * @param options - Options controlling the listen behavior.
+ * @param onNext - A callback to be called every time a new `QuerySnapshot`
+ * is available.
+ * @param onError - A callback to be called if the listen fails or is
+ * cancelled. No further callbacks will occur.
+ * @param onCompletion - Can be provided, but will not be called since streams are
+ * never ending.
+ * @returns An unsubscribe function that can be called to cancel
+ * the snapshot listener.
+ */
+export function onSnapshotResume<
+  AppModelType,
+  DbModelType extends DocumentData
+>(
+  query: Query<AppModelType, DbModelType>,
+  snapshotJson: object,
+  options: SnapshotListenOptions,
+  onNext: (snapshot: QuerySnapshot<AppModelType, DbModelType>) => void,
+  onError?: (error: FirestoreError) => void,
+  onCompletion?: () => void
+): Unsubscribe;
+export function onSnapshotResume<
+  AppModelType,
+  DbModelType extends DocumentData
+>(
+  reference:
+    | Query<AppModelType, DbModelType>
+    | DocumentReference<AppModelType, DbModelType>,
+  snapshotJson: object,
+  ...args: unknown[]
+): Unsubscribe {
+  reference = getModularInstance(reference);
+  const { snapshotJson: json, isDocument } = parseSnapshotJson(
+    'onSnapshotResume',
+    snapshotJson
+  );
+
+  let firestore: Firestore;
+  if (reference instanceof DocumentReference) {
+    firestore = cast(reference.firestore, Firestore);
+    if (!isDocument || json.bundleName !== reference.path) {
+      throw new FirestoreError(
+        Code.INVALID_ARGUMENT,
+        'Function onSnapshotResume() requires the result of ' +
+          `DocumentSnapshot.toJSON() for document '${reference.path}'.`
+      );
+    }
+  } else {
+    const query = cast<Query<AppModelType, DbModelType>>(reference, Query);
+    firestore = cast(query.firestore, Firestore);
+    if (isDocument) {
+      throw new FirestoreError(
+        Code.INVALID_ARGUMENT,
+        'Function onSnapshotResume() requires the result of ' +
+          'QuerySnapshot.toJSON() when called with a query.'
+      );
+    }
+    validateHasExplicitOrderByForLimitToLast(query._query);
+    validateQueryForListen(query._query, 'onSnapshotResume');
+  }
+
+  // Bundle loading errors are reported to the listener's error callback.
+  let currArg = 0;
+  if (typeof args[currArg] === 'object' && !isPartialObserver(args[currArg])) {
+    currArg++;
+  }
+  const onError = isPartialObserver(args[currArg])
+    ? (args[currArg] as PartialObserver<unknown>).error
+    : (args[currArg + 1] as ErrorFn | undefined);
+
+  const client = ensureFirestoreConfigured(firestore);
+  const loadTask = new LoadBundleTask();
+  firestoreClientLoadBundle(
+    client,
+    firestore._databaseId,
+    json.bundle,
+    loadTask
+  );
+
+  let unsubscribed = false;
+  let unsubscribe: Unsubscribe | null = null;
+  loadTask.then(
+    () => {
+      if (!unsubscribed) {
+        // Listen with the original arguments once the cache has been seeded.
+        unsubscribe = (
+          onSnapshot as (reference: unknown, ...args: unknown[]) => Unsubscribe
+        )(reference, ...args);
+      }
+    },
+    (error: Error) => {
+      if (!unsubscribed) {
+        onError?.call(args[currArg], error as FirestoreError);
+      }
+    }
+  );
+
+  return () => {
+    unsubscribed = true;
+    unsubscribe?.();
+  };
+}
+
 // TODO(firestorexp): Make sure these overloads are tested via the Firestore
 // integration tests
 
@@ -822,6 +1314,220 @@ export function onSnapshotsInSync(
   return firestoreClientAddSnapshotsInSyncListener(client, observer);
 }
 
+/**
+ * A query or document reference that can be listened to with
+ * {@link (onSnapshotGroup:1)}.
+ */
+export type SnapshotGroupTarget =
+  | Query<unknown, DocumentData>
+  | DocumentReference<unknown, DocumentData>;
+
+/**
+ * The snapshots raised by {@link (onSnapshotGroup:1)}: a `DocumentSnapshot` for
+ * each `DocumentReference` and a `QuerySnapshot` for each `Query`, in the order
+ * of the listened targets.
+ */
+export type SnapshotGroup<T extends readonly SnapshotGroupTarget[]> = {
+  [K in keyof T]: T[K] extends DocumentReference<infer A, infer D>
+    ? DocumentSnapshot<A, D>
+    : T[K] extends Query<infer A, infer D>
+    ? QuerySnapshot<A, D>
+    : never;
+};
+
+/**
+ * Attaches a listener to several queries and documents at once. The listener
+ * receives the snapshots of all targets together, and only at the points
+ * where the snapshots are consistent with each other, as signaled by
+ * {@link (onSnapshotsInSync:1)}. The first event is raised once every target
+ * has a snapshot.
+ *
+ * Snapshots of targets that did not change since the last event contain no
+ * document changes.
+ *
+ * @param targets - The queries and document references to listen to.
+ * @param observer - A single object containing `next` and `error` callbacks.
+ * @returns An unsubscribe function that can be called to cancel the snapshot
+ * listener.
+ */
+export function onSnapshotGroup<T extends readonly SnapshotGroupTarget[]>(
+  targets: readonly [...T],
+  observer: {
+    next?: (snapshots: SnapshotGroup<T>) => void;
+    error?: (error: FirestoreError) => void;
+    complete?: () => void;
+  }
+): Unsubscribe;
+/**
+ * Attaches a listener to several queries and documents at once. The listener
+ * receives the snapshots of all targets together, and only at the points
+ * where the snapshots are consistent with each other, as signaled by
+ * {@link (onSnapshotsInSync:1)}. The first event is raised once every target
+ * has a snapshot.
+ *
+ * Snapshots of targets that did not change since the last event contain no
+ * document changes.
+ *
+ * @param targets - The queries and document references to listen to.
+ * @param options - Options controlling the listen behavior.
+ * @param observer - A single object containing `next` and `error` callbacks.
+ * @returns An unsubscribe function that can be called to cancel the snapshot
+ * listener.
+ */
+export function onSnapshotGroup<T extends readonly SnapshotGroupTarget[]>(
+  targets: readonly [...T],
+  options: SnapshotListenOptions,
+  observer: {
+    next?: (snapshots: SnapshotGroup<T>) => void;
+    error?: (error: FirestoreError) => void;
+    complete?: () => void;
+  }
+): Unsubscribe;
+/**
+ * Attaches a listener to several queries and documents at once. The listener
+ * receives the snapshots of all targets together, and only at the points
+ * where the snapshots are consistent with each other, as signaled by
+ * {@link (onSnapshotsInSync:1)}. The first event is raised once every target
+ * has a snapshot.
+ *
+ * Snapshots of targets that did not change since the last event contain no
+ * document changes.
+ *
+ * NOTE: Although an `onCompletion` callback can be provided, it will
+ * never be called because the snapshot stream is never-ending.
+ *
+ * @param targets - The queries and document references to listen to.
+ * @param onNext - A callback to be called with the snapshots of all targets
+ * every time they are consistent with each other.
+ * @param onError - A callback to be called if the listen to any target fails
+ * or is cancelled. No further callbacks will occur.
+ * @param onCompletion - Can be provided, but will not be called since streams
+ * are never ending.
+ * @returns An unsubscribe function that can be called to cancel the snapshot
+ * listener.
+ */
+export function onSnapshotGroup<T extends readonly SnapshotGroupTarget[]>(
+  targets: readonly [...T],
+  onNext: (snapshots: SnapshotGroup<T>) => void,
+  onError?: (error: FirestoreError) => void,
+  onCompletion?: () => void
+): Unsubscribe;
+/**
+ * Attaches a listener to several queries and documents at once. The listener
+ * receives the snapshots of all targets together, and only at the points
+ * where the snapshots are consistent with each other, as signaled by
+ * {@link (onSnapshotsInSync:1)}. The first event is raised once every target
+ * has a snapshot.
+ *
+ * Snapshots of targets that did not change since the last event contain no
+ * document changes.
+ *
+ * NOTE: Although an `onCompletion` callback can be provided, it will
+ * never be called because the snapshot stream is never-ending.
+ *
+ * @param targets - The queries and document references to listen to.
+ * @param options - Options controlling the listen behavior.
+ * @param onNext - A callback to be called with the snapshots of all targets
+ * every time they are consistent with each other.
+ * @param onError - A callback to be called if the listen to any target fails
+ * or is cancelled. No further callbacks will occur.
+ * @param onCompletion - Can be provided, but will not be called since streams
+ * are never ending.
+ * @returns An unsubscribe function that can be called to cancel the snapshot
+ * listener.
+ */
+export function onSnapshotGroup<T extends readonly SnapshotGroupTarget[]>(
+  targets: readonly [...T],
+  options: SnapshotListenOptions,
+  onNext: (snapshots: SnapshotGroup<T>) => void,
+  onError?: (error: FirestoreError) => void,
+  onCompletion?: () => void
+): Unsubscribe;
+export function onSnapshotGroup(
+  targets: readonly SnapshotGroupTarget[],
+  ...args: unknown[]
+): Unsubscribe {
+  if (targets.length === 0) {
+    throw new FirestoreError(
+      Code.INVALID_ARGUMENT,
+      'Function onSnapshotGroup() requires at least one query or document ' +
+        'reference.'
+    );
+  }
+
+  let options: SnapshotListenOptions = {
+    includeMetadataChanges: false,
+    source: 'default'
+  };
+  let currArg = 0;
+  if (typeof args[currArg] === 'object' && !isPartialObserver(args[currArg])) {
+    options = args[currArg] as SnapshotListenOptions;
+    currArg++;
+  }
+
+  const internalOptions = {
+    includeMetadataChanges: options.includeMetadataChanges,
+    source: options.source as ListenerDataSource
+  };
+
+  let userObserver: PartialObserver<unknown[]>;
+  if (isPartialObserver(args[currArg])) {
+    userObserver = args[currArg] as PartialObserver<unknown[]>;
+  } else {
+    userObserver = {
+      next: args[currArg] as NextFn<unknown[]>,
+      error: args[currArg + 1] as ErrorFn,
+      complete: args[currArg + 2] as CompleteFn
+    };
+  }
+
+  let firestore: Firestore | null = null;
+  const internalQueries: InternalQuery[] = [];
+  const converters: Array<(snapshot: ViewSnapshot) => unknown> = [];
+  for (let target of targets) {
+    target = getModularInstance(target);
+    let targetFirestore: Firestore;
+    if (target instanceof DocumentReference) {
+      const ref = target;
+      targetFirestore = cast(ref.firestore, Firestore);
+      internalQueries.push(newQueryForPath(ref._key.path));
+      converters.push(snapshot =>
+        convertToDocSnapshot(targetFirestore, ref, snapshot)
+      );
+    } else {
+      const query = cast<Query<unknown, DocumentData>>(target, Query);
+      targetFirestore = cast(query.firestore, Firestore);
+      validateHasExplicitOrderByForLimitToLast(query._query);
+      validateQueryForListen(query._query, 'onSnapshotGroup');
+      const userDataWriter = new ExpUserDataWriter(targetFirestore);
+      internalQueries.push(query._query);
+      converters.push(
+        snapshot =>
+          new QuerySnapshot(targetFirestore, userDataWriter, query, snapshot)
+      );
+    }
+    if (firestore === null) {
+      firestore = targetFirestore;
+    } else if (firestore !== targetFirestore) {
+      throw new FirestoreError(
+        Code.INVALID_ARGUMENT,
+        'Function onSnapshotGroup() requires all queries and document ' +
+          'references to belong to the same Firestore instance.'
+      );
+    }
+  }
+
+  const client = ensureFirestoreConfigured(firestore!);
+  return firestoreClientListenGroup(client, internalQueries, internalOptions, {
+    next: snapshots => {
+      userObserver.next?.(
+        snapshots.map((snapshot, i) => converters[i](snapshot))
+      );
+    },
+    error: userObserver.error?.bind(userObserver)
+  });
+}
+
 /**
  * Locally writes `mutations` on the async queue.
  * @internal
@@ -834,6 +1540,38 @@ export function executeWrite(
   return firestoreClientWrite(client, mutations);
 }
 
+/**
+ * Reads the document from the server as it was at `readTime`, bypassing the
+ * local cache.
+ */
+function getDocAtReadTime<AppModelType, DbModelType extends DocumentData>(
+  firestore: Firestore,
+  client: FirestoreClient,
+  reference: DocumentReference<AppModelType, DbModelType>,
+  readTime: Timestamp
+): Promise<DocumentSnapshot<AppModelType, DbModelType>> {
+  const userDataWriter = new ExpUserDataWriter(firestore);
+  return firestoreClientGetDocumentAtReadTime(
+    client,
+    reference._key,
+    readTime
+  ).then(
+    doc =>
+      new DocumentSnapshot<AppModelType, DbModelType>(
+        firestore,
+        userDataWriter,
+        reference._key,
+        doc.isFoundDocument() ? doc : null,
+        new SnapshotMetadata(
+          /* hasPendingWrites= */ false,
+          /* fromCache= */ false,
+          readTime
+        ),
+        reference.converter
+      )
+  );
+}
+
 /**
  * Converts a {@link ViewSnapshot} that contains the single document specified by `ref`
  * to a {@link DocumentSnapshot}.
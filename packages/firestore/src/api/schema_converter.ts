@@ -0,0 +1,238 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Bytes } from '../lite-api/bytes';
+import { FieldValue } from '../lite-api/field_value';
+import { GeoPoint } from '../lite-api/geo_point';
+import { DocumentData, DocumentReference } from '../lite-api/reference';
+import { Timestamp } from '../lite-api/timestamp';
+import { VectorValue } from '../lite-api/vector_value';
+import { Code, FirestoreError } from '../util/error';
+import { isPlainObject } from '../util/input_validation';
+
+import {
+  FirestoreDataConverter,
+  QueryDocumentSnapshot,
+  SnapshotOptions,
+  ValidationFailureMode
+} from './snapshot';
+
+/**
+ * The types of values that can be described by a {@link Schema}. 'integer'
+ * matches numbers without a fractional part, 'object' matches maps.
+ */
+export type SchemaType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'null'
+  | 'timestamp'
+  | 'geopoint'
+  | 'bytes'
+  | 'reference'
+  | 'vector'
+  | 'array'
+  | 'object';
+
+/**
+ * A description of the values a field may have, modeled after JSON Schema.
+ * Used with {@link schemaConverter}.
+ */
+export interface Schema {
+  /** The type, or the list of types, of the value. Defaults to any type. */
+  readonly type?: SchemaType | readonly SchemaType[];
+
+  /** The values that are allowed, compared with `===`. */
+  readonly enum?: readonly unknown[];
+
+  /** The schemas of the fields of an 'object' value. */
+  readonly properties?: { readonly [field: string]: Schema };
+
+  /** The fields that an 'object' value must contain. */
+  readonly required?: readonly string[];
+
+  /**
+   * Whether an 'object' value may contain fields that are not listed in
+   * `properties`. Defaults to `true`.
+   */
+  readonly additionalProperties?: boolean;
+
+  /** The schema of the elements of an 'array' value. */
+  readonly items?: Schema;
+}
+
+/**
+ * Options to customize the converter created by {@link schemaConverter}.
+ */
+export interface SchemaConverterOptions {
+  /**
+   * Configures what happens when a document read from Firestore does not
+   * match the schema. Defaults to 'throw'.
+   */
+  readonly onValidationFailure?: ValidationFailureMode;
+}
+
+/**
+ * Creates a {@link FirestoreDataConverter} that validates documents against
+ * `schema`. The converter does not transform the data otherwise.
+ *
+ * Documents read from Firestore are validated before they are returned by
+ * `data()`. Documents written with `setDoc()`, `addDoc()`, `WriteBatch.set()`
+ * or `Transaction.set()` without `merge` must match the schema, or the write
+ * fails. `FieldValue` sentinels such as `serverTimestamp()` match any type.
+ *
+ * @example
+ * ```typescript
+ * const postConverter = schemaConverter<Post>({
+ *   type: 'object',
+ *   properties: {
+ *     title: { type: 'string' },
+ *     author: { type: ['string', 'null'] },
+ *     tags: { type: 'array', items: { type: 'string' } }
+ *   },
+ *   required: ['title']
+ * }, { onValidationFailure: 'skip' });
+ *
+ * const posts = await getDocs(
+ *   collection(db, 'posts').withConverter(postConverter)
+ * );
+ * ```
+ *
+ * @param schema - The schema of the documents. Must describe an 'object'.
+ * @param options - Options to configure how invalid documents are handled.
+ * @returns A `FirestoreDataConverter` that validates documents.
+ */
+export function schemaConverter<AppModelType = DocumentData>(
+  schema: Schema,
+  options: SchemaConverterOptions = {}
+): FirestoreDataConverter<AppModelType, DocumentData> {
+  if (schema.type !== undefined && schema.type !== 'object') {
+    throw new FirestoreError(
+      Code.INVALID_ARGUMENT,
+      'Function schemaConverter() requires a schema of type "object".'
+    );
+  }
+  return {
+    toFirestore: (modelObject: unknown) => modelObject as DocumentData,
+    fromFirestore: (
+      snapshot: QueryDocumentSnapshot,
+      snapshotOptions?: SnapshotOptions
+    ) => snapshot.data(snapshotOptions) as AppModelType,
+    validate: (data: DocumentData) => {
+      const error = validateValue(schema, data, /* path= */ '');
+      if (error) {
+        throw new Error(error);
+      }
+    },
+    onValidationFailure: options.onValidationFailure
+  };
+}
+
+/**
+ * Validates `value` against `schema`. Returns a description of the first
+ * mismatch, or `null` if the value matches the schema.
+ */
+function validateValue(
+  schema: Schema,
+  value: unknown,
+  path: string
+): string | null {
+  if (value instanceof FieldValue) {
+    return null;
+  }
+
+  const fieldDescription = path ? `Field "${path}"` : 'Document';
+  const valueType = typeOf(value);
+  if (schema.type !== undefined) {
+    const types = typeof schema.type === 'string' ? [schema.type] : schema.type;
+    const matches = types.some(
+      type =>
+        type === valueType ||
+        (type === 'integer' &&
+          valueType === 'number' &&
+          Number.isInteger(value as number))
+    );
+    if (!matches) {
+      return (
+        `${fieldDescription} must be of type ${types.join(' or ')}, ` +
+        `but it was of type ${valueType}.`
+      );
+    }
+  }
+
+  if (schema.enum && schema.enum.indexOf(value) === -1) {
+    return `${fieldDescription} must be one of ${JSON.stringify(schema.enum)}.`;
+  }
+
+  if (valueType === 'object') {
+    const map = value as DocumentData;
+    for (const field of schema.required || []) {
+      if (!(field in map)) {
+        return `${fieldDescription} is missing the required field "${field}".`;
+      }
+    }
+    for (const field of Object.keys(map)) {
+      const fieldSchema = schema.properties?.[field];
+      const fieldPath = path ? `${path}.${field}` : field;
+      if (fieldSchema) {
+        const error = validateValue(fieldSchema, map[field], fieldPath);
+        if (error) {
+          return error;
+        }
+      } else if (schema.additionalProperties === false) {
+        return `${fieldDescription} contains the unexpected field "${field}".`;
+      }
+    }
+  } else if (valueType === 'array' && schema.items) {
+    const array = value as unknown[];
+    for (let i = 0; i < array.length; ++i) {
+      const error = validateValue(schema.items, array[i], `${path}[${i}]`);
+      if (error) {
+        return error;
+      }
+    }
+  }
+  return null;
+}
+
+function typeOf(value: unknown): SchemaType | 'unsupported' {
+  if (value === null) {
+    return 'null';
+  } else if (typeof value === 'string') {
+    return 'string';
+  } else if (typeof value === 'number') {
+    return 'number';
+  } else if (typeof value === 'boolean') {
+    return 'boolean';
+  } else if (Array.isArray(value)) {
+    return 'array';
+  } else if (value instanceof Timestamp || value instanceof Date) {
+    return 'timestamp';
+  } else if (value instanceof GeoPoint) {
+    return 'geopoint';
+  } else if (value instanceof Bytes) {
+    return 'bytes';
+  } else if (value instanceof DocumentReference) {
+    return 'reference';
+  } else if (value instanceof VectorValue) {
+    return 'vector';
+  } else if (isPlainObject(value)) {
+    return 'object';
+  }
+  return 'unsupported';
+}
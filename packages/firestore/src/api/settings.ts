@@ -16,6 +16,7 @@
  */
 
 import { FirestoreSettings as LiteSettings } from '../lite-api/settings';
+import { InMemoryBackend } from '../remote/in_memory_backend';
 
 import { FirestoreLocalCache } from './cache_config';
 import { ExperimentalLongPollingOptions } from './long_polling_options';
@@ -114,4 +115,25 @@ export interface FirestoreSettings extends LiteSettings {
    * effect.
    */
   experimentalLongPollingOptions?: ExperimentalLongPollingOptions;
+
+  /**
+   * Selects the SDK's underlying network transport for real-time listeners and
+   * writes. 'default' uses WebChannel in browsers and gRPC in Node.js.
+   *
+   * 'fetch' runs the streams over the Fetch API, streaming the request and
+   * response bodies, which allows real-time listeners to be used in runtimes
+   * such as Cloudflare Workers and Deno. If the runtime cannot stream request
+   * bodies, or if `experimentalForceLongPolling` is true, every change to the
+   * listened queries re-sends the request, and writes are sent as separate
+   * requests.
+   */
+  experimentalTransport?: 'default' | 'fetch';
+
+  /**
+   * An in-process fake of the Firestore backend, created with
+   * `createInMemoryBackend()`, to use instead of the network. Intended for
+   * tests only: the client reads and writes the fake's in-memory data, and
+   * `host`, `ssl` and the transport settings are ignored.
+   */
+  _backend?: InMemoryBackend;
 }
@@ -15,8 +15,13 @@
  * limitations under the License.
  */
 
-import { newQueryComparator } from '../core/query';
-import { ChangeType, ViewSnapshot } from '../core/view_snapshot';
+import { newQueryComparator, Query as InternalQuery } from '../core/query';
+import { SnapshotVersion } from '../core/snapshot_version';
+import {
+  ChangeType,
+  DocumentViewChange,
+  ViewSnapshot
+} from '../core/view_snapshot';
 import { FieldPath } from '../lite-api/field_path';
 import {
   DocumentData,
@@ -31,15 +36,25 @@ import {
   fieldPathFromArgument,
   FirestoreDataConverter as LiteFirestoreDataConverter
 } from '../lite-api/snapshot';
+import { Timestamp } from '../lite-api/timestamp';
 import { UntypedFirestoreDataConverter } from '../lite-api/user_data_reader';
 import { AbstractUserDataWriter } from '../lite-api/user_data_writer';
+import { fromBundledQuery } from '../local/local_serializer';
+import { documentKeySet } from '../model/collections';
 import { Document } from '../model/document';
 import { DocumentKey } from '../model/document_key';
+import { DocumentSet } from '../model/document_set';
+import { newSerializer } from '../platform/serializer';
+import { fromDocument } from '../remote/serializer';
 import { debugAssert, fail } from '../util/assert';
+import { BundleBuilder } from '../util/bundle_builder_impl';
+import { newBundleReaderSync } from '../util/bundle_reader_sync_impl';
 import { Code, FirestoreError } from '../util/error';
+import { cast } from '../util/input_validation';
+import { AutoId } from '../util/misc';
 
 import { Firestore } from './database';
-import { SnapshotListenOptions } from './reference_impl';
+import { ExpUserDataWriter, SnapshotListenOptions } from './reference_impl';
 
 /**
  * Converter used by `withConverter()` to transform user objects of type
@@ -282,8 +297,41 @@ export interface FirestoreDataConverter<
     snapshot: QueryDocumentSnapshot<DocumentData, DocumentData>,
     options?: SnapshotOptions
   ): AppModelType;
+
+  /**
+   * Optional. Called by the Firestore SDK to validate the data of a document.
+   * Throw an error to reject the data.
+   *
+   * Data read from Firestore is validated before it is passed to
+   * `fromFirestore()`. Its handling is configured with `onValidationFailure`.
+   * Data returned by `toFirestore()` is validated before it is written with
+   * {@link (setDoc:1)}, {@link addDoc}, {@link (WriteBatch.set:1)} or
+   * {@link (Transaction.set:1)}, and the write fails if it is invalid. The data
+   * of writes can contain `FieldValue` sentinels. Writes that use `merge` or
+   * `mergeFields` are not validated.
+   *
+   * @param data - The plain JavaScript object representing the document.
+   */
+  validate?(data: DocumentData): void;
+
+  /**
+   * Optional. Configures what happens when the data of a document read from
+   * Firestore fails validation. Defaults to 'throw'.
+   */
+  onValidationFailure?: ValidationFailureMode;
 }
 
+/**
+ * Configures what happens when a document read from Firestore fails the
+ * validation of its {@link FirestoreDataConverter}:
+ *  - 'throw': `data()` throws the validation error.
+ *  - 'skip': The document is omitted from `QuerySnapshot`s, and `data()`
+ *    returns `undefined` for `DocumentSnapshot`s.
+ *  - 'report': The document is converted with `fromFirestore()` as usual. The
+ *    validation error is available as {@link DocumentSnapshot.validationError}.
+ */
+export type ValidationFailureMode = 'throw' | 'skip' | 'report';
+
 /**
  * Options that configure how data is retrieved from a `DocumentSnapshot` (for
  * example the desired behavior for server timestamps that have not yet been set
@@ -330,10 +378,21 @@ export class SnapshotMetadata {
    */
   readonly fromCache: boolean;
 
+  /**
+   * The time at which the data was read if it was read at a specific point in
+   * time with the `readTime` option, or `null` if it reflects the latest data.
+   */
+  readonly readTime: Timestamp | null;
+
   /** @hideconstructor */
-  constructor(hasPendingWrites: boolean, fromCache: boolean) {
+  constructor(
+    hasPendingWrites: boolean,
+    fromCache: boolean,
+    readTime: Timestamp | null = null
+  ) {
     this.hasPendingWrites = hasPendingWrites;
     this.fromCache = fromCache;
+    this.readTime = readTime;
   }
 
   /**
@@ -345,7 +404,10 @@ export class SnapshotMetadata {
   isEqual(other: SnapshotMetadata): boolean {
     return (
       this.hasPendingWrites === other.hasPendingWrites &&
-      this.fromCache === other.fromCache
+      this.fromCache === other.fromCache &&
+      (this.readTime === null
+        ? other.readTime === null
+        : other.readTime !== null && this.readTime.isEqual(other.readTime))
     );
   }
 }
@@ -399,6 +461,7 @@ export class DocumentSnapshot<
   DbModelType extends DocumentData = DocumentData
 > extends LiteDocumentSnapshot<AppModelType, DbModelType> {
   private readonly _firestoreImpl: Firestore;
+  private _validationError?: FirestoreError | null;
 
   /**
    *  Metadata about the `DocumentSnapshot`, including information about its
@@ -413,9 +476,10 @@ export class DocumentSnapshot<
     key: DocumentKey,
     document: Document | null,
     metadata: SnapshotMetadata,
-    converter: UntypedFirestoreDataConverter<AppModelType, DbModelType> | null
+    converter: UntypedFirestoreDataConverter<AppModelType, DbModelType> | null,
+    isPartial = false
   ) {
-    super(_firestore, userDataWriter, key, document, converter);
+    super(_firestore, userDataWriter, key, document, converter, isPartial);
     this._firestoreImpl = _firestore;
     this.metadata = metadata;
   }
@@ -427,6 +491,25 @@ export class DocumentSnapshot<
     return super.exists();
   }
 
+  /**
+   * The error thrown by the `validate()` function of the snapshot's
+   * {@link FirestoreDataConverter}, or `null` if the document is valid, does
+   * not exist or the converter does not validate documents.
+   */
+  get validationError(): FirestoreError | null {
+    if (this._validationError === undefined) {
+      this._validationError =
+        this._converter && this._document
+          ? validateDocument(
+              this._converter,
+              this._userDataWriter,
+              this._document
+            )
+          : null;
+    }
+    return this._validationError;
+  }
+
   /**
    * Retrieves all fields in the document as an `Object`. Returns `undefined` if
    * the document doesn't exist.
@@ -445,6 +528,15 @@ export class DocumentSnapshot<
     if (!this._document) {
       return undefined;
     } else if (this._converter) {
+      const validationError = this.validationError;
+      if (validationError) {
+        const mode = this._converter.onValidationFailure ?? 'throw';
+        if (mode === 'throw') {
+          throw validationError;
+        } else if (mode === 'skip') {
+          return undefined;
+        }
+      }
       // We only want to use the converter and create a new DocumentSnapshot
       // if a converter has been provided.
       const snapshot = new QueryDocumentSnapshot(
@@ -453,7 +545,8 @@ export class DocumentSnapshot<
         this._key,
         this._document,
         this.metadata,
-        /* converter= */ null
+        /* converter= */ null,
+        this.isPartial
       );
       return this._converter.fromFirestore(snapshot, options);
     } else {
@@ -496,6 +589,40 @@ export class DocumentSnapshot<
     }
     return undefined;
   }
+
+  /**
+   * Returns a JSON-serializable representation of this `DocumentSnapshot`.
+   *
+   * The result can be turned back into a `DocumentSnapshot` with
+   * {@link documentSnapshotFromJSON}, or passed to {@link onSnapshotResume} to
+   * seed the local cache and listen to the document. This allows snapshots
+   * fetched during server-side rendering to be hydrated on the client.
+   *
+   * @throws FirestoreError if the snapshot contains local modifications that
+   * have not been written to the backend yet.
+   */
+  toJSON(): object {
+    if (this.metadata.hasPendingWrites) {
+      throw new FirestoreError(
+        Code.FAILED_PRECONDITION,
+        'DocumentSnapshot.toJSON() cannot serialize a document with pending ' +
+          'writes. Await waitForPendingWrites() before calling toJSON().'
+      );
+    }
+    const builder = new BundleBuilder(
+      this._firestore._databaseId,
+      AutoId.newId()
+    );
+    if (this._document) {
+      builder.addBundleDocument(this._document);
+    }
+    const json: SnapshotJson = {
+      type: DOCUMENT_SNAPSHOT_JSON_TYPE,
+      bundleName: this._key.toString(),
+      bundle: builder.build()
+    };
+    return json;
+  }
 }
 
 /**
@@ -557,18 +684,36 @@ export class QuerySnapshot<
   private _cachedChanges?: Array<DocumentChange<AppModelType, DbModelType>>;
   private _cachedChangesIncludeMetadataChanges?: boolean;
 
+  /**
+   * The view snapshot of the query, without the documents that are skipped
+   * because they failed validation.
+   */
+  readonly _snapshot: ViewSnapshot;
+
   /** @hideconstructor */
   constructor(
     readonly _firestore: Firestore,
     readonly _userDataWriter: AbstractUserDataWriter,
     query: Query<AppModelType, DbModelType>,
-    readonly _snapshot: ViewSnapshot
+    snapshot: ViewSnapshot,
+    readonly _readTime: Timestamp | null = null
   ) {
     this.metadata = new SnapshotMetadata(
-      _snapshot.hasPendingWrites,
-      _snapshot.fromCache
+      snapshot.hasPendingWrites,
+      snapshot.fromCache,
+      _readTime
     );
     this.query = query;
+
+    const converter =
+      query.converter as UntypedFirestoreDataConverter<AppModelType> | null;
+    this._snapshot =
+      converter?.validate && converter.onValidationFailure === 'skip'
+        ? withoutInvalidDocuments(
+            snapshot,
+            doc => validateDocument(converter, _userDataWriter, doc) === null
+          )
+        : snapshot;
   }
 
   /** An array of all the documents in the `QuerySnapshot`. */
@@ -611,9 +756,11 @@ export class QuerySnapshot<
           doc,
           new SnapshotMetadata(
             this._snapshot.mutatedKeys.has(doc.key),
-            this._snapshot.fromCache
+            this._snapshot.fromCache,
+            this._readTime
           ),
-          this.query.converter
+          this.query.converter,
+          this.query._query.projection !== null
         )
       );
     });
@@ -651,6 +798,127 @@ export class QuerySnapshot<
 
     return this._cachedChanges;
   }
+
+  /**
+   * Returns a JSON-serializable representation of this `QuerySnapshot`.
+   *
+   * The result can be turned back into a `QuerySnapshot` with
+   * {@link querySnapshotFromJSON}, or passed to {@link onSnapshotResume} to
+   * seed the local cache and listen to the query.
+   *
+   * @throws FirestoreError if the snapshot contains local modifications that
+   * have not been written to the backend yet.
+   */
+  toJSON(): object {
+    if (this.metadata.hasPendingWrites) {
+      throw new FirestoreError(
+        Code.FAILED_PRECONDITION,
+        'QuerySnapshot.toJSON() cannot serialize documents with pending ' +
+          'writes. Await waitForPendingWrites() before calling toJSON().'
+      );
+    }
+    const builder = new BundleBuilder(
+      this._firestore._databaseId,
+      AutoId.newId()
+    );
+    const queryName = AutoId.newId();
+    let readTime = SnapshotVersion.min();
+    this._snapshot.docs.forEach(doc => {
+      builder.addBundleDocument(doc, [queryName]);
+      if (doc.readTime.compareTo(readTime) > 0) {
+        readTime = doc.readTime;
+      }
+    });
+    builder.addBundleQuery(queryName, this.query._query, readTime);
+    const json: SnapshotJson = {
+      type: QUERY_SNAPSHOT_JSON_TYPE,
+      bundleName: queryName,
+      bundle: builder.build()
+    };
+    return json;
+  }
+}
+
+/**
+ * Runs the `validate()` function of `converter` on the data of `document`.
+ * Returns the validation error, or `null` if the data is valid or the converter
+ * does not validate documents.
+ */
+function validateDocument(
+  converter: UntypedFirestoreDataConverter<unknown>,
+  userDataWriter: AbstractUserDataWriter,
+  document: Document
+): FirestoreError | null {
+  if (!converter.validate) {
+    return null;
+  }
+  try {
+    converter.validate(
+      userDataWriter.convertValue(document.data.value) as DocumentData
+    );
+    return null;
+  } catch (e) {
+    return new FirestoreError(
+      Code.FAILED_PRECONDITION,
+      `Document ${document.key} failed validation: ${(e as Error).message}`
+    );
+  }
+}
+
+/**
+ * Returns a copy of `snapshot` without the documents that are not valid.
+ * Changes of documents that became invalid are turned into removals, and
+ * changes of documents that became valid are turned into additions.
+ */
+function withoutInvalidDocuments(
+  snapshot: ViewSnapshot,
+  isValid: (doc: Document) => boolean
+): ViewSnapshot {
+  let docs = snapshot.docs;
+  snapshot.docs.forEach(doc => {
+    if (!isValid(doc)) {
+      docs = docs.delete(doc.key);
+    }
+  });
+  let oldDocs = snapshot.oldDocs;
+  snapshot.oldDocs.forEach(doc => {
+    if (!isValid(doc)) {
+      oldDocs = oldDocs.delete(doc.key);
+    }
+  });
+
+  const docChanges: DocumentViewChange[] = [];
+  for (const change of snapshot.docChanges) {
+    const oldDoc = oldDocs.get(change.doc.key);
+    const isValidNow = docs.has(change.doc.key);
+    if (change.type === ChangeType.Added) {
+      if (isValidNow) {
+        docChanges.push(change);
+      }
+    } else if (change.type === ChangeType.Removed) {
+      if (oldDoc) {
+        docChanges.push(change);
+      }
+    } else if (oldDoc && isValidNow) {
+      docChanges.push(change);
+    } else if (oldDoc) {
+      docChanges.push({ type: ChangeType.Removed, doc: oldDoc });
+    } else if (isValidNow) {
+      docChanges.push({ type: ChangeType.Added, doc: change.doc });
+    }
+  }
+
+  return new ViewSnapshot(
+    snapshot.query,
+    docs,
+    oldDocs,
+    docChanges,
+    snapshot.mutatedKeys,
+    snapshot.fromCache,
+    snapshot.syncStateChanged,
+    snapshot.excludesMetadataChanges,
+    snapshot.hasCachedResults
+  );
 }
 
 /** Calculates the array of `DocumentChange`s for a given `ViewSnapshot`. */
@@ -673,6 +941,8 @@ export function changesFromSnapshot<
       );
       debugAssert(
         !lastDoc ||
+          // Projected documents are kept in the order returned by the backend.
+          querySnapshot._snapshot.query.projection !== null ||
           newQueryComparator(querySnapshot._snapshot.query)(
             lastDoc,
             change.doc
@@ -686,9 +956,11 @@ export function changesFromSnapshot<
         change.doc,
         new SnapshotMetadata(
           querySnapshot._snapshot.mutatedKeys.has(change.doc.key),
-          querySnapshot._snapshot.fromCache
+          querySnapshot._snapshot.fromCache,
+          querySnapshot._readTime
         ),
-        querySnapshot.query.converter
+        querySnapshot.query.converter,
+        querySnapshot.query._query.projection !== null
       );
       lastDoc = change.doc;
       return {
@@ -714,9 +986,11 @@ export function changesFromSnapshot<
           change.doc,
           new SnapshotMetadata(
             querySnapshot._snapshot.mutatedKeys.has(change.doc.key),
-            querySnapshot._snapshot.fromCache
+            querySnapshot._snapshot.fromCache,
+            querySnapshot._readTime
           ),
-          querySnapshot.query.converter
+          querySnapshot.query.converter,
+          querySnapshot.query._query.projection !== null
         );
         let oldIndex = -1;
         let newIndex = -1;
@@ -790,3 +1064,224 @@ export function snapshotEqual<AppModelType, DbModelType extends DocumentData>(
 
   return false;
 }
+
+const DOCUMENT_SNAPSHOT_JSON_TYPE = 'firestore/documentSnapshot/1.0';
+const QUERY_SNAPSHOT_JSON_TYPE = 'firestore/querySnapshot/1.0';
+
+/**
+ * The JSON representation of a `DocumentSnapshot` or a `QuerySnapshot`, as
+ * returned by `toJSON()`.
+ */
+export interface SnapshotJson {
+  /** The kind and schema version of the serialized snapshot. */
+  type: string;
+  /**
+   * The path of the document for document snapshots, or the name of the
+   * bundled query for query snapshots.
+   */
+  bundleName: string;
+  /** A bundle containing the snapshot's documents. */
+  bundle: string;
+}
+
+/**
+ * Validates that `json` was produced by `toJSON()` and returns it as a
+ * `SnapshotJson`. Returns whether it represents a document snapshot.
+ */
+export function parseSnapshotJson(
+  methodName: string,
+  json: object
+): { snapshotJson: SnapshotJson; isDocument: boolean } {
+  const snapshotJson = json as Partial<SnapshotJson>;
+  if (
+    (snapshotJson.type !== DOCUMENT_SNAPSHOT_JSON_TYPE &&
+      snapshotJson.type !== QUERY_SNAPSHOT_JSON_TYPE) ||
+    typeof snapshotJson.bundleName !== 'string' ||
+    typeof snapshotJson.bundle !== 'string'
+  ) {
+    throw new FirestoreError(
+      Code.INVALID_ARGUMENT,
+      `Function ${methodName}() requires its argument to be the result of ` +
+        'DocumentSnapshot.toJSON() or QuerySnapshot.toJSON().'
+    );
+  }
+  return {
+    snapshotJson: snapshotJson as SnapshotJson,
+    isDocument: snapshotJson.type === DOCUMENT_SNAPSHOT_JSON_TYPE
+  };
+}
+
+/**
+ * Creates a `DocumentSnapshot` from the JSON representation returned by
+ * {@link DocumentSnapshot.toJSON}.
+ *
+ * The snapshot is not backed by the local cache and its metadata reports it
+ * as coming from cache. Use {@link onSnapshotResume} to seed the cache and
+ * receive updates.
+ *
+ * @param db - The `Firestore` instance the snapshot belongs to.
+ * @param json - The result of `DocumentSnapshot.toJSON()`.
+ * @returns A `DocumentSnapshot` with the serialized document data.
+ */
+export function documentSnapshotFromJSON(
+  db: Firestore,
+  json: object
+): DocumentSnapshot;
+/**
+ * Creates a `DocumentSnapshot` from the JSON representation returned by
+ * {@link DocumentSnapshot.toJSON}, applying the given converter to its data.
+ *
+ * @param db - The `Firestore` instance the snapshot belongs to.
+ * @param json - The result of `DocumentSnapshot.toJSON()`.
+ * @param converter - The converter to use when reading the document data.
+ * @returns A `DocumentSnapshot` with the serialized document data.
+ */
+export function documentSnapshotFromJSON<
+  AppModelType,
+  DbModelType extends DocumentData = DocumentData
+>(
+  db: Firestore,
+  json: object,
+  converter: FirestoreDataConverter<AppModelType, DbModelType>
+): DocumentSnapshot<AppModelType, DbModelType>;
+export function documentSnapshotFromJSON<
+  AppModelType,
+  DbModelType extends DocumentData
+>(
+  db: Firestore,
+  json: object,
+  converter?: FirestoreDataConverter<AppModelType, DbModelType>
+): DocumentSnapshot<AppModelType, DbModelType> {
+  db = cast(db, Firestore);
+  const { snapshotJson, isDocument } = parseSnapshotJson(
+    'documentSnapshotFromJSON',
+    json
+  );
+  if (!isDocument) {
+    throw new FirestoreError(
+      Code.INVALID_ARGUMENT,
+      'Function documentSnapshotFromJSON() cannot be used with the result of ' +
+        'QuerySnapshot.toJSON(). Use querySnapshotFromJSON() instead.'
+    );
+  }
+
+  const key = DocumentKey.fromPath(snapshotJson.bundleName);
+  const serializer = newSerializer(db._databaseId);
+  const reader = newBundleReaderSync(snapshotJson.bundle, serializer);
+  let document: Document | null = null;
+  for (const element of reader.getElements()) {
+    if (element.payload.document) {
+      document = fromDocument(serializer, element.payload.document);
+    }
+  }
+  if (document && !document.key.isEqual(key)) {
+    throw new FirestoreError(
+      Code.INVALID_ARGUMENT,
+      `The serialized snapshot for ${key} contains document ${document.key}.`
+    );
+  }
+
+  return new DocumentSnapshot(
+    db,
+    new ExpUserDataWriter(db),
+    key,
+    document,
+    new SnapshotMetadata(/* hasPendingWrites= */ false, /* fromCache= */ true),
+    converter ?? null
+  );
+}
+
+/**
+ * Creates a `QuerySnapshot` from the JSON representation returned by
+ * {@link QuerySnapshot.toJSON}.
+ *
+ * The snapshot is not backed by the local cache and its metadata reports it
+ * as coming from cache. Use {@link onSnapshotResume} to seed the cache and
+ * receive updates.
+ *
+ * @param db - The `Firestore` instance the snapshot belongs to.
+ * @param json - The result of `QuerySnapshot.toJSON()`.
+ * @returns A `QuerySnapshot` with the serialized query results.
+ */
+export function querySnapshotFromJSON(
+  db: Firestore,
+  json: object
+): QuerySnapshot;
+/**
+ * Creates a `QuerySnapshot` from the JSON representation returned by
+ * {@link QuerySnapshot.toJSON}, applying the given converter to its documents.
+ *
+ * @param db - The `Firestore` instance the snapshot belongs to.
+ * @param json - The result of `QuerySnapshot.toJSON()`.
+ * @param converter - The converter to use when reading the document data.
+ * @returns A `QuerySnapshot` with the serialized query results.
+ */
+export function querySnapshotFromJSON<
+  AppModelType,
+  DbModelType extends DocumentData = DocumentData
+>(
+  db: Firestore,
+  json: object,
+  converter: FirestoreDataConverter<AppModelType, DbModelType>
+): QuerySnapshot<AppModelType, DbModelType>;
+export function querySnapshotFromJSON<
+  AppModelType,
+  DbModelType extends DocumentData
+>(
+  db: Firestore,
+  json: object,
+  converter?: FirestoreDataConverter<AppModelType, DbModelType>
+): QuerySnapshot<AppModelType, DbModelType> {
+  db = cast(db, Firestore);
+  const { snapshotJson, isDocument } = parseSnapshotJson(
+    'querySnapshotFromJSON',
+    json
+  );
+  if (isDocument) {
+    throw new FirestoreError(
+      Code.INVALID_ARGUMENT,
+      'Function querySnapshotFromJSON() cannot be used with the result of ' +
+        'DocumentSnapshot.toJSON(). Use documentSnapshotFromJSON() instead.'
+    );
+  }
+
+  const serializer = newSerializer(db._databaseId);
+  const reader = newBundleReaderSync(snapshotJson.bundle, serializer);
+  let query: InternalQuery | null = null;
+  const documents: Document[] = [];
+  for (const element of reader.getElements()) {
+    const payload = element.payload;
+    if (
+      payload.namedQuery &&
+      payload.namedQuery.name === snapshotJson.bundleName
+    ) {
+      query = fromBundledQuery(payload.namedQuery.bundledQuery!);
+    } else if (payload.document) {
+      documents.push(fromDocument(serializer, payload.document));
+    }
+  }
+  if (!query) {
+    throw new FirestoreError(
+      Code.INVALID_ARGUMENT,
+      `The serialized snapshot does not contain the query ` +
+        `'${snapshotJson.bundleName}'.`
+    );
+  }
+
+  let documentSet = new DocumentSet(newQueryComparator(query));
+  for (const document of documents) {
+    documentSet = documentSet.add(document);
+  }
+  return new QuerySnapshot(
+    db,
+    new ExpUserDataWriter(db),
+    new Query(db, converter ?? null, query),
+    ViewSnapshot.fromInitialDocuments(
+      query,
+      documentSet,
+      documentKeySet(),
+      /* fromCache= */ true,
+      /* hasCachedResults= */ false
+    )
+  );
+}
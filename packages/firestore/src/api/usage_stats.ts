@@ -0,0 +1,107 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { getModularInstance } from '@firebase/util';
+
+import { firestoreClientAddUsageStatsListener } from '../core/firestore_client';
+import { newQueryForPath, queryToTarget } from '../core/query';
+import {
+  DEFAULT_USAGE_STATS_INTERVAL_MS,
+  TargetUsageStats,
+  UsageStats
+} from '../core/usage_stats';
+import { DocumentReference, Query } from '../lite-api/reference';
+import { Code, FirestoreError } from '../util/error';
+import { cast } from '../util/input_validation';
+
+import { ensureFirestoreConfigured, Firestore } from './database';
+import { Unsubscribe } from './reference_impl';
+
+export { TargetUsageStats, UsageStats };
+
+/**
+ * Options to configure how often {@link onUsageStats} reports usage.
+ */
+export interface UsageStatsOptions {
+  /**
+   * The length of each reporting interval in milliseconds. Defaults to one
+   * minute.
+   */
+  readonly intervalMillis?: number;
+}
+
+/**
+ * Reports the document reads and writes of a Firestore instance, to help
+ * attribute billed operations to the parts of an app that cause them.
+ *
+ * At the end of every interval, the callback is called with the number of
+ * documents that the server sent for each active query, the number of
+ * documents read from the local cache, existence filter mismatches and the
+ * full re-queries they caused, the estimated size of the received documents,
+ * and the number of writes acknowledged by the server. Queries can be tagged
+ * with {@link setUsageLabel}.
+ *
+ * The counts are measured by the SDK and are meant for attribution; they may
+ * differ from the billed usage. Writes performed in transactions are not
+ * counted. With multi-tab persistence, only the tab that holds the network
+ * connection observes the documents sent by the server.
+ *
+ * @param firestore - The Firestore instance to report the usage of.
+ * @param callback - Called with the usage of each interval.
+ * @param options - Options to configure the reporting interval.
+ * @returns An unsubscribe function that stops the reports.
+ */
+export function onUsageStats(
+  firestore: Firestore,
+  callback: (stats: UsageStats) => void,
+  options: UsageStatsOptions = {}
+): Unsubscribe {
+  firestore = cast(firestore, Firestore);
+  const intervalMs = options.intervalMillis ?? DEFAULT_USAGE_STATS_INTERVAL_MS;
+  if (!(intervalMs >= 1)) {
+    throw new FirestoreError(
+      Code.INVALID_ARGUMENT,
+      `intervalMillis must be at least 1, but it was: ${intervalMs}.`
+    );
+  }
+  const client = ensureFirestoreConfigured(firestore);
+  return firestoreClientAddUsageStatsListener(client, intervalMs, {
+    next: callback
+  });
+}
+
+/**
+ * Tags the usage of a query or document in the reports of
+ * {@link onUsageStats} with a label, such as the name of the screen that
+ * shows it. The label applies to all listens and reads of equal queries.
+ *
+ * @param reference - The query or document to tag.
+ * @param label - The label, or `null` to remove the label.
+ */
+export function setUsageLabel(
+  reference: Query<unknown> | DocumentReference<unknown>,
+  label: string | null
+): void {
+  reference = getModularInstance(reference);
+  const firestore = cast(reference.firestore, Firestore);
+  const client = ensureFirestoreConfigured(firestore);
+  const query =
+    reference instanceof DocumentReference
+      ? newQueryForPath(reference._key.path)
+      : cast<Query<unknown>>(reference, Query)._query;
+  client.usageStats.setLabel(queryToTarget(query), label);
+}
@@ -15,7 +15,12 @@
  * limitations under the License.
  */
 
+import { DocumentSet } from '../model/document_set';
+import { normalizeNumber } from '../model/normalize';
 import { FieldPath } from '../model/path';
+import { isDouble, isInteger } from '../model/values';
+import { ApiClientObjectMap, Value } from '../protos/firestore_proto_api';
+import { debugAssert, fail } from '../util/assert';
 
 /**
  * Union type representing the aggregate type to be performed.
@@ -41,3 +46,65 @@ export class AggregateImpl implements Aggregate {
     readonly fieldPath?: FieldPath
   ) {}
 }
+
+/**
+ * Computes the given aggregates over a set of documents, following the same
+ * semantics as the backend:
+ *
+ * - `count` returns the number of documents.
+ * - `sum` adds up the numeric values of the field and ignores documents where
+ *   the field is missing or not a number. The result is an integer if all
+ *   values are integers and the sum does not overflow, and a double otherwise.
+ * - `avg` returns the mean of the numeric values of the field as a double, or
+ *   null if there are no numeric values.
+ *
+ * The result is keyed by the alias of each aggregate.
+ */
+export function computeAggregates(
+  aggregates: Aggregate[],
+  documents: DocumentSet
+): ApiClientObjectMap<Value> {
+  const result: ApiClientObjectMap<Value> = {};
+  for (const aggregate of aggregates) {
+    result[aggregate.alias] = computeAggregate(aggregate, documents);
+  }
+  return result;
+}
+
+function computeAggregate(aggregate: Aggregate, documents: DocumentSet): Value {
+  if (aggregate.aggregateType === 'count') {
+    return { integerValue: documents.size };
+  }
+
+  debugAssert(
+    !!aggregate.fieldPath,
+    `Aggregate '${aggregate.aggregateType}' requires a field path`
+  );
+  let sum = 0;
+  let count = 0;
+  let isIntegerSum = true;
+  documents.forEach(document => {
+    const value = document.data.field(aggregate.fieldPath!);
+    if (isInteger(value)) {
+      sum += normalizeNumber(value.integerValue);
+    } else if (isDouble(value)) {
+      sum += normalizeNumber(value.doubleValue);
+      isIntegerSum = false;
+    } else {
+      return;
+    }
+    ++count;
+    isIntegerSum = isIntegerSum && Number.isSafeInteger(sum);
+  });
+
+  switch (aggregate.aggregateType) {
+    case 'sum':
+      return isIntegerSum ? { integerValue: sum } : { doubleValue: sum };
+    case 'avg':
+      return count === 0
+        ? { nullValue: 'NULL_VALUE' }
+        : { doubleValue: sum / count };
+    default:
+      return fail('Unknown aggregate type: ' + aggregate.aggregateType);
+  }
+}
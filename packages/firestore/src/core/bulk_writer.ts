@@ -0,0 +1,403 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Mutation } from '../model/mutation';
+import { MAX_COMMIT_SIZE_BYTES, mutationSize } from '../model/write_limits';
+import { ExponentialBackoff } from '../remote/backoff';
+import { isPermanentWriteError } from '../remote/rpc_error';
+import { debugAssert } from '../util/assert';
+import { AsyncQueue, DelayedOperation, TimerId } from '../util/async_queue';
+import { Code, FirestoreError } from '../util/error';
+import { logDebug } from '../util/log';
+import { Deferred } from '../util/promise';
+
+const LOG_TAG = 'BulkWriter';
+
+/**
+ * The number of operations per second that the BulkWriter starts with, as
+ * recommended by the "500/50/5" rule.
+ */
+export const DEFAULT_INITIAL_OPS_PER_SECOND = 500;
+
+/**
+ * The factor by which the rate limit is increased every
+ * `RATE_LIMIT_INCREASE_INTERVAL_MS`, as recommended by the "500/50/5" rule.
+ */
+const RATE_LIMIT_MULTIPLIER = 1.5;
+
+/** The interval after which the rate limit is increased (5 minutes). */
+const RATE_LIMIT_INCREASE_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * The maximum number of writes in a single commit. Commits are atomic, so
+ * smaller commits limit the number of writes that fail together and reduce
+ * contention.
+ */
+const MAX_BATCH_SIZE = 20;
+
+/** The maximum number of times a commit is attempted. */
+export const DEFAULT_MAX_ATTEMPTS = 10;
+
+/** The aggregated progress of a BulkWriter. */
+export interface BulkWriterProgress {
+  /** The number of writes that succeeded. */
+  readonly succeeded: number;
+  /** The number of writes that failed. */
+  readonly failed: number;
+  /** The number of writes that have not succeeded or failed yet. */
+  readonly pending: number;
+  /** The number of times a commit was retried. */
+  readonly retries: number;
+}
+
+/** The options of a BulkWriterRunner, with defaults applied. */
+export interface BulkWriterOptions {
+  /** The maximum number of writes per second, or `Infinity`. */
+  maxOpsPerSecond: number;
+  /**
+   * Decides whether a failed commit is retried, given the error and the
+   * number of attempts made so far.
+   */
+  retryPredicate: (error: FirestoreError, attempts: number) => boolean;
+  /** Called whenever writes succeed or fail. */
+  onProgress: ((progress: BulkWriterProgress) => void) | null;
+}
+
+/**
+ * Returns whether a commit that failed with `error` is retried by default:
+ * if the error is transient, or if the commit was aborted due to contention.
+ */
+export function isRetryableBulkWriterError(error: FirestoreError): boolean {
+  return !isPermanentWriteError(error.code);
+}
+
+/**
+ * A token bucket that limits the number of operations per second. The
+ * capacity of the bucket starts at `initialCapacity` and is multiplied by
+ * `multiplier` every `multiplierMillis`, up to `maximumCapacity`.
+ */
+export class RateLimiter {
+  private availableTokens: number;
+  private lastRefillTimeMs: number;
+
+  constructor(
+    private readonly initialCapacity: number,
+    private readonly multiplier: number,
+    private readonly multiplierMillis: number,
+    readonly maximumCapacity: number,
+    private readonly startTimeMs: number = Date.now()
+  ) {
+    this.availableTokens = this.calculateCapacity(startTimeMs);
+    this.lastRefillTimeMs = startTimeMs;
+  }
+
+  /**
+   * Consumes `numOperations` tokens and returns `true` if enough tokens are
+   * available at `requestTimeMs`. Otherwise, returns `false` and consumes no
+   * tokens.
+   */
+  tryMakeRequest(numOperations: number, requestTimeMs = Date.now()): boolean {
+    this.refillTokens(requestTimeMs);
+    if (numOperations <= this.availableTokens) {
+      this.availableTokens -= numOperations;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Returns the number of milliseconds after `requestTimeMs` until
+   * `numOperations` tokens are available.
+   */
+  getNextRequestDelayMs(
+    numOperations: number,
+    requestTimeMs = Date.now()
+  ): number {
+    this.refillTokens(requestTimeMs);
+    if (numOperations <= this.availableTokens) {
+      return 0;
+    }
+    const capacity = this.calculateCapacity(requestTimeMs);
+    debugAssert(
+      numOperations <= capacity,
+      'Request exceeds the capacity of the rate limiter'
+    );
+    const missingTokens = numOperations - this.availableTokens;
+    return Math.ceil((missingTokens * 1000) / capacity);
+  }
+
+  /** Returns the capacity of the bucket at `requestTimeMs`. */
+  calculateCapacity(requestTimeMs: number): number {
+    const elapsedMs = Math.max(0, requestTimeMs - this.startTimeMs);
+    const increases = Math.floor(elapsedMs / this.multiplierMillis);
+    return Math.min(
+      Math.floor(this.initialCapacity * Math.pow(this.multiplier, increases)),
+      this.maximumCapacity
+    );
+  }
+
+  private refillTokens(requestTimeMs: number): void {
+    if (requestTimeMs < this.lastRefillTimeMs) {
+      // Guard against clock changes.
+      this.lastRefillTimeMs = requestTimeMs;
+      return;
+    }
+    const capacity = this.calculateCapacity(requestTimeMs);
+    const elapsedMs = requestTimeMs - this.lastRefillTimeMs;
+    this.availableTokens = Math.min(
+      capacity,
+      this.availableTokens + (elapsedMs * capacity) / 1000
+    );
+    this.lastRefillTimeMs = requestTimeMs;
+  }
+}
+
+interface BulkWriterOperation {
+  readonly mutation: Mutation;
+  readonly deferred: Deferred<void>;
+}
+
+/** The writes that are sent together in a single commit. */
+class BulkCommitBatch {
+  readonly operations: BulkWriterOperation[] = [];
+  size = 0;
+  attempts = 0;
+
+  constructor(readonly backoff: ExponentialBackoff) {}
+}
+
+/**
+ * BulkWriterRunner groups an unbounded number of writes into commits, sends
+ * them at the rate allowed by the "500/50/5" rule and retries failed commits
+ * with backoff.
+ */
+export class BulkWriterRunner {
+  private readonly rateLimiter: RateLimiter;
+  private readonly maxBatchSize: number;
+  private currentBatch: BulkCommitBatch | null = null;
+  /** The batches that are waiting to be sent, in order. */
+  private readonly readyBatches: BulkCommitBatch[] = [];
+  private sendTimer: DelayedOperation<void> | null = null;
+  /** The promises of all writes that have not settled yet. */
+  private readonly pendingWrites = new Set<Promise<void>>();
+  private closed = false;
+
+  private succeeded = 0;
+  private failed = 0;
+  private pending = 0;
+  private retries = 0;
+
+  constructor(
+    private readonly asyncQueue: AsyncQueue,
+    private readonly commitHandler: (mutations: Mutation[]) => Promise<void>,
+    private readonly options: BulkWriterOptions
+  ) {
+    this.rateLimiter = new RateLimiter(
+      Math.min(DEFAULT_INITIAL_OPS_PER_SECOND, options.maxOpsPerSecond),
+      RATE_LIMIT_MULTIPLIER,
+      RATE_LIMIT_INCREASE_INTERVAL_MS,
+      options.maxOpsPerSecond
+    );
+    this.maxBatchSize = Math.max(
+      1,
+      Math.min(MAX_BATCH_SIZE, Math.floor(options.maxOpsPerSecond))
+    );
+  }
+
+  /**
+   * Adds `mutation` to the current commit.
+   *
+   * @returns A promise that is resolved once the write succeeded, or rejected
+   * once it failed and is not retried anymore.
+   */
+  enqueue(mutation: Mutation): Promise<void> {
+    this.verifyNotClosed();
+    const size = mutationSize(mutation);
+    if (
+      this.currentBatch !== null &&
+      this.currentBatch.size + size > MAX_COMMIT_SIZE_BYTES
+    ) {
+      this.sendCurrentBatch();
+    }
+    if (this.currentBatch === null) {
+      this.currentBatch = new BulkCommitBatch(
+        new ExponentialBackoff(this.asyncQueue, TimerId.BulkWriterRetry)
+      );
+    }
+
+    const deferred = new Deferred<void>();
+    this.currentBatch.operations.push({ mutation, deferred });
+    this.currentBatch.size += size;
+    this.pending += 1;
+
+    const pendingWrite = deferred.promise.then(
+      () => {},
+      () => {}
+    );
+    this.pendingWrites.add(pendingWrite);
+    // eslint-disable-next-line @typescript-eslint/no-floating-promises
+    pendingWrite.then(() => this.pendingWrites.delete(pendingWrite));
+
+    if (this.currentBatch.operations.length >= this.maxBatchSize) {
+      this.sendCurrentBatch();
+    }
+    return deferred.promise;
+  }
+
+  /**
+   * Sends all writes that were enqueued so far.
+   *
+   * @returns A promise that is resolved once all of these writes succeeded or
+   * failed.
+   */
+  flush(): Promise<void> {
+    this.verifyNotClosed();
+    return this.flushInternal();
+  }
+
+  /**
+   * Sends all writes and prevents further writes from being enqueued.
+   *
+   * @returns A promise that is resolved once all writes succeeded or failed.
+   */
+  close(): Promise<void> {
+    const flushed = this.flushInternal();
+    this.closed = true;
+    return flushed;
+  }
+
+  /** Returns the current progress of the writes. */
+  get progress(): BulkWriterProgress {
+    return {
+      succeeded: this.succeeded,
+      failed: this.failed,
+      pending: this.pending,
+      retries: this.retries
+    };
+  }
+
+  private flushInternal(): Promise<void> {
+    this.sendCurrentBatch();
+    const pendingWrites: Array<Promise<void>> = [];
+    this.pendingWrites.forEach(pendingWrite =>
+      pendingWrites.push(pendingWrite)
+    );
+    return Promise.all(pendingWrites).then(() => {});
+  }
+
+  private verifyNotClosed(): void {
+    if (this.closed) {
+      throw new FirestoreError(
+        Code.FAILED_PRECONDITION,
+        'A BulkWriter can no longer be used after close() has been called.'
+      );
+    }
+  }
+
+  private sendCurrentBatch(): void {
+    if (this.currentBatch !== null) {
+      this.readyBatches.push(this.currentBatch);
+      this.currentBatch = null;
+      this.sendReadyBatches();
+    }
+  }
+
+  /**
+   * Sends the ready batches in order until the rate limit is reached, and
+   * schedules sending the remaining batches once enough capacity is
+   * available.
+   */
+  private sendReadyBatches(): void {
+    if (this.sendTimer !== null) {
+      return;
+    }
+    while (this.readyBatches.length > 0) {
+      const batch = this.readyBatches[0];
+      const operationCount = batch.operations.length;
+      if (!this.rateLimiter.tryMakeRequest(operationCount)) {
+        const delayMs = this.rateLimiter.getNextRequestDelayMs(operationCount);
+        logDebug(
+          LOG_TAG,
+          `Rate limit reached, sending writes in ${delayMs} ms`
+        );
+        this.sendTimer = this.asyncQueue.enqueueAfterDelay(
+          TimerId.BulkWriterThrottle,
+          delayMs,
+          () => {
+            this.sendTimer = null;
+            this.sendReadyBatches();
+            return Promise.resolve();
+          }
+        );
+        return;
+      }
+      this.readyBatches.shift();
+      this.sendBatch(batch);
+    }
+  }
+
+  private sendBatch(batch: BulkCommitBatch): void {
+    batch.attempts += 1;
+    this.commitHandler(batch.operations.map(op => op.mutation)).then(
+      () => {
+        this.succeeded += batch.operations.length;
+        this.pending -= batch.operations.length;
+        batch.operations.forEach(op => op.deferred.resolve());
+        this.raiseProgress();
+      },
+      (error: FirestoreError) => this.handleBatchError(batch, error)
+    );
+  }
+
+  private handleBatchError(
+    batch: BulkCommitBatch,
+    error: FirestoreError
+  ): void {
+    const retry =
+      error.name === 'FirebaseError' &&
+      batch.attempts < DEFAULT_MAX_ATTEMPTS &&
+      this.options.retryPredicate(error, batch.attempts);
+    if (retry) {
+      logDebug(
+        LOG_TAG,
+        `Retrying commit of ${batch.operations.length} writes after error:`,
+        error
+      );
+      this.retries += 1;
+      if (error.code === Code.RESOURCE_EXHAUSTED) {
+        batch.backoff.resetToMax();
+      }
+      batch.backoff.backoffAndRun(() => {
+        this.readyBatches.push(batch);
+        this.sendReadyBatches();
+        return Promise.resolve();
+      });
+      this.raiseProgress();
+    } else {
+      this.failed += batch.operations.length;
+      this.pending -= batch.operations.length;
+      batch.operations.forEach(op => op.deferred.reject(error));
+      this.raiseProgress();
+    }
+  }
+
+  private raiseProgress(): void {
+    if (this.options.onProgress) {
+      this.options.onProgress(this.progress);
+    }
+  }
+}
@@ -15,6 +15,7 @@
  * limitations under the License.
  */
 
+import { PersistentKeyValueStore } from '../api/cache_config';
 import { CredentialsProvider } from '../api/credentials';
 import { User } from '../auth/user';
 import {
@@ -74,6 +75,7 @@ import {
   syncEngineSynchronizeWithChangedDocuments
 } from './sync_engine_impl';
 import { OnlineStateSource } from './types';
+import { UsageStatsRecorder } from './usage_stats';
 
 export interface ComponentConfiguration {
   asyncQueue: AsyncQueue;
@@ -83,6 +85,7 @@ export interface ComponentConfiguration {
   clientId: ClientId;
   initialUser: User;
   maxConcurrentLimboResolutions: number;
+  usageStats: UsageStatsRecorder;
 }
 
 /**
@@ -218,7 +221,8 @@ export class IndexedDbOfflineComponentProvider extends MemoryOfflineComponentPro
   constructor(
     protected readonly onlineComponentProvider: OnlineComponentProvider,
     protected readonly cacheSizeBytes: number | undefined,
-    protected readonly forceOwnership: boolean | undefined
+    protected readonly forceOwnership: boolean | undefined,
+    readonly storage: PersistentKeyValueStore | null = null
   ) {
     super();
   }
@@ -296,7 +300,8 @@ export class IndexedDbOfflineComponentProvider extends MemoryOfflineComponentPro
       getDocument(),
       this.serializer,
       this.sharedClientState,
-      !!this.forceOwnership
+      !!this.forceOwnership,
+      this.storage
     );
   }
 
@@ -443,7 +448,9 @@ export class OnlineComponentProvider {
 
   createDatastore(cfg: ComponentConfiguration): Datastore {
     const serializer = newSerializer(cfg.databaseInfo.databaseId);
-    const connection = newConnection(cfg.databaseInfo);
+    const connection = cfg.databaseInfo.backend
+      ? cfg.databaseInfo.backend._newConnection(cfg.databaseInfo)
+      : newConnection(cfg.databaseInfo);
     return newDatastore(
       cfg.authCredentials,
       cfg.appCheckCredentials,
@@ -463,7 +470,8 @@ export class OnlineComponentProvider {
           onlineState,
           OnlineStateSource.RemoteStore
         ),
-      newConnectivityMonitor()
+      newConnectivityMonitor(),
+      cfg.usageStats
     );
   }
 
@@ -478,7 +486,8 @@ export class OnlineComponentProvider {
       this.sharedClientState,
       cfg.initialUser,
       cfg.maxConcurrentLimboResolutions,
-      startAsPrimary
+      startAsPrimary,
+      cfg.usageStats
     );
   }
 
@@ -1,6 +1,8 @@
 import { FirebaseApp } from '@firebase/app';
 
 import { ExperimentalLongPollingOptions } from '../api/long_polling_options';
+import { ExperimentalTransport } from '../lite-api/settings';
+import { InMemoryBackend } from '../remote/in_memory_backend';
 import { Code, FirestoreError } from '../util/error';
 
 /**
@@ -38,6 +40,9 @@ export class DatabaseInfo {
    * @param longPollingOptions Options that configure long-polling.
    * @param useFetchStreams Whether to use the Fetch API instead of
    * XMLHTTPRequest
+   * @param experimentalTransport The network transport to use for streams.
+   * @param backend An in-memory backend to use instead of the network, or null
+   * to connect to `host`.
    */
   constructor(
     readonly databaseId: DatabaseId,
@@ -48,7 +53,9 @@ export class DatabaseInfo {
     readonly forceLongPolling: boolean,
     readonly autoDetectLongPolling: boolean,
     readonly longPollingOptions: ExperimentalLongPollingOptions,
-    readonly useFetchStreams: boolean
+    readonly useFetchStreams: boolean,
+    readonly experimentalTransport: ExperimentalTransport,
+    readonly backend: InMemoryBackend | null
   ) {}
 }
 
@@ -567,3 +567,120 @@ export class QueryListener {
     return this.options.source !== ListenerDataSource.Cache;
   }
 }
+
+/**
+ * QueryGroupListener listens to several queries and raises the latest view
+ * snapshots of all queries together, but only once all of them have raised
+ * an initial event and only at the points where the listeners are in sync
+ * with each other. This avoids raising states where one query already
+ * reflects a change that another query does not reflect yet.
+ */
+export class QueryGroupListener {
+  readonly listeners: QueryListener[];
+
+  /** Receives the snapshots-in-sync events of the EventManager. */
+  readonly inSyncObserver: Observer<void>;
+
+  /** The latest view snapshot raised by each listener. */
+  private readonly snapshots: Array<ViewSnapshot | null>;
+
+  /** Whether each listener raised an event since the last group event. */
+  private readonly changed: boolean[];
+
+  private failed = false;
+
+  constructor(
+    queries: Query[],
+    private readonly groupObserver: Observer<ViewSnapshot[]>,
+    options?: ListenOptions
+  ) {
+    this.snapshots = queries.map(() => null);
+    this.changed = queries.map(() => false);
+    this.listeners = queries.map(
+      (query, i) =>
+        new QueryListener(
+          query,
+          {
+            next: snap => {
+              this.snapshots[i] = snap;
+              this.changed[i] = true;
+            },
+            error: error => this.onError(error)
+          },
+          options
+        )
+    );
+    this.inSyncObserver = {
+      next: () => this.onSnapshotsInSync(),
+      error: () => {}
+    };
+  }
+
+  /**
+   * Raises the latest view snapshots if all listeners raised an initial event
+   * and at least one of them raised an event since the last group event.
+   * Snapshots that did not change are raised without document changes.
+   */
+  onSnapshotsInSync(): void {
+    if (
+      this.failed ||
+      this.changed.indexOf(true) === -1 ||
+      this.snapshots.indexOf(null) !== -1
+    ) {
+      return;
+    }
+    const snapshots = this.snapshots.map((snap, i) =>
+      this.changed[i] ? snap! : withoutChanges(snap!)
+    );
+    for (let i = 0; i < this.changed.length; ++i) {
+      this.changed[i] = false;
+    }
+    this.groupObserver.next(snapshots);
+  }
+
+  private onError(error: FirestoreError): void {
+    if (!this.failed) {
+      this.failed = true;
+      this.groupObserver.error(error);
+    }
+  }
+}
+
+/** Returns a copy of `snap` that contains no document changes. */
+function withoutChanges(snap: ViewSnapshot): ViewSnapshot {
+  return new ViewSnapshot(
+    snap.query,
+    snap.docs,
+    snap.docs,
+    [],
+    snap.mutatedKeys,
+    snap.fromCache,
+    /* syncStateChanged= */ false,
+    snap.excludesMetadataChanges,
+    snap.hasCachedResults
+  );
+}
+
+export async function eventManagerListenGroup(
+  eventManager: EventManager,
+  groupListener: QueryGroupListener
+): Promise<void> {
+  const eventManagerImpl = debugCast(eventManager, EventManagerImpl);
+  eventManagerImpl.snapshotsInSyncListeners.add(groupListener.inSyncObserver);
+  for (const listener of groupListener.listeners) {
+    await eventManagerListen(eventManager, listener);
+  }
+}
+
+export async function eventManagerUnlistenGroup(
+  eventManager: EventManager,
+  groupListener: QueryGroupListener
+): Promise<void> {
+  const eventManagerImpl = debugCast(eventManager, EventManagerImpl);
+  eventManagerImpl.snapshotsInSyncListeners.delete(
+    groupListener.inSyncObserver
+  );
+  for (const listener of groupListener.listeners) {
+    await eventManagerUnlisten(eventManager, listener);
+  }
+}
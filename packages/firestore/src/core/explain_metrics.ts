@@ -0,0 +1,52 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/** Options that control how the backend explains a query. */
+export interface ExplainOptions {
+  /**
+   * Whether to execute the query. If false, only the query plan is returned.
+   */
+  readonly analyze: boolean;
+}
+
+/** The planning information the backend returns for an explained query. */
+export interface PlanSummary {
+  /** The indexes selected for the query, as returned by the backend. */
+  readonly indexesUsed: Array<Record<string, unknown>>;
+}
+
+/**
+ * The execution statistics the backend returns for an explained query that
+ * was analyzed.
+ */
+export interface ExecutionStats {
+  /** The number of results returned by the query. */
+  readonly resultsReturned: number;
+  /** The time it took to execute the query on the backend, in milliseconds. */
+  readonly executionDuration: number;
+  /** The number of read operations the query was billed for. */
+  readonly readOperations: number;
+  /** Additional backend specific statistics. */
+  readonly debugStats: Record<string, unknown>;
+}
+
+/** The metrics returned by the backend for an explained query. */
+export interface ExplainMetrics {
+  readonly planSummary: PlanSummary;
+  /** The execution statistics, or `null` if the query was not analyzed. */
+  readonly executionStats: ExecutionStats | null;
+}
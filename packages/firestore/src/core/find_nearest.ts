@@ -0,0 +1,188 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Document } from '../model/document';
+import { normalizeNumber } from '../model/normalize';
+import { FieldPath } from '../model/path';
+import {
+  canonicalId,
+  isVectorValue,
+  valueEquals,
+  VECTOR_MAP_VECTORS_KEY
+} from '../model/values';
+import { Value as ProtoValue } from '../protos/firestore_proto_api';
+import { fail } from '../util/assert';
+import { primitiveComparator } from '../util/misc';
+import { isNullOrUndefined } from '../util/types';
+
+/**
+ * The distance measure used to compare the query vector with the vectors
+ * stored in documents.
+ */
+export const enum DistanceMeasure {
+  EUCLIDEAN = 'EUCLIDEAN',
+  COSINE = 'COSINE',
+  DOT_PRODUCT = 'DOT_PRODUCT'
+}
+
+/**
+ * A nearest neighbor search stage. Returns the `limit` documents whose
+ * `vectorField` is closest to `queryVector` according to `distanceMeasure`.
+ */
+export class FindNearest {
+  constructor(
+    readonly vectorField: FieldPath,
+    /** The query vector, encoded as a vector `MapValue`. */
+    readonly queryVector: ProtoValue,
+    readonly limit: number,
+    readonly distanceMeasure: DistanceMeasure,
+    readonly distanceResultField: FieldPath | null = null,
+    readonly distanceThreshold: number | null = null
+  ) {}
+}
+
+export function canonifyFindNearest(findNearest: FindNearest): string {
+  let str = findNearest.vectorField.canonicalString();
+  str += '|qv:' + canonicalId(findNearest.queryVector);
+  str += '|l:' + findNearest.limit;
+  str += '|dm:' + findNearest.distanceMeasure;
+  if (findNearest.distanceResultField !== null) {
+    str += '|drf:' + findNearest.distanceResultField.canonicalString();
+  }
+  if (!isNullOrUndefined(findNearest.distanceThreshold)) {
+    str += '|dt:' + findNearest.distanceThreshold;
+  }
+  return str;
+}
+
+export function stringifyFindNearest(findNearest: FindNearest): string {
+  let str =
+    `${findNearest.vectorField.canonicalString()} ` +
+    `${findNearest.distanceMeasure} ${canonicalId(findNearest.queryVector)}` +
+    `, limit: ${findNearest.limit}`;
+  if (findNearest.distanceResultField !== null) {
+    str += `, distanceResultField: ${findNearest.distanceResultField.canonicalString()}`;
+  }
+  if (!isNullOrUndefined(findNearest.distanceThreshold)) {
+    str += `, distanceThreshold: ${findNearest.distanceThreshold}`;
+  }
+  return str;
+}
+
+export function findNearestEquals(
+  left: FindNearest | null,
+  right: FindNearest | null
+): boolean {
+  if (left === null || right === null) {
+    return left === right;
+  }
+
+  if (
+    left.limit !== right.limit ||
+    left.distanceMeasure !== right.distanceMeasure ||
+    left.distanceThreshold !== right.distanceThreshold
+  ) {
+    return false;
+  }
+
+  if (left.distanceResultField === null || right.distanceResultField === null) {
+    if (left.distanceResultField !== right.distanceResultField) {
+      return false;
+    }
+  } else if (!left.distanceResultField.isEqual(right.distanceResultField)) {
+    return false;
+  }
+
+  return (
+    left.vectorField.isEqual(right.vectorField) &&
+    valueEquals(left.queryVector, right.queryVector)
+  );
+}
+
+/** Returns the numeric components of a vector `MapValue`. */
+export function vectorComponents(value: ProtoValue): number[] {
+  const values =
+    value.mapValue?.fields?.[VECTOR_MAP_VECTORS_KEY]?.arrayValue?.values || [];
+  return values.map(v => normalizeNumber(v.doubleValue ?? v.integerValue));
+}
+
+/**
+ * Computes the distance between the query vector and the vector stored in
+ * `doc`. Returns `null` if the document does not contain a vector with the
+ * same dimension as the query vector.
+ */
+export function findNearestDistance(
+  findNearest: FindNearest,
+  doc: Document
+): number | null {
+  const value = doc.data.field(findNearest.vectorField);
+  if (value === null || !isVectorValue(value)) {
+    return null;
+  }
+
+  const left = vectorComponents(findNearest.queryVector);
+  const right = vectorComponents(value);
+  if (left.length !== right.length) {
+    return null;
+  }
+
+  let dotProduct = 0;
+  let leftNorm = 0;
+  let rightNorm = 0;
+  let squaredDistance = 0;
+  for (let i = 0; i < left.length; i++) {
+    dotProduct += left[i] * right[i];
+    leftNorm += left[i] * left[i];
+    rightNorm += right[i] * right[i];
+    squaredDistance += (left[i] - right[i]) * (left[i] - right[i]);
+  }
+
+  switch (findNearest.distanceMeasure) {
+    case DistanceMeasure.EUCLIDEAN:
+      return Math.sqrt(squaredDistance);
+    case DistanceMeasure.COSINE:
+      if (leftNorm === 0 || rightNorm === 0) {
+        return null;
+      }
+      return 1 - dotProduct / Math.sqrt(leftNorm * rightNorm);
+    case DistanceMeasure.DOT_PRODUCT:
+      return dotProduct;
+    default:
+      return fail('Unknown distance measure: ' + findNearest.distanceMeasure);
+  }
+}
+
+/**
+ * Compares two documents by their distance to the query vector, with the most
+ * similar document first. Documents without a comparable vector sort last.
+ */
+export function compareByDistance(
+  findNearest: FindNearest,
+  d1: Document,
+  d2: Document
+): number {
+  const left = findNearestDistance(findNearest, d1);
+  const right = findNearestDistance(findNearest, d2);
+  if (left === null || right === null) {
+    return left === right ? 0 : left === null ? 1 : -1;
+  }
+
+  // DOT_PRODUCT distances increase the more similar two vectors are.
+  return findNearest.distanceMeasure === DistanceMeasure.DOT_PRODUCT
+    ? primitiveComparator(right, left)
+    : primitiveComparator(left, right);
+}
@@ -23,26 +23,48 @@ import {
   CredentialsProvider
 } from '../api/credentials';
 import { User } from '../auth/user';
+import { Timestamp } from '../lite-api/timestamp';
 import { LocalStore } from '../local/local_store';
 import {
+  CacheStats,
   localStoreConfigureFieldIndexes,
   localStoreDeleteAllFieldIndexes,
   localStoreExecuteQuery,
+  localStoreGetAllMutationBatches,
+  localStoreGetAllRemoteDocuments,
+  localStoreGetCacheStats,
   localStoreGetNamedQuery,
+  localStoreGetPinnedTargets,
+  localStoreGetTargetSnapshotVersion,
   localStoreHandleUserChange,
   localStoreReadDocument,
-  localStoreSetIndexAutoCreationEnabled
+  localStoreSetIndexAutoCreationEnabled,
+  localStoreSetTargetPinned
 } from '../local/local_store_impl';
+import { GC_DID_NOT_RUN, LruResults } from '../local/lru_garbage_collector';
+import { LruScheduler } from '../local/lru_garbage_collector_impl';
 import { Persistence } from '../local/persistence';
+import { QueryContext } from '../local/query_context';
+import { documentKeySet, documentMap } from '../model/collections';
 import { Document } from '../model/document';
 import { DocumentKey } from '../model/document_key';
+import { DocumentSet } from '../model/document_set';
 import { FieldIndex } from '../model/field_index';
 import { Mutation } from '../model/mutation';
+import { MutationBatch } from '../model/mutation_batch';
 import { toByteStreamReader } from '../platform/byte_stream_reader';
 import { newSerializer } from '../platform/serializer';
 import { newTextEncoder } from '../platform/text_serializer';
 import { ApiClientObjectMap, Value } from '../protos/firestore_proto_api';
-import { Datastore, invokeRunAggregationQueryRpc } from '../remote/datastore';
+import {
+  Datastore,
+  invokeBatchGetDocumentsRpc,
+  invokeCommitRpc,
+  invokeExplainRunAggregationQueryRpc,
+  invokeExplainRunQueryRpc,
+  invokeRunAggregationQueryRpc,
+  invokeRunQueryRpc
+} from '../remote/datastore';
 import {
   RemoteStore,
   remoteStoreDisableNetwork,
@@ -53,14 +75,17 @@ import { JsonProtoSerializer } from '../remote/serializer';
 import { debugAssert } from '../util/assert';
 import { AsyncObserver } from '../util/async_observer';
 import { AsyncQueue, wrapInUserErrorIfRecoverable } from '../util/async_queue';
+import { BundleBuilder } from '../util/bundle_builder_impl';
 import { BundleReader } from '../util/bundle_reader';
 import { newBundleReader } from '../util/bundle_reader_impl';
 import { Code, FirestoreError } from '../util/error';
 import { logDebug, logWarn } from '../util/log';
 import { AutoId } from '../util/misc';
+import { ObjectMap } from '../util/obj_map';
 import { Deferred } from '../util/promise';
 
 import { Aggregate } from './aggregate';
+import { BulkWriterOptions, BulkWriterRunner } from './bulk_writer';
 import { NamedQuery } from './bundle';
 import {
   ComponentConfiguration,
@@ -73,26 +98,45 @@ import {
   addSnapshotsInSyncListener,
   EventManager,
   eventManagerListen,
+  eventManagerListenGroup,
   eventManagerUnlisten,
+  eventManagerUnlistenGroup,
   ListenOptions,
   Observer,
+  QueryGroupListener,
   QueryListener,
   removeSnapshotsInSyncListener
 } from './event_manager';
-import { newQueryForPath, Query } from './query';
+import { ExplainMetrics, ExplainOptions } from './explain_metrics';
+import {
+  LimitType,
+  newQueryComparator,
+  newQueryForPath,
+  Query,
+  queryMatches,
+  queryToTarget
+} from './query';
+import { SnapshotVersion } from './snapshot_version';
 import { SyncEngine } from './sync_engine';
 import {
+  RejectedMutationBatch,
+  syncEngineAddWriteRejectedListener,
+  syncEngineDiscardPendingWrite,
   syncEngineListen,
   syncEngineLoadBundle,
   syncEngineRegisterPendingWritesCallback,
+  syncEngineRemoveWriteRejectedListener,
   syncEngineUnlisten,
   syncEngineWrite,
+  synthesizeTargetToQuery,
   triggerRemoteStoreListen,
   triggerRemoteStoreUnlisten
 } from './sync_engine_impl';
+import { canonifyTarget, Target, targetEquals } from './target';
 import { Transaction } from './transaction';
 import { TransactionOptions } from './transaction_options';
 import { TransactionRunner } from './transaction_runner';
+import { UsageStats, UsageStatsRecorder } from './usage_stats';
 import { View } from './view';
 import { ViewSnapshot } from './view_snapshot';
 
@@ -126,6 +170,13 @@ export class FirestoreClient {
 
   _offlineComponents?: OfflineComponentProvider;
   _onlineComponents?: OnlineComponentProvider;
+  /** The background listeners of the targets pinned with `keepSynced()`. */
+  _pinnedTargetListeners = new ObjectMap<Target, QueryListener>(
+    canonifyTarget,
+    targetEquals
+  );
+  /** Collects the document reads and writes for `onUsageStats()`. */
+  readonly usageStats: UsageStatsRecorder;
 
   constructor(
     private authCredentials: CredentialsProvider<User>,
@@ -141,6 +192,7 @@ export class FirestoreClient {
     public asyncQueue: AsyncQueue,
     private databaseInfo: DatabaseInfo
   ) {
+    this.usageStats = new UsageStatsRecorder(asyncQueue);
     this.authCredentials.start(asyncQueue, async user => {
       logDebug(LOG_TAG, 'Received user=', user.uid);
       await this.authCredentialListener(user);
@@ -160,7 +212,8 @@ export class FirestoreClient {
       authCredentials: this.authCredentials,
       appCheckCredentials: this.appCheckCredentials,
       initialUser: this.user,
-      maxConcurrentLimboResolutions: MAX_CONCURRENT_LIMBO_RESOLUTIONS
+      maxConcurrentLimboResolutions: MAX_CONCURRENT_LIMBO_RESOLUTIONS,
+      usageStats: this.usageStats
     };
   }
 
@@ -361,6 +414,7 @@ async function ensureOnlineComponents(
       logDebug(LOG_TAG, 'Using default OnlineComponentProvider');
       await setOnlineComponentProvider(client, new OnlineComponentProvider());
     }
+    await resumePinnedTargets(client);
   }
 
   return client._onlineComponents!;
@@ -450,6 +504,95 @@ export function firestoreClientWaitForPendingWrites(
   return deferred.promise;
 }
 
+export function firestoreClientGetPendingWrites(
+  client: FirestoreClient
+): Promise<MutationBatch[]> {
+  const deferred = new Deferred<MutationBatch[]>();
+  client.asyncQueue.enqueueAndForget(async () => {
+    try {
+      const localStore = await getLocalStore(client);
+      deferred.resolve(await localStoreGetAllMutationBatches(localStore));
+    } catch (e) {
+      deferred.reject(
+        wrapInUserErrorIfRecoverable(e as Error, 'Failed to get pending writes')
+      );
+    }
+  });
+  return deferred.promise;
+}
+
+export function firestoreClientGetCacheStats(
+  client: FirestoreClient
+): Promise<CacheStats> {
+  const deferred = new Deferred<CacheStats>();
+  client.asyncQueue.enqueueAndForget(async () => {
+    try {
+      const localStore = await getLocalStore(client);
+      deferred.resolve(await localStoreGetCacheStats(localStore));
+    } catch (e) {
+      deferred.reject(
+        wrapInUserErrorIfRecoverable(e as Error, 'Failed to get cache stats')
+      );
+    }
+  });
+  return deferred.promise;
+}
+
+/**
+ * Runs LRU garbage collection immediately. Resolves with `GC_DID_NOT_RUN` if
+ * the cache does not use LRU garbage collection.
+ */
+export function firestoreClientCollectGarbage(
+  client: FirestoreClient,
+  cacheSizeBytes: number | undefined
+): Promise<LruResults> {
+  const deferred = new Deferred<LruResults>();
+  client.asyncQueue.enqueueAndForget(async () => {
+    try {
+      const offlineComponents = await ensureOfflineComponents(client);
+      const gcScheduler = offlineComponents.gcScheduler;
+      deferred.resolve(
+        gcScheduler instanceof LruScheduler
+          ? await gcScheduler.collectGarbageNow(cacheSizeBytes)
+          : GC_DID_NOT_RUN
+      );
+    } catch (e) {
+      deferred.reject(
+        wrapInUserErrorIfRecoverable(e as Error, 'Failed to collect garbage')
+      );
+    }
+  });
+  return deferred.promise;
+}
+
+export function firestoreClientDiscardPendingWrite(
+  client: FirestoreClient,
+  batchId: number
+): Promise<void> {
+  return client.asyncQueue.enqueue(async () => {
+    const syncEngine = await getSyncEngine(client);
+    return syncEngineDiscardPendingWrite(syncEngine, batchId);
+  });
+}
+
+export function firestoreClientAddWriteRejectedListener(
+  client: FirestoreClient,
+  observer: Partial<Observer<RejectedMutationBatch>>
+): () => void {
+  const wrappedObserver = new AsyncObserver(observer);
+  client.asyncQueue.enqueueAndForget(async () => {
+    const syncEngine = await getSyncEngine(client);
+    return syncEngineAddWriteRejectedListener(syncEngine, wrappedObserver);
+  });
+  return () => {
+    wrappedObserver.mute();
+    client.asyncQueue.enqueueAndForget(async () => {
+      const syncEngine = await getSyncEngine(client);
+      return syncEngineRemoveWriteRejectedListener(syncEngine, wrappedObserver);
+    });
+  };
+}
+
 export function firestoreClientListen(
   client: FirestoreClient,
   query: Query,
@@ -471,6 +614,123 @@ export function firestoreClientListen(
   };
 }
 
+/**
+ * Listens to all `queries` and raises their view snapshots together, at the
+ * points where the listeners are in sync with each other. The listeners are
+ * removed if any of them fails.
+ */
+export function firestoreClientListenGroup(
+  client: FirestoreClient,
+  queries: Query[],
+  options: ListenOptions,
+  observer: Partial<Observer<ViewSnapshot[]>>
+): () => void {
+  const wrappedObserver = new AsyncObserver(observer);
+  const groupListener = new QueryGroupListener(
+    queries,
+    {
+      next: snapshots => wrappedObserver.next(snapshots),
+      error: error => {
+        wrappedObserver.error(error);
+        removeListeners();
+      }
+    },
+    options
+  );
+  const removeListeners = (): void => {
+    client.asyncQueue.enqueueAndForget(async () => {
+      const eventManager = await getEventManager(client);
+      return eventManagerUnlistenGroup(eventManager, groupListener);
+    });
+  };
+  client.asyncQueue.enqueueAndForget(async () => {
+    const eventManager = await getEventManager(client);
+    return eventManagerListenGroup(eventManager, groupListener);
+  });
+  return () => {
+    wrappedObserver.mute();
+    removeListeners();
+  };
+}
+
+/**
+ * Pins or unpins the target of the given query. Pinned targets are listened
+ * to in the background, are exempt from garbage collection and are listened
+ * to again when the client restarts.
+ */
+export function firestoreClientKeepSynced(
+  client: FirestoreClient,
+  query: Query,
+  keepSynced: boolean
+): Promise<void> {
+  const deferred = new Deferred<void>();
+  client.asyncQueue.enqueueAndForget(async () => {
+    try {
+      // Initializing the event manager resumes the targets that were pinned
+      // before the client restarted.
+      const eventManager = await getEventManager(client);
+      const localStore = await getLocalStore(client);
+      const target = queryToTarget(query);
+      if (keepSynced) {
+        await listenToPinnedTarget(client, target);
+        await localStoreSetTargetPinned(localStore, target, true);
+      } else {
+        await localStoreSetTargetPinned(localStore, target, false);
+        const listener = client._pinnedTargetListeners.get(target);
+        if (listener) {
+          client._pinnedTargetListeners.delete(target);
+          await eventManagerUnlisten(eventManager, listener);
+        }
+      }
+      deferred.resolve();
+    } catch (e) {
+      const firestoreError = wrapInUserErrorIfRecoverable(
+        e as Error,
+        `Failed to update the pinned state of query`
+      );
+      deferred.reject(firestoreError);
+    }
+  });
+  return deferred.promise;
+}
+
+/**
+ * Listens to the pinned targets that are stored in the target cache, such as
+ * the targets that were pinned before the client restarted.
+ */
+async function resumePinnedTargets(client: FirestoreClient): Promise<void> {
+  const localStore = await getLocalStore(client);
+  const targets = await localStoreGetPinnedTargets(localStore);
+  for (const target of targets) {
+    await listenToPinnedTarget(client, target);
+  }
+}
+
+async function listenToPinnedTarget(
+  client: FirestoreClient,
+  target: Target
+): Promise<void> {
+  if (client._pinnedTargetListeners.has(target)) {
+    return;
+  }
+  // The listener only keeps the target active. Its snapshots are not raised to
+  // the user.
+  const listener = new QueryListener(
+    synthesizeTargetToQuery(target),
+    new AsyncObserver<ViewSnapshot>({
+      error: error => {
+        logWarn(LOG_TAG, 'Listening to a pinned query failed:', error);
+        if (client._pinnedTargetListeners.get(target) === listener) {
+          client._pinnedTargetListeners.delete(target);
+        }
+      }
+    }),
+    {}
+  );
+  client._pinnedTargetListeners.set(target, listener);
+  await eventManagerListen(await getEventManager(client), listener);
+}
+
 export function firestoreClientGetDocumentFromLocalCache(
   client: FirestoreClient,
   docKey: DocumentKey
@@ -478,7 +738,12 @@ export function firestoreClientGetDocumentFromLocalCache(
   const deferred = new Deferred<Document | null>();
   client.asyncQueue.enqueueAndForget(async () => {
     const localStore = await getLocalStore(client);
-    return readDocumentFromCache(localStore, docKey, deferred);
+    return readDocumentFromCache(
+      localStore,
+      client.usageStats,
+      docKey,
+      deferred
+    );
   });
   return deferred.promise;
 }
@@ -509,7 +774,53 @@ export function firestoreClientGetDocumentsFromLocalCache(
   const deferred = new Deferred<ViewSnapshot>();
   client.asyncQueue.enqueueAndForget(async () => {
     const localStore = await getLocalStore(client);
-    return executeQueryFromCache(localStore, query, deferred);
+    return executeQueryFromCache(
+      localStore,
+      client.usageStats,
+      query,
+      deferred
+    );
+  });
+  return deferred.promise;
+}
+
+/**
+ * Executes the query against the local cache and returns the number of
+ * documents in the result, together with a `QueryContext` that records how
+ * the query engine executed the query.
+ */
+export function firestoreClientExplainLocalQuery(
+  client: FirestoreClient,
+  query: Query
+): Promise<{ context: QueryContext; documentCount: number }> {
+  const deferred = new Deferred<{
+    context: QueryContext;
+    documentCount: number;
+  }>();
+  client.asyncQueue.enqueueAndForget(async () => {
+    try {
+      const localStore = await getLocalStore(client);
+      const context = new QueryContext();
+      const queryResult = await localStoreExecuteQuery(
+        localStore,
+        query,
+        /* usePreviousResults= */ true,
+        context
+      );
+      const view = new View(query, queryResult.remoteKeys);
+      const viewDocChanges = view.computeDocChanges(queryResult.documents);
+      deferred.resolve({
+        context,
+        documentCount: viewDocChanges.documentSet.size
+      });
+    } catch (e) {
+      deferred.reject(
+        wrapInUserErrorIfRecoverable(
+          e as Error,
+          `Failed to explain query '${query}' against cache`
+        )
+      );
+    }
   });
   return deferred.promise;
 }
@@ -533,10 +844,124 @@ export function firestoreClientGetDocumentsViaSnapshotListener(
   return deferred.promise;
 }
 
+/**
+ * Reads the document from the cache if the cached version was read from the
+ * backend at most `maxStalenessMs` ago, and via a snapshot listener otherwise.
+ */
+export function firestoreClientGetDocumentViaCacheThenServer(
+  client: FirestoreClient,
+  key: DocumentKey,
+  maxStalenessMs: number
+): Promise<ViewSnapshot> {
+  const deferred = new Deferred<ViewSnapshot>();
+  client.asyncQueue.enqueueAndForget(async () => {
+    try {
+      const localStore = await getLocalStore(client);
+      const document = await localStoreReadDocument(localStore, key);
+      if (
+        (document.isFoundDocument() || document.isNoDocument()) &&
+        isFresh(document.readTime, maxStalenessMs)
+      ) {
+        const documents = document.isFoundDocument()
+          ? documentMap(document)
+          : documentMap();
+        const query = newQueryForPath(key.path);
+        client.usageStats.recordCacheReads(
+          queryToTarget(query),
+          documents.size
+        );
+        const view = new View(query, documentKeySet());
+        const viewChange = view.applyChanges(
+          view.computeDocChanges(documents),
+          /* limboResolutionEnabled= */ false
+        );
+        deferred.resolve(viewChange.snapshot!);
+        return;
+      }
+    } catch (e) {
+      deferred.reject(
+        wrapInUserErrorIfRecoverable(
+          e as Error,
+          `Failed to get document '${key} from cache`
+        )
+      );
+      return;
+    }
+    const eventManager = await getEventManager(client);
+    return readDocumentViaSnapshotListener(
+      eventManager,
+      client.asyncQueue,
+      key,
+      {},
+      deferred
+    );
+  });
+  return deferred.promise;
+}
+
+/**
+ * Executes the query against the cache if its results were last consistent
+ * with the backend at most `maxStalenessMs` ago, and via a snapshot listener
+ * otherwise.
+ */
+export function firestoreClientGetDocumentsViaCacheThenServer(
+  client: FirestoreClient,
+  query: Query,
+  maxStalenessMs: number
+): Promise<ViewSnapshot> {
+  const deferred = new Deferred<ViewSnapshot>();
+  client.asyncQueue.enqueueAndForget(async () => {
+    try {
+      const localStore = await getLocalStore(client);
+      const snapshotVersion = await localStoreGetTargetSnapshotVersion(
+        localStore,
+        queryToTarget(query)
+      );
+      if (isFresh(snapshotVersion, maxStalenessMs)) {
+        return executeQueryFromCache(
+          localStore,
+          client.usageStats,
+          query,
+          deferred
+        );
+      }
+    } catch (e) {
+      deferred.reject(
+        wrapInUserErrorIfRecoverable(
+          e as Error,
+          `Failed to execute query '${query} against cache`
+        )
+      );
+      return;
+    }
+    const eventManager = await getEventManager(client);
+    return executeQueryViaSnapshotListener(
+      eventManager,
+      client.asyncQueue,
+      query,
+      {},
+      deferred
+    );
+  });
+  return deferred.promise;
+}
+
+/**
+ * Returns whether data that was read from the backend at the given version is
+ * at most `maxStalenessMs` old. Versions are compared to the local clock.
+ */
+function isFresh(version: SnapshotVersion, maxStalenessMs: number): boolean {
+  return (
+    version.compareTo(SnapshotVersion.min()) > 0 &&
+    Date.now() - version.toTimestamp().toMillis() <= maxStalenessMs
+  );
+}
+
 export function firestoreClientRunAggregateQuery(
   client: FirestoreClient,
   query: Query,
-  aggregates: Aggregate[]
+  aggregates: Aggregate[],
+  readTime?: Timestamp
 ): Promise<ApiClientObjectMap<Value>> {
   const deferred = new Deferred<ApiClientObjectMap<Value>>();
 
@@ -548,8 +973,136 @@ export function firestoreClientRunAggregateQuery(
       // TODO(b/277628384): check `canUseNetwork()` and handle multi-tab.
       const datastore = await getDatastore(client);
       deferred.resolve(
-        invokeRunAggregationQueryRpc(datastore, query, aggregates)
+        invokeRunAggregationQueryRpc(datastore, query, aggregates, readTime)
+      );
+    } catch (e) {
+      deferred.reject(e as Error);
+    }
+  });
+  return deferred.promise;
+}
+
+/**
+ * Runs the aggregation with the given explain options against the backend.
+ * The aggregate fields are `null` if the aggregation was only planned and not
+ * executed.
+ */
+export function firestoreClientExplainAggregateQuery(
+  client: FirestoreClient,
+  query: Query,
+  aggregates: Aggregate[],
+  explainOptions: ExplainOptions
+): Promise<{
+  aggregateFields: ApiClientObjectMap<Value> | null;
+  explainMetrics: ExplainMetrics;
+}> {
+  const deferred = new Deferred<{
+    aggregateFields: ApiClientObjectMap<Value> | null;
+    explainMetrics: ExplainMetrics;
+  }>();
+
+  client.asyncQueue.enqueueAndForget(async () => {
+    try {
+      const datastore = await getDatastore(client);
+      deferred.resolve(
+        invokeExplainRunAggregationQueryRpc(
+          datastore,
+          query,
+          aggregates,
+          explainOptions
+        )
+      );
+    } catch (e) {
+      deferred.reject(e as Error);
+    }
+  });
+  return deferred.promise;
+}
+
+/**
+ * Executes the query as a one-time RunQuery request against the backend,
+ * bypassing the local cache. This is used for queries that cannot be served
+ * by a listener, such as nearest neighbor searches and reads at a past
+ * `readTime`.
+ */
+export function firestoreClientRunQuery(
+  client: FirestoreClient,
+  query: Query,
+  readTime?: Timestamp
+): Promise<ViewSnapshot> {
+  const deferred = new Deferred<ViewSnapshot>();
+
+  client.asyncQueue.enqueueAndForget(async () => {
+    try {
+      const datastore = await getDatastore(client);
+      const documents = await invokeRunQueryRpc(datastore, query, readTime);
+      deferred.resolve(toServerViewSnapshot(query, documents));
+    } catch (e) {
+      deferred.reject(e as Error);
+    }
+  });
+  return deferred.promise;
+}
+
+/**
+ * Reads the document at the given `readTime` with a one-time
+ * BatchGetDocuments request against the backend, bypassing the local cache.
+ */
+export function firestoreClientGetDocumentAtReadTime(
+  client: FirestoreClient,
+  key: DocumentKey,
+  readTime: Timestamp
+): Promise<Document> {
+  const deferred = new Deferred<Document>();
+
+  client.asyncQueue.enqueueAndForget(async () => {
+    try {
+      const datastore = await getDatastore(client);
+      const documents = await invokeBatchGetDocumentsRpc(
+        datastore,
+        [key],
+        readTime
+      );
+      deferred.resolve(documents[0]);
+    } catch (e) {
+      deferred.reject(e as Error);
+    }
+  });
+  return deferred.promise;
+}
+
+/**
+ * Executes the query with the given explain options as a one-time RunQuery
+ * request against the backend, bypassing the local cache. The view snapshot
+ * is `null` if the query was only planned and not executed.
+ */
+export function firestoreClientExplainQuery(
+  client: FirestoreClient,
+  query: Query,
+  explainOptions: ExplainOptions
+): Promise<{
+  viewSnapshot: ViewSnapshot | null;
+  explainMetrics: ExplainMetrics;
+}> {
+  const deferred = new Deferred<{
+    viewSnapshot: ViewSnapshot | null;
+    explainMetrics: ExplainMetrics;
+  }>();
+
+  client.asyncQueue.enqueueAndForget(async () => {
+    try {
+      const datastore = await getDatastore(client);
+      const { documents, explainMetrics } = await invokeExplainRunQueryRpc(
+        datastore,
+        query,
+        explainOptions
       );
+      deferred.resolve({
+        viewSnapshot: explainOptions.analyze
+          ? toServerViewSnapshot(query, documents)
+          : null,
+        explainMetrics
+      });
     } catch (e) {
       deferred.reject(e as Error);
     }
@@ -557,6 +1110,37 @@ export function firestoreClientRunAggregateQuery(
   return deferred.promise;
 }
 
+function toServerViewSnapshot(
+  query: Query,
+  documents: Document[]
+): ViewSnapshot {
+  let comparator = newQueryComparator(query);
+  if (query.projection !== null) {
+    // Projected documents may not contain the fields that the query is
+    // ordered by, so they keep the order in which the backend returned them
+    // (which is reversed for limitToLast() queries).
+    const positions = new Map<string, number>();
+    documents.forEach((document, i) =>
+      positions.set(document.key.toString(), i)
+    );
+    const direction = query.limitType === LimitType.Last ? -1 : 1;
+    comparator = (d1, d2) =>
+      direction *
+      (positions.get(d1.key.toString())! - positions.get(d2.key.toString())!);
+  }
+  let documentSet = new DocumentSet(comparator);
+  for (const document of documents) {
+    documentSet = documentSet.add(document);
+  }
+  return ViewSnapshot.fromInitialDocuments(
+    query,
+    documentSet,
+    documentKeySet(),
+    /* fromCache= */ false,
+    /* hasCachedResults= */ false
+  );
+}
+
 export function firestoreClientWrite(
   client: FirestoreClient,
   mutations: Mutation[]
@@ -587,6 +1171,25 @@ export function firestoreClientAddSnapshotsInSyncListener(
   };
 }
 
+/**
+ * Registers an observer that is called with the usage stats of the client at
+ * the end of every interval of `intervalMs`.
+ */
+export function firestoreClientAddUsageStatsListener(
+  client: FirestoreClient,
+  intervalMs: number,
+  observer: Partial<Observer<UsageStats>>
+): () => void {
+  const wrappedObserver = new AsyncObserver(observer);
+  const removeListener = client.usageStats.addListener(intervalMs, stats =>
+    wrappedObserver.next(stats)
+  );
+  return () => {
+    wrappedObserver.mute();
+    removeListener();
+  };
+}
+
 /**
  * Takes an updateFunction in which a set of reads and writes can be performed
  * atomically. In the updateFunction, the client can read and write values
@@ -621,14 +1224,47 @@ export function firestoreClientTransaction<T>(
   return deferred.promise;
 }
 
+/**
+ * Creates a BulkWriterRunner that sends its commits directly to the backend,
+ * bypassing the local cache.
+ */
+export function firestoreClientBulkWriter(
+  client: FirestoreClient,
+  options: BulkWriterOptions
+): BulkWriterRunner {
+  return new BulkWriterRunner(
+    client.asyncQueue,
+    mutations => {
+      const deferred = new Deferred<void>();
+      client.asyncQueue.enqueueAndForget(async () => {
+        try {
+          const datastore = await getDatastore(client);
+          await invokeCommitRpc(datastore, mutations);
+          client.usageStats.recordWrites(mutations.length);
+          deferred.resolve();
+        } catch (e) {
+          deferred.reject(e as Error);
+        }
+      });
+      return deferred.promise;
+    },
+    options
+  );
+}
+
 async function readDocumentFromCache(
   localStore: LocalStore,
+  usageStats: UsageStatsRecorder,
   docKey: DocumentKey,
   result: Deferred<Document | null>
 ): Promise<void> {
   try {
     const document = await localStoreReadDocument(localStore, docKey);
     if (document.isFoundDocument()) {
+      usageStats.recordCacheReads(
+        queryToTarget(newQueryForPath(docKey.path)),
+        1
+      );
       result.resolve(document);
     } else if (document.isNoDocument()) {
       result.resolve(null);
@@ -725,6 +1361,7 @@ function readDocumentViaSnapshotListener(
 
 async function executeQueryFromCache(
   localStore: LocalStore,
+  usageStats: UsageStatsRecorder,
   query: Query,
   result: Deferred<ViewSnapshot>
 ): Promise<void> {
@@ -734,6 +1371,10 @@ async function executeQueryFromCache(
       query,
       /* usePreviousResults= */ true
     );
+    usageStats.recordCacheReads(
+      queryToTarget(query),
+      queryResult.documents.size
+    );
     const view = new View(query, queryResult.remoteKeys);
     const viewDocChanges = view.computeDocChanges(queryResult.documents);
     const viewChange = view.applyChanges(
@@ -805,6 +1446,60 @@ export function firestoreClientLoadBundle(
   });
 }
 
+/**
+ * Builds a bundle from the documents in the remote document cache. The results
+ * of the given queries are computed from these documents and saved as named
+ * queries in the bundle.
+ */
+export function firestoreClientExportCacheAsBundle(
+  client: FirestoreClient,
+  databaseId: DatabaseId,
+  queries: Map<string, Query>
+): Promise<string> {
+  const deferred = new Deferred<string>();
+  client.asyncQueue.enqueueAndForget(async () => {
+    try {
+      const localStore = await getLocalStore(client);
+      const documents = await localStoreGetAllRemoteDocuments(localStore);
+      const builder = new BundleBuilder(databaseId, AutoId.newId());
+      queries.forEach((query, name) => {
+        let results: Document[] = [];
+        documents.forEach((_, document) => {
+          if (document.isFoundDocument() && queryMatches(query, document)) {
+            results.push(document);
+          }
+        });
+        results.sort(newQueryComparator(query));
+        if (query.limit !== null) {
+          results =
+            query.limitType === LimitType.First
+              ? results.slice(0, query.limit)
+              : results.slice(-query.limit);
+        }
+        let readTime = SnapshotVersion.min();
+        results.forEach(document => {
+          builder.addBundleDocument(document, [name]);
+          if (document.readTime.compareTo(readTime) > 0) {
+            readTime = document.readTime;
+          }
+        });
+        builder.addBundleQuery(name, query, readTime);
+      });
+      documents.forEach((_, document) => {
+        if (document.isFoundDocument() || document.isNoDocument()) {
+          builder.addBundleDocument(document);
+        }
+      });
+      deferred.resolve(builder.build());
+    } catch (e) {
+      deferred.reject(
+        wrapInUserErrorIfRecoverable(e as Error, 'Failed to export the cache')
+      );
+    }
+  });
+  return deferred.promise;
+}
+
 export function firestoreClientGetNamedQuery(
   client: FirestoreClient,
   queryName: string
@@ -27,6 +27,7 @@ import {
   boundSortsBeforeDocument
 } from './bound';
 import { FieldFilter, Filter } from './filter';
+import { compareByDistance, FindNearest } from './find_nearest';
 import { Direction, OrderBy } from './order_by';
 import {
   canonifyTarget,
@@ -56,6 +57,8 @@ export interface Query {
   readonly limitType: LimitType;
   readonly startAt: Bound | null;
   readonly endAt: Bound | null;
+  readonly findNearest: FindNearest | null;
+  readonly projection: FieldPath[] | null;
 }
 
 /**
@@ -90,7 +93,9 @@ export class QueryImpl implements Query {
     readonly limit: number | null = null,
     readonly limitType: LimitType = LimitType.First,
     readonly startAt: Bound | null = null,
-    readonly endAt: Bound | null = null
+    readonly endAt: Bound | null = null,
+    readonly findNearest: FindNearest | null = null,
+    readonly projection: FieldPath[] | null = null
   ) {
     if (this.startAt) {
       debugAssert(
@@ -116,7 +121,9 @@ export function newQuery(
   limit: number | null,
   limitType: LimitType,
   startAt: Bound | null,
-  endAt: Bound | null
+  endAt: Bound | null,
+  findNearest: FindNearest | null = null,
+  projection: FieldPath[] | null = null
 ): Query {
   return new QueryImpl(
     path,
@@ -126,7 +133,9 @@ export function newQuery(
     limit,
     limitType,
     startAt,
-    endAt
+    endAt,
+    findNearest,
+    projection
   );
 }
 
@@ -153,7 +162,9 @@ export function asCollectionQueryAtPath(
     query.limit,
     query.limitType,
     query.startAt,
-    query.endAt
+    query.endAt,
+    query.findNearest,
+    query.projection
   );
 }
 
@@ -167,12 +178,21 @@ export function queryMatchesAllDocuments(query: Query): boolean {
     query.limit === null &&
     query.startAt == null &&
     query.endAt == null &&
+    query.findNearest === null &&
     (query.explicitOrderBy.length === 0 ||
       (query.explicitOrderBy.length === 1 &&
         query.explicitOrderBy[0].field.isKeyField()))
   );
 }
 
+/**
+ * Returns whether the query can only be executed as a one-time read against
+ * the backend, which is the case for nearest neighbor searches and projections.
+ */
+export function isServerOnlyQuery(query: Query): boolean {
+  return query.findNearest !== null || query.projection !== null;
+}
+
 // Returns the sorted set of inequality filter fields used in this query.
 export function getInequalityFilterFields(query: Query): SortedSet<FieldPath> {
   let result = new SortedSet<FieldPath>(FieldPath.comparator);
@@ -274,9 +294,14 @@ export function queryNormalizedOrderBy(query: Query): OrderBy[] {
 export function queryToTarget(query: Query): Target {
   const queryImpl = debugCast(query, QueryImpl);
   if (!queryImpl.memoizedTarget) {
+    // Nearest neighbor searches are ordered by vector distance, so they do
+    // not include the implicit order-bys.
     queryImpl.memoizedTarget = _queryToTarget(
       queryImpl,
-      queryNormalizedOrderBy(query)
+      queryImpl.findNearest
+        ? queryImpl.explicitOrderBy
+        : queryNormalizedOrderBy(query),
+      queryImpl.projection
     );
   }
 
@@ -293,17 +318,23 @@ export function queryToAggregateTarget(query: Query): Target {
   const queryImpl = debugCast(query, QueryImpl);
 
   if (!queryImpl.memoizedAggregateTarget) {
-    // Do not include implicit order-bys for aggregate queries.
+    // Do not include implicit order-bys or the projection for aggregate
+    // queries.
     queryImpl.memoizedAggregateTarget = _queryToTarget(
       queryImpl,
-      query.explicitOrderBy
+      query.explicitOrderBy,
+      /* projection= */ null
     );
   }
 
   return queryImpl.memoizedAggregateTarget;
 }
 
-function _queryToTarget(queryImpl: QueryImpl, orderBys: OrderBy[]): Target {
+function _queryToTarget(
+  queryImpl: QueryImpl,
+  orderBys: OrderBy[],
+  projection: FieldPath[] | null
+): Target {
   if (queryImpl.limitType === LimitType.First) {
     return newTarget(
       queryImpl.path,
@@ -312,7 +343,9 @@ function _queryToTarget(queryImpl: QueryImpl, orderBys: OrderBy[]): Target {
       queryImpl.filters,
       queryImpl.limit,
       queryImpl.startAt,
-      queryImpl.endAt
+      queryImpl.endAt,
+      queryImpl.findNearest,
+      projection
     );
   } else {
     // Flip the orderBy directions since we want the last results
@@ -340,7 +373,9 @@ function _queryToTarget(queryImpl: QueryImpl, orderBys: OrderBy[]): Target {
       queryImpl.filters,
       queryImpl.limit,
       startAt,
-      endAt
+      endAt,
+      queryImpl.findNearest,
+      projection
     );
   }
 }
@@ -360,7 +395,9 @@ export function queryWithAddedFilter(query: Query, filter: Filter): Query {
     query.limit,
     query.limitType,
     query.startAt,
-    query.endAt
+    query.endAt,
+    query.findNearest,
+    query.projection
   );
 }
 
@@ -379,7 +416,9 @@ export function queryWithAddedOrderBy(query: Query, orderBy: OrderBy): Query {
     query.limit,
     query.limitType,
     query.startAt,
-    query.endAt
+    query.endAt,
+    query.findNearest,
+    query.projection
   );
 }
 
@@ -396,7 +435,9 @@ export function queryWithLimit(
     limit,
     limitType,
     query.startAt,
-    query.endAt
+    query.endAt,
+    query.findNearest,
+    query.projection
   );
 }
 
@@ -409,7 +450,45 @@ export function queryWithStartAt(query: Query, bound: Bound): Query {
     query.limit,
     query.limitType,
     bound,
-    query.endAt
+    query.endAt,
+    query.findNearest,
+    query.projection
+  );
+}
+
+export function queryWithFindNearest(
+  query: Query,
+  findNearest: FindNearest
+): Query {
+  return new QueryImpl(
+    query.path,
+    query.collectionGroup,
+    query.explicitOrderBy.slice(),
+    query.filters.slice(),
+    query.limit,
+    query.limitType,
+    query.startAt,
+    query.endAt,
+    findNearest,
+    query.projection
+  );
+}
+
+export function queryWithProjection(
+  query: Query,
+  projection: FieldPath[]
+): Query {
+  return new QueryImpl(
+    query.path,
+    query.collectionGroup,
+    query.explicitOrderBy.slice(),
+    query.filters.slice(),
+    query.limit,
+    query.limitType,
+    query.startAt,
+    query.endAt,
+    query.findNearest,
+    projection
   );
 }
 
@@ -422,7 +501,9 @@ export function queryWithEndAt(query: Query, bound: Bound): Query {
     query.limit,
     query.limitType,
     query.startAt,
-    bound
+    bound,
+    query.findNearest,
+    query.projection
   );
 }
 
@@ -547,6 +628,13 @@ export function newQueryComparator(
   query: Query
 ): (d1: Document, d2: Document) => number {
   return (d1: Document, d2: Document): number => {
+    if (query.findNearest) {
+      // Nearest neighbor searches are ordered by vector distance, with the
+      // document key as a tie breaker.
+      const comp = compareByDistance(query.findNearest, d1, d2);
+      return comp !== 0 ? comp : DocumentKey.comparator(d1.key, d2.key);
+    }
+
     let comparedOnKeyField = false;
     for (const orderBy of queryNormalizedOrderBy(query)) {
       const comp = compareDocs(orderBy, d1, d2);
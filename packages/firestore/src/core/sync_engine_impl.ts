@@ -24,11 +24,13 @@ import {
   localStoreApplyRemoteEventToLocalCache,
   localStoreExecuteQuery,
   localStoreGetActiveClients,
+  localStoreGetAllMutationBatches,
   localStoreGetCachedTarget,
   localStoreGetHighestUnacknowledgedBatchId,
   localStoreGetNewDocumentChanges,
   localStoreHandleUserChange,
   localStoreHasNewerBundle,
+  localStoreLookupMutationBatch,
   localStoreLookupMutationDocuments,
   localStoreNotifyLocalViewChanges,
   localStoreRejectBatch,
@@ -50,7 +52,7 @@ import {
 import { MutableDocument } from '../model/document';
 import { DocumentKey } from '../model/document_key';
 import { Mutation } from '../model/mutation';
-import { MutationBatchResult } from '../model/mutation_batch';
+import { MutationBatch, MutationBatchResult } from '../model/mutation_batch';
 import { ResourcePath } from '../model/path';
 import { RemoteEvent, TargetChange } from '../remote/remote_event';
 import {
@@ -59,6 +61,7 @@ import {
   RemoteStore,
   remoteStoreApplyPrimaryState,
   remoteStoreListen,
+  remoteStoreRemoveFromWritePipeline,
   remoteStoreUnlisten
 } from '../remote/remote_store';
 import { debugAssert, debugCast, fail, hardAssert } from '../util/assert';
@@ -82,7 +85,8 @@ import {
   EventManager,
   eventManagerOnOnlineStateChange,
   eventManagerOnWatchChange,
-  eventManagerOnWatchError
+  eventManagerOnWatchError,
+  Observer
 } from './event_manager';
 import { ListenSequence } from './listen_sequence';
 import {
@@ -107,6 +111,7 @@ import {
   OnlineStateSource,
   TargetId
 } from './types';
+import { UsageStatsRecorder } from './usage_stats';
 import {
   AddedLimboDocument,
   LimboDocumentChange,
@@ -156,6 +161,12 @@ class LimboResolution {
   receivedDocument: boolean = false;
 }
 
+/** A mutation batch that was rejected by the backend, and the error. */
+export interface RejectedMutationBatch {
+  readonly batch: MutationBatch;
+  readonly error: FirestoreError;
+}
+
 /**
  * A function that updates a QueryView with a set of document changes (and a
  * remote event if applicable).
@@ -237,6 +248,8 @@ class SyncEngineImpl implements SyncEngine {
   };
   /** Stores user callbacks waiting for all pending writes to be acknowledged. */
   pendingWritesCallbacks = new Map<BatchId, Array<Deferred<void>>>();
+  /** Stores the listeners that are notified when the backend rejects a write. */
+  writeRejectedListeners = new Set<Observer<RejectedMutationBatch>>();
   limboTargetIdGenerator = TargetIdGenerator.forSyncEngine();
 
   onlineState = OnlineState.Unknown;
@@ -253,7 +266,9 @@ class SyncEngineImpl implements SyncEngine {
     // PORTING NOTE: Manages state synchronization in multi-tab environments.
     readonly sharedClientState: SharedClientState,
     public currentUser: User,
-    readonly maxConcurrentLimboResolutions: number
+    readonly maxConcurrentLimboResolutions: number,
+    /** Records the documents that views read from the cache. */
+    readonly usageStats: UsageStatsRecorder | null
   ) {}
 
   get isPrimaryClient(): boolean {
@@ -269,7 +284,8 @@ export function newSyncEngine(
   sharedClientState: SharedClientState,
   currentUser: User,
   maxConcurrentLimboResolutions: number,
-  isPrimary: boolean
+  isPrimary: boolean,
+  usageStats: UsageStatsRecorder | null = null
 ): SyncEngine {
   const syncEngine = new SyncEngineImpl(
     localStore,
@@ -277,7 +293,8 @@ export function newSyncEngine(
     eventManager,
     sharedClientState,
     currentUser,
-    maxConcurrentLimboResolutions
+    maxConcurrentLimboResolutions,
+    usageStats
   );
   if (isPrimary) {
     syncEngine._isPrimaryClient = true;
@@ -397,6 +414,10 @@ async function initializeViewAndComputeSnapshot(
     query,
     /* usePreviousResults= */ true
   );
+  syncEngineImpl.usageStats?.recordCacheReads(
+    queryToTarget(query),
+    queryResult.documents.size
+  );
   const view = new View(query, queryResult.remoteKeys);
   const viewDocChanges = view.computeDocChanges(queryResult.documents);
   const synthesizedTargetChange =
@@ -769,6 +790,14 @@ export async function syncEngineRejectFailedWrite(
   const syncEngineImpl = debugCast(syncEngine, SyncEngineImpl);
 
   try {
+    // The batch is only looked up if it needs to be passed to a listener.
+    const batch =
+      syncEngineImpl.writeRejectedListeners.size > 0
+        ? await localStoreLookupMutationBatch(
+            syncEngineImpl.localStore,
+            batchId
+          )
+        : null;
     const changes = await localStoreRejectBatch(
       syncEngineImpl.localStore,
       batchId
@@ -780,6 +809,11 @@ export async function syncEngineRejectFailedWrite(
     // listen events.
     processUserCallback(syncEngineImpl, batchId, error);
     triggerPendingWritesCallbacks(syncEngineImpl, batchId);
+    if (batch) {
+      syncEngineImpl.writeRejectedListeners.forEach(listener =>
+        listener.next({ batch, error })
+      );
+    }
 
     syncEngineImpl.sharedClientState.updateMutationState(
       batchId,
@@ -792,6 +826,93 @@ export async function syncEngineRejectFailedWrite(
   }
 }
 
+/**
+ * Registers a listener that is notified whenever the backend rejects a write
+ * of the current user, including writes made in a previous session.
+ */
+export function syncEngineAddWriteRejectedListener(
+  syncEngine: SyncEngine,
+  observer: Observer<RejectedMutationBatch>
+): void {
+  const syncEngineImpl = debugCast(syncEngine, SyncEngineImpl);
+  syncEngineImpl.writeRejectedListeners.add(observer);
+}
+
+export function syncEngineRemoveWriteRejectedListener(
+  syncEngine: SyncEngine,
+  observer: Observer<RejectedMutationBatch>
+): void {
+  const syncEngineImpl = debugCast(syncEngine, SyncEngineImpl);
+  syncEngineImpl.writeRejectedListeners.delete(observer);
+}
+
+/**
+ * Removes a pending write from the mutation queue without sending it to the
+ * backend and rejects the user callback of the write. The write is rolled
+ * back in all tabs, which raise new latency-compensated snapshots.
+ */
+export async function syncEngineDiscardPendingWrite(
+  syncEngine: SyncEngine,
+  batchId: BatchId
+): Promise<void> {
+  const syncEngineImpl = debugCast(syncEngine, SyncEngineImpl);
+  if (!syncEngineImpl.isPrimaryClient) {
+    throw new FirestoreError(
+      Code.FAILED_PRECONDITION,
+      'Pending writes can only be discarded in the primary tab.'
+    );
+  }
+
+  const batches = await localStoreGetAllMutationBatches(
+    syncEngineImpl.localStore
+  );
+  if (!batches.some(batch => batch.batchId === batchId)) {
+    throw new FirestoreError(
+      Code.NOT_FOUND,
+      `No pending write with batch ID ${batchId} exists.`
+    );
+  }
+
+  // Stop sending the write before it is removed from the mutation queue, so
+  // that the write pipeline does not pick it up again.
+  await remoteStoreRemoveFromWritePipeline(syncEngineImpl.remoteStore, batchId);
+
+  const error = new FirestoreError(
+    Code.CANCELLED,
+    'The write was discarded by discardPendingWrite().'
+  );
+  const changes = await localStoreRejectBatch(
+    syncEngineImpl.localStore,
+    batchId
+  );
+  processUserCallback(syncEngineImpl, batchId, error, /*inOrder=*/ false);
+
+  // Callbacks waiting for the discarded write still have to wait for the
+  // writes that were added before it.
+  const earlierBatchIds = batches
+    .map(batch => batch.batchId)
+    .filter(id => id < batchId);
+  const pendingWritesCallbacks =
+    syncEngineImpl.pendingWritesCallbacks.get(batchId);
+  if (pendingWritesCallbacks && earlierBatchIds.length > 0) {
+    const previousBatchId = earlierBatchIds[earlierBatchIds.length - 1];
+    syncEngineImpl.pendingWritesCallbacks.set(previousBatchId, [
+      ...(syncEngineImpl.pendingWritesCallbacks.get(previousBatchId) || []),
+      ...pendingWritesCallbacks
+    ]);
+    syncEngineImpl.pendingWritesCallbacks.delete(batchId);
+  } else {
+    triggerPendingWritesCallbacks(syncEngineImpl, batchId);
+  }
+  syncEngineImpl.sharedClientState.updateMutationState(
+    batchId,
+    'rejected',
+    error
+  );
+  await syncEngineEmitNewSnapsAndNotifyLocalStore(syncEngineImpl, changes);
+  await fillWritePipeline(syncEngineImpl.remoteStore);
+}
+
 /**
  * Registers a user callback that resolves when all pending mutations at the moment of calling
  * are acknowledged .
@@ -880,12 +1001,14 @@ function addMutationCallback(
 
 /**
  * Resolves or rejects the user callback for the given batch and then discards
- * it.
+ * it. Batches are processed in order unless `inOrder` is false, which is the
+ * case for pending writes discarded by the user.
  */
 function processUserCallback(
   syncEngine: SyncEngine,
   batchId: BatchId,
-  error: FirestoreError | null
+  error: FirestoreError | null,
+  inOrder = true
 ): void {
   const syncEngineImpl = debugCast(syncEngine, SyncEngineImpl);
   let newCallbacks =
@@ -897,7 +1020,7 @@ function processUserCallback(
     const callback = newCallbacks.get(batchId);
     if (callback) {
       debugAssert(
-        batchId === newCallbacks.minKey(),
+        !inOrder || batchId === newCallbacks.minKey(),
         'Mutation callbacks processed out-of-order?'
       );
       if (error) {
@@ -1487,8 +1610,7 @@ async function synchronizeQueryViewsAndRaiseSnapshots(
  * original one (only the presentation of results might differ), the potential
  * difference will not cause issues.
  */
-// PORTING NOTE: Multi-Tab only.
-function synthesizeTargetToQuery(target: Target): Query {
+export function synthesizeTargetToQuery(target: Target): Query {
   return newQuery(
     target.path,
     target.collectionGroup,
@@ -1497,7 +1619,9 @@ function synthesizeTargetToQuery(target: Target): Query {
     target.limit,
     LimitType.First,
     target.startAt,
-    target.endAt
+    target.endAt,
+    target.findNearest,
+    target.projection
   );
 }
 
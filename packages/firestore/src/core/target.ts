@@ -46,6 +46,12 @@ import {
   filterEquals,
   Operator
 } from './filter';
+import {
+  canonifyFindNearest,
+  FindNearest,
+  findNearestEquals,
+  stringifyFindNearest
+} from './find_nearest';
 import {
   canonifyOrderBy,
   OrderBy,
@@ -68,6 +74,8 @@ export interface Target {
   readonly limit: number | null;
   readonly startAt: Bound | null;
   readonly endAt: Bound | null;
+  readonly findNearest: FindNearest | null;
+  readonly projection: FieldPath[] | null;
 }
 
 // Visible for testing
@@ -80,7 +88,9 @@ export class TargetImpl implements Target {
     readonly filters: Filter[] = [],
     readonly limit: number | null = null,
     readonly startAt: Bound | null = null,
-    readonly endAt: Bound | null = null
+    readonly endAt: Bound | null = null,
+    readonly findNearest: FindNearest | null = null,
+    readonly projection: FieldPath[] | null = null
   ) {}
 }
 
@@ -99,7 +109,9 @@ export function newTarget(
   filters: Filter[] = [],
   limit: number | null = null,
   startAt: Bound | null = null,
-  endAt: Bound | null = null
+  endAt: Bound | null = null,
+  findNearest: FindNearest | null = null,
+  projection: FieldPath[] | null = null
 ): Target {
   return new TargetImpl(
     path,
@@ -108,7 +120,9 @@ export function newTarget(
     filters,
     limit,
     startAt,
-    endAt
+    endAt,
+    findNearest,
+    projection
   );
 }
 
@@ -139,6 +153,14 @@ export function canonifyTarget(target: Target): string {
       str += targetImpl.endAt.inclusive ? 'a:' : 'b:';
       str += targetImpl.endAt.position.map(p => canonicalId(p)).join(',');
     }
+    if (targetImpl.findNearest) {
+      str += '|fn:';
+      str += canonifyFindNearest(targetImpl.findNearest);
+    }
+    if (targetImpl.projection) {
+      str += '|p:';
+      str += targetImpl.projection.map(f => f.canonicalString()).join(',');
+    }
     targetImpl.memoizedCanonicalId = str;
   }
   return targetImpl.memoizedCanonicalId;
@@ -172,6 +194,14 @@ export function stringifyTarget(target: Target): string {
     str += target.endAt.inclusive ? 'a:' : 'b:';
     str += target.endAt.position.map(p => canonicalId(p)).join(',');
   }
+  if (target.findNearest) {
+    str += ', findNearest: ' + stringifyFindNearest(target.findNearest);
+  }
+  if (target.projection) {
+    str += `, projection: [${target.projection
+      .map(f => f.canonicalString())
+      .join(', ')}]`;
+  }
   return `Target(${str})`;
 }
 
@@ -212,9 +242,30 @@ export function targetEquals(left: Target, right: Target): boolean {
     return false;
   }
 
+  if (!findNearestEquals(left.findNearest, right.findNearest)) {
+    return false;
+  }
+
+  if (!projectionEquals(left.projection, right.projection)) {
+    return false;
+  }
+
   return boundEquals(left.endAt, right.endAt);
 }
 
+function projectionEquals(
+  left: FieldPath[] | null,
+  right: FieldPath[] | null
+): boolean {
+  if (left === null || right === null) {
+    return left === right;
+  }
+  return (
+    left.length === right.length &&
+    left.every((field, i) => field.isEqual(right[i]))
+  );
+}
+
 export function targetIsDocumentTarget(target: Target): boolean {
   return (
     DocumentKey.isDocumentKey(target.path) &&
@@ -24,15 +24,21 @@ import {
   Precondition,
   VerifyMutation
 } from '../model/mutation';
+import { validateCommitLimits } from '../model/write_limits';
 import {
   Datastore,
   invokeBatchGetDocumentsRpc,
+  invokeBeginReadOnlyTransactionRpc,
   invokeCommitRpc
 } from '../remote/datastore';
 import { fail, debugAssert } from '../util/assert';
 import { Code, FirestoreError } from '../util/error';
 
 import { SnapshotVersion } from './snapshot_version';
+import {
+  DEFAULT_TRANSACTION_OPTIONS,
+  TransactionOptions
+} from './transaction_options';
 
 /**
  * Internal transaction object responsible for accumulating the mutations to
@@ -58,11 +64,36 @@ export class Transaction {
    */
   private writtenDocs: Set</* path= */ string> = new Set();
 
-  constructor(private datastore: Datastore) {}
+  /**
+   * The ID of the backend transaction that a read-only transaction reads in,
+   * which is started by the first read.
+   */
+  private readOnlyTransactionId: Promise<string> | null = null;
+
+  constructor(
+    private datastore: Datastore,
+    private readonly options: TransactionOptions = DEFAULT_TRANSACTION_OPTIONS
+  ) {}
 
   async lookup(keys: DocumentKey[]): Promise<Document[]> {
     this.ensureCommitNotCalled();
 
+    if (this.options.readOnly) {
+      if (!this.readOnlyTransactionId) {
+        this.readOnlyTransactionId = invokeBeginReadOnlyTransactionRpc(
+          this.datastore,
+          this.options.readTime
+        );
+      }
+      const transactionId = await this.readOnlyTransactionId;
+      return invokeBatchGetDocumentsRpc(
+        this.datastore,
+        keys,
+        /* readTime= */ undefined,
+        transactionId
+      );
+    }
+
     if (this.mutations.length > 0) {
       this.lastTransactionError = new FirestoreError(
         Code.INVALID_ARGUMENT,
@@ -76,11 +107,13 @@ export class Transaction {
   }
 
   set(key: DocumentKey, data: ParsedSetData): void {
+    this.ensureNotReadOnly();
     this.write(data.toMutation(key, this.precondition(key)));
     this.writtenDocs.add(key.toString());
   }
 
   update(key: DocumentKey, data: ParsedUpdateData): void {
+    this.ensureNotReadOnly();
     try {
       this.write(data.toMutation(key, this.preconditionForUpdate(key)));
     } catch (e) {
@@ -90,6 +123,7 @@ export class Transaction {
   }
 
   delete(key: DocumentKey): void {
+    this.ensureNotReadOnly();
     this.write(new DeleteMutation(key, this.precondition(key)));
     this.writtenDocs.add(key.toString());
   }
@@ -111,6 +145,7 @@ export class Transaction {
       const key = DocumentKey.fromPath(path);
       this.mutations.push(new VerifyMutation(key, this.precondition(key)));
     });
+    validateCommitLimits(this.mutations);
     await invokeCommitRpc(this.datastore, this.mutations);
     this.committed = true;
   }
@@ -197,6 +232,15 @@ export class Transaction {
     this.mutations.push(mutation);
   }
 
+  private ensureNotReadOnly(): void {
+    if (this.options.readOnly) {
+      throw new FirestoreError(
+        Code.INVALID_ARGUMENT,
+        'Firestore read-only transactions cannot write documents.'
+      );
+    }
+  }
+
   private ensureCommitNotCalled(): void {
     debugAssert(
       !this.committed,
@@ -15,10 +15,13 @@
  * limitations under the License.
  */
 
+import { validateReadOptions } from '../lite-api/read_options';
+import { Timestamp } from '../lite-api/timestamp';
 import { Code, FirestoreError } from '../util/error';
 
 export const DEFAULT_TRANSACTION_OPTIONS: TransactionOptions = {
-  maxAttempts: 5
+  maxAttempts: 5,
+  readOnly: false
 };
 
 /**
@@ -27,6 +30,10 @@ export const DEFAULT_TRANSACTION_OPTIONS: TransactionOptions = {
 export declare interface TransactionOptions {
   /** Maximum number of attempts to commit, after which transaction fails. Default is 5. */
   readonly maxAttempts: number;
+  /** Whether the transaction only reads documents and is never committed. */
+  readonly readOnly: boolean;
+  /** The time at which a read-only transaction reads documents. */
+  readonly readTime?: Timestamp;
 }
 
 export function validateTransactionOptions(options: TransactionOptions): void {
@@ -36,4 +43,11 @@ export function validateTransactionOptions(options: TransactionOptions): void {
       'Max attempts must be at least 1'
     );
   }
+  if (options.readTime !== undefined && !options.readOnly) {
+    throw new FirestoreError(
+      Code.INVALID_ARGUMENT,
+      'Only read-only transactions can specify a "readTime"'
+    );
+  }
+  validateReadOptions('runTransaction', options);
 }
@@ -28,7 +28,7 @@ import { TransactionOptions } from './transaction_options';
 
 /**
  * TransactionRunner encapsulates the logic needed to run and retry transactions
- * with backoff.
+ * with backoff. Read-only transactions are run once and are not committed.
  */
 export class TransactionRunner<T> {
   private attemptsRemaining: number;
@@ -56,11 +56,15 @@ export class TransactionRunner<T> {
 
   private runWithBackOff(): void {
     this.backoff.backoffAndRun(async () => {
-      const transaction = new Transaction(this.datastore);
+      const transaction = new Transaction(this.datastore, this.options);
       const userPromise = this.tryRunUpdateFunction(transaction);
       if (userPromise) {
         userPromise
           .then(result => {
+            if (this.options.readOnly) {
+              this.deferred.resolve(result);
+              return;
+            }
             this.asyncQueue.enqueueAndForget(() => {
               return transaction
                 .commit()
@@ -101,7 +105,11 @@ export class TransactionRunner<T> {
   }
 
   private handleTransactionError(error: Error): void {
-    if (this.attemptsRemaining > 0 && this.isRetryableTransactionError(error)) {
+    if (
+      !this.options.readOnly &&
+      this.attemptsRemaining > 0 &&
+      this.isRetryableTransactionError(error)
+    ) {
       this.attemptsRemaining -= 1;
       this.asyncQueue.enqueueAndForget(() => {
         this.runWithBackOff();
@@ -0,0 +1,257 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Timestamp } from '../lite-api/timestamp';
+import { AsyncQueue, DelayedOperation, TimerId } from '../util/async_queue';
+import { ObjectMap } from '../util/obj_map';
+
+import {
+  canonifyTarget,
+  stringifyTarget,
+  Target,
+  targetEquals
+} from './target';
+
+/** The default interval at which usage statistics are reported (1 minute). */
+export const DEFAULT_USAGE_STATS_INTERVAL_MS = 60 * 1000;
+
+/** The usage of a single query during a reporting interval. */
+export interface TargetUsageStats {
+  /** The label set with `setUsageLabel()`, or `null` if none was set. */
+  readonly label: string | null;
+  /** A description of the query, for debugging. */
+  readonly target: string;
+  /** The number of documents the server sent for the query. */
+  readonly documentReadsFromServer: number;
+  /** The number of documents read from the local cache for the query. */
+  readonly documentReadsFromCache: number;
+  /**
+   * The number of times the document count reported by the server did not
+   * match the number of documents in the cache.
+   */
+  readonly existenceFilterMismatches: number;
+  /**
+   * The number of existence filter mismatches that could not be resolved with
+   * a bloom filter, which make the server send all results again.
+   */
+  readonly fullRequeries: number;
+  /** The estimated size of the documents the server sent for the query. */
+  readonly bytesReceived: number;
+}
+
+/** The usage of a Firestore instance during a reporting interval. */
+export interface UsageStats {
+  /** The start of the reporting interval. */
+  readonly startTime: Timestamp;
+  /** The end of the reporting interval. */
+  readonly endTime: Timestamp;
+  /** The number of documents sent by the server for all queries. */
+  readonly documentReadsFromServer: number;
+  /** The number of documents read from the local cache for all queries. */
+  readonly documentReadsFromCache: number;
+  /** The number of existence filter mismatches of all queries. */
+  readonly existenceFilterMismatches: number;
+  /** The number of full re-queries of all queries. */
+  readonly fullRequeries: number;
+  /** The estimated size of the documents sent by the server. */
+  readonly bytesReceived: number;
+  /** The number of writes acknowledged by the server. */
+  readonly writes: number;
+  /** The usage of each query that was active during the interval. */
+  readonly targets: TargetUsageStats[];
+}
+
+interface Counters {
+  documentReadsFromServer: number;
+  documentReadsFromCache: number;
+  existenceFilterMismatches: number;
+  fullRequeries: number;
+  bytesReceived: number;
+}
+
+function newCounters(): Counters {
+  return {
+    documentReadsFromServer: 0,
+    documentReadsFromCache: 0,
+    existenceFilterMismatches: 0,
+    fullRequeries: 0,
+    bytesReceived: 0
+  };
+}
+
+/** The counters of one usage stats listener for its current interval. */
+class UsageStatsAccumulator {
+  private startTime = Timestamp.now();
+  private totals = newCounters();
+  private writes = 0;
+  private targets = new ObjectMap<Target, Counters>(
+    canonifyTarget,
+    targetEquals
+  );
+
+  record(targets: Target[], update: (counters: Counters) => void): void {
+    update(this.totals);
+    for (const target of targets) {
+      let counters = this.targets.get(target);
+      if (!counters) {
+        counters = newCounters();
+        this.targets.set(target, counters);
+      }
+      update(counters);
+    }
+  }
+
+  recordWrites(count: number): void {
+    this.writes += count;
+  }
+
+  /** Returns the stats of the current interval and starts a new interval. */
+  takeStats(labels: ObjectMap<Target, string>): UsageStats {
+    const endTime = Timestamp.now();
+    const targets: TargetUsageStats[] = [];
+    this.targets.forEach((target, counters) =>
+      targets.push({
+        label: labels.get(target) ?? null,
+        target: stringifyTarget(target),
+        ...counters
+      })
+    );
+    const stats: UsageStats = {
+      startTime: this.startTime,
+      endTime,
+      ...this.totals,
+      writes: this.writes,
+      targets
+    };
+
+    this.startTime = endTime;
+    this.totals = newCounters();
+    this.writes = 0;
+    this.targets = new ObjectMap<Target, Counters>(
+      canonifyTarget,
+      targetEquals
+    );
+    return stats;
+  }
+}
+
+/**
+ * Collects the document reads and writes of a Firestore client, and reports
+ * them to the registered listeners at the end of each of their intervals.
+ *
+ * Usage is only collected while listeners are registered. Reads and writes
+ * are attributed to the target they were performed for, which are tagged with
+ * the label of their query.
+ */
+export class UsageStatsRecorder {
+  private readonly accumulators = new Set<UsageStatsAccumulator>();
+  private readonly labels = new ObjectMap<Target, string>(
+    canonifyTarget,
+    targetEquals
+  );
+
+  constructor(private readonly asyncQueue: AsyncQueue) {}
+
+  /** Whether usage is collected, which is the case while listeners exist. */
+  get enabled(): boolean {
+    return this.accumulators.size > 0;
+  }
+
+  /** Sets the label of a target, or removes it if `label` is null. */
+  setLabel(target: Target, label: string | null): void {
+    if (label === null) {
+      this.labels.delete(target);
+    } else {
+      this.labels.set(target, label);
+    }
+  }
+
+  /**
+   * Records a document of `byteSize` bytes that the server sent once for all
+   * of `targets`.
+   */
+  recordServerRead(targets: Target[], byteSize: number): void {
+    this.record(targets, counters => {
+      counters.documentReadsFromServer += 1;
+      counters.bytesReceived += byteSize;
+    });
+  }
+
+  /** Records `count` documents read from the cache for a target. */
+  recordCacheReads(target: Target, count: number): void {
+    this.record([target], counters => {
+      counters.documentReadsFromCache += count;
+    });
+  }
+
+  /**
+   * Records an existence filter mismatch of a target, and whether the mismatch
+   * caused the query to be re-run.
+   */
+  recordExistenceFilterMismatch(target: Target, fullRequery: boolean): void {
+    this.record([target], counters => {
+      counters.existenceFilterMismatches += 1;
+      counters.fullRequeries += fullRequery ? 1 : 0;
+    });
+  }
+
+  /** Records `count` writes acknowledged by the server. */
+  recordWrites(count: number): void {
+    this.accumulators.forEach(accumulator => accumulator.recordWrites(count));
+  }
+
+  /**
+   * Registers a listener that is called with the usage stats every
+   * `intervalMs`, until the returned function is called.
+   */
+  addListener(
+    intervalMs: number,
+    listener: (stats: UsageStats) => void
+  ): () => void {
+    const accumulator = new UsageStatsAccumulator();
+    let timer: DelayedOperation<void> | null = null;
+    const schedule = (): void => {
+      timer = this.asyncQueue.enqueueAfterDelay(
+        TimerId.UsageStatsReport,
+        intervalMs,
+        async () => {
+          listener(accumulator.takeStats(this.labels));
+          schedule();
+        }
+      );
+    };
+
+    this.asyncQueue.enqueueAndForget(async () => {
+      this.accumulators.add(accumulator);
+      schedule();
+    });
+    return () =>
+      this.asyncQueue.enqueueAndForget(async () => {
+        this.accumulators.delete(accumulator);
+        timer?.cancel();
+      });
+  }
+
+  private record(
+    targets: Target[],
+    update: (counters: Counters) => void
+  ): void {
+    this.accumulators.forEach(accumulator =>
+      accumulator.record(targets, update)
+    );
+  }
+}
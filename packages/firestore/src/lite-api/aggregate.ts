@@ -31,6 +31,7 @@ import {
 import { getDatastore } from './components';
 import { Firestore } from './database';
 import { FieldPath } from './field_path';
+import { ReadOptions, validateReadOptions } from './read_options';
 import { DocumentData, Query, queryEqual } from './reference';
 import { LiteUserDataWriter } from './reference_impl';
 import { fieldPathFromArgument } from './user_data_reader';
@@ -45,12 +46,14 @@ import { fieldPathFromArgument } from './user_data_reader';
  * download entirely (thousands of documents).
  *
  * @param query The query whose result set size is calculated.
+ * @param options Options to count the documents at a specific point in time.
  * @returns A Promise that will be resolved with the count; the count can be
  * retrieved from `snapshot.data().count`, where `snapshot` is the
  * `AggregateQuerySnapshot` to which the returned Promise resolves.
  */
 export function getCount<AppModelType, DbModelType extends DocumentData>(
-  query: Query<AppModelType, DbModelType>
+  query: Query<AppModelType, DbModelType>,
+  options?: ReadOptions
 ): Promise<
   AggregateQuerySnapshot<
     { count: AggregateField<number> },
@@ -62,7 +65,7 @@ export function getCount<AppModelType, DbModelType extends DocumentData>(
     count: count()
   };
 
-  return getAggregate(query, countQuerySpec);
+  return getAggregate(query, countQuerySpec, options);
 }
 
 /**
@@ -78,6 +81,8 @@ export function getCount<AppModelType, DbModelType extends DocumentData>(
  * @param aggregateSpec An `AggregateSpec` object that specifies the aggregates
  * to perform over the result set. The AggregateSpec specifies aliases for each
  * aggregate, which can be used to retrieve the aggregate result.
+ * @param options Options to perform the aggregations at a specific point in
+ * time.
  * @example
  * ```typescript
  * const aggregateSnapshot = await getAggregate(query, {
@@ -97,11 +102,13 @@ export function getAggregate<
   DbModelType extends DocumentData
 >(
   query: Query<AppModelType, DbModelType>,
-  aggregateSpec: AggregateSpecType
+  aggregateSpec: AggregateSpecType,
+  options?: ReadOptions
 ): Promise<
   AggregateQuerySnapshot<AggregateSpecType, AppModelType, DbModelType>
 > {
   const firestore = cast(query.firestore, Firestore);
+  const readTime = validateReadOptions('getAggregate', options);
   const datastore = getDatastore(firestore);
 
   const internalAggregates = mapToArray(aggregateSpec, (aggregate, alias) => {
@@ -116,7 +123,8 @@ export function getAggregate<
   return invokeRunAggregationQueryRpc(
     datastore,
     query._query,
-    internalAggregates
+    internalAggregates,
+    readTime
   ).then(aggregateResult =>
     convertToAggregateQuerySnapshot(firestore, query, aggregateResult)
   );
@@ -77,7 +77,9 @@ export function getDatastore(firestore: FirestoreService): Datastore {
       firestore._persistenceKey,
       firestore._freezeSettings()
     );
-    const connection = newConnection(databaseInfo);
+    const connection = databaseInfo.backend
+      ? databaseInfo.backend._newConnection(databaseInfo)
+      : newConnection(databaseInfo);
     const serializer = newSerializer(firestore._databaseId);
     const datastore = newDatastore(
       firestore._authCredentials,
@@ -119,6 +121,8 @@ export function makeDatabaseInfo(
     settings.experimentalForceLongPolling,
     settings.experimentalAutoDetectLongPolling,
     cloneLongPollingOptions(settings.experimentalLongPollingOptions),
-    settings.useFetchStreams
+    settings.useFetchStreams,
+    settings.experimentalTransport,
+    settings.backend
   );
 }
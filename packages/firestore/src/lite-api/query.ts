@@ -26,6 +26,7 @@ import {
   Filter,
   Operator
 } from '../core/filter';
+import { DistanceMeasure, FindNearest } from '../core/find_nearest';
 import { Direction, OrderBy } from '../core/order_by';
 import {
   isCollectionGroupQuery,
@@ -35,7 +36,9 @@ import {
   queryWithAddedFilter,
   queryWithAddedOrderBy,
   queryWithEndAt,
+  queryWithFindNearest,
   queryWithLimit,
+  queryWithProjection,
   queryWithStartAt
 } from '../core/query';
 import { Document } from '../model/document';
@@ -58,6 +61,10 @@ import {
   parseQueryValue,
   UserDataReader
 } from './user_data_reader';
+import { VectorValue } from './vector_value';
+
+/** The maximum number of results a `findNearest()` stage can return. */
+const MAX_FIND_NEAREST_LIMIT = 1000;
 
 export function validateHasExplicitOrderByForLimitToLast(
   query: InternalQuery
@@ -73,6 +80,31 @@ export function validateHasExplicitOrderByForLimitToLast(
   }
 }
 
+/**
+ * Validates that the query does not contain a `findNearest()` stage or a
+ * `select()` projection, which can only be executed as a one-time read against
+ * the backend.
+ */
+export function validateQueryForListen(
+  query: InternalQuery,
+  methodName: string
+): void {
+  if (query.findNearest !== null) {
+    throw new FirestoreError(
+      Code.UNIMPLEMENTED,
+      `findNearest() queries are not supported by ${methodName}(). Use ` +
+        'getDocs() or getDocsFromServer() instead.'
+    );
+  }
+  if (query.projection !== null) {
+    throw new FirestoreError(
+      Code.UNIMPLEMENTED,
+      `select() queries are not supported by ${methodName}(). Use ` +
+        'getDocs() or getDocsFromServer() instead.'
+    );
+  }
+}
+
 /** Describes the different query constraints available in this SDK. */
 export type QueryConstraintType =
   | 'where'
@@ -82,7 +114,9 @@ export type QueryConstraintType =
   | 'startAt'
   | 'startAfter'
   | 'endAt'
-  | 'endBefore';
+  | 'endBefore'
+  | 'findNearest'
+  | 'select';
 
 /**
  * An `AppliableConstraint` is an abstraction of a constraint that can be applied
@@ -350,14 +384,16 @@ export class QueryCompositeFilterConstraint extends AppliableConstraint {
  * but that do not explicitly filter on a document field.
  * `QueryNonFilterConstraint`s are created by invoking {@link orderBy},
  * {@link (startAt:1)}, {@link (startAfter:1)}, {@link (endBefore:1)}, {@link (endAt:1)},
- * {@link limit} or {@link limitToLast} and can then be passed to {@link (query:1)}
+ * {@link limit}, {@link limitToLast}, {@link findNearest} or {@link select} and can then be passed to {@link (query:1)}
  * to create a new query instance that also contains the `QueryConstraint`.
  */
 export type QueryNonFilterConstraint =
   | QueryOrderByConstraint
   | QueryLimitConstraint
   | QueryStartAtConstraint
-  | QueryEndAtConstraint;
+  | QueryEndAtConstraint
+  | QueryFindNearestConstraint
+  | QuerySelectConstraint;
 
 /**
  * `QueryFilterConstraint` is a helper union type that represents
@@ -515,6 +551,7 @@ export class QueryLimitConstraint extends QueryConstraint {
   _apply<AppModelType, DbModelType extends DocumentData>(
     query: Query<AppModelType, DbModelType>
   ): Query<AppModelType, DbModelType> {
+    validateNoFindNearest(query._query, this.type);
     return new Query(
       query.firestore,
       query.converter,
@@ -768,6 +805,268 @@ export function endAt<AppModelType, DbModelType extends DocumentData>(
   );
 }
 
+/**
+ * The distance measure used by {@link findNearest} to compare vectors:
+ * 'EUCLIDEAN', 'COSINE' or 'DOT_PRODUCT'.
+ */
+export type VectorDistanceMeasure = 'EUCLIDEAN' | 'COSINE' | 'DOT_PRODUCT';
+
+/**
+ * Specifies the behavior of the nearest neighbor search performed by a
+ * {@link findNearest} stage.
+ */
+export interface FindNearestOptions {
+  /**
+   * The maximum number of nearest neighbors to return. Must be a positive
+   * integer of no more than 1000.
+   */
+  limit: number;
+  /** The distance measure used to compare the vectors. */
+  distanceMeasure: VectorDistanceMeasure;
+  /**
+   * Optional name of a field in which the computed distance is returned for
+   * each resulting document.
+   */
+  distanceResultField?: string | FieldPath;
+  /**
+   * Optional threshold for the distance. For 'EUCLIDEAN' and 'COSINE', only
+   * documents whose distance is less than or equal to the threshold are
+   * returned. For 'DOT_PRODUCT', only documents whose distance is greater than
+   * or equal to the threshold are returned.
+   */
+  distanceThreshold?: number;
+}
+
+/**
+ * A `QueryFindNearestConstraint` is used to perform a nearest neighbor search
+ * over a vector field.
+ * `QueryFindNearestConstraint`s are created by invoking {@link findNearest}
+ * and can then be passed to {@link (query:1)} to create a new query instance
+ * that also contains this `QueryFindNearestConstraint`.
+ */
+export class QueryFindNearestConstraint extends QueryConstraint {
+  /** The type of this query constraint */
+  readonly type = 'findNearest';
+
+  /**
+   * @internal
+   */
+  protected constructor(
+    private readonly _vectorField: InternalFieldPath,
+    private readonly _queryVector: VectorValue,
+    private readonly _limit: number,
+    private readonly _distanceMeasure: DistanceMeasure,
+    private readonly _distanceResultField: InternalFieldPath | null,
+    private readonly _distanceThreshold: number | null
+  ) {
+    super();
+  }
+
+  static _create(
+    _vectorField: InternalFieldPath,
+    _queryVector: VectorValue,
+    _limit: number,
+    _distanceMeasure: DistanceMeasure,
+    _distanceResultField: InternalFieldPath | null,
+    _distanceThreshold: number | null
+  ): QueryFindNearestConstraint {
+    return new QueryFindNearestConstraint(
+      _vectorField,
+      _queryVector,
+      _limit,
+      _distanceMeasure,
+      _distanceResultField,
+      _distanceThreshold
+    );
+  }
+
+  _apply<AppModelType, DbModelType extends DocumentData>(
+    query: Query<AppModelType, DbModelType>
+  ): Query<AppModelType, DbModelType> {
+    validateNewFindNearest(query._query);
+    const reader = newUserDataReader(query.firestore);
+    const queryVector = parseQueryValue(
+      reader,
+      'findNearest',
+      this._queryVector
+    );
+    const findNearest = new FindNearest(
+      this._vectorField,
+      queryVector,
+      this._limit,
+      this._distanceMeasure,
+      this._distanceResultField,
+      this._distanceThreshold
+    );
+    return new Query(
+      query.firestore,
+      query.converter,
+      queryWithFindNearest(query._query, findNearest)
+    );
+  }
+}
+
+/**
+ * Creates a {@link QueryFindNearestConstraint} that returns the documents
+ * whose vector field is nearest to the given query vector.
+ *
+ * The results are ordered by their distance to the query vector, with the
+ * most similar document first. A `findNearest()` stage cannot be combined
+ * with `orderBy()`, `limit()`, `limitToLast()` or cursors, and the resulting
+ * query can only be executed with `getDocs()` or `getDocsFromServer()`.
+ *
+ * @param vectorField - The field that contains the vectors to search.
+ * @param queryVector - The vector to search for.
+ * @param options - Options that configure the nearest neighbor search.
+ * @returns The created {@link QueryFindNearestConstraint}.
+ */
+export function findNearest(
+  vectorField: string | FieldPath,
+  queryVector: VectorValue | number[],
+  options: FindNearestOptions
+): QueryFindNearestConstraint {
+  const field = fieldPathFromArgument('findNearest', vectorField);
+
+  queryVector = getModularInstance(queryVector);
+  if (Array.isArray(queryVector)) {
+    queryVector = new VectorValue(queryVector);
+  } else if (!(queryVector instanceof VectorValue)) {
+    throw new FirestoreError(
+      Code.INVALID_ARGUMENT,
+      'Function findNearest() requires its second argument to be a ' +
+        `VectorValue or an array of numbers, but it was: ` +
+        `${valueDescription(queryVector)}.`
+    );
+  }
+  if (queryVector.toArray().length === 0) {
+    throw new FirestoreError(
+      Code.INVALID_ARGUMENT,
+      'Function findNearest() requires a non-empty query vector.'
+    );
+  }
+
+  const limit = options.limit;
+  if (
+    typeof limit !== 'number' ||
+    !Number.isInteger(limit) ||
+    limit <= 0 ||
+    limit > MAX_FIND_NEAREST_LIMIT
+  ) {
+    throw new FirestoreError(
+      Code.INVALID_ARGUMENT,
+      'Function findNearest() requires "limit" to be a positive integer of ' +
+        `no more than ${MAX_FIND_NEAREST_LIMIT}, but it was: ` +
+        `${valueDescription(limit)}.`
+    );
+  }
+
+  const distanceMeasure = options.distanceMeasure as DistanceMeasure;
+  if (
+    distanceMeasure !== DistanceMeasure.EUCLIDEAN &&
+    distanceMeasure !== DistanceMeasure.COSINE &&
+    distanceMeasure !== DistanceMeasure.DOT_PRODUCT
+  ) {
+    throw new FirestoreError(
+      Code.INVALID_ARGUMENT,
+      'Function findNearest() requires "distanceMeasure" to be one of ' +
+        `'EUCLIDEAN', 'COSINE' or 'DOT_PRODUCT', but it was: ` +
+        `${valueDescription(distanceMeasure)}.`
+    );
+  }
+
+  const distanceThreshold = options.distanceThreshold;
+  if (
+    distanceThreshold !== undefined &&
+    (typeof distanceThreshold !== 'number' || isNaN(distanceThreshold))
+  ) {
+    throw new FirestoreError(
+      Code.INVALID_ARGUMENT,
+      'Function findNearest() requires "distanceThreshold" to be a number, ' +
+        `but it was: ${valueDescription(distanceThreshold)}.`
+    );
+  }
+
+  const distanceResultField =
+    options.distanceResultField !== undefined
+      ? fieldPathFromArgument('findNearest', options.distanceResultField)
+      : null;
+
+  return QueryFindNearestConstraint._create(
+    field,
+    queryVector,
+    limit,
+    distanceMeasure,
+    distanceResultField,
+    distanceThreshold ?? null
+  );
+}
+
+/**
+ * A `QuerySelectConstraint` is used to only return the selected fields of the
+ * documents that match a query.
+ * `QuerySelectConstraint`s are created by invoking {@link select} and can then
+ * be passed to {@link (query:1)} to create a new query instance that also
+ * contains this `QuerySelectConstraint`.
+ */
+export class QuerySelectConstraint extends QueryConstraint {
+  /** The type of this query constraint */
+  readonly type = 'select';
+
+  /**
+   * @internal
+   */
+  protected constructor(private readonly _fields: InternalFieldPath[]) {
+    super();
+  }
+
+  static _create(_fields: InternalFieldPath[]): QuerySelectConstraint {
+    return new QuerySelectConstraint(_fields);
+  }
+
+  _apply<AppModelType, DbModelType extends DocumentData>(
+    query: Query<AppModelType, DbModelType>
+  ): Query<AppModelType, DbModelType> {
+    if (query._query.projection !== null) {
+      throw new FirestoreError(
+        Code.INVALID_ARGUMENT,
+        'Invalid query. You cannot use more than one select() constraint.'
+      );
+    }
+    return new Query(
+      query.firestore,
+      query.converter,
+      queryWithProjection(query._query, this._fields)
+    );
+  }
+}
+
+/**
+ * Creates a {@link QuerySelectConstraint} that only returns the given fields of
+ * the matching documents. If no fields are given, only the document
+ * references are returned.
+ *
+ * The documents returned by the resulting query are partial: fields that were
+ * not selected are missing from `data()` and `get()`, and
+ * `DocumentSnapshot.isPartial` is `true`. Partial documents are never stored
+ * in the local cache, and the query can only be executed with `getDocs()` or
+ * `getDocsFromServer()`.
+ *
+ * @param fieldPaths - The fields to return.
+ * @returns The created {@link QuerySelectConstraint}.
+ */
+export function select(
+  ...fieldPaths: Array<string | FieldPath>
+): QuerySelectConstraint {
+  const fields: InternalFieldPath[] = [];
+  for (const fieldPath of fieldPaths) {
+    const field = fieldPathFromArgument('select', fieldPath);
+    if (!fields.some(existing => existing.isEqual(field))) {
+      fields.push(field);
+    }
+  }
+  return QuerySelectConstraint._create(fields);
+}
+
 /** Helper function to create a bound from a document or fields */
 function newQueryBoundFromDocOrFields<
   AppModelType,
@@ -778,6 +1077,7 @@ function newQueryBoundFromDocOrFields<
   docOrFields: Array<unknown | DocumentSnapshot<AppModelType, DbModelType>>,
   inclusive: boolean
 ): Bound {
+  validateNoFindNearest(query._query, methodName);
   docOrFields[0] = getModularInstance(docOrFields[0]);
 
   if (docOrFields[0] instanceof DocumentSnapshot) {
@@ -851,6 +1151,7 @@ export function newQueryOrderBy(
   fieldPath: InternalFieldPath,
   direction: Direction
 ): OrderBy {
+  validateNoFindNearest(query, 'orderBy');
   if (query.startAt !== null) {
     throw new FirestoreError(
       Code.INVALID_ARGUMENT,
@@ -1119,6 +1420,37 @@ function validateNewFieldFilter(
   }
 }
 
+function validateNewFindNearest(query: InternalQuery): void {
+  if (query.findNearest !== null) {
+    throw new FirestoreError(
+      Code.INVALID_ARGUMENT,
+      'Invalid query. You cannot use more than one findNearest() stage.'
+    );
+  }
+  if (
+    query.explicitOrderBy.length > 0 ||
+    query.limit !== null ||
+    query.startAt !== null ||
+    query.endAt !== null
+  ) {
+    throw new FirestoreError(
+      Code.INVALID_ARGUMENT,
+      'Invalid query. You cannot use findNearest() together with orderBy(), ' +
+        'limit(), limitToLast() or cursors.'
+    );
+  }
+}
+
+function validateNoFindNearest(query: InternalQuery, methodName: string): void {
+  if (query.findNearest !== null) {
+    throw new FirestoreError(
+      Code.INVALID_ARGUMENT,
+      `Invalid query. You cannot use ${methodName}() together with ` +
+        'findNearest().'
+    );
+  }
+}
+
 function validateNewFilter(query: InternalQuery, filter: Filter): void {
   let testQuery = query;
   const subFilters = filter.getFlattenedFilters();
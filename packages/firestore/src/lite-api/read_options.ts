@@ -0,0 +1,83 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Code, FirestoreError } from '../util/error';
+import { cast } from '../util/input_validation';
+
+import { Timestamp } from './timestamp';
+
+/**
+ * Read times within the last hour can be any timestamp. Older read times are
+ * served by point-in-time recovery (PITR), which retains whole-minute
+ * versions for up to 7 days.
+ */
+const MAX_PRECISE_READ_TIME_AGE_MS = 60 * 60 * 1000;
+const MAX_READ_TIME_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Options that configure how documents are read from the server.
+ */
+export interface ReadOptions {
+  /**
+   * Reads the documents as they were at the given time instead of their
+   * latest version. The read time must not be in the future and can be at
+   * most 7 days in the past. Read times that are more than one hour in the
+   * past must be a whole minute and require point-in-time recovery to be
+   * enabled for the database.
+   */
+  readonly readTime?: Timestamp;
+}
+
+/**
+ * Validates the `readTime` of the given `ReadOptions` and returns it, or
+ * returns `undefined` if no read time was specified.
+ */
+export function validateReadOptions(
+  methodName: string,
+  options: ReadOptions | undefined,
+  nowMs: number = Date.now()
+): Timestamp | undefined {
+  if (options?.readTime === undefined) {
+    return undefined;
+  }
+  const readTime = cast(options.readTime, Timestamp);
+  const ageMs = nowMs - readTime.toMillis();
+  if (ageMs < 0) {
+    throw new FirestoreError(
+      Code.INVALID_ARGUMENT,
+      `Function ${methodName}() requires "readTime" to not be in the future.`
+    );
+  }
+  if (ageMs > MAX_READ_TIME_AGE_MS) {
+    throw new FirestoreError(
+      Code.INVALID_ARGUMENT,
+      `Function ${methodName}() requires "readTime" to be at most 7 days in ` +
+        'the past.'
+    );
+  }
+  if (
+    ageMs > MAX_PRECISE_READ_TIME_AGE_MS &&
+    (readTime.seconds % 60 !== 0 || readTime.nanoseconds !== 0)
+  ) {
+    throw new FirestoreError(
+      Code.INVALID_ARGUMENT,
+      `Function ${methodName}() requires "readTime" to be a whole minute if ` +
+        'it is more than one hour in the past.'
+    );
+  }
+  return readTime;
+}
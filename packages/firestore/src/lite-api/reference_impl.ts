@@ -30,6 +30,7 @@ import {
 } from '../remote/datastore';
 import { hardAssert } from '../util/assert';
 import { ByteString } from '../util/byte_string';
+import { Code, FirestoreError } from '../util/error';
 import { cast } from '../util/input_validation';
 
 import { Bytes } from './bytes';
@@ -37,6 +38,7 @@ import { getDatastore } from './components';
 import { Firestore } from './database';
 import { FieldPath } from './field_path';
 import { validateHasExplicitOrderByForLimitToLast } from './query';
+import { ReadOptions, validateReadOptions } from './read_options';
 import {
   CollectionReference,
   doc,
@@ -54,6 +56,7 @@ import {
   QuerySnapshot
 } from './snapshot';
 import {
+  estimateSetDataSize,
   newUserDataReader,
   ParsedUpdateData,
   parseSetData,
@@ -71,6 +74,9 @@ import { AbstractUserDataWriter } from './user_data_writer';
  * because we want to provide the user with a more specific error message if
  * their `set()` or fails due to invalid data originating from a `toFirestore()`
  * call.
+ *
+ * If the converter defines `validate()`, it is called with the converted data
+ * of writes that replace the whole document.
  */
 export function applyFirestoreDataConverter<T>(
   converter: UntypedFirestoreDataConverter<T> | null,
@@ -86,6 +92,16 @@ export function applyFirestoreDataConverter<T>(
       convertedValue = (converter as any).toFirestore(value, options);
     } else {
       convertedValue = converter.toFirestore(value as WithFieldValue<T>);
+      if (converter.validate) {
+        try {
+          converter.validate(convertedValue);
+        } catch (e) {
+          throw new FirestoreError(
+            Code.INVALID_ARGUMENT,
+            `Document data failed validation: ${(e as Error).message}`
+          );
+        }
+      }
     }
   } else {
     convertedValue = value as PublicDocumentData;
@@ -118,20 +134,23 @@ export class LiteUserDataWriter extends AbstractUserDataWriter {
  * caching or see local modifications, please use the full Firestore SDK.
  *
  * @param reference - The reference of the document to fetch.
+ * @param options - Options to read the document at a specific point in time.
  * @returns A Promise resolved with a `DocumentSnapshot` containing the current
  * document contents.
  */
 export function getDoc<AppModelType, DbModelType extends DocumentData>(
-  reference: DocumentReference<AppModelType, DbModelType>
+  reference: DocumentReference<AppModelType, DbModelType>,
+  options?: ReadOptions
 ): Promise<DocumentSnapshot<AppModelType, DbModelType>> {
   reference = cast<DocumentReference<AppModelType, DbModelType>>(
     reference,
     DocumentReference
   );
+  const readTime = validateReadOptions('getDoc', options);
   const datastore = getDatastore(reference.firestore);
   const userDataWriter = new LiteUserDataWriter(reference.firestore);
 
-  return invokeBatchGetDocumentsRpc(datastore, [reference._key]).then(
+  return invokeBatchGetDocumentsRpc(datastore, [reference._key], readTime).then(
     result => {
       hardAssert(result.length === 1, 'Expected a single document result');
       const document = result[0];
@@ -156,17 +175,20 @@ export function getDoc<AppModelType, DbModelType extends DocumentData>(
  * modifications, use the full Firestore SDK.
  *
  * @param query - The `Query` to execute.
+ * @param options - Options to execute the query at a specific point in time.
  * @returns A Promise that will be resolved with the results of the query.
  */
 export function getDocs<AppModelType, DbModelType extends DocumentData>(
-  query: Query<AppModelType, DbModelType>
+  query: Query<AppModelType, DbModelType>,
+  options?: ReadOptions
 ): Promise<QuerySnapshot<AppModelType, DbModelType>> {
   query = cast<Query<AppModelType, DbModelType>>(query, Query);
   validateHasExplicitOrderByForLimitToLast(query._query);
+  const readTime = validateReadOptions('getDocs', options);
 
   const datastore = getDatastore(query.firestore);
   const userDataWriter = new LiteUserDataWriter(query.firestore);
-  return invokeRunQueryRpc(datastore, query._query).then(result => {
+  return invokeRunQueryRpc(datastore, query._query, readTime).then(result => {
     const docs = result.map(
       doc =>
         new QueryDocumentSnapshot<AppModelType, DbModelType>(
@@ -174,7 +196,8 @@ export function getDocs<AppModelType, DbModelType extends DocumentData>(
           userDataWriter,
           doc.key,
           doc,
-          query.converter
+          query.converter,
+          query._query.projection !== null
         )
     );
 
@@ -423,3 +446,41 @@ export function addDoc<AppModelType, DbModelType extends DocumentData>(
     parsed.toMutation(docRef._key, Precondition.exists(false))
   ]).then(() => docRef);
 }
+
+/**
+ * Returns the estimated storage size, in bytes, of the document that
+ * `setDoc()` writes when called with the given reference and data. The size
+ * includes the document name and is computed as described in
+ * https://firebase.google.com/docs/firestore/storage-size.
+ *
+ * Documents can be at most 1 MiB (1,048,576 bytes) in size. Writes of larger
+ * documents are rejected before they are sent to the backend.
+ *
+ * @param reference - A reference to the document to write.
+ * @param data - A map of the fields and values for the document.
+ * @throws Error - If the provided input is not a valid Firestore document.
+ * @returns The estimated size of the document, in bytes.
+ */
+export function getEstimatedSize<
+  AppModelType,
+  DbModelType extends DocumentData
+>(
+  reference: DocumentReference<AppModelType, DbModelType>,
+  data: WithFieldValue<AppModelType>
+): number {
+  reference = cast<DocumentReference<AppModelType, DbModelType>>(
+    reference,
+    DocumentReference
+  );
+  const convertedValue = applyFirestoreDataConverter(
+    reference.converter,
+    data as PartialWithFieldValue<AppModelType>
+  );
+  return estimateSetDataSize(
+    newUserDataReader(reference.firestore),
+    'getEstimatedSize',
+    reference._key,
+    convertedValue,
+    reference.converter !== null
+  );
+}
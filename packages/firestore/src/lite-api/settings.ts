@@ -27,6 +27,7 @@ import {
   LRU_DEFAULT_CACHE_SIZE_BYTES
 } from '../local/lru_garbage_collector';
 import { LRU_MINIMUM_CACHE_SIZE_BYTES } from '../local/lru_garbage_collector_impl';
+import { InMemoryBackend } from '../remote/in_memory_backend';
 import { Code, FirestoreError } from '../util/error';
 import { validateIsNotUsedTogether } from '../util/input_validation';
 
@@ -48,6 +49,12 @@ const MAX_LONG_POLLING_TIMEOUT_SECONDS = 30;
 // Whether long-polling auto-detected is enabled by default.
 const DEFAULT_AUTO_DETECT_LONG_POLLING = true;
 
+/**
+ * The network transports that can be selected for real-time streams. 'default'
+ * uses WebChannel in browsers and gRPC in Node.js.
+ */
+export type ExperimentalTransport = 'default' | 'fetch';
+
 /**
  * Specifies custom configurations for your Cloud Firestore instance.
  * You must set these before invoking any other methods.
@@ -80,6 +87,9 @@ export interface PrivateSettings extends FirestoreSettings {
   experimentalAutoDetectLongPolling?: boolean;
   experimentalLongPollingOptions?: ExperimentalLongPollingOptions;
   useFetchStreams?: boolean;
+  experimentalTransport?: ExperimentalTransport;
+  // An in-memory fake of the backend to use instead of the network.
+  _backend?: InMemoryBackend;
 
   localCache?: FirestoreLocalCache;
 }
@@ -107,6 +117,11 @@ export class FirestoreSettingsImpl {
   readonly ignoreUndefinedProperties: boolean;
 
   readonly useFetchStreams: boolean;
+
+  readonly experimentalTransport: ExperimentalTransport;
+
+  readonly backend: InMemoryBackend | null;
+
   readonly localCache?: FirestoreLocalCache;
 
   // Can be a google-auth-library or gapi client.
@@ -175,6 +190,20 @@ export class FirestoreSettingsImpl {
     validateLongPollingOptions(this.experimentalLongPollingOptions);
 
     this.useFetchStreams = !!settings.useFetchStreams;
+
+    this.experimentalTransport = settings.experimentalTransport ?? 'default';
+    if (
+      this.experimentalTransport !== 'default' &&
+      this.experimentalTransport !== 'fetch'
+    ) {
+      throw new FirestoreError(
+        Code.INVALID_ARGUMENT,
+        `invalid transport: ${this.experimentalTransport} ` +
+          `(must be 'default' or 'fetch')`
+      );
+    }
+
+    this.backend = settings._backend ?? null;
   }
 
   isEqual(other: FirestoreSettingsImpl): boolean {
@@ -192,7 +221,9 @@ export class FirestoreSettingsImpl {
         other.experimentalLongPollingOptions
       ) &&
       this.ignoreUndefinedProperties === other.ignoreUndefinedProperties &&
-      this.useFetchStreams === other.useFetchStreams
+      this.useFetchStreams === other.useFetchStreams &&
+      this.experimentalTransport === other.experimentalTransport &&
+      this.backend === other.backend
     );
   }
 }
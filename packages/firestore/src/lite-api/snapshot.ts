@@ -301,6 +301,13 @@ export class DocumentSnapshot<
   // - No support for SnapshotMetadata.
   // - No support for SnapshotOptions.
 
+  /**
+   * True if the snapshot only contains the fields that were selected with
+   * {@link select}. Fields that were not selected are missing from the
+   * snapshot, even if they exist in the document.
+   */
+  readonly isPartial: boolean;
+
   /** @hideconstructor protected */
   constructor(
     public _firestore: Firestore,
@@ -310,8 +317,11 @@ export class DocumentSnapshot<
     public _converter: UntypedFirestoreDataConverter<
       AppModelType,
       DbModelType
-    > | null
-  ) {}
+    > | null,
+    isPartial = false
+  ) {
+    this.isPartial = isPartial;
+  }
 
   /** Property of the `DocumentSnapshot` that provides the document's ID. */
   get id(): string {
@@ -356,7 +366,8 @@ export class DocumentSnapshot<
         this._userDataWriter,
         this._key,
         this._document,
-        /* converter= */ null
+        /* converter= */ null,
+        this.isPartial
       );
       return this._converter.fromFirestore(snapshot);
     } else {
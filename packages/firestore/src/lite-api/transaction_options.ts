@@ -15,10 +15,29 @@
  * limitations under the License.
  */
 
+import { Timestamp } from './timestamp';
+
 /**
  * Options to customize transaction behavior.
  */
 export declare interface TransactionOptions {
   /** Maximum number of attempts to commit, after which transaction fails. Default is 5. */
   readonly maxAttempts?: number;
+
+  /**
+   * Whether the transaction only reads documents. A read-only transaction
+   * reads a consistent snapshot of the database without locking the
+   * documents it reads, and is never committed or retried. Writes in a
+   * read-only transaction fail. Default is `false`.
+   */
+  readonly readOnly?: boolean;
+
+  /**
+   * Reads the documents in a read-only transaction as they were at the given
+   * time instead of their latest version. Can only be set if `readOnly` is
+   * `true`. The read time must not be in the future and can be at most 7 days
+   * in the past. Read times that are more than one hour in the past must be a
+   * whole minute.
+   */
+  readonly readTime?: Timestamp;
 }
@@ -46,6 +46,7 @@ import {
   VECTOR_MAP_VECTORS_KEY,
   VECTOR_VALUE_SENTINEL
 } from '../model/values';
+import { documentSize, validateDocumentLimits } from '../model/write_limits';
 import { newSerializer } from '../platform/serializer';
 import {
   MapValue as ProtoMapValue,
@@ -94,6 +95,8 @@ export interface UntypedFirestoreDataConverter<
     options: SetOptions
   ): PartialWithFieldValue<DbModelType>;
   fromFirestore(snapshot: unknown, options?: unknown): AppModelType;
+  validate?(data: DocumentData): void;
+  onValidationFailure?: 'throw' | 'skip' | 'report';
 }
 
 /** The result of parsing document data (e.g. for a setData call). */
@@ -430,11 +433,50 @@ export function parseSetData(
     fieldTransforms = context.fieldTransforms;
   }
 
-  return new ParsedSetData(
-    new ObjectValue(updateData),
-    fieldMask,
-    fieldTransforms
+  const data = new ObjectValue(updateData);
+  validateDocumentData(context, targetDoc, data, fieldTransforms);
+  return new ParsedSetData(data, fieldMask, fieldTransforms);
+}
+
+/**
+ * Returns the estimated storage size of the document that a set() call with
+ * `input` writes. Unlike `parseSetData()`, this does not check the document
+ * against the limits of the backend.
+ */
+export function estimateSetDataSize(
+  userDataReader: UserDataReader,
+  methodName: string,
+  targetDoc: DocumentKey,
+  input: unknown,
+  hasConverter: boolean
+): number {
+  const context = userDataReader.createContext(
+    UserDataSource.Set,
+    methodName,
+    targetDoc,
+    hasConverter
   );
+  validatePlainObject('Data must be an object, but it was:', context, input);
+  const data = new ObjectValue(parseObject(input, context)!);
+  return documentSize(targetDoc, data, context.fieldTransforms);
+}
+
+/**
+ * Throws if the written data exceeds the document limits of the backend. The
+ * error names the top-level field that contributes most to the limit.
+ */
+function validateDocumentData(
+  context: ParseContextImpl,
+  targetDoc: DocumentKey,
+  data: ObjectValue,
+  fieldTransforms: FieldTransform[]
+): void {
+  const violation = validateDocumentLimits(targetDoc, data, fieldTransforms);
+  if (violation) {
+    throw context
+      .contextWith({ path: violation.field ?? undefined })
+      .createError(violation.reason);
+  }
 }
 
 export class DeleteFieldValueImpl extends FieldValue {
@@ -622,6 +664,7 @@ export function parseUpdateData(
   });
 
   const mask = new FieldMask(fieldMaskPaths);
+  validateDocumentData(context, targetDoc, updateData, context.fieldTransforms);
   return new ParsedUpdateData(updateData, mask, context.fieldTransforms);
 }
 
@@ -689,6 +732,7 @@ export function parseUpdateVarargs(
   }
 
   const mask = new FieldMask(fieldMaskPaths);
+  validateDocumentData(context, targetDoc, updateData, context.fieldTransforms);
   return new ParsedUpdateData(updateData, mask, context.fieldTransforms);
 }
 
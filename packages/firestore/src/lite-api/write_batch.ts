@@ -18,6 +18,7 @@
 import { Compat, getModularInstance } from '@firebase/util';
 
 import { DeleteMutation, Mutation, Precondition } from '../model/mutation';
+import { validateCommitLimits } from '../model/write_limits';
 import { invokeCommitRpc } from '../remote/datastore';
 import { Code, FirestoreError } from '../util/error';
 import { cast } from '../util/input_validation';
@@ -223,12 +224,15 @@ export class WriteBatch {
    * write fails. If you would like to see local modifications or buffer writes
    * until the client is online, use the full Firestore SDK.
    *
+   * @throws FirestoreError - If the batch contains more than 500 writes or the
+   * writes exceed the size limit of a single commit.
    * @returns A `Promise` resolved once all of the writes in the batch have been
    * successfully written to the backend as an atomic unit (note that it won't
    * resolve while you're offline).
    */
   commit(): Promise<void> {
     this._verifyNotCommitted();
+    validateCommitLimits(this._mutations);
     this._committed = true;
     if (this._mutations.length > 0) {
       return this._commitHandler(this._mutations);
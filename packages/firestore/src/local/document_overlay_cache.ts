@@ -104,4 +104,9 @@ export interface DocumentOverlayCache {
     sinceBatchId: number,
     count: number
   ): PersistencePromise<OverlayMap>;
+
+  /** Returns the number of overlays of the current user. */
+  getOverlayCount(
+    transaction: PersistenceTransaction
+  ): PersistencePromise<number>;
 }
@@ -143,6 +143,16 @@ export interface IndexManager {
     target: Target
   ): PersistencePromise<IndexType>;
 
+  /**
+   * Returns the field indexes that serve the given target, one for each of its
+   * sub-targets. Returns an empty array if the target cannot be served from
+   * the indexes.
+   */
+  getTargetIndexes(
+    transaction: PersistenceTransaction,
+    target: Target
+  ): PersistencePromise<FieldIndex[]>;
+
   /**
    * Returns the documents that match the given target based on the provided
    * index or `null` if the target does not have a matching index.
@@ -44,7 +44,7 @@ import {
 } from './local_serializer';
 import { PersistencePromise } from './persistence_promise';
 import { PersistenceTransaction } from './persistence_transaction';
-import { SimpleDbStore } from './simple_db';
+import { SimpleDbKeyRange, SimpleDbStore } from './simple_db';
 
 /**
  * Implementation of DocumentOverlayCache using IndexedDb.
@@ -122,7 +122,7 @@ export class IndexedDbDocumentOverlayCache implements DocumentOverlayCache {
 
     const promises: Array<PersistencePromise<void>> = [];
     collectionPaths.forEach(collectionPath => {
-      const range = IDBKeyRange.bound(
+      const range = SimpleDbKeyRange.bound(
         [this.userId, collectionPath, batchId],
         [this.userId, collectionPath, batchId + 1],
         /*lowerOpen=*/ false,
@@ -147,7 +147,7 @@ export class IndexedDbDocumentOverlayCache implements DocumentOverlayCache {
     const collectionPath = encodeResourcePath(collection);
     // We want batch IDs larger than `sinceBatchId`, and so the lower bound
     // is not inclusive.
-    const range = IDBKeyRange.bound(
+    const range = SimpleDbKeyRange.bound(
       [this.userId, collectionPath, sinceBatchId],
       [this.userId, collectionPath, Number.POSITIVE_INFINITY],
       /*lowerOpen=*/ true
@@ -173,7 +173,7 @@ export class IndexedDbDocumentOverlayCache implements DocumentOverlayCache {
     let currentBatchId: number | undefined = undefined;
     // We want batch IDs larger than `sinceBatchId`, and so the lower bound
     // is not inclusive.
-    const range = IDBKeyRange.bound(
+    const range = SimpleDbKeyRange.bound(
       [this.userId, collectionGroup, sinceBatchId],
       [this.userId, collectionGroup, Number.POSITIVE_INFINITY],
       /*lowerOpen=*/ true
@@ -204,6 +204,26 @@ export class IndexedDbDocumentOverlayCache implements DocumentOverlayCache {
       .next(() => result);
   }
 
+  getOverlayCount(
+    transaction: PersistenceTransaction
+  ): PersistencePromise<number> {
+    // Overlays are keyed by user ID first, so the overlays of the current user
+    // are stored contiguously.
+    let count = 0;
+    return documentOverlayStore(transaction)
+      .iterate(
+        { keysOnly: true, range: SimpleDbKeyRange.lowerBound([this.userId]) },
+        ([userId], _, control) => {
+          if (userId !== this.userId) {
+            control.done();
+          } else {
+            ++count;
+          }
+        }
+      )
+      .next(() => count);
+  }
+
   private saveOverlay(
     transaction: PersistenceTransaction,
     overlay: Overlay
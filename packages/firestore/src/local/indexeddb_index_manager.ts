@@ -98,7 +98,7 @@ import {
 import { MemoryCollectionParentIndex } from './memory_index_manager';
 import { PersistencePromise } from './persistence_promise';
 import { PersistenceTransaction } from './persistence_transaction';
-import { SimpleDbStore } from './simple_db';
+import { SimpleDbKeyRange, SimpleDbStore } from './simple_db';
 
 const LOG_TAG = 'IndexedDbIndexManager';
 
@@ -171,7 +171,7 @@ export class IndexedDbIndexManager implements IndexManager {
     collectionId: string
   ): PersistencePromise<ResourcePath[]> {
     const parentPaths = [] as ResourcePath[];
-    const range = IDBKeyRange.bound(
+    const range = SimpleDbKeyRange.bound(
       [collectionId, ''],
       [immediateSuccessor(collectionId), ''],
       /*lowerOpen=*/ false,
@@ -232,7 +232,7 @@ export class IndexedDbIndexManager implements IndexManager {
       .delete(index.indexId)
       .next(() =>
         states.delete(
-          IDBKeyRange.bound(
+          SimpleDbKeyRange.bound(
             [index.indexId],
             [index.indexId + 1],
             /*lowerOpen=*/ false,
@@ -242,7 +242,7 @@ export class IndexedDbIndexManager implements IndexManager {
       )
       .next(() =>
         entries.delete(
-          IDBKeyRange.bound(
+          SimpleDbKeyRange.bound(
             [index.indexId],
             [index.indexId + 1],
             /*lowerOpen=*/ false,
@@ -391,7 +391,9 @@ export class IndexedDbIndexManager implements IndexManager {
           term.getFilters(),
           target.limit,
           target.startAt,
-          target.endAt
+          target.endAt,
+          target.findNearest,
+          target.projection
         )
       );
     }
@@ -515,6 +517,26 @@ export class IndexedDbIndexManager implements IndexManager {
     });
   }
 
+  getTargetIndexes(
+    transaction: PersistenceTransaction,
+    target: Target
+  ): PersistencePromise<FieldIndex[]> {
+    const indexes: FieldIndex[] = [];
+    let canServeTarget = true;
+    return PersistencePromise.forEach(
+      this.getSubTargets(target),
+      (subTarget: Target) => {
+        return this.getFieldIndex(transaction, subTarget).next(index => {
+          if (index) {
+            indexes.push(index);
+          } else {
+            canServeTarget = false;
+          }
+        });
+      }
+    ).next(() => (canServeTarget ? indexes : []));
+  }
+
   getIndexType(
     transaction: PersistenceTransaction,
     target: Target
@@ -701,7 +723,7 @@ export class IndexedDbIndexManager implements IndexManager {
       collectionGroup
         ? indexes.loadAll(
             DbIndexConfigurationCollectionGroupIndex,
-            IDBKeyRange.bound(collectionGroup, collectionGroup)
+            SimpleDbKeyRange.bound(collectionGroup, collectionGroup)
           )
         : indexes.loadAll()
     ).next(indexConfigs => {
@@ -747,7 +769,7 @@ export class IndexedDbIndexManager implements IndexManager {
       indexes
         .loadAll(
           DbIndexConfigurationCollectionGroupIndex,
-          IDBKeyRange.bound(collectionGroup, collectionGroup)
+          SimpleDbKeyRange.bound(collectionGroup, collectionGroup)
         )
         .next(configs =>
           PersistencePromise.forEach(configs, (config: DbIndexConfiguration) =>
@@ -855,7 +877,7 @@ export class IndexedDbIndexManager implements IndexManager {
       .iterate(
         {
           index: DbIndexEntryDocumentKeyIndex,
-          range: IDBKeyRange.only([
+          range: SimpleDbKeyRange.only([
             fieldIndex.indexId,
             this.uid,
             this.encodeDirectionalKey(fieldIndex, documentKey)
@@ -963,7 +985,10 @@ export class IndexedDbIndexManager implements IndexManager {
         {
           index: DbIndexStateSequenceNumberIndex,
           reverse: true,
-          range: IDBKeyRange.upperBound([this.uid, Number.MAX_SAFE_INTEGER])
+          range: SimpleDbKeyRange.upperBound([
+            this.uid,
+            Number.MAX_SAFE_INTEGER
+          ])
         },
         (_, state, controller) => {
           controller.done();
@@ -1038,7 +1063,7 @@ export class IndexedDbIndexManager implements IndexManager {
         []
       ] as DbIndexEntryKey;
 
-      ranges.push(IDBKeyRange.bound(lowerBound, upperBound));
+      ranges.push(SimpleDbKeyRange.bound(lowerBound, upperBound));
     }
     return ranges;
   }
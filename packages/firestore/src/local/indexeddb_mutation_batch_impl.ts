@@ -32,7 +32,7 @@ import {
   newDbDocumentMutationKey
 } from './indexeddb_sentinels';
 import { PersistencePromise } from './persistence_promise';
-import { SimpleDbTransaction } from './simple_db';
+import { SimpleDbKeyRange, SimpleDbTransaction } from './simple_db';
 
 /**
  * Delete a mutation batch and the associated document mutations.
@@ -51,7 +51,7 @@ export function removeMutationBatch(
   );
   const promises: Array<PersistencePromise<void>> = [];
 
-  const range = IDBKeyRange.only(batch.batchId);
+  const range = SimpleDbKeyRange.only(batch.batchId);
   let numDeleted = 0;
   const removePromise = mutationStore.iterate(
     { range },
@@ -61,7 +61,7 @@ import { MutationQueue } from './mutation_queue';
 import { ReferenceDelegate } from './persistence';
 import { PersistencePromise } from './persistence_promise';
 import { PersistenceTransaction } from './persistence_transaction';
-import { SimpleDbStore } from './simple_db';
+import { SimpleDbKeyRange, SimpleDbStore } from './simple_db';
 
 /** A mutation queue for a specific user, backed by IndexedDB. */
 export class IndexedDbMutationQueue implements MutationQueue {
@@ -117,7 +117,7 @@ export class IndexedDbMutationQueue implements MutationQueue {
 
   checkEmpty(transaction: PersistenceTransaction): PersistencePromise<boolean> {
     let empty = true;
-    const range = IDBKeyRange.bound(
+    const range = SimpleDbKeyRange.bound(
       [this.userId, Number.NEGATIVE_INFINITY],
       [this.userId, Number.POSITIVE_INFINITY]
     );
@@ -248,7 +248,7 @@ export class IndexedDbMutationQueue implements MutationQueue {
   ): PersistencePromise<MutationBatch | null> {
     const nextBatchId = batchId + 1;
 
-    const range = IDBKeyRange.lowerBound([this.userId, nextBatchId]);
+    const range = SimpleDbKeyRange.lowerBound([this.userId, nextBatchId]);
     let foundBatch: MutationBatch | null = null;
     return mutationsStore(transaction)
       .iterate(
@@ -270,7 +270,7 @@ export class IndexedDbMutationQueue implements MutationQueue {
   getHighestUnacknowledgedBatchId(
     transaction: PersistenceTransaction
   ): PersistencePromise<BatchId> {
-    const range = IDBKeyRange.upperBound([
+    const range = SimpleDbKeyRange.upperBound([
       this.userId,
       Number.POSITIVE_INFINITY
     ]);
@@ -290,7 +290,7 @@ export class IndexedDbMutationQueue implements MutationQueue {
   getAllMutationBatches(
     transaction: PersistenceTransaction
   ): PersistencePromise<MutationBatch[]> {
-    const range = IDBKeyRange.bound(
+    const range = SimpleDbKeyRange.bound(
       [this.userId, BATCHID_UNKNOWN],
       [this.userId, Number.POSITIVE_INFINITY]
     );
@@ -311,7 +311,7 @@ export class IndexedDbMutationQueue implements MutationQueue {
       this.userId,
       documentKey.path
     );
-    const indexStart = IDBKeyRange.lowerBound(indexPrefix);
+    const indexStart = SimpleDbKeyRange.lowerBound(indexPrefix);
 
     const results: MutationBatch[] = [];
     return documentMutationsStore(transaction)
@@ -364,7 +364,7 @@ export class IndexedDbMutationQueue implements MutationQueue {
         this.userId,
         documentKey.path
       );
-      const range = IDBKeyRange.lowerBound(indexStart);
+      const range = SimpleDbKeyRange.lowerBound(indexStart);
 
       const promise = documentMutationsStore(transaction).iterate(
         { range },
@@ -427,7 +427,7 @@ export class IndexedDbMutationQueue implements MutationQueue {
       this.userId,
       queryPath
     );
-    const indexStart = IDBKeyRange.lowerBound(indexPrefix);
+    const indexStart = SimpleDbKeyRange.lowerBound(indexPrefix);
 
     // Collect up unique batchIDs encountered during a scan of the index. Use a
     // SortedSet to accumulate batch IDs so they can be traversed in order in a
@@ -531,7 +531,7 @@ export class IndexedDbMutationQueue implements MutationQueue {
 
       // Verify that there are no entries in the documentMutations index if
       // the queue is empty.
-      const startRange = IDBKeyRange.lowerBound(
+      const startRange = SimpleDbKeyRange.lowerBound(
         newDbDocumentMutationPrefixForUser(this.userId)
       );
       const danglingMutationReferences: ResourcePath[] = [];
@@ -594,7 +594,7 @@ function mutationQueueContainsKey(
 ): PersistencePromise<boolean> {
   const indexKey = newDbDocumentMutationPrefixForPath(userId, key.path);
   const encodedPath = indexKey[1];
-  const startRange = IDBKeyRange.lowerBound(indexKey);
+  const startRange = SimpleDbKeyRange.lowerBound(indexKey);
   let containsKey = false;
   return documentMutationsStore(txn)
     .iterate({ range: startRange, keysOnly: true }, (key, value, control) => {
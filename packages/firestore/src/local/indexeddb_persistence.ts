@@ -17,6 +17,7 @@
 
 import { isSafari } from '@firebase/util';
 
+import { PersistentKeyValueStore } from '../api/cache_config';
 import { User } from '../auth/user';
 import { DatabaseId } from '../core/database_info';
 import { ListenSequence, SequenceNumberSyncer } from '../core/listen_sequence';
@@ -56,6 +57,11 @@ import {
 } from './indexeddb_sentinels';
 import { IndexedDbTargetCache } from './indexeddb_target_cache';
 import { getStore, IndexedDbTransaction } from './indexeddb_transaction';
+import {
+  lockKeyValueStore,
+  newKeyValueIndexedDb,
+  unlockKeyValueStore
+} from './key_value_indexeddb';
 import { LocalSerializer } from './local_serializer';
 import { LruParams } from './lru_garbage_collector';
 import { Persistence, PrimaryStateListener } from './persistence';
@@ -195,6 +201,13 @@ export class IndexedDbPersistence implements Persistence {
   private readonly remoteDocumentCache: IndexedDbRemoteDocumentCache;
   private readonly bundleCache: IndexedDbBundleCache;
   private readonly webStorage: Storage | null;
+  /**
+   * The key-value store to persist to instead of IndexedDB, or `null` to use
+   * IndexedDB.
+   */
+  private readonly storage: PersistentKeyValueStore | null;
+  /** Whether this client holds the lock of `storage`. */
+  private storageLocked = false;
   readonly referenceDelegate: IndexedDbLruDelegateImpl;
 
   constructor(
@@ -218,9 +231,16 @@ export class IndexedDbPersistence implements Persistence {
      * no longer be able to access IndexedDB.
      */
     private readonly forceOwningTab: boolean,
+
+    /**
+     * The key-value store to persist to if IndexedDB should not be used, or
+     * `null` to use IndexedDB.
+     */
+    storage: PersistentKeyValueStore | null = null,
     private readonly schemaVersion = SCHEMA_VERSION
   ) {
-    if (!IndexedDbPersistence.isAvailable()) {
+    this.storage = storage;
+    if (!this.storage && !IndexedDbPersistence.isAvailable()) {
       throw new FirestoreError(
         Code.UNIMPLEMENTED,
         UNSUPPORTED_PLATFORM_ERROR_MSG
@@ -233,7 +253,8 @@ export class IndexedDbPersistence implements Persistence {
     this.simpleDb = new SimpleDb(
       this.dbName,
       this.schemaVersion,
-      new SchemaConverter(this.serializer)
+      new SchemaConverter(this.serializer),
+      this.storage ? newKeyValueIndexedDb(this.storage) : undefined
     );
     this.globalsCache = new IndexedDbGlobalsCache();
     this.targetCache = new IndexedDbTargetCache(
@@ -246,7 +267,7 @@ export class IndexedDbPersistence implements Persistence {
       this.webStorage = this.window.localStorage;
     } else {
       this.webStorage = null;
-      if (forceOwningTab === false) {
+      if (forceOwningTab === false && !this.storage) {
         logError(
           LOG_TAG,
           'LocalStorage is unavailable. As a result, persistence may not work ' +
@@ -264,12 +285,16 @@ export class IndexedDbPersistence implements Persistence {
    */
   start(): Promise<void> {
     debugAssert(!this.started, 'IndexedDbPersistence double-started!');
-    debugAssert(this.window !== null, "Expected 'window' to be defined");
+    debugAssert(
+      this.window !== null || this.storage !== null,
+      "Expected 'window' to be defined"
+    );
 
     // NOTE: This is expected to fail sometimes (in the case of another tab
     // already having the persistence lock), so it's the first thing we should
     // do.
-    return this.updateClientMetadataAndTryBecomePrimary()
+    return this.lockStorage()
+      .then(() => this.updateClientMetadataAndTryBecomePrimary())
       .then(() => {
         if (!this.isPrimary && !this.allowTabSynchronization) {
           // Fail `start()` if `synchronizeTabs` is disabled and we cannot
@@ -299,12 +324,37 @@ export class IndexedDbPersistence implements Persistence {
       .then(() => {
         this._started = true;
       })
-      .catch(reason => {
+      .catch(async reason => {
         this.simpleDb && this.simpleDb.close();
+        await this.unlockStorage();
         return Promise.reject(reason);
       });
   }
 
+  /**
+   * Locks the key-value store, if one is used. Unlike IndexedDB, a key-value
+   * store is not shared between clients, so the lock takes the place of the
+   * primary lease.
+   */
+  private async lockStorage(): Promise<void> {
+    if (this.storage) {
+      if (!(await lockKeyValueStore(this.storage))) {
+        throw new FirestoreError(
+          Code.FAILED_PRECONDITION,
+          PRIMARY_LEASE_EXCLUSIVE_ERROR_MSG
+        );
+      }
+      this.storageLocked = true;
+    }
+  }
+
+  private async unlockStorage(): Promise<void> {
+    if (this.storageLocked) {
+      this.storageLocked = false;
+      await unlockKeyValueStore(this.storage!);
+    }
+  }
+
   /**
    * Registers a listener that gets called when the primary state of the
    * instance changes. Upon registering, this listener is invoked immediately
@@ -539,7 +589,10 @@ export class IndexedDbPersistence implements Persistence {
   private canActAsPrimary(
     txn: PersistenceTransaction
   ): PersistencePromise<boolean> {
-    if (this.forceOwningTab) {
+    // A client that uses a key-value store holds its lock (see `start()`). The
+    // lease in the store may be left over from a client that exited without
+    // releasing it.
+    if (this.forceOwningTab || this.storage) {
       return PersistencePromise.resolve<boolean>(true);
     }
     const store = primaryClientStore(txn);
@@ -668,6 +721,7 @@ export class IndexedDbPersistence implements Persistence {
       }
     );
     this.simpleDb.close();
+    await this.unlockStorage();
 
     // Remove the entry marking the client as zombied from LocalStorage since
     // we successfully deleted its metadata from IndexedDb.
@@ -872,6 +926,7 @@ export class IndexedDbPersistence implements Persistence {
       if (currentLeaseIsValid && !this.isLocalClient(currentPrimary)) {
         if (
           !this.forceOwningTab &&
+          !this.storage &&
           (!this.allowTabSynchronization ||
             !currentPrimary!.allowTabSynchronization)
         ) {
@@ -1031,9 +1086,9 @@ export class IndexedDbPersistence implements Persistence {
   private isClientZombied(clientId: ClientId): boolean {
     try {
       const isZombied =
-        this.webStorage?.getItem(
-          this.zombiedClientLocalStorageKey(clientId)
-        ) !== null;
+        !!this.webStorage &&
+        this.webStorage.getItem(this.zombiedClientLocalStorageKey(clientId)) !==
+          null;
       logDebug(
         LOG_TAG,
         `Client '${clientId}' ${
@@ -1134,11 +1189,13 @@ export function indexedDbStoragePrefix(
 }
 
 export async function indexedDbClearPersistence(
-  persistenceKey: string
+  persistenceKey: string,
+  storage: PersistentKeyValueStore | null = null
 ): Promise<void> {
-  if (!SimpleDb.isAvailable()) {
-    return Promise.resolve();
-  }
   const dbName = persistenceKey + MAIN_DATABASE;
-  await SimpleDb.delete(dbName);
+  if (storage) {
+    await SimpleDb.delete(dbName, newKeyValueIndexedDb(storage));
+  } else if (SimpleDb.isAvailable()) {
+    await SimpleDb.delete(dbName);
+  }
 }
@@ -58,7 +58,7 @@ import { PersistenceTransaction } from './persistence_transaction';
 import { QueryContext } from './query_context';
 import { RemoteDocumentCache } from './remote_document_cache';
 import { RemoteDocumentChangeBuffer } from './remote_document_change_buffer';
-import { SimpleDbStore } from './simple_db';
+import { SimpleDbKeyRange, SimpleDbStore } from './simple_db';
 
 export interface DocumentSizeEntry {
   document: MutableDocument;
@@ -138,7 +138,7 @@ class IndexedDbRemoteDocumentCacheImpl implements IndexedDbRemoteDocumentCache {
       .iterate(
         {
           index: DbRemoteDocumentDocumentKeyIndex,
-          range: IDBKeyRange.only(dbKey(documentKey))
+          range: SimpleDbKeyRange.only(dbKey(documentKey))
         },
         (_, dbRemoteDoc) => {
           doc = this.maybeDecodeDocument(documentKey, dbRemoteDoc);
@@ -165,7 +165,7 @@ class IndexedDbRemoteDocumentCacheImpl implements IndexedDbRemoteDocumentCache {
       .iterate(
         {
           index: DbRemoteDocumentDocumentKeyIndex,
-          range: IDBKeyRange.only(dbKey(documentKey))
+          range: SimpleDbKeyRange.only(dbKey(documentKey))
         },
         (_, dbRemoteDoc) => {
           result = {
@@ -229,7 +229,7 @@ class IndexedDbRemoteDocumentCacheImpl implements IndexedDbRemoteDocumentCache {
 
     let sortedKeys = new SortedSet<DocumentKey>(dbKeyComparator);
     documentKeys.forEach(e => (sortedKeys = sortedKeys.add(e)));
-    const range = IDBKeyRange.bound(
+    const range = SimpleDbKeyRange.bound(
       dbKey(sortedKeys.first()!),
       dbKey(sortedKeys.last()!)
     );
@@ -300,7 +300,7 @@ class IndexedDbRemoteDocumentCacheImpl implements IndexedDbRemoteDocumentCache {
     ];
 
     return remoteDocumentsStore(transaction)
-      .loadAll(IDBKeyRange.bound(startKey, endKey, true))
+      .loadAll(SimpleDbKeyRange.bound(startKey, endKey, true))
       .next(dbRemoteDocs => {
         context?.incrementDocumentReadCount(dbRemoteDocs.length);
         let results = mutableDocumentMap();
@@ -341,7 +341,7 @@ class IndexedDbRemoteDocumentCacheImpl implements IndexedDbRemoteDocumentCache {
       .iterate(
         {
           index: DbRemoteDocumentCollectionGroupIndex,
-          range: IDBKeyRange.bound(startKey, endKey, true)
+          range: SimpleDbKeyRange.bound(startKey, endKey, true)
         },
         (_, dbRemoteDoc, control) => {
           const document = this.maybeDecodeDocument(
@@ -362,6 +362,31 @@ class IndexedDbRemoteDocumentCacheImpl implements IndexedDbRemoteDocumentCache {
       .next(() => results);
   }
 
+  getAllEntries(
+    transaction: PersistenceTransaction
+  ): PersistencePromise<MutableDocumentMap> {
+    return remoteDocumentsStore(transaction)
+      .loadAll()
+      .next(dbRemoteDocs => {
+        let results = mutableDocumentMap();
+        for (const dbRemoteDoc of dbRemoteDocs) {
+          const document = this.maybeDecodeDocument(
+            DocumentKey.fromSegments(
+              dbRemoteDoc.prefixPath.concat(
+                dbRemoteDoc.collectionGroup,
+                dbRemoteDoc.documentId
+              )
+            ),
+            dbRemoteDoc
+          );
+          if (document.isValidDocument()) {
+            results = results.insert(document.key, document);
+          }
+        }
+        return results;
+      });
+  }
+
   newChangeBuffer(options?: {
     trackRemovals: boolean;
   }): RemoteDocumentChangeBuffer {
@@ -371,6 +396,10 @@ class IndexedDbRemoteDocumentCacheImpl implements IndexedDbRemoteDocumentCache {
     );
   }
 
+  getEntryCount(txn: PersistenceTransaction): PersistencePromise<number> {
+    return remoteDocumentsStore(txn).count();
+  }
+
   getSize(txn: PersistenceTransaction): PersistencePromise<number> {
     return this.getMetadata(txn).next(metadata => metadata.byteSize);
   }
@@ -331,6 +331,12 @@ export interface DbTarget {
    * duplicate translation logic to and from a `Query` object.
    */
   query: DbQuery;
+  /**
+   * Whether the target was pinned with `keepSynced()`. Pinned targets are
+   * exempt from garbage collection and resumed when the client restarts.
+   * Undefined for targets that are not pinned.
+   */
+  pinned?: boolean;
 }
 
 /**
@@ -126,7 +126,11 @@ import {
 import { MemoryCollectionParentIndex } from './memory_index_manager';
 import { MemoryEagerDelegate, MemoryPersistence } from './memory_persistence';
 import { PersistencePromise } from './persistence_promise';
-import { SimpleDbSchemaConverter, SimpleDbTransaction } from './simple_db';
+import {
+  SimpleDbKeyRange,
+  SimpleDbSchemaConverter,
+  SimpleDbTransaction
+} from './simple_db';
 
 /** Performs database creation and schema upgrades. */
 export class SchemaConverter implements SimpleDbSchemaConverter {
@@ -313,7 +317,7 @@ export class SchemaConverter implements SimpleDbSchemaConverter {
 
     return queuesStore.loadAll().next(queues => {
       return PersistencePromise.forEach(queues, (queue: DbMutationQueue) => {
-        const range = IDBKeyRange.bound(
+        const range = SimpleDbKeyRange.bound(
           [queue.userId, BATCHID_UNKNOWN],
           [queue.userId, queue.lastAcknowledgedBatchId]
         );
@@ -46,7 +46,7 @@ import { fromDbTarget, LocalSerializer, toDbTarget } from './local_serializer';
 import { ActiveTargets } from './lru_garbage_collector';
 import { PersistencePromise } from './persistence_promise';
 import { PersistenceTransaction } from './persistence_transaction';
-import { SimpleDbStore } from './simple_db';
+import { SimpleDbKeyRange, SimpleDbStore } from './simple_db';
 import { TargetCache } from './target_cache';
 import { TargetData } from './target_data';
 
@@ -153,7 +153,8 @@ export class IndexedDbTargetCache implements TargetCache {
 
   /**
    * Drops any targets with sequence number less than or equal to the upper bound, excepting those
-   * present in `activeTargetIds`. Document associations for the removed targets are also removed.
+   * present in `activeTargetIds` and pinned targets. Document associations for the removed targets
+   * are also removed.
    * Returns the number of targets removed.
    */
   removeTargets(
@@ -168,7 +169,8 @@ export class IndexedDbTargetCache implements TargetCache {
         const targetData = fromDbTarget(value);
         if (
           targetData.sequenceNumber <= upperBound &&
-          activeTargetIds.get(targetData.targetId) === null
+          activeTargetIds.get(targetData.targetId) === null &&
+          !targetData.pinned
         ) {
           count++;
           promises.push(this.removeTargetData(txn, targetData));
@@ -256,7 +258,7 @@ export class IndexedDbTargetCache implements TargetCache {
     // canonicalId values are not required to be unique per target. This query
     // depends on the queryTargets index to be efficient.
     const canonicalId = canonifyTarget(target);
-    const range = IDBKeyRange.bound(
+    const range = SimpleDbKeyRange.bound(
       [canonicalId, Number.NEGATIVE_INFINITY],
       [canonicalId, Number.POSITIVE_INFINITY]
     );
@@ -316,7 +318,7 @@ export class IndexedDbTargetCache implements TargetCache {
     targetId: TargetId
   ): PersistencePromise<void> {
     const store = documentTargetStore(txn);
-    const range = IDBKeyRange.bound(
+    const range = SimpleDbKeyRange.bound(
       [targetId],
       [targetId + 1],
       /*lowerOpen=*/ false,
@@ -329,7 +331,7 @@ export class IndexedDbTargetCache implements TargetCache {
     txn: PersistenceTransaction,
     targetId: TargetId
   ): PersistencePromise<DocumentKeySet> {
-    const range = IDBKeyRange.bound(
+    const range = SimpleDbKeyRange.bound(
       [targetId],
       [targetId + 1],
       /*lowerOpen=*/ false,
@@ -352,7 +354,7 @@ export class IndexedDbTargetCache implements TargetCache {
     key: DocumentKey
   ): PersistencePromise<boolean> {
     const path = encodeResourcePath(key.path);
-    const range = IDBKeyRange.bound(
+    const range = SimpleDbKeyRange.bound(
       [path],
       [immediateSuccessor(path)],
       /*lowerOpen=*/ false,
@@ -0,0 +1,1932 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { PersistentKeyValueStore } from '../api/cache_config';
+import { ByteString } from '../util/byte_string';
+import { logDebug } from '../util/log';
+import { primitiveComparator } from '../util/misc';
+import { forEach } from '../util/obj';
+import { SortedMap } from '../util/sorted_map';
+
+// This file implements the subset of the IndexedDB API that `SimpleDb` and the
+// schema converter rely on, on top of a string key-value store. Each database
+// is held in memory and written back to the key-value store when a
+// transaction that modified it commits.
+//
+// The records of an object store are split by key range into segments of
+// bounded size, each saved as one entry. A commit only rewrites the segments
+// that hold modified records. Entries are versioned with a generation number
+// and only become visible once the database manifest that references them is
+// written, which keeps commits atomic even if the process stops half way
+// through. New entries are written in the order of their generations, so the
+// entries of an interrupted commit are the ones that directly follow the
+// manifest's generation, and are removed when the database is next loaded.
+
+const LOG_TAG = 'KeyValueIndexedDb';
+
+// Segments are filled up to this many characters, which keeps entries well
+// below the size limits of stores such as React Native's `AsyncStorage`. A
+// record that is larger is saved in a segment of its own.
+const MAX_SEGMENT_SIZE = 256 * 1024;
+
+// A rewritten segment that is smaller than this is merged with the segment
+// that follows it, if the result fits into one segment.
+const MIN_SEGMENT_SIZE = MAX_SEGMENT_SIZE / 4;
+
+/**
+ * A key-value store that can be locked for a single client, also against
+ * clients in other processes.
+ */
+export interface LockableKeyValueStore extends PersistentKeyValueStore {
+  /**
+   * Locks the store for the calling client. Resolves to `false` if the store is
+   * locked by another client.
+   */
+  _lock(): Promise<boolean>;
+  /** Releases the lock, if it is held. */
+  _unlock(): Promise<void>;
+}
+
+function isLockable(
+  store: PersistentKeyValueStore
+): store is LockableKeyValueStore {
+  return (
+    typeof (store as Partial<LockableKeyValueStore>)._lock === 'function' &&
+    typeof (store as Partial<LockableKeyValueStore>)._unlock === 'function'
+  );
+}
+
+/** The stores that are locked by a client in this JavaScript environment. */
+const lockedStores = new WeakSet<PersistentKeyValueStore>();
+
+/**
+ * Locks `store` for a single client. Stores that are not lockable are only
+ * locked within this JavaScript environment. Resolves to `false` if another
+ * client holds the lock.
+ */
+export async function lockKeyValueStore(
+  store: PersistentKeyValueStore
+): Promise<boolean> {
+  if (lockedStores.has(store)) {
+    return false;
+  }
+  lockedStores.add(store);
+  try {
+    if (isLockable(store) && !(await store._lock())) {
+      lockedStores.delete(store);
+      return false;
+    }
+  } catch (e) {
+    lockedStores.delete(store);
+    throw e;
+  }
+  return true;
+}
+
+/** Releases a lock that was obtained with `lockKeyValueStore()`. */
+export async function unlockKeyValueStore(
+  store: PersistentKeyValueStore
+): Promise<void> {
+  if (lockedStores.delete(store) && isLockable(store)) {
+    await store._unlock();
+  }
+}
+
+/**
+ * Returns an IndexedDB factory that stores its databases in `store`.
+ *
+ * The factory is cached per store, so that all clients that share a store
+ * also share the in-memory state of its databases.
+ */
+export function newKeyValueIndexedDb(
+  store: PersistentKeyValueStore
+): IDBFactory {
+  let factory = factoriesByStore.get(store);
+  if (!factory) {
+    factory = new KeyValueIdbFactory(store);
+    factoriesByStore.set(store, factory);
+  }
+  return factory as unknown as IDBFactory;
+}
+
+const factoriesByStore = new WeakMap<
+  PersistentKeyValueStore,
+  KeyValueIdbFactory
+>();
+
+/**
+ * Creates a key range that is understood by the key-value backed IndexedDB
+ * implementation. Used in environments that do not provide `IDBKeyRange`.
+ */
+export function newKeyValueKeyRange(
+  lower: IDBValidKey | undefined,
+  upper: IDBValidKey | undefined,
+  lowerOpen: boolean,
+  upperOpen: boolean
+): IDBKeyRange {
+  if (
+    (lower !== undefined && !isValidKey(lower)) ||
+    (upper !== undefined && !isValidKey(upper))
+  ) {
+    throw newDomError('DataError', 'The key range bounds are not valid keys.');
+  }
+  if (lower !== undefined && upper !== undefined) {
+    const cmp = compareKeys(lower, upper);
+    if (cmp > 0 || (cmp === 0 && (lowerOpen || upperOpen))) {
+      throw newDomError('DataError', 'The key range is empty.');
+    }
+  }
+  return new KeyValueKeyRange(
+    lower,
+    upper,
+    lowerOpen,
+    upperOpen
+  ) as unknown as IDBKeyRange;
+}
+
+/** Compares two IndexedDB keys using IndexedDB's ordering. */
+export function compareKeys(left: IDBValidKey, right: IDBValidKey): number {
+  const leftType = keyTypeOf(left);
+  const rightType = keyTypeOf(right);
+  if (leftType !== rightType) {
+    return primitiveComparator(leftType, rightType);
+  }
+  switch (leftType) {
+    case KeyType.Number:
+    case KeyType.String:
+      return primitiveComparator(left, right);
+    case KeyType.Date:
+      return primitiveComparator(
+        (left as Date).getTime(),
+        (right as Date).getTime()
+      );
+    case KeyType.Binary:
+      return compareBytes(
+        toBytes(left as BufferSource),
+        toBytes(right as BufferSource)
+      );
+    default: {
+      const leftArray = left as IDBValidKey[];
+      const rightArray = right as IDBValidKey[];
+      const length = Math.min(leftArray.length, rightArray.length);
+      for (let i = 0; i < length; ++i) {
+        const cmp = compareKeys(leftArray[i], rightArray[i]);
+        if (cmp !== 0) {
+          return cmp;
+        }
+      }
+      return primitiveComparator(leftArray.length, rightArray.length);
+    }
+  }
+}
+
+/** The types of IndexedDB keys, in their sort order. */
+const enum KeyType {
+  Number = 0,
+  Date = 1,
+  String = 2,
+  Binary = 3,
+  Array = 4
+}
+
+function keyTypeOf(key: IDBValidKey): KeyType {
+  if (typeof key === 'number') {
+    return KeyType.Number;
+  } else if (typeof key === 'string') {
+    return KeyType.String;
+  } else if (key instanceof Date) {
+    return KeyType.Date;
+  } else if (Array.isArray(key)) {
+    return KeyType.Array;
+  } else {
+    return KeyType.Binary;
+  }
+}
+
+function isValidKey(key: unknown): key is IDBValidKey {
+  if (typeof key === 'number') {
+    return !isNaN(key);
+  } else if (typeof key === 'string') {
+    return true;
+  } else if (key instanceof Date) {
+    return !isNaN(key.getTime());
+  } else if (Array.isArray(key)) {
+    return key.every(isValidKey);
+  } else {
+    return key instanceof ArrayBuffer || ArrayBuffer.isView(key);
+  }
+}
+
+function toBytes(source: BufferSource): Uint8Array {
+  return source instanceof ArrayBuffer
+    ? new Uint8Array(source)
+    : new Uint8Array(source.buffer, source.byteOffset, source.byteLength);
+}
+
+function compareBytes(left: Uint8Array, right: Uint8Array): number {
+  const length = Math.min(left.length, right.length);
+  for (let i = 0; i < length; ++i) {
+    if (left[i] !== right[i]) {
+      return primitiveComparator(left[i], right[i]);
+    }
+  }
+  return primitiveComparator(left.length, right.length);
+}
+
+/** A key range with the same fields as `IDBKeyRange`. */
+class KeyValueKeyRange {
+  constructor(
+    readonly lower: IDBValidKey | undefined,
+    readonly upper: IDBValidKey | undefined,
+    readonly lowerOpen: boolean,
+    readonly upperOpen: boolean
+  ) {}
+
+  includes(key: IDBValidKey): boolean {
+    return isAboveLowerBound(this, key) && isBelowUpperBound(this, key);
+  }
+}
+
+/** The fields of `IDBKeyRange` that ranges are evaluated with. */
+interface KeyRangeLike {
+  readonly lower: IDBValidKey | undefined;
+  readonly upper: IDBValidKey | undefined;
+  readonly lowerOpen: boolean;
+  readonly upperOpen: boolean;
+}
+
+function isAboveLowerBound(range: KeyRangeLike, key: IDBValidKey): boolean {
+  if (range.lower === undefined) {
+    return true;
+  }
+  const cmp = compareKeys(key, range.lower);
+  return cmp > 0 || (cmp === 0 && !range.lowerOpen);
+}
+
+function isBelowUpperBound(range: KeyRangeLike, key: IDBValidKey): boolean {
+  if (range.upper === undefined) {
+    return true;
+  }
+  const cmp = compareKeys(key, range.upper);
+  return cmp < 0 || (cmp === 0 && !range.upperOpen);
+}
+
+/**
+ * Converts the query argument of an IndexedDB operation into a key range.
+ * Returns `null` if the operation applies to all keys.
+ */
+function toKeyRange(
+  query: IDBValidKey | IDBKeyRange | null | undefined
+): KeyRangeLike | null {
+  if (query === null || query === undefined) {
+    return null;
+  } else if (
+    typeof query === 'object' &&
+    !Array.isArray(query) &&
+    !(query instanceof Date) &&
+    !(query instanceof ArrayBuffer) &&
+    !ArrayBuffer.isView(query)
+  ) {
+    return query as KeyRangeLike;
+  } else if (!isValidKey(query)) {
+    throw newDomError('DataError', 'The parameter is not a valid key.');
+  } else {
+    return { lower: query, upper: query, lowerOpen: false, upperOpen: false };
+  }
+}
+
+function newDomError(name: string, message: string): Error {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+// Values are saved as JSON. Binary data and the numbers that JSON cannot
+// represent are stored as objects with a single tagged field.
+const BYTES_TAG = '__bytes__';
+const NUMBER_TAG = '__number__';
+
+function encodeValue(value: unknown): string {
+  return (
+    JSON.stringify(
+      value,
+      function (this: Record<string, unknown>, key: string, json: unknown) {
+        // `this[key]` is the value before `toJSON()` was applied, which
+        // Node's `Buffer` implements.
+        const raw = this[key];
+        if (raw instanceof ArrayBuffer || ArrayBuffer.isView(raw)) {
+          return {
+            [BYTES_TAG]: ByteString.fromUint8Array(
+              toBytes(raw as BufferSource)
+            ).toBase64()
+          };
+        } else if (
+          typeof raw === 'number' &&
+          (!isFinite(raw) || (raw === 0 && 1 / raw < 0))
+        ) {
+          return { [NUMBER_TAG]: raw === 0 ? '-0' : String(raw) };
+        }
+        return json;
+      }
+    ) ?? 'null'
+  );
+}
+
+function decodeValue<T>(json: string): T {
+  return JSON.parse(json, (key, value) => {
+    if (value !== null && typeof value === 'object') {
+      const keys = Object.keys(value);
+      if (keys.length === 1) {
+        if (typeof value[BYTES_TAG] === 'string') {
+          return ByteString.fromBase64String(value[BYTES_TAG]).toUint8Array();
+        } else if (typeof value[NUMBER_TAG] === 'string') {
+          return Number(value[NUMBER_TAG]);
+        }
+      }
+    }
+    return value;
+  });
+}
+
+/**
+ * Returns the value at `keyPath`, or `undefined` if `value` does not contain
+ * all components of the key path.
+ */
+function evaluateKeyPath(
+  value: unknown,
+  keyPath: string | string[]
+): unknown | undefined {
+  if (Array.isArray(keyPath)) {
+    const result: unknown[] = [];
+    for (const path of keyPath) {
+      const component = evaluateKeyPath(value, path);
+      if (component === undefined) {
+        return undefined;
+      }
+      result.push(component);
+    }
+    return result;
+  }
+
+  let current = value;
+  if (keyPath !== '') {
+    for (const segment of keyPath.split('.')) {
+      if (
+        current === null ||
+        typeof current !== 'object' ||
+        !(segment in (current as object))
+      ) {
+        return undefined;
+      }
+      current = (current as Record<string, unknown>)[segment];
+    }
+  }
+  return current;
+}
+
+// Index entries are ordered by their index key and then by the primary key of
+// the record. These sentinels sort before and after all primary keys, which
+// allows positioning at the first or last entry for an index key.
+const MIN_PRIMARY_KEY = {} as IDBValidKey;
+const MAX_PRIMARY_KEY = {} as IDBValidKey;
+
+/** An `[indexKey, primaryKey]` pair. */
+type IndexEntry = [IDBValidKey, IDBValidKey];
+
+function comparePrimaryKeys(left: IDBValidKey, right: IDBValidKey): number {
+  if (left === right) {
+    return 0;
+  } else if (left === MIN_PRIMARY_KEY || right === MAX_PRIMARY_KEY) {
+    return -1;
+  } else if (left === MAX_PRIMARY_KEY || right === MIN_PRIMARY_KEY) {
+    return 1;
+  }
+  return compareKeys(left, right);
+}
+
+function compareIndexEntries(left: IndexEntry, right: IndexEntry): number {
+  const cmp = compareKeys(left[0], right[0]);
+  return cmp !== 0 ? cmp : comparePrimaryKeys(left[1], right[1]);
+}
+
+interface IndexSchema {
+  readonly keyPath: string | string[];
+  readonly unique: boolean;
+  readonly multiEntry: boolean;
+}
+
+/** The immutable state of an index. */
+interface IndexState extends IndexSchema {
+  /** The index entries, mapped to the primary key of their record. */
+  readonly entries: SortedMap<IndexEntry, IDBValidKey>;
+}
+
+/** The immutable state of an object store. */
+interface StoreState {
+  readonly keyPath: string | string[] | null;
+  readonly autoIncrement: boolean;
+  /** The next key of the key generator. */
+  readonly currentKey: number;
+  /** The JSON-encoded records, by primary key. */
+  readonly records: SortedMap<IDBValidKey, string>;
+  readonly indexes: { readonly [name: string]: IndexState };
+  /**
+   * The segments that the records are saved in, by the lowest primary key that
+   * they can hold. The first segment starts at `MIN_PRIMARY_KEY`.
+   */
+  readonly segments: SortedMap<IDBValidKey, SegmentState>;
+}
+
+/** A key range of the records of an object store, saved as one entry. */
+interface SegmentState {
+  /** The generation of the entry, or 0 if the segment is empty. */
+  readonly generation: number;
+  /** The length of the saved entry. */
+  readonly size: number;
+}
+
+const EMPTY_SEGMENT: SegmentState = { generation: 0, size: 0 };
+
+/** Returns the segments of a store without records. */
+function newSegments(): SortedMap<IDBValidKey, SegmentState> {
+  return new SortedMap<IDBValidKey, SegmentState>(comparePrimaryKeys).insert(
+    MIN_PRIMARY_KEY,
+    EMPTY_SEGMENT
+  );
+}
+
+/** Returns the lowest key of the segment that holds `primaryKey`. */
+function segmentBound(store: StoreState, primaryKey: IDBValidKey): IDBValidKey {
+  return store.segments.getReverseIteratorFrom(primaryKey).getNext().key;
+}
+
+/** The immutable state of a database. */
+interface DatabaseState {
+  readonly version: number;
+  /** The last generation number assigned to a segment entry. */
+  readonly generation: number;
+  readonly stores: { readonly [name: string]: StoreState };
+}
+
+/** The manifest that is saved for a database in the key-value store. */
+interface DatabaseManifest {
+  version: number;
+  generation: number;
+  stores: {
+    [name: string]: {
+      keyPath: string | string[] | null;
+      autoIncrement: boolean;
+      currentKey: number;
+      indexes: { [name: string]: IndexSchema };
+      /**
+       * The encoded lowest key (or `null` for the first segment) and the
+       * generation of each segment.
+       */
+      segments: Array<[string | null, number]>;
+    };
+  };
+}
+
+function segmentKey(databaseName: string, generation: number): string {
+  return `${databaseName}/${generation}`;
+}
+
+function indexKeysForValue(index: IndexSchema, value: unknown): IDBValidKey[] {
+  const key = evaluateKeyPath(value, index.keyPath);
+  if (index.multiEntry && Array.isArray(key)) {
+    const keys: IDBValidKey[] = [];
+    for (const entry of key) {
+      if (
+        isValidKey(entry) &&
+        !keys.some(existing => compareKeys(existing, entry) === 0)
+      ) {
+        keys.push(entry);
+      }
+    }
+    return keys;
+  }
+  return isValidKey(key) ? [key] : [];
+}
+
+/** Adds the index entries of a record to `index`. */
+function addIndexEntries(
+  index: IndexState,
+  primaryKey: IDBValidKey,
+  value: unknown
+): IndexState {
+  let entries = index.entries;
+  for (const indexKey of indexKeysForValue(index, value)) {
+    if (index.unique) {
+      const existing = entries
+        .getIteratorFrom([indexKey, MIN_PRIMARY_KEY])
+        .peek();
+      if (existing && compareKeys(existing.key[0], indexKey) === 0) {
+        throw newDomError(
+          'ConstraintError',
+          'A record with the same key already exists in a unique index.'
+        );
+      }
+    }
+    entries = entries.insert([indexKey, primaryKey], primaryKey);
+  }
+  return { ...index, entries };
+}
+
+function removeIndexEntries(
+  index: IndexState,
+  primaryKey: IDBValidKey,
+  value: unknown
+): IndexState {
+  let entries = index.entries;
+  for (const indexKey of indexKeysForValue(index, value)) {
+    entries = entries.remove([indexKey, primaryKey]);
+  }
+  return { ...index, entries };
+}
+
+/** A sorted map whose entries are ordered by an IndexedDB key. */
+interface KeyedMap<K, V> {
+  readonly map: SortedMap<K, V>;
+  readonly comparator: (left: K, right: K) => number;
+  /** Returns the IndexedDB key of an entry, which ranges apply to. */
+  rangeKey(key: K): IDBValidKey;
+  /** Returns the map key that iteration from a range bound starts at. */
+  boundKey(bound: IDBValidKey, reverse: boolean): K;
+}
+
+/**
+ * Returns the first entry of `keyedMap` in iteration order that comes after
+ * `start` (or is equal to it if `inclusive` is set) and whose key lies in
+ * `range`. Returns `null` if there is none.
+ */
+function seek<K, V>(
+  keyedMap: KeyedMap<K, V>,
+  range: KeyRangeLike | null,
+  start: K | undefined,
+  inclusive: boolean,
+  reverse: boolean
+): { key: K; value: V } | null {
+  const { map, comparator, rangeKey } = keyedMap;
+  const bound = reverse ? range?.upper : range?.lower;
+  if (start === undefined && bound !== undefined) {
+    start = keyedMap.boundKey(bound, reverse);
+    inclusive = true;
+  }
+  const iterator =
+    start === undefined
+      ? reverse
+        ? map.getReverseIterator()
+        : map.getIterator()
+      : reverse
+      ? map.getReverseIteratorFrom(start)
+      : map.getIteratorFrom(start);
+  while (iterator.hasNext()) {
+    const entry = iterator.getNext();
+    if (start !== undefined) {
+      const cmp = comparator(entry.key, start) * (reverse ? -1 : 1);
+      if (cmp < 0 || (cmp === 0 && !inclusive)) {
+        continue;
+      }
+    }
+    const key = rangeKey(entry.key);
+    if (range !== null) {
+      const beforeRange = reverse
+        ? !isBelowUpperBound(range, key)
+        : !isAboveLowerBound(range, key);
+      const afterRange = reverse
+        ? !isAboveLowerBound(range, key)
+        : !isBelowUpperBound(range, key);
+      if (afterRange) {
+        return null;
+      } else if (beforeRange) {
+        continue;
+      }
+    }
+    return entry;
+  }
+  return null;
+}
+
+class KeyValueIdbFactory {
+  private readonly databases = new Map<string, Promise<KeyValueDatabase>>();
+
+  constructor(private readonly store: PersistentKeyValueStore) {}
+
+  open(name: string, version?: number): KeyValueIdbRequest {
+    const request = new KeyValueIdbRequest(null, null);
+    this.getDatabase(name).then(
+      database => database.connect(request, version),
+      error => request.fail(error)
+    );
+    return request;
+  }
+
+  deleteDatabase(name: string): KeyValueIdbRequest {
+    const request = new KeyValueIdbRequest(null, null);
+    const database = this.databases.get(name);
+    this.databases.delete(name);
+    Promise.resolve(database)
+      .then(database => database?.close())
+      .then(() => deleteDatabase(this.store, name))
+      .then(
+        () => request.succeed(undefined),
+        error => request.fail(error)
+      );
+    return request;
+  }
+
+  cmp(first: IDBValidKey, second: IDBValidKey): number {
+    return compareKeys(first, second);
+  }
+
+  private getDatabase(name: string): Promise<KeyValueDatabase> {
+    let database = this.databases.get(name);
+    if (!database) {
+      database = loadDatabase(this.store, name);
+      database.catch(() => this.databases.delete(name));
+      this.databases.set(name, database);
+    }
+    return database;
+  }
+}
+
+async function loadDatabase(
+  store: PersistentKeyValueStore,
+  name: string
+): Promise<KeyValueDatabase> {
+  logDebug(LOG_TAG, 'Loading database:', name);
+  const manifestJson = await store.getItem(name);
+  const manifest: DatabaseManifest =
+    manifestJson === null
+      ? { version: 0, generation: 0, stores: {} }
+      : JSON.parse(manifestJson);
+  await removeUncommittedSegments(store, name, manifest.generation);
+
+  const stores: { [name: string]: StoreState } = {};
+  for (const storeName of Object.keys(manifest.stores)) {
+    const storeManifest = manifest.stores[storeName];
+    let records = new SortedMap<IDBValidKey, string>(compareKeys);
+    let segments = new SortedMap<IDBValidKey, SegmentState>(comparePrimaryKeys);
+    const indexes: { [name: string]: IndexState } = {};
+    forEach(storeManifest.indexes, (indexName, schema) => {
+      indexes[indexName] = {
+        ...schema,
+        entries: new SortedMap<IndexEntry, IDBValidKey>(compareIndexEntries)
+      };
+    });
+
+    for (const [encodedBound, generation] of storeManifest.segments) {
+      const bound =
+        encodedBound === null
+          ? MIN_PRIMARY_KEY
+          : decodeValue<IDBValidKey>(encodedBound);
+      const segmentJson =
+        generation === 0
+          ? null
+          : await store.getItem(segmentKey(name, generation));
+      segments = segments.insert(bound, {
+        generation,
+        size: segmentJson?.length ?? 0
+      });
+      const encodedRecords = JSON.parse(segmentJson ?? '[]') as Array<
+        [string, string]
+      >;
+      for (const [encodedKey, json] of encodedRecords) {
+        const key = decodeValue<IDBValidKey>(encodedKey);
+        records = records.insert(key, json);
+        if (Object.keys(indexes).length > 0) {
+          const value = decodeValue(json);
+          forEach(indexes, (indexName, index) => {
+            indexes[indexName] = addIndexEntries(index, key, value);
+          });
+        }
+      }
+    }
+
+    stores[storeName] = {
+      keyPath: storeManifest.keyPath,
+      autoIncrement: storeManifest.autoIncrement,
+      currentKey: storeManifest.currentKey,
+      records,
+      indexes,
+      segments
+    };
+  }
+
+  return new KeyValueDatabase(name, store, {
+    version: manifest.version,
+    generation: manifest.generation,
+    stores
+  });
+}
+
+/**
+ * Removes the segments that were written by a commit that did not write its
+ * manifest, which are the segments that directly follow the generation of the
+ * manifest.
+ */
+async function removeUncommittedSegments(
+  store: PersistentKeyValueStore,
+  name: string,
+  generation: number
+): Promise<void> {
+  let key = segmentKey(name, ++generation);
+  while ((await store.getItem(key)) !== null) {
+    logDebug(LOG_TAG, 'Removing uncommitted entry:', key);
+    await store.removeItem(key);
+    key = segmentKey(name, ++generation);
+  }
+}
+
+async function deleteDatabase(
+  store: PersistentKeyValueStore,
+  name: string
+): Promise<void> {
+  logDebug(LOG_TAG, 'Deleting database:', name);
+  const manifestJson = await store.getItem(name);
+  let generation = 0;
+  if (manifestJson !== null) {
+    const manifest = JSON.parse(manifestJson) as DatabaseManifest;
+    generation = manifest.generation;
+    await store.removeItem(name);
+    for (const storeName of Object.keys(manifest.stores)) {
+      for (const [, segmentGeneration] of manifest.stores[storeName].segments) {
+        if (segmentGeneration !== 0) {
+          await store.removeItem(segmentKey(name, segmentGeneration));
+        }
+      }
+    }
+  }
+  await removeUncommittedSegments(store, name, generation);
+}
+
+function encodeManifest(state: DatabaseState): string {
+  const manifest: DatabaseManifest = {
+    version: state.version,
+    generation: state.generation,
+    stores: {}
+  };
+  forEach(state.stores, (storeName, store) => {
+    const indexes: { [name: string]: IndexSchema } = {};
+    forEach(store.indexes, (indexName, index) => {
+      indexes[indexName] = {
+        keyPath: index.keyPath,
+        unique: index.unique,
+        multiEntry: index.multiEntry
+      };
+    });
+    const segments: Array<[string | null, number]> = [];
+    store.segments.forEach((bound, segment) => {
+      segments.push([
+        bound === MIN_PRIMARY_KEY ? null : encodeValue(bound),
+        segment.generation
+      ]);
+    });
+    manifest.stores[storeName] = {
+      keyPath: store.keyPath,
+      autoIncrement: store.autoIncrement,
+      currentKey: store.currentKey,
+      indexes,
+      segments
+    };
+  });
+  return JSON.stringify(manifest);
+}
+
+/** The records of a segment that is about to be saved. */
+interface SegmentEntry {
+  /** The first primary key of the segment. */
+  readonly firstKey: IDBValidKey;
+  /** The encoded primary keys and values of the records. */
+  readonly records: Array<[string, string]>;
+  size: number;
+}
+
+/**
+ * Splits the records of `store` that lie in `[lower, upper)` into segments of
+ * at most `MAX_SEGMENT_SIZE` (unless a single record is larger).
+ */
+function splitIntoSegments(
+  store: StoreState,
+  lower: IDBValidKey,
+  upper: IDBValidKey | undefined
+): SegmentEntry[] {
+  const segments: SegmentEntry[] = [];
+  const iterator =
+    lower === MIN_PRIMARY_KEY
+      ? store.records.getIterator()
+      : store.records.getIteratorFrom(lower);
+  while (iterator.hasNext()) {
+    const { key, value } = iterator.getNext();
+    if (upper !== undefined && compareKeys(key, upper) >= 0) {
+      break;
+    }
+    const encodedKey = encodeValue(key);
+    // The length of the record in the JSON array of records.
+    const size = encodedKey.length + value.length + 16;
+    let segment = segments[segments.length - 1];
+    if (!segment || segment.size + size > MAX_SEGMENT_SIZE) {
+      segment = { firstKey: key, records: [], size: 0 };
+      segments.push(segment);
+    }
+    segment.records.push([encodedKey, value]);
+    segment.size += size;
+  }
+  return segments;
+}
+
+/**
+ * Rewrites the segments of `store` whose lowest keys are in `modified`. Small
+ * rewritten segments are merged with the following segment, and empty ones
+ * are removed. Returns the new segments and the entries to save, by
+ * generation.
+ */
+function rewriteSegments(
+  store: StoreState,
+  modified: Set<IDBValidKey>,
+  nextGeneration: () => number
+): {
+  segments: SortedMap<IDBValidKey, SegmentState>;
+  entries: Map<number, string>;
+} {
+  const bounds: IDBValidKey[] = [];
+  const sizes: number[] = [];
+  store.segments.forEach((bound, segment) => {
+    bounds.push(bound);
+    sizes.push(segment.size);
+  });
+
+  let segments = store.segments;
+  const entries = new Map<number, string>();
+  let start = 0;
+  while (start < bounds.length) {
+    if (!modified.has(bounds[start])) {
+      ++start;
+      continue;
+    }
+    // Rewrite the run of consecutive modified segments.
+    let end = start + 1;
+    while (end < bounds.length && modified.has(bounds[end])) {
+      ++end;
+    }
+    let rewritten = splitIntoSegments(store, bounds[start], bounds[end]);
+    while (end < bounds.length && rewritten.length > 0) {
+      const lastSize = rewritten[rewritten.length - 1].size;
+      if (
+        lastSize >= MIN_SEGMENT_SIZE ||
+        lastSize + sizes[end] > MAX_SEGMENT_SIZE
+      ) {
+        break;
+      }
+      ++end;
+      rewritten = splitIntoSegments(store, bounds[start], bounds[end]);
+    }
+
+    for (let i = start; i < end; ++i) {
+      segments = segments.remove(bounds[i]);
+    }
+    if (rewritten.length === 0 && start === 0) {
+      segments = segments.insert(MIN_PRIMARY_KEY, EMPTY_SEGMENT);
+    }
+    rewritten.forEach((segment, i) => {
+      const json = JSON.stringify(segment.records);
+      const generation = nextGeneration();
+      entries.set(generation, json);
+      // The first segment keeps its lowest key, so that it still holds all
+      // keys between that key and its first record.
+      segments = segments.insert(i === 0 ? bounds[start] : segment.firstKey, {
+        generation,
+        size: json.length
+      });
+    });
+    start = end;
+  }
+  return { segments, entries };
+}
+
+/** Returns the generations of the saved segments of `store`. */
+function segmentGenerations(store: StoreState | undefined): number[] {
+  const generations: number[] = [];
+  store?.segments.forEach((bound, segment) => {
+    if (segment.generation !== 0) {
+      generations.push(segment.generation);
+    }
+  });
+  return generations;
+}
+
+/**
+ * A database that is loaded from a key-value store. It is shared by all
+ * connections to the database and runs their transactions one at a time.
+ */
+class KeyValueDatabase {
+  /** The version change transaction that is running, if any. */
+  activeVersionChange: KeyValueIdbTransaction | null = null;
+  private readonly transactions: KeyValueIdbTransaction[] = [];
+  private running = false;
+  private closed = false;
+
+  constructor(
+    readonly name: string,
+    private readonly store: PersistentKeyValueStore,
+    public state: DatabaseState
+  ) {}
+
+  connect(request: KeyValueIdbRequest, version: number | undefined): void {
+    if (this.closed) {
+      request.fail(newDomError('AbortError', 'The database was deleted.'));
+      return;
+    }
+
+    const connection = new KeyValueIdbDatabase(this);
+    const oldVersion = this.state.version;
+    const newVersion = version ?? Math.max(oldVersion, 1);
+    if (newVersion < oldVersion) {
+      request.fail(
+        newDomError(
+          'VersionError',
+          `The requested version (${newVersion}) is less than the existing ` +
+            `version (${oldVersion}).`
+        )
+      );
+    } else if (newVersion === oldVersion) {
+      request.succeed(connection);
+    } else {
+      const transaction = new KeyValueIdbTransaction(
+        connection,
+        'versionchange',
+        []
+      );
+      transaction.onStart = () => {
+        this.state = { ...this.state, version: newVersion };
+        request.result = connection;
+        request.transaction = transaction;
+        request.fire('onupgradeneeded', {
+          oldVersion,
+          newVersion
+        });
+      };
+      transaction.onFinish = aborted => {
+        request.transaction = null;
+        if (aborted) {
+          connection.close();
+          request.fail(
+            newDomError('AbortError', 'The version change was aborted.')
+          );
+        } else {
+          request.succeed(connection);
+        }
+      };
+      this.enqueue(transaction);
+    }
+  }
+
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  close(): Promise<void> {
+    this.closed = true;
+    return this.transactions.length === 0
+      ? Promise.resolve()
+      : new Promise(resolve => {
+          this.transactions[this.transactions.length - 1].onIdle = resolve;
+        });
+  }
+
+  enqueue(transaction: KeyValueIdbTransaction): void {
+    this.transactions.push(transaction);
+    if (!this.running) {
+      this.running = true;
+      // Transactions start asynchronously, which gives their creator a chance
+      // to issue requests.
+      // eslint-disable-next-line @typescript-eslint/no-floating-promises
+      Promise.resolve().then(() => this.runTransactions());
+    }
+  }
+
+  /**
+   * Writes the segments that hold records modified by a transaction and the
+   * new manifest to the key-value store.
+   *
+   * @param modifiedSegments - The lowest keys of the segments with modified
+   * records, by object store.
+   */
+  async persist(
+    previousState: DatabaseState,
+    modifiedStores: Set<string>,
+    modifiedSegments: Map<string, Set<IDBValidKey>>
+  ): Promise<void> {
+    let generation = this.state.generation;
+    const stores = { ...this.state.stores };
+    const writes: Array<[string, string]> = [];
+    const removedEntries: string[] = [];
+    modifiedStores.forEach(storeName => {
+      const store = stores[storeName];
+      if (store) {
+        const { segments, entries } = rewriteSegments(
+          store,
+          modifiedSegments.get(storeName) ?? new Set(),
+          () => ++generation
+        );
+        stores[storeName] = { ...store, segments };
+        entries.forEach((json, segmentGeneration) => {
+          writes.push([segmentKey(this.name, segmentGeneration), json]);
+        });
+      }
+      const generations = new Set(segmentGenerations(stores[storeName]));
+      for (const previousGeneration of segmentGenerations(
+        previousState.stores[storeName]
+      )) {
+        if (!generations.has(previousGeneration)) {
+          removedEntries.push(segmentKey(this.name, previousGeneration));
+        }
+      }
+    });
+    // Entries are written one at a time in the order of their generations (see
+    // `removeUncommittedSegments()`).
+    for (const [key, json] of writes) {
+      await this.store.setItem(key, json);
+    }
+
+    this.state = { ...this.state, generation, stores };
+    await this.store.setItem(this.name, encodeManifest(this.state));
+
+    for (const key of removedEntries) {
+      await this.store.removeItem(key).catch(error => {
+        logDebug(LOG_TAG, 'Failed to remove entry:', key, error);
+      });
+    }
+  }
+
+  private async runTransactions(): Promise<void> {
+    while (this.transactions.length > 0) {
+      const transaction = this.transactions[0];
+      await transaction.run();
+      this.transactions.shift();
+      transaction.onIdle?.();
+    }
+    this.running = false;
+  }
+}
+
+/** A connection to a `KeyValueDatabase`. Implements `IDBDatabase`. */
+class KeyValueIdbDatabase {
+  onversionchange: ((event: Event) => void) | null = null;
+  private closed = false;
+
+  constructor(readonly database: KeyValueDatabase) {}
+
+  get name(): string {
+    return this.database.name;
+  }
+
+  get version(): number {
+    return this.database.state.version;
+  }
+
+  get objectStoreNames(): DOMStringList {
+    return newStringList(Object.keys(this.database.state.stores).sort());
+  }
+
+  transaction(
+    storeNames: string | string[],
+    mode: IDBTransactionMode = 'readonly'
+  ): KeyValueIdbTransaction {
+    if (this.closed || this.database.isClosed) {
+      throw newDomError('InvalidStateError', 'The connection is closed.');
+    }
+    const names = typeof storeNames === 'string' ? [storeNames] : storeNames;
+    for (const name of names) {
+      if (!this.database.state.stores[name]) {
+        throw newDomError('NotFoundError', `Object store '${name}' not found.`);
+      }
+    }
+    const transaction = new KeyValueIdbTransaction(this, mode, names);
+    this.database.enqueue(transaction);
+    return transaction;
+  }
+
+  createObjectStore(
+    name: string,
+    options?: IDBObjectStoreParameters
+  ): KeyValueIdbObjectStore {
+    const transaction = this.versionChangeTransaction();
+    if (this.database.state.stores[name]) {
+      throw newDomError(
+        'ConstraintError',
+        `Object store '${name}' already exists.`
+      );
+    }
+    transaction.updateStore(name, {
+      keyPath: options?.keyPath ?? null,
+      autoIncrement: !!options?.autoIncrement,
+      currentKey: 1,
+      records: new SortedMap<IDBValidKey, string>(compareKeys),
+      indexes: {},
+      segments: newSegments()
+    });
+    return new KeyValueIdbObjectStore(transaction, name);
+  }
+
+  deleteObjectStore(name: string): void {
+    const transaction = this.versionChangeTransaction();
+    if (!this.database.state.stores[name]) {
+      throw newDomError('NotFoundError', `Object store '${name}' not found.`);
+    }
+    transaction.updateStore(name, null);
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  private versionChangeTransaction(): KeyValueIdbTransaction {
+    const transaction = this.database.activeVersionChange;
+    if (!transaction) {
+      throw newDomError(
+        'InvalidStateError',
+        'Object stores can only be changed during a version change.'
+      );
+    }
+    return transaction;
+  }
+}
+
+function newStringList(values: string[]): DOMStringList {
+  const list = {
+    length: values.length,
+    contains: (value: string) => values.indexOf(value) !== -1,
+    item: (index: number) => values[index] ?? null
+  };
+  return list as unknown as DOMStringList;
+}
+
+/** Implements `IDBTransaction`. */
+class KeyValueIdbTransaction {
+  oncomplete: ((event: Event) => void) | null = null;
+  onabort: ((event: Event) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  error: Error | null = null;
+
+  /** Invoked when the transaction becomes active. */
+  onStart?: () => void;
+  /** Invoked after the transaction completed or aborted. */
+  onFinish?: (aborted: boolean) => void;
+  /** Invoked once the database is done with the transaction. */
+  onIdle?: () => void;
+
+  private readonly requests: Array<() => void> = [];
+  private readonly modifiedStores = new Set<string>();
+  private readonly modifiedSegments = new Map<string, Set<IDBValidKey>>();
+  private previousState: DatabaseState | null = null;
+  private started = false;
+  private finished = false;
+  private aborted = false;
+
+  constructor(
+    readonly db: KeyValueIdbDatabase,
+    readonly mode: IDBTransactionMode,
+    private readonly storeNames: string[]
+  ) {}
+
+  private get database(): KeyValueDatabase {
+    return this.db.database;
+  }
+
+  objectStore(name: string): KeyValueIdbObjectStore {
+    if (
+      (this.mode !== 'versionchange' && this.storeNames.indexOf(name) === -1) ||
+      !this.database.state.stores[name]
+    ) {
+      throw newDomError(
+        'NotFoundError',
+        `Object store '${name}' is not part of the transaction.`
+      );
+    }
+    return new KeyValueIdbObjectStore(this, name);
+  }
+
+  abort(): void {
+    if (!this.finished) {
+      this.rollback();
+    }
+  }
+
+  /** Schedules `operation` and reports its result to `request`. */
+  enqueueRequest(
+    request: KeyValueIdbRequest,
+    operation: () => unknown
+  ): KeyValueIdbRequest {
+    if (this.finished) {
+      throw newDomError(
+        'TransactionInactiveError',
+        'The transaction has finished.'
+      );
+    }
+    this.requests.push(() => {
+      let result: unknown;
+      try {
+        result = operation();
+      } catch (e) {
+        const error = e as Error;
+        request.fail(error);
+        if (!this.finished) {
+          this.error = error;
+          this.fire('onerror', request);
+          this.rollback();
+        }
+        return;
+      }
+      try {
+        request.succeed(result);
+      } catch (e) {
+        // As in IndexedDB, an exception in a success handler aborts the
+        // transaction.
+        this.error = e as Error;
+        this.rollback();
+      }
+    });
+    return request;
+  }
+
+  checkWritable(): void {
+    if (this.mode === 'readonly') {
+      throw newDomError('ReadOnlyError', 'The transaction is read-only.');
+    }
+  }
+
+  get isVersionChangeActive(): boolean {
+    return this.mode === 'versionchange' && this.started && !this.finished;
+  }
+
+  getStore(name: string): StoreState {
+    const store = this.database.state.stores[name];
+    if (!store) {
+      throw newDomError('InvalidStateError', `Object store '${name}' deleted.`);
+    }
+    return store;
+  }
+
+  /** Replaces (or, if `store` is null, deletes) an object store. */
+  updateStore(name: string, store: StoreState | null): void {
+    const stores = { ...this.database.state.stores };
+    if (store) {
+      stores[name] = store;
+    } else {
+      delete stores[name];
+    }
+    this.database.state = { ...this.database.state, stores };
+    this.modifiedStores.add(name);
+  }
+
+  /**
+   * Marks the segment that holds `primaryKey` (or, if omitted, all segments)
+   * of an object store as modified, so that it is saved on commit.
+   */
+  recordModified(name: string, primaryKey?: IDBValidKey): void {
+    const store = this.getStore(name);
+    const segments = this.modifiedSegments.get(name) ?? new Set();
+    if (primaryKey === undefined) {
+      store.segments.forEach(bound => segments.add(bound));
+    } else {
+      segments.add(segmentBound(store, primaryKey));
+    }
+    this.modifiedSegments.set(name, segments);
+  }
+
+  /** Runs the transaction's requests and then commits it. */
+  async run(): Promise<void> {
+    if (!this.aborted) {
+      this.started = true;
+      this.previousState = this.database.state;
+      this.database.activeVersionChange =
+        this.mode === 'versionchange' ? this : null;
+      try {
+        this.onStart?.();
+        while (!this.finished) {
+          while (!this.finished && this.requests.length > 0) {
+            this.requests.shift()!();
+          }
+          // Like IndexedDB, keep the transaction active while the callbacks of
+          // completed requests (and the promises they resolve) issue new
+          // requests.
+          await waitForCallbacks();
+          if (this.requests.length === 0) {
+            break;
+          }
+        }
+      } catch (e) {
+        this.error = e as Error;
+        this.rollback();
+      }
+      this.database.activeVersionChange = null;
+    }
+
+    if (!this.aborted) {
+      this.finished = true;
+      const previousState = this.previousState!;
+      const changed =
+        this.modifiedStores.size > 0 ||
+        previousState.version !== this.database.state.version;
+      if (changed) {
+        try {
+          await this.database.persist(
+            previousState,
+            this.modifiedStores,
+            this.modifiedSegments
+          );
+        } catch (e) {
+          logDebug(LOG_TAG, 'Failed to persist transaction:', e);
+          this.database.state = previousState;
+          this.aborted = true;
+          this.error = e as Error;
+        }
+      }
+    }
+
+    if (this.aborted) {
+      this.fire('onabort', this);
+    } else {
+      this.fire('oncomplete', this);
+    }
+    this.onFinish?.(this.aborted);
+  }
+
+  private rollback(): void {
+    this.finished = true;
+    this.aborted = true;
+    this.requests.length = 0;
+    if (this.started) {
+      this.database.state = this.previousState!;
+    }
+  }
+
+  private fire(
+    handler: 'oncomplete' | 'onabort' | 'onerror',
+    target: object
+  ): void {
+    const listener = this[handler];
+    if (listener) {
+      listener({ type: handler.substring(2), target } as unknown as Event);
+    }
+  }
+}
+
+/** Resolves once all pending promise callbacks have run. */
+function waitForCallbacks(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+/** Implements `IDBRequest` and `IDBOpenDBRequest`. */
+class KeyValueIdbRequest {
+  onsuccess: ((event: Event) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onupgradeneeded: ((event: Event) => void) | null = null;
+  onblocked: ((event: Event) => void) | null = null;
+  readyState: IDBRequestReadyState = 'pending';
+  result: unknown = undefined;
+  error: Error | null = null;
+
+  constructor(
+    readonly source: object | null,
+    public transaction: KeyValueIdbTransaction | null
+  ) {}
+
+  succeed(result: unknown): void {
+    this.readyState = 'done';
+    this.result = result;
+    this.error = null;
+    this.fire('onsuccess');
+  }
+
+  fail(error: Error): void {
+    this.readyState = 'done';
+    this.result = undefined;
+    this.error = error;
+    this.fire('onerror');
+  }
+
+  fire(
+    handler: 'onsuccess' | 'onerror' | 'onupgradeneeded',
+    fields: object = {}
+  ): void {
+    const listener = this[handler];
+    if (listener) {
+      listener({
+        type: handler.substring(2),
+        target: this,
+        preventDefault: () => {},
+        ...fields
+      } as unknown as Event);
+    }
+  }
+}
+
+/** Implements `IDBObjectStore`. */
+class KeyValueIdbObjectStore {
+  constructor(
+    readonly transaction: KeyValueIdbTransaction,
+    readonly name: string
+  ) {}
+
+  private get state(): StoreState {
+    return this.transaction.getStore(this.name);
+  }
+
+  get keyPath(): string | string[] | null {
+    return this.state.keyPath;
+  }
+
+  get autoIncrement(): boolean {
+    return this.state.autoIncrement;
+  }
+
+  get indexNames(): DOMStringList {
+    return newStringList(Object.keys(this.state.indexes).sort());
+  }
+
+  put(value: unknown, key?: IDBValidKey): KeyValueIdbRequest {
+    return this.write(value, key, /* overwrite= */ true);
+  }
+
+  add(value: unknown, key?: IDBValidKey): KeyValueIdbRequest {
+    return this.write(value, key, /* overwrite= */ false);
+  }
+
+  get(query: IDBValidKey | IDBKeyRange): KeyValueIdbRequest {
+    const range = toKeyRange(query);
+    return this.request(() => {
+      const entry = this.seek(range, undefined, false);
+      return entry ? decodeValue(entry.value) : undefined;
+    });
+  }
+
+  getAll(
+    query?: IDBValidKey | IDBKeyRange | null,
+    count?: number
+  ): KeyValueIdbRequest {
+    const range = toKeyRange(query);
+    return this.request(() => {
+      const values: unknown[] = [];
+      let entry = this.seek(range, undefined, false);
+      while (entry && (!count || values.length < count)) {
+        values.push(decodeValue(entry.value));
+        entry = this.seek(range, entry.key, false);
+      }
+      return values;
+    });
+  }
+
+  count(query?: IDBValidKey | IDBKeyRange | null): KeyValueIdbRequest {
+    const range = toKeyRange(query);
+    return this.request(() => {
+      if (range === null) {
+        return this.state.records.size;
+      }
+      let count = 0;
+      let entry = this.seek(range, undefined, false);
+      while (entry) {
+        ++count;
+        entry = this.seek(range, entry.key, false);
+      }
+      return count;
+    });
+  }
+
+  delete(query: IDBValidKey | IDBKeyRange): KeyValueIdbRequest {
+    this.transaction.checkWritable();
+    const range = toKeyRange(query);
+    return this.request(() => {
+      let entry = this.seek(range, undefined, false);
+      while (entry) {
+        this.deleteRecord(entry.key);
+        entry = this.seek(range, entry.key, false);
+      }
+      return undefined;
+    });
+  }
+
+  clear(): KeyValueIdbRequest {
+    this.transaction.checkWritable();
+    return this.request(() => {
+      const store = this.state;
+      const indexes: Record<string, IndexState> = {};
+      Object.keys(store.indexes).forEach(name => {
+        indexes[name] = {
+          ...store.indexes[name],
+          entries: new SortedMap<IndexEntry, IDBValidKey>(compareIndexEntries)
+        };
+      });
+      this.transaction.recordModified(this.name);
+      this.transaction.updateStore(this.name, {
+        ...store,
+        records: new SortedMap<IDBValidKey, string>(compareKeys),
+        indexes
+      });
+      return undefined;
+    });
+  }
+
+  openCursor(
+    query?: IDBValidKey | IDBKeyRange | null,
+    direction?: IDBCursorDirection
+  ): KeyValueIdbRequest {
+    const range = toKeyRange(query);
+    const reverse = isReverse(direction);
+    const request = new KeyValueIdbRequest(this, this.transaction);
+    const cursor = new KeyValueIdbCursor(
+      request,
+      this,
+      /* keysOnly= */ false,
+      (current, target) => {
+        const entry =
+          target === undefined
+            ? this.seek(range, current, reverse)
+            : this.seek(range, target, reverse, /* inclusive= */ true);
+        return entry && { key: entry.key, primaryKey: entry.key };
+      }
+    );
+    return this.transaction.enqueueRequest(request, () => cursor.advance());
+  }
+
+  index(name: string): KeyValueIdbIndex {
+    if (!this.state.indexes[name]) {
+      throw newDomError('NotFoundError', `Index '${name}' not found.`);
+    }
+    return new KeyValueIdbIndex(this, name);
+  }
+
+  createIndex(
+    name: string,
+    keyPath: string | string[],
+    options?: IDBIndexParameters
+  ): KeyValueIdbIndex {
+    if (!this.transaction.isVersionChangeActive) {
+      throw newDomError(
+        'InvalidStateError',
+        'Indexes can only be created during a version change.'
+      );
+    }
+    const store = this.state;
+    if (store.indexes[name]) {
+      throw newDomError('ConstraintError', `Index '${name}' already exists.`);
+    }
+    let index: IndexState = {
+      keyPath,
+      unique: !!options?.unique,
+      multiEntry: !!options?.multiEntry,
+      entries: new SortedMap<IndexEntry, IDBValidKey>(compareIndexEntries)
+    };
+    store.records.forEach((primaryKey, json) => {
+      index = addIndexEntries(index, primaryKey, decodeValue(json));
+    });
+    this.transaction.updateStore(this.name, {
+      ...store,
+      indexes: { ...store.indexes, [name]: index }
+    });
+    return new KeyValueIdbIndex(this, name);
+  }
+
+  /** Issues a request that runs `operation` against this store. */
+  request(operation: () => unknown): KeyValueIdbRequest {
+    return this.transaction.enqueueRequest(
+      new KeyValueIdbRequest(this, this.transaction),
+      operation
+    );
+  }
+
+  /** Returns the record that follows `start` and lies in `range`. */
+  seek(
+    range: KeyRangeLike | null,
+    start: IDBValidKey | undefined,
+    reverse: boolean,
+    inclusive = false
+  ): { key: IDBValidKey; value: string } | null {
+    return seek(
+      {
+        map: this.state.records,
+        comparator: compareKeys,
+        rangeKey: key => key,
+        boundKey: bound => bound
+      },
+      range,
+      start,
+      inclusive,
+      reverse
+    );
+  }
+
+  deleteRecord(primaryKey: IDBValidKey): void {
+    const store = this.state;
+    const json = store.records.get(primaryKey);
+    if (json === null) {
+      return;
+    }
+    const indexes: { [name: string]: IndexState } = {};
+    const value = Object.keys(store.indexes).length > 0 && decodeValue(json);
+    forEach(store.indexes, (indexName, index) => {
+      indexes[indexName] = removeIndexEntries(index, primaryKey, value);
+    });
+    this.transaction.recordModified(this.name, primaryKey);
+    this.transaction.updateStore(this.name, {
+      ...store,
+      records: store.records.remove(primaryKey),
+      indexes
+    });
+  }
+
+  private write(
+    value: unknown,
+    key: IDBValidKey | undefined,
+    overwrite: boolean
+  ): KeyValueIdbRequest {
+    this.transaction.checkWritable();
+    const { keyPath, autoIncrement } = this.state;
+    // As in IndexedDB, keys are extracted and values are cloned when the
+    // request is issued.
+    let inlineKey: unknown = key;
+    if (keyPath !== null) {
+      if (key !== undefined) {
+        throw newDomError(
+          'DataError',
+          'A key was provided for a store that uses in-line keys.'
+        );
+      }
+      inlineKey = evaluateKeyPath(value, keyPath);
+    }
+    if (inlineKey === undefined ? !autoIncrement : !isValidKey(inlineKey)) {
+      throw newDomError('DataError', 'The key is not valid.');
+    }
+    const json = encodeValue(value);
+
+    return this.request(() => {
+      let store = this.state;
+      let currentKey = store.currentKey;
+      let storedJson = json;
+      let primaryKey = inlineKey as IDBValidKey | undefined;
+      if (primaryKey === undefined) {
+        primaryKey = currentKey;
+        if (keyPath !== null) {
+          const clone = decodeValue<Record<string, unknown>>(json);
+          clone[keyPath as string] = primaryKey;
+          storedJson = encodeValue(clone);
+        }
+      }
+      if (
+        autoIncrement &&
+        typeof primaryKey === 'number' &&
+        primaryKey >= currentKey
+      ) {
+        currentKey = Math.floor(primaryKey) + 1;
+      }
+      if (store.records.get(primaryKey) !== null) {
+        if (!overwrite) {
+          throw newDomError(
+            'ConstraintError',
+            'A record with the same key already exists.'
+          );
+        }
+        this.deleteRecord(primaryKey);
+        store = this.state;
+      }
+
+      const recordKey = primaryKey;
+      const storedValue =
+        Object.keys(store.indexes).length > 0 && decodeValue(storedJson);
+      const indexes: { [name: string]: IndexState } = {};
+      forEach(store.indexes, (indexName, index) => {
+        indexes[indexName] = addIndexEntries(index, recordKey, storedValue);
+      });
+      this.transaction.recordModified(this.name, recordKey);
+      this.transaction.updateStore(this.name, {
+        ...store,
+        currentKey,
+        records: store.records.insert(recordKey, storedJson),
+        indexes
+      });
+      return recordKey;
+    });
+  }
+}
+
+function isReverse(direction: IDBCursorDirection | undefined): boolean {
+  return direction === 'prev' || direction === 'prevunique';
+}
+
+/** Implements `IDBIndex`. */
+class KeyValueIdbIndex {
+  constructor(
+    readonly objectStore: KeyValueIdbObjectStore,
+    readonly name: string
+  ) {}
+
+  private get state(): IndexState {
+    return this.objectStore.transaction.getStore(this.objectStore.name).indexes[
+      this.name
+    ];
+  }
+
+  get keyPath(): string | string[] {
+    return this.state.keyPath;
+  }
+
+  get unique(): boolean {
+    return this.state.unique;
+  }
+
+  get multiEntry(): boolean {
+    return this.state.multiEntry;
+  }
+
+  get(query: IDBValidKey | IDBKeyRange): KeyValueIdbRequest {
+    const range = toKeyRange(query);
+    return this.objectStore.request(() => {
+      const entry = this.seek(range, undefined, false);
+      return entry ? this.loadValue(entry.value) : undefined;
+    });
+  }
+
+  getAll(
+    query?: IDBValidKey | IDBKeyRange | null,
+    count?: number
+  ): KeyValueIdbRequest {
+    const range = toKeyRange(query);
+    return this.objectStore.request(() => {
+      const values: unknown[] = [];
+      let entry = this.seek(range, undefined, false);
+      while (entry && (!count || values.length < count)) {
+        values.push(this.loadValue(entry.value));
+        entry = this.seek(range, entry.key, false);
+      }
+      return values;
+    });
+  }
+
+  count(query?: IDBValidKey | IDBKeyRange | null): KeyValueIdbRequest {
+    const range = toKeyRange(query);
+    return this.objectStore.request(() => {
+      let count = 0;
+      let entry = this.seek(range, undefined, false);
+      while (entry) {
+        ++count;
+        entry = this.seek(range, entry.key, false);
+      }
+      return count;
+    });
+  }
+
+  openCursor(
+    query?: IDBValidKey | IDBKeyRange | null,
+    direction?: IDBCursorDirection
+  ): KeyValueIdbRequest {
+    return this.cursor(query, direction, /* keysOnly= */ false);
+  }
+
+  openKeyCursor(
+    query?: IDBValidKey | IDBKeyRange | null,
+    direction?: IDBCursorDirection
+  ): KeyValueIdbRequest {
+    return this.cursor(query, direction, /* keysOnly= */ true);
+  }
+
+  private cursor(
+    query: IDBValidKey | IDBKeyRange | null | undefined,
+    direction: IDBCursorDirection | undefined,
+    keysOnly: boolean
+  ): KeyValueIdbRequest {
+    const range = toKeyRange(query);
+    const reverse = isReverse(direction);
+    const request = new KeyValueIdbRequest(this, this.objectStore.transaction);
+    let position: IndexEntry | undefined;
+    const cursor = new KeyValueIdbCursor(
+      request,
+      this.objectStore,
+      keysOnly,
+      (current, target) => {
+        const entry =
+          target === undefined
+            ? this.seek(range, position, reverse)
+            : this.seek(
+                range,
+                [target, reverse ? MAX_PRIMARY_KEY : MIN_PRIMARY_KEY],
+                reverse,
+                /* inclusive= */ true
+              );
+        position = entry?.key;
+        return entry && { key: entry.key[0], primaryKey: entry.value };
+      }
+    );
+    return this.objectStore.transaction.enqueueRequest(request, () =>
+      cursor.advance()
+    );
+  }
+
+  private seek(
+    range: KeyRangeLike | null,
+    start: IndexEntry | undefined,
+    reverse: boolean,
+    inclusive = false
+  ): { key: IndexEntry; value: IDBValidKey } | null {
+    return seek(
+      {
+        map: this.state.entries,
+        comparator: compareIndexEntries,
+        rangeKey: entry => entry[0],
+        boundKey: (bound, reverse) => [
+          bound,
+          reverse ? MAX_PRIMARY_KEY : MIN_PRIMARY_KEY
+        ]
+      },
+      range,
+      start,
+      inclusive,
+      reverse
+    );
+  }
+
+  private loadValue(primaryKey: IDBValidKey): unknown {
+    return decodeValue(
+      this.objectStore.transaction
+        .getStore(this.objectStore.name)
+        .records.get(primaryKey)!
+    );
+  }
+}
+
+/**
+ * Moves a cursor. Returns the entry after `current` or, if `target` is set,
+ * the first entry at or after `target`.
+ */
+type CursorSeek = (
+  current: IDBValidKey | undefined,
+  target: IDBValidKey | undefined
+) => { key: IDBValidKey; primaryKey: IDBValidKey } | null;
+
+/** Implements `IDBCursor` and `IDBCursorWithValue`. */
+class KeyValueIdbCursor {
+  key: IDBValidKey | undefined = undefined;
+  primaryKey: IDBValidKey | undefined = undefined;
+  value: unknown = undefined;
+
+  constructor(
+    private readonly request: KeyValueIdbRequest,
+    private readonly objectStore: KeyValueIdbObjectStore,
+    private readonly keysOnly: boolean,
+    private readonly seek: CursorSeek
+  ) {}
+
+  get source(): object | null {
+    return this.request.source;
+  }
+
+  /** Moves the cursor and returns it, or `null` if it is exhausted. */
+  advance(target?: IDBValidKey): KeyValueIdbCursor | null {
+    const entry = this.seek(this.key, target);
+    if (!entry) {
+      this.key = this.primaryKey = this.value = undefined;
+      return null;
+    }
+    this.key = entry.key;
+    this.primaryKey = entry.primaryKey;
+    if (!this.keysOnly) {
+      const json = this.objectStore.transaction
+        .getStore(this.objectStore.name)
+        .records.get(entry.primaryKey)!;
+      this.value = decodeValue(json);
+    }
+    return this;
+  }
+
+  continue(key?: IDBValidKey): void {
+    if (key !== undefined && !isValidKey(key)) {
+      throw newDomError('DataError', 'The key is not valid.');
+    }
+    this.objectStore.transaction.enqueueRequest(this.request, () =>
+      this.advance(key)
+    );
+  }
+
+  delete(): KeyValueIdbRequest {
+    this.objectStore.transaction.checkWritable();
+    const primaryKey = this.primaryKey!;
+    return this.objectStore.request(() => {
+      this.objectStore.deleteRecord(primaryKey);
+      return undefined;
+    });
+  }
+}
@@ -254,7 +254,9 @@ export function fromDbTarget(dbTarget: DbTarget): TargetData {
     dbTarget.lastListenSequenceNumber,
     version,
     lastLimboFreeSnapshotVersion,
-    ByteString.fromBase64String(dbTarget.resumeToken)
+    ByteString.fromBase64String(dbTarget.resumeToken),
+    /* expectedCount= */ null,
+    dbTarget.pinned === true
   );
 }
 
@@ -292,7 +294,7 @@ export function toDbTarget(
   const resumeToken = targetData.resumeToken.toBase64();
 
   // lastListenSequenceNumber is always 0 until we do real GC.
-  return {
+  const dbTarget: DbTarget = {
     targetId: targetData.targetId,
     canonicalId: canonifyTarget(targetData.target),
     readTime: dbTimestamp,
@@ -301,6 +303,10 @@ export function toDbTarget(
     lastLimboFreeSnapshotVersion: dbLastLimboFreeTimestamp,
     query: queryProto
   };
+  if (targetData.pinned) {
+    dbTarget.pinned = true;
+  }
+  return dbTarget;
 }
 
 /**
@@ -20,11 +20,18 @@ import { logDebug } from '../util/log';
 
 import { IndexManager } from './index_manager';
 import { LocalDocumentsView } from './local_documents_view';
-import { LruGarbageCollector, LruResults } from './lru_garbage_collector';
+import {
+  LruGarbageCollector,
+  LruParams,
+  LruResults
+} from './lru_garbage_collector';
 import { PRIMARY_LEASE_LOST_ERROR_MSG } from './persistence_transaction';
 
 export interface LocalStore {
-  collectGarbage(garbageCollector: LruGarbageCollector): Promise<LruResults>;
+  collectGarbage(
+    garbageCollector: LruGarbageCollector,
+    params?: LruParams
+  ): Promise<LruResults>;
 
   /** Manages the list of active field and collection indices. */
   indexManager: IndexManager;
@@ -78,11 +78,16 @@ import { LocalDocumentsView } from './local_documents_view';
 import { fromBundledQuery } from './local_serializer';
 import { LocalStore } from './local_store';
 import { LocalViewChanges } from './local_view_changes';
-import { LruGarbageCollector, LruResults } from './lru_garbage_collector';
+import {
+  LruGarbageCollector,
+  LruParams,
+  LruResults
+} from './lru_garbage_collector';
 import { MutationQueue } from './mutation_queue';
 import { Persistence } from './persistence';
 import { PersistencePromise } from './persistence_promise';
 import { PersistenceTransaction } from './persistence_transaction';
+import { QueryContext } from './query_context';
 import { QueryEngine } from './query_engine';
 import { RemoteDocumentCache } from './remote_document_cache';
 import { RemoteDocumentChangeBuffer } from './remote_document_change_buffer';
@@ -220,11 +225,14 @@ class LocalStoreImpl implements LocalStore {
     this.queryEngine.initialize(this.localDocuments, this.indexManager);
   }
 
-  collectGarbage(garbageCollector: LruGarbageCollector): Promise<LruResults> {
+  collectGarbage(
+    garbageCollector: LruGarbageCollector,
+    params?: LruParams
+  ): Promise<LruResults> {
     return this.persistence.runTransaction(
       'Collect garbage',
       'readwrite-primary',
-      txn => garbageCollector.collect(txn, this.targetDataByTarget)
+      txn => garbageCollector.collect(txn, this.targetDataByTarget, params)
     );
   }
 }
@@ -883,6 +891,113 @@ export async function localStoreNotifyLocalViewChanges(
   }
 }
 
+/** Statistics about the contents of the local cache. */
+export interface CacheStats {
+  /**
+   * The number of documents in the remote document cache, including the
+   * documents that are known to not exist.
+   */
+  readonly documentCount: number;
+  /**
+   * The estimated size of the remote document cache in bytes. This is always 0
+   * for the memory cache with eager garbage collection.
+   */
+  readonly byteSize: number;
+  /** The number of query targets in the target cache. */
+  readonly targetCount: number;
+  /** The number of mutation batches that were not acknowledged yet. */
+  readonly pendingWriteCount: number;
+  /** The number of document overlays of the current user. */
+  readonly overlayCount: number;
+}
+
+/** Returns statistics about the contents of the local cache. */
+export function localStoreGetCacheStats(
+  localStore: LocalStore
+): Promise<CacheStats> {
+  const localStoreImpl = debugCast(localStore, LocalStoreImpl);
+  return localStoreImpl.persistence.runTransaction(
+    'Get cache stats',
+    'readonly',
+    txn => {
+      let documentCount = 0;
+      let byteSize = 0;
+      let targetCount = 0;
+      let pendingWriteCount = 0;
+      return localStoreImpl.remoteDocuments
+        .getEntryCount(txn)
+        .next(count => {
+          documentCount = count;
+          return localStoreImpl.remoteDocuments.getSize(txn);
+        })
+        .next(size => {
+          byteSize = size;
+          return localStoreImpl.targetCache.getTargetCount(txn);
+        })
+        .next(count => {
+          targetCount = count;
+          return localStoreImpl.mutationQueue.getAllMutationBatches(txn);
+        })
+        .next(batches => {
+          pendingWriteCount = batches.length;
+          return localStoreImpl.documentOverlayCache.getOverlayCount(txn);
+        })
+        .next(overlayCount => ({
+          documentCount,
+          byteSize,
+          targetCount,
+          pendingWriteCount,
+          overlayCount
+        }));
+    }
+  );
+}
+
+/**
+ * Returns all documents in the remote document cache, including the documents
+ * that are known to not exist.
+ */
+export function localStoreGetAllRemoteDocuments(
+  localStore: LocalStore
+): Promise<MutableDocumentMap> {
+  const localStoreImpl = debugCast(localStore, LocalStoreImpl);
+  return localStoreImpl.persistence.runTransaction(
+    'Get all remote documents',
+    'readonly',
+    txn => localStoreImpl.remoteDocuments.getAllEntries(txn)
+  );
+}
+
+/**
+ * Returns all mutation batches in the mutation queue, ordered by batch ID.
+ */
+export function localStoreGetAllMutationBatches(
+  localStore: LocalStore
+): Promise<MutationBatch[]> {
+  const localStoreImpl = debugCast(localStore, LocalStoreImpl);
+  return localStoreImpl.persistence.runTransaction(
+    'Get all mutation batches',
+    'readonly',
+    txn => localStoreImpl.mutationQueue.getAllMutationBatches(txn)
+  );
+}
+
+/**
+ * Returns the mutation batch with the given ID, or null if it is not in the
+ * mutation queue.
+ */
+export function localStoreLookupMutationBatch(
+  localStore: LocalStore,
+  batchId: BatchId
+): Promise<MutationBatch | null> {
+  const localStoreImpl = debugCast(localStore, LocalStoreImpl);
+  return localStoreImpl.persistence.runTransaction(
+    'Lookup mutation batch',
+    'readonly',
+    txn => localStoreImpl.mutationQueue.lookupMutationBatch(txn, batchId)
+  );
+}
+
 /**
  * Gets the mutation batch after the passed in batchId in the mutation queue
  * or null if empty.
@@ -1010,6 +1125,83 @@ export function localStoreGetTargetData(
   }
 }
 
+/**
+ * Returns the snapshot version at which the results of the given target were
+ * last known to be consistent with the backend, or `SnapshotVersion.min()` if
+ * the target is not in the cache.
+ */
+export function localStoreGetTargetSnapshotVersion(
+  localStore: LocalStore,
+  target: Target
+): Promise<SnapshotVersion> {
+  return debugCast(localStore, LocalStoreImpl).persistence.runTransaction(
+    'Get target snapshot version',
+    'readonly',
+    txn =>
+      localStoreGetTargetData(localStore, txn, target).next(targetData =>
+        targetData ? targetData.snapshotVersion : SnapshotVersion.min()
+      )
+  );
+}
+
+/**
+ * Sets whether the given target is pinned. Pinned targets are exempt from
+ * garbage collection and are returned by `localStoreGetPinnedTargets()` after
+ * a restart.
+ *
+ * Updating a target that is not in the target cache is a no-op.
+ */
+export function localStoreSetTargetPinned(
+  localStore: LocalStore,
+  target: Target,
+  pinned: boolean
+): Promise<void> {
+  const localStoreImpl = debugCast(localStore, LocalStoreImpl);
+  return localStoreImpl.persistence.runTransaction(
+    'Set target pinned',
+    'readwrite',
+    txn =>
+      localStoreGetTargetData(localStoreImpl, txn, target).next(targetData => {
+        if (targetData === null || targetData.pinned === pinned) {
+          return PersistencePromise.resolve();
+        }
+        const updatedTargetData = targetData.withPinned(pinned);
+        if (localStoreImpl.targetDataByTarget.get(targetData.targetId)) {
+          localStoreImpl.targetDataByTarget =
+            localStoreImpl.targetDataByTarget.insert(
+              targetData.targetId,
+              updatedTargetData
+            );
+        }
+        return localStoreImpl.targetCache.updateTargetData(
+          txn,
+          updatedTargetData
+        );
+      })
+  );
+}
+
+/** Returns the targets that are pinned in the target cache. */
+export function localStoreGetPinnedTargets(
+  localStore: LocalStore
+): Promise<Target[]> {
+  const localStoreImpl = debugCast(localStore, LocalStoreImpl);
+  return localStoreImpl.persistence.runTransaction(
+    'Get pinned targets',
+    'readonly',
+    txn => {
+      const targets: Target[] = [];
+      return localStoreImpl.targetCache
+        .forEachTarget(txn, targetData => {
+          if (targetData.pinned) {
+            targets.push(targetData.target);
+          }
+        })
+        .next(() => targets);
+    }
+  );
+}
+
 /**
  * Unpins all the documents associated with the given target. If
  * `keepPersistedTargetData` is set to false and Eager GC enabled, the method
@@ -1073,11 +1265,14 @@ export async function localStoreReleaseTarget(
  *
  * @param usePreviousResults - Whether results from previous executions can
  * be used to optimize this query execution.
+ * @param context - An optional tracker that records how the query was
+ * executed.
  */
 export function localStoreExecuteQuery(
   localStore: LocalStore,
   query: Query,
-  usePreviousResults: boolean
+  usePreviousResults: boolean,
+  context?: QueryContext
 ): Promise<QueryResult> {
   const localStoreImpl = debugCast(localStore, LocalStoreImpl);
   let lastLimboFreeSnapshotVersion = SnapshotVersion.min();
@@ -1106,7 +1301,8 @@ export function localStoreExecuteQuery(
             usePreviousResults
               ? lastLimboFreeSnapshotVersion
               : SnapshotVersion.min(),
-            usePreviousResults ? remoteKeys : documentKeySet()
+            usePreviousResults ? remoteKeys : documentKeySet(),
+            context
           )
         )
         .next(documents => {
@@ -77,9 +77,14 @@ export class LruParams {
 export interface LruGarbageCollector {
   readonly params: LruParams;
 
+  /**
+   * Runs garbage collection if the cache is larger than the threshold of the
+   * given params, which default to the params of this garbage collector.
+   */
   collect(
     txn: PersistenceTransaction,
-    activeTargetIds: ActiveTargets
+    activeTargetIds: ActiveTargets,
+    params?: LruParams
   ): PersistencePromise<LruResults>;
 
   /** Given a percentile of target to collect, returns the number of targets to collect. */
@@ -108,6 +113,7 @@ export interface LruGarbageCollector {
   /**
    * Removes targets with a sequence number equal to or less than the given
    * upper bound, and removes document associations with those targets.
+   * Pinned targets are never removed.
    */
   removeTargets(
     txn: PersistenceTransaction,
@@ -158,7 +164,8 @@ export interface LruDelegate {
 
   /**
    * Removes all targets that have a sequence number less than or equal to
-   * `upperBound`, and are not present in the `activeTargetIds` set.
+   * `upperBound`, are not present in the `activeTargetIds` set and are not
+   * pinned.
    *
    * @returns the number of targets removed.
    */
@@ -146,6 +146,49 @@ export class LruScheduler implements Scheduler {
     return this.gcTask !== null;
   }
 
+  /**
+   * Runs garbage collection immediately instead of waiting for the next
+   * scheduled run. Collection is repeated until the cache is smaller than
+   * `cacheSizeBytes` (or the configured threshold if not provided) or until
+   * nothing more can be removed.
+   */
+  async collectGarbageNow(cacheSizeBytes?: number): Promise<LruResults> {
+    const threshold =
+      cacheSizeBytes ??
+      this.garbageCollector.params.cacheSizeCollectionThreshold;
+    let params =
+      cacheSizeBytes === undefined
+        ? this.garbageCollector.params
+        : LruParams.withCacheSize(cacheSizeBytes);
+    let results = GC_DID_NOT_RUN;
+    while (true) {
+      const run = await this.localStore.collectGarbage(
+        this.garbageCollector,
+        params
+      );
+      if (!run.didRun) {
+        return results;
+      }
+      results = {
+        didRun: true,
+        sequenceNumbersCollected:
+          results.sequenceNumbersCollected + run.sequenceNumbersCollected,
+        targetsRemoved: results.targetsRemoved + run.targetsRemoved,
+        documentsRemoved: results.documentsRemoved + run.documentsRemoved
+      };
+      if (
+        run.sequenceNumbersCollected === 0 &&
+        params.percentileToCollect < 100
+      ) {
+        // The cache holds too few sequence numbers for the percentile to
+        // collect any of them. Collect the least recent one in each run.
+        params = new LruParams(threshold, 100, 1);
+      } else if (run.targetsRemoved === 0 && run.documentsRemoved === 0) {
+        return results;
+      }
+    }
+  }
+
   private scheduleGC(delay: number): void {
     debugAssert(
       this.gcTask === null,
@@ -231,23 +274,24 @@ class LruGarbageCollectorImpl implements LruGarbageCollector {
 
   collect(
     txn: PersistenceTransaction,
-    activeTargetIds: ActiveTargets
+    activeTargetIds: ActiveTargets,
+    params: LruParams = this.params
   ): PersistencePromise<LruResults> {
-    if (this.params.cacheSizeCollectionThreshold === LRU_COLLECTION_DISABLED) {
+    if (params.cacheSizeCollectionThreshold === LRU_COLLECTION_DISABLED) {
       logDebug('LruGarbageCollector', 'Garbage collection skipped; disabled');
       return PersistencePromise.resolve(GC_DID_NOT_RUN);
     }
 
     return this.getCacheSize(txn).next(cacheSize => {
-      if (cacheSize < this.params.cacheSizeCollectionThreshold) {
+      if (cacheSize < params.cacheSizeCollectionThreshold) {
         logDebug(
           'LruGarbageCollector',
           `Garbage collection skipped; Cache size ${cacheSize} ` +
-            `is lower than threshold ${this.params.cacheSizeCollectionThreshold}`
+            `is lower than threshold ${params.cacheSizeCollectionThreshold}`
         );
         return GC_DID_NOT_RUN;
       } else {
-        return this.runGarbageCollection(txn, activeTargetIds);
+        return this.runGarbageCollection(txn, activeTargetIds, params);
       }
     });
   }
@@ -258,7 +302,8 @@ class LruGarbageCollectorImpl implements LruGarbageCollector {
 
   private runGarbageCollection(
     txn: PersistenceTransaction,
-    activeTargetIds: ActiveTargets
+    activeTargetIds: ActiveTargets,
+    params: LruParams
   ): PersistencePromise<LruResults> {
     let upperBoundSequenceNumber: number;
     let sequenceNumbersToCollect: number, targetsRemoved: number;
@@ -268,18 +313,17 @@ class LruGarbageCollectorImpl implements LruGarbageCollector {
       removedTargetsTs: number,
       removedDocumentsTs: number;
     const startTs = Date.now();
-    return this.calculateTargetCount(txn, this.params.percentileToCollect)
+    return this.calculateTargetCount(txn, params.percentileToCollect)
       .next(sequenceNumbers => {
         // Cap at the configured max
-        if (sequenceNumbers > this.params.maximumSequenceNumbersToCollect) {
+        if (sequenceNumbers > params.maximumSequenceNumbersToCollect) {
           logDebug(
             'LruGarbageCollector',
             'Capping sequence numbers to collect down ' +
-              `to the maximum of ${this.params.maximumSequenceNumbersToCollect} ` +
+              `to the maximum of ${params.maximumSequenceNumbersToCollect} ` +
               `from ${sequenceNumbers}`
           );
-          sequenceNumbersToCollect =
-            this.params.maximumSequenceNumbersToCollect;
+          sequenceNumbersToCollect = params.maximumSequenceNumbersToCollect;
         } else {
           sequenceNumbersToCollect = sequenceNumbers;
         }
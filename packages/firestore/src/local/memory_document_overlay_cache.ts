@@ -161,6 +161,12 @@ export class MemoryDocumentOverlayCache implements DocumentOverlayCache {
     return PersistencePromise.resolve(result);
   }
 
+  getOverlayCount(
+    transaction: PersistenceTransaction
+  ): PersistencePromise<number> {
+    return PersistencePromise.resolve(this.overlays.size);
+  }
+
   private saveOverlay(
     transaction: PersistenceTransaction,
     largestBatchId: number,
@@ -97,6 +97,14 @@ export class MemoryIndexManager implements IndexManager {
     return PersistencePromise.resolve<IndexType>(IndexType.NONE);
   }
 
+  getTargetIndexes(
+    transaction: PersistenceTransaction,
+    target: Target
+  ): PersistencePromise<FieldIndex[]> {
+    // Field indices are not supported with memory persistence.
+    return PersistencePromise.resolve<FieldIndex[]>([]);
+  }
+
   getFieldIndexes(
     transaction: PersistenceTransaction,
     collectionGroup?: string
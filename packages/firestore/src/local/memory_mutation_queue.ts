@@ -21,7 +21,7 @@ import { Timestamp } from '../lite-api/timestamp';
 import { DocumentKey } from '../model/document_key';
 import { Mutation } from '../model/mutation';
 import { MutationBatch } from '../model/mutation_batch';
-import { debugAssert, hardAssert } from '../util/assert';
+import { debugAssert } from '../util/assert';
 import { primitiveComparator } from '../util/misc';
 import { SortedMap } from '../util/sorted_map';
 import { SortedSet } from '../util/sorted_set';
@@ -109,12 +109,7 @@ export class MemoryMutationQueue implements MutationQueue {
     transaction: PersistenceTransaction,
     batchId: BatchId
   ): PersistencePromise<MutationBatch | null> {
-    const nextBatchId = batchId + 1;
-
-    // The requested batchId may still be out of range so normalize it to the
-    // start of the queue.
-    const rawIndex = this.indexOfBatchId(nextBatchId);
-    const index = rawIndex < 0 ? 0 : rawIndex;
+    const index = this.indexOfBatchId(batchId + 1);
     return PersistencePromise.resolve(
       this.mutationQueue.length > index ? this.mutationQueue[index] : null
     );
@@ -122,7 +117,9 @@ export class MemoryMutationQueue implements MutationQueue {
 
   getHighestUnacknowledgedBatchId(): PersistencePromise<BatchId> {
     return PersistencePromise.resolve(
-      this.mutationQueue.length === 0 ? BATCHID_UNKNOWN : this.nextBatchId - 1
+      this.mutationQueue.length === 0
+        ? BATCHID_UNKNOWN
+        : this.mutationQueue[this.mutationQueue.length - 1].batchId
     );
   }
 
@@ -242,13 +239,10 @@ export class MemoryMutationQueue implements MutationQueue {
     transaction: PersistenceTransaction,
     batch: MutationBatch
   ): PersistencePromise<void> {
-    // Find the position of the first batch for removal.
+    // Batches are usually removed from the front of the queue, but pending
+    // writes that the user discards can be anywhere in it.
     const batchIndex = this.indexOfExistingBatchId(batch.batchId, 'removed');
-    hardAssert(
-      batchIndex === 0,
-      'Can only remove the first entry of the mutation queue'
-    );
-    this.mutationQueue.shift();
+    this.mutationQueue.splice(batchIndex, 1);
 
     let references = this.batchesByDocumentKey;
     return PersistencePromise.forEach(batch.mutations, (mutation: Mutation) => {
@@ -299,7 +293,8 @@ export class MemoryMutationQueue implements MutationQueue {
   private indexOfExistingBatchId(batchId: BatchId, action: string): number {
     const index = this.indexOfBatchId(batchId);
     debugAssert(
-      index >= 0 && index < this.mutationQueue.length,
+      index < this.mutationQueue.length &&
+        this.mutationQueue[index].batchId === batchId,
       'Batches must exist to be ' + action
     );
     return index;
@@ -307,25 +302,29 @@ export class MemoryMutationQueue implements MutationQueue {
 
   /**
    * Finds the index of the given batchId in the mutation queue. This operation
-   * is O(1).
+   * is O(log n).
    *
-   * @returns The computed index of the batch with the given batchId, based on
-   * the state of the queue. Note this index can be negative if the requested
-   * batchId has already been removed from the queue or past the end of the
-   * queue if the batchId is larger than the last added batch.
+   * @returns The index of the first batch whose batchId is greater than or
+   * equal to the given batchId. Note this index is past the end of the queue if
+   * the batchId is larger than the last added batch, and that the batch at the
+   * index does not have the requested batchId if that batch has already been
+   * removed from the queue.
    */
   private indexOfBatchId(batchId: BatchId): number {
-    if (this.mutationQueue.length === 0) {
-      // As an index this is past the end of the queue
-      return 0;
+    // The queue is ordered by batchId but can have gaps where batches were
+    // removed out of order, so the index cannot be computed from the batchId
+    // of the first batch.
+    let low = 0;
+    let high = this.mutationQueue.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.mutationQueue[mid].batchId < batchId) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
     }
-
-    // Examine the front of the queue to figure out the difference between the
-    // batchId and indexes in the array. Note that since the queue is ordered
-    // by batchId, if the first batch has a larger batchId then the requested
-    // batchId doesn't exist in the queue.
-    const firstBatchId = this.mutationQueue[0].batchId;
-    return batchId - firstBatchId;
+    return low;
   }
 
   /**
@@ -334,12 +333,12 @@ export class MemoryMutationQueue implements MutationQueue {
    */
   private findMutationBatch(batchId: BatchId): MutationBatch | null {
     const index = this.indexOfBatchId(batchId);
-    if (index < 0 || index >= this.mutationQueue.length) {
+    if (
+      index >= this.mutationQueue.length ||
+      this.mutationQueue[index].batchId !== batchId
+    ) {
       return null;
     }
-
-    const batch = this.mutationQueue[index];
-    debugAssert(batch.batchId === batchId, 'If found batch must match');
-    return batch;
+    return this.mutationQueue[index];
   }
 }
@@ -36,6 +36,7 @@ import { SortedMap } from '../util/sorted_map';
 import { IndexManager } from './index_manager';
 import { PersistencePromise } from './persistence_promise';
 import { PersistenceTransaction } from './persistence_transaction';
+import { QueryContext } from './query_context';
 import { RemoteDocumentCache } from './remote_document_cache';
 import { RemoteDocumentChangeBuffer } from './remote_document_change_buffer';
 
@@ -164,7 +165,8 @@ class MemoryRemoteDocumentCacheImpl implements MemoryRemoteDocumentCache {
     transaction: PersistenceTransaction,
     query: Query,
     offset: IndexOffset,
-    mutatedDocs: OverlayMap
+    mutatedDocs: OverlayMap,
+    context?: QueryContext
   ): PersistencePromise<MutableDocumentMap> {
     let results = mutableDocumentMap();
 
@@ -191,6 +193,7 @@ class MemoryRemoteDocumentCacheImpl implements MemoryRemoteDocumentCache {
         // The document sorts before the offset.
         continue;
       }
+      context?.incrementDocumentReadCount(1);
       if (!mutatedDocs.has(document.key) && !queryMatches(query, document)) {
         // The document cannot possibly match the query.
         continue;
@@ -212,6 +215,16 @@ class MemoryRemoteDocumentCacheImpl implements MemoryRemoteDocumentCache {
     fail('getAllFromCollectionGroup() is not supported.');
   }
 
+  getAllEntries(
+    transaction: PersistenceTransaction
+  ): PersistencePromise<MutableDocumentMap> {
+    let results = mutableDocumentMap();
+    this.docs.forEach((key, { document }) => {
+      results = results.insert(key, document.mutableCopy());
+    });
+    return PersistencePromise.resolve(results);
+  }
+
   forEachDocumentKey(
     transaction: PersistenceTransaction,
     f: (key: DocumentKey) => PersistencePromise<void>
@@ -227,6 +240,10 @@ class MemoryRemoteDocumentCacheImpl implements MemoryRemoteDocumentCache {
     return new MemoryRemoteDocumentChangeBuffer(this);
   }
 
+  getEntryCount(txn: PersistenceTransaction): PersistencePromise<number> {
+    return PersistencePromise.resolve(this.docs.size);
+  }
+
   getSize(txn: PersistenceTransaction): PersistencePromise<number> {
     return PersistencePromise.resolve(this.size);
   }
@@ -162,7 +162,8 @@ export class MemoryTargetCache implements TargetCache {
     this.targets.forEach((key, targetData) => {
       if (
         targetData.sequenceNumber <= upperBound &&
-        activeTargetIds.get(targetData.targetId) === null
+        activeTargetIds.get(targetData.targetId) === null &&
+        !targetData.pinned
       ) {
         this.targets.delete(key);
         removals.push(
@@ -171,6 +172,7 @@ export class MemoryTargetCache implements TargetCache {
         count++;
       }
     });
+    this.targetCount -= count;
     return PersistencePromise.waitFor(removals).next(() => count);
   }
 
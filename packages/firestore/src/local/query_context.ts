@@ -15,6 +15,18 @@
  * limitations under the License.
  */
 
+import { FieldIndex } from '../model/field_index';
+
+/** The strategies the query engine uses to execute a query locally. */
+export const enum QueryStrategy {
+  /** The query was served from the configured or auto-created indexes. */
+  Index = 'INDEX',
+  /** The query re-used the results of its last server snapshot. */
+  PreviousResults = 'PREVIOUS_RESULTS',
+  /** All documents in the collection were scanned. */
+  FullCollectionScan = 'FULL_COLLECTION_SCAN'
+}
+
 /**
  * A tracker to keep a record of important details during database local query
  * execution.
@@ -25,6 +37,15 @@ export class QueryContext {
    */
   private _documentReadCount = 0;
 
+  /** The strategy that produced the query results. */
+  strategy: QueryStrategy | null = null;
+
+  /** The field indexes used to serve the query, if any. */
+  indexesUsed: FieldIndex[] = [];
+
+  /** Whether the query caused the SDK to create cache indexes. */
+  indexAutoCreationTriggered = false;
+
   get documentReadCount(): number {
     return this._documentReadCount;
   }
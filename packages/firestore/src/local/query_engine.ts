@@ -48,7 +48,7 @@ import { IndexManager, IndexType } from './index_manager';
 import { LocalDocumentsView } from './local_documents_view';
 import { PersistencePromise } from './persistence_promise';
 import { PersistenceTransaction } from './persistence_transaction';
-import { QueryContext } from './query_context';
+import { QueryContext, QueryStrategy } from './query_context';
 import { getAndroidVersion } from './simple_db';
 
 const DEFAULT_INDEX_AUTO_CREATION_MIN_COLLECTION_SIZE = 100;
@@ -137,12 +137,18 @@ export class QueryEngine {
     this.initialized = true;
   }
 
-  /** Returns all local documents matching the specified query. */
+  /**
+   * Returns all local documents matching the specified query.
+   *
+   * If `context` is provided, it records the strategy used to execute the
+   * query, the indexes used and the number of documents read.
+   */
   getDocumentsMatchingQuery(
     transaction: PersistenceTransaction,
     query: Query,
     lastLimboFreeSnapshotVersion: SnapshotVersion,
-    remoteKeys: DocumentKeySet
+    remoteKeys: DocumentKeySet,
+    context?: QueryContext
   ): PersistencePromise<DocumentMap> {
     debugAssert(this.initialized, 'initialize() not called');
 
@@ -151,9 +157,17 @@ export class QueryEngine {
     // transaction and improves readability comparatively.
     const queryResult: { result: DocumentMap | null } = { result: null };
 
-    return this.performQueryUsingIndex(transaction, query)
+    return this.performQueryUsingIndex(transaction, query, context)
       .next(result => {
         queryResult.result = result;
+        if (result && context) {
+          context.strategy = QueryStrategy.Index;
+          return this.indexManager
+            .getTargetIndexes(transaction, queryToTarget(query))
+            .next(indexes => {
+              context.indexesUsed = indexes;
+            });
+        }
       })
       .next(() => {
         if (queryResult.result) {
@@ -163,29 +177,42 @@ export class QueryEngine {
           transaction,
           query,
           remoteKeys,
-          lastLimboFreeSnapshotVersion
+          lastLimboFreeSnapshotVersion,
+          context
         ).next(result => {
           queryResult.result = result;
+          if (result && context) {
+            context.strategy = QueryStrategy.PreviousResults;
+          }
         });
       })
       .next(() => {
         if (queryResult.result) {
           return;
         }
-        const context = new QueryContext();
-        return this.executeFullCollectionScan(transaction, query, context).next(
-          result => {
+        // The full collection scan uses its own context, since only the
+        // documents read by the scan count towards index auto-creation.
+        const scanContext = new QueryContext();
+        return this.executeFullCollectionScan(transaction, query, scanContext)
+          .next(result => {
             queryResult.result = result;
             if (this.indexAutoCreationEnabled) {
               return this.createCacheIndexes(
                 transaction,
                 query,
-                context,
+                scanContext,
                 result.size
               );
             }
-          }
-        );
+          })
+          .next(() => {
+            if (context) {
+              context.strategy = QueryStrategy.FullCollectionScan;
+              context.incrementDocumentReadCount(scanContext.documentReadCount);
+              context.indexAutoCreationTriggered =
+                scanContext.indexAutoCreationTriggered;
+            }
+          });
       })
       .next(() => queryResult.result!);
   }
@@ -236,6 +263,7 @@ export class QueryEngine {
           'as using cache indexes may help improve performance.'
         );
       }
+      context.indexAutoCreationTriggered = true;
       return this.indexManager.createTargetIndexes(
         transaction,
         queryToTarget(query)
@@ -251,7 +279,8 @@ export class QueryEngine {
    */
   private performQueryUsingIndex(
     transaction: PersistenceTransaction,
-    query: Query
+    query: Query,
+    context?: QueryContext
   ): PersistencePromise<DocumentMap | null> {
     if (queryMatchesAllDocuments(query)) {
       // Queries that match all documents don't benefit from using
@@ -292,6 +321,7 @@ export class QueryEngine {
             return this.localDocumentsView
               .getDocuments(transaction, sortedKeys)
               .next(indexedDocuments => {
+                context?.incrementDocumentReadCount(indexedDocuments.size);
                 return this.indexManager
                   .getMinOffset(transaction, target)
                   .next(offset => {
@@ -316,7 +346,8 @@ export class QueryEngine {
                       // incorporated.
                       return this.performQueryUsingIndex(
                         transaction,
-                        queryWithLimit(query, null, LimitType.First)
+                        queryWithLimit(query, null, LimitType.First),
+                        context
                       );
                     }
 
@@ -324,7 +355,8 @@ export class QueryEngine {
                       transaction,
                       previousResults,
                       query,
-                      offset
+                      offset,
+                      context
                     ) as PersistencePromise<DocumentMap | null>;
                   });
               });
@@ -340,7 +372,8 @@ export class QueryEngine {
     transaction: PersistenceTransaction,
     query: Query,
     remoteKeys: DocumentKeySet,
-    lastLimboFreeSnapshotVersion: SnapshotVersion
+    lastLimboFreeSnapshotVersion: SnapshotVersion,
+    context?: QueryContext
   ): PersistencePromise<DocumentMap | null> {
     if (queryMatchesAllDocuments(query)) {
       // Queries that match all documents don't benefit from using
@@ -357,6 +390,7 @@ export class QueryEngine {
 
     return this.localDocumentsView!.getDocuments(transaction, remoteKeys).next(
       documents => {
+        context?.incrementDocumentReadCount(documents.size);
         const previousResults = this.applyQuery(query, documents);
 
         if (
@@ -388,7 +422,8 @@ export class QueryEngine {
           newIndexOffsetSuccessorFromReadTime(
             lastLimboFreeSnapshotVersion,
             INITIAL_LARGEST_BATCH_ID
-          )
+          ),
+          context
         ).next<DocumentMap | null>(results => results);
       }
     );
@@ -490,11 +525,12 @@ export class QueryEngine {
     transaction: PersistenceTransaction,
     indexedResults: Iterable<Document>,
     query: Query,
-    offset: IndexOffset
+    offset: IndexOffset,
+    context?: QueryContext
   ): PersistencePromise<DocumentMap> {
     // Retrieve all results for documents that were updated since the offset.
     return this.localDocumentsView
-      .getDocumentsMatchingQuery(transaction, query, offset)
+      .getDocumentsMatchingQuery(transaction, query, offset, context)
       .next(remainingResults => {
         // Merge with existing results
         indexedResults.forEach(d => {
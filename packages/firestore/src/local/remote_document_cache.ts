@@ -99,6 +99,14 @@ export interface RemoteDocumentCache {
     limit: number
   ): PersistencePromise<MutableDocumentMap>;
 
+  /**
+   * Returns all entries in the cache, including the documents that are known
+   * to not exist.
+   */
+  getAllEntries(
+    transaction: PersistenceTransaction
+  ): PersistencePromise<MutableDocumentMap>;
+
   /**
    * Provides access to add or update the contents of the cache. The buffer
    * handles proper size accounting for the change.
@@ -113,6 +121,14 @@ export interface RemoteDocumentCache {
     trackRemovals: boolean;
   }): RemoteDocumentChangeBuffer;
 
+  /**
+   * Returns the number of entries in the cache, including the documents that
+   * are known to not exist.
+   */
+  getEntryCount(
+    transaction: PersistenceTransaction
+  ): PersistencePromise<number>;
+
   /**
    * Get an estimate of the size of the document cache. Note that for eager
    * garbage collection, we don't track sizes so this will return 0.
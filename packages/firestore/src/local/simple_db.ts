@@ -22,6 +22,7 @@ import { Code, FirestoreError } from '../util/error';
 import { logDebug, logError } from '../util/log';
 import { Deferred } from '../util/promise';
 
+import { newKeyValueKeyRange } from './key_value_indexeddb';
 import { PersistencePromise } from './persistence_promise';
 
 // References to `window` are guarded by SimpleDb.isAvailable()
@@ -160,10 +161,15 @@ export class SimpleDb {
   private db?: IDBDatabase;
   private versionchangelistener?: (event: IDBVersionChangeEvent) => void;
 
-  /** Deletes the specified database. */
-  static delete(name: string): Promise<void> {
+  /**
+   * Deletes the specified database from `factory`, or from the environment's
+   * IndexedDB if no factory is provided.
+   */
+  static delete(name: string, factory?: IDBFactory): Promise<void> {
     logDebug(LOG_TAG, 'Removing database:', name);
-    return wrapRequest<void>(window.indexedDB.deleteDatabase(name)).toPromise();
+    return wrapRequest<void>(
+      (factory ?? window.indexedDB).deleteDatabase(name)
+    ).toPromise();
   }
 
   /** Returns true if IndexedDB is available in the current environment. */
@@ -254,14 +260,18 @@ export class SimpleDb {
    * versioning outside of IndexedDB's versioning mechanism, as only
    * version-upgrade transactions are allowed to do things like create
    * objectstores.
+   *
+   * If `factory` is provided, the database is opened with it instead of the
+   * environment's IndexedDB. This allows running on top of other storage.
    */
   constructor(
     private readonly name: string,
     private readonly version: number,
-    private readonly schemaConverter: SimpleDbSchemaConverter
+    private readonly schemaConverter: SimpleDbSchemaConverter,
+    private readonly factory?: IDBFactory
   ) {
     debugAssert(
-      SimpleDb.isAvailable(),
+      !!factory || SimpleDb.isAvailable(),
       'IndexedDB not supported in current environment.'
     );
 
@@ -292,7 +302,10 @@ export class SimpleDb {
         // suggests IE9 and older WebKit browsers handle upgrade
         // differently. They expect setVersion, as described here:
         // https://developer.mozilla.org/en-US/docs/Web/API/IDBVersionChangeRequest/setVersion
-        const request = indexedDB.open(this.name, this.version);
+        const request = (this.factory ?? indexedDB).open(
+          this.name,
+          this.version
+        );
 
         request.onsuccess = (event: Event) => {
           const db = (event.target as IDBOpenDBRequest).result;
@@ -460,6 +473,42 @@ export class SimpleDb {
   }
 }
 
+/**
+ * Creates the key ranges used with `SimpleDbStore`. Uses the environment's
+ * `IDBKeyRange` if available, and ranges that are understood by the key-value
+ * backed IndexedDB implementation otherwise.
+ */
+export class SimpleDbKeyRange {
+  static only(value: IDBValidKey): IDBKeyRange {
+    return typeof IDBKeyRange !== 'undefined'
+      ? IDBKeyRange.only(value)
+      : newKeyValueKeyRange(value, value, false, false);
+  }
+
+  static lowerBound(lower: IDBValidKey, open = false): IDBKeyRange {
+    return typeof IDBKeyRange !== 'undefined'
+      ? IDBKeyRange.lowerBound(lower, open)
+      : newKeyValueKeyRange(lower, undefined, open, false);
+  }
+
+  static upperBound(upper: IDBValidKey, open = false): IDBKeyRange {
+    return typeof IDBKeyRange !== 'undefined'
+      ? IDBKeyRange.upperBound(upper, open)
+      : newKeyValueKeyRange(undefined, upper, false, open);
+  }
+
+  static bound(
+    lower: IDBValidKey,
+    upper: IDBValidKey,
+    lowerOpen = false,
+    upperOpen = false
+  ): IDBKeyRange {
+    return typeof IDBKeyRange !== 'undefined'
+      ? IDBKeyRange.bound(lower, upper, lowerOpen, upperOpen)
+      : newKeyValueKeyRange(lower, upper, lowerOpen, upperOpen);
+  }
+}
+
 /** Parse User Agent to determine Android version. Returns -1 if not found. */
 export function getAndroidVersion(ua: string): number {
   const androidVersionRegex = ua.match(/Android ([\d.]+)/i);
@@ -79,7 +79,12 @@ export class TargetData {
      * read time. Documents are counted only when making a listen request with
      * resume token or read time, otherwise, keep it null.
      */
-    readonly expectedCount: number | null = null
+    readonly expectedCount: number | null = null,
+    /**
+     * Whether the target was pinned with `keepSynced()`. Pinned targets are
+     * kept in the target cache and are not removed by garbage collection.
+     */
+    readonly pinned: boolean = false
   ) {}
 
   /** Creates a new target data instance with an updated sequence number. */
@@ -92,7 +97,8 @@ export class TargetData {
       this.snapshotVersion,
       this.lastLimboFreeSnapshotVersion,
       this.resumeToken,
-      this.expectedCount
+      this.expectedCount,
+      this.pinned
     );
   }
 
@@ -112,7 +118,8 @@ export class TargetData {
       snapshotVersion,
       this.lastLimboFreeSnapshotVersion,
       resumeToken,
-      /* expectedCount= */ null
+      /* expectedCount= */ null,
+      this.pinned
     );
   }
 
@@ -128,7 +135,8 @@ export class TargetData {
       this.snapshotVersion,
       this.lastLimboFreeSnapshotVersion,
       this.resumeToken,
-      expectedCount
+      expectedCount,
+      this.pinned
     );
   }
 
@@ -147,7 +155,23 @@ export class TargetData {
       this.snapshotVersion,
       lastLimboFreeSnapshotVersion,
       this.resumeToken,
-      this.expectedCount
+      this.expectedCount,
+      this.pinned
+    );
+  }
+
+  /** Creates a new target data instance with an updated pinned state. */
+  withPinned(pinned: boolean): TargetData {
+    return new TargetData(
+      this.target,
+      this.targetId,
+      this.purpose,
+      this.sequenceNumber,
+      this.snapshotVersion,
+      this.lastLimboFreeSnapshotVersion,
+      this.resumeToken,
+      this.expectedCount,
+      pinned
     );
   }
 }
@@ -0,0 +1,370 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  MapValue as ProtoMapValue,
+  Value as ProtoValue
+} from '../protos/firestore_proto_api';
+import { fail } from '../util/assert';
+import { Code, FirestoreError } from '../util/error';
+import { forEach } from '../util/obj';
+
+import { DocumentKey } from './document_key';
+import {
+  FieldTransform,
+  Mutation,
+  PatchMutation,
+  SetMutation
+} from './mutation';
+import { normalizeByteString } from './normalize';
+import { ObjectValue } from './object_value';
+import { FieldPath, ResourcePath } from './path';
+import {
+  ArrayUnionTransformOperation,
+  NumericIncrementTransformOperation,
+  ServerTimestampTransform
+} from './transform_operation';
+import { TypeOrder } from './type_order';
+import { canonicalId, typeOrder } from './values';
+
+/** The maximum size of a document, in bytes. */
+export const MAX_DOCUMENT_SIZE_BYTES = 1024 * 1024;
+
+/** The maximum number of fields of a document, including nested fields. */
+export const MAX_DOCUMENT_FIELDS = 20000;
+
+/** The maximum number of index entries of a document. */
+export const MAX_DOCUMENT_INDEX_ENTRIES = 40000;
+
+/** The maximum depth of nested maps and arrays in a document. */
+export const MAX_FIELD_DEPTH = 20;
+
+/** The maximum number of writes in a single commit. */
+export const MAX_WRITES_PER_COMMIT = 500;
+
+/** The maximum size of the writes in a single commit, in bytes. */
+export const MAX_COMMIT_SIZE_BYTES = 10 * 1024 * 1024;
+
+/**
+ * The number of bytes the backend adds to the size of every document and
+ * document name.
+ */
+const DOCUMENT_OVERHEAD_BYTES = 32;
+const DOCUMENT_NAME_OVERHEAD_BYTES = 16;
+
+/** The estimated storage size and index usage of a field value. */
+interface ValueStats {
+  /** The storage size in bytes. */
+  size: number;
+  /** The number of nested fields, not counting the field itself. */
+  fields: number;
+  /** The number of single-field index entries. */
+  indexEntries: number;
+  /** The number of nested maps and arrays. */
+  depth: number;
+}
+
+/** A document limit that is exceeded, and the field that contributes most. */
+export interface DocumentLimitViolation {
+  readonly reason: string;
+  readonly field: FieldPath | null;
+}
+
+/**
+ * Returns the number of bytes of the UTF-8 encoding of `value`, which is how
+ * the backend measures the size of strings.
+ */
+function utf8Length(value: string): number {
+  let length = 0;
+  for (let i = 0; i < value.length; ++i) {
+    const charCode = value.charCodeAt(i);
+    if (charCode < 0x80) {
+      length += 1;
+    } else if (charCode < 0x800) {
+      length += 2;
+    } else if (
+      charCode >= 0xd800 &&
+      charCode <= 0xdbff &&
+      i + 1 < value.length
+    ) {
+      // A surrogate pair encodes a single code point of four bytes.
+      length += 4;
+      ++i;
+    } else {
+      length += 3;
+    }
+  }
+  return length;
+}
+
+function stringSize(value: string): number {
+  return utf8Length(value) + 1;
+}
+
+/**
+ * Returns the storage size of a document name, which is the size of its
+ * collection and document IDs plus a fixed overhead.
+ */
+export function documentNameSize(path: ResourcePath): number {
+  let size = DOCUMENT_NAME_OVERHEAD_BYTES;
+  path.forEach(segment => {
+    size += stringSize(segment);
+  });
+  return size;
+}
+
+function referenceValueSize(referenceValue: string): number {
+  // Reference values are of the form
+  // `projects/{projectId}/databases/{databaseId}/documents/{path}`.
+  return documentNameSize(
+    ResourcePath.fromString(referenceValue).popFirst(5)
+  );
+}
+
+function valueStats(value: ProtoValue): ValueStats {
+  switch (typeOrder(value)) {
+    case TypeOrder.NullValue:
+    case TypeOrder.BooleanValue:
+      return { size: 1, fields: 0, indexEntries: 2, depth: 0 };
+    case TypeOrder.NumberValue:
+    case TypeOrder.TimestampValue:
+    case TypeOrder.ServerTimestampValue:
+      return { size: 8, fields: 0, indexEntries: 2, depth: 0 };
+    case TypeOrder.StringValue:
+      return {
+        size: stringSize(value.stringValue!),
+        fields: 0,
+        indexEntries: 2,
+        depth: 0
+      };
+    case TypeOrder.BlobValue:
+      return {
+        size: normalizeByteString(value.bytesValue!).approximateByteSize(),
+        fields: 0,
+        indexEntries: 2,
+        depth: 0
+      };
+    case TypeOrder.RefValue:
+      return {
+        size: referenceValueSize(value.referenceValue!),
+        fields: 0,
+        indexEntries: 2,
+        depth: 0
+      };
+    case TypeOrder.GeoPointValue:
+      return { size: 16, fields: 0, indexEntries: 2, depth: 0 };
+    case TypeOrder.ArrayValue:
+      return arrayStats(value.arrayValue!.values || []);
+    case TypeOrder.VectorValue:
+    case TypeOrder.ObjectValue:
+      return mapStats(value.mapValue!);
+    default:
+      throw fail('Invalid value type: ' + JSON.stringify(value));
+  }
+}
+
+function mapStats(mapValue: ProtoMapValue): ValueStats {
+  const stats: ValueStats = { size: 0, fields: 0, indexEntries: 0, depth: 1 };
+  forEach(mapValue.fields || {}, (key, value) => {
+    const fieldStats = valueStats(value);
+    stats.size += stringSize(key) + fieldStats.size;
+    stats.fields += 1 + fieldStats.fields;
+    stats.indexEntries += fieldStats.indexEntries;
+    stats.depth = Math.max(stats.depth, fieldStats.depth + 1);
+  });
+  return stats;
+}
+
+function arrayStats(values: ProtoValue[]): ValueStats {
+  // Arrays are indexed with one `array-contains` entry per distinct element.
+  const distinctValues = new Set<string>();
+  const stats: ValueStats = { size: 0, fields: 0, indexEntries: 0, depth: 1 };
+  for (const value of values) {
+    const elementStats = valueStats(value);
+    stats.size += elementStats.size;
+    stats.fields += elementStats.fields;
+    stats.depth = Math.max(stats.depth, elementStats.depth + 1);
+    distinctValues.add(canonicalId(value));
+  }
+  stats.indexEntries = distinctValues.size;
+  return stats;
+}
+
+/**
+ * Returns the number of bytes that a field transform adds to the size of a
+ * document. Removing array elements is assumed to not change the size.
+ */
+function fieldTransformSize(fieldTransform: FieldTransform): number {
+  const transform = fieldTransform.transform;
+  let size = 0;
+  fieldTransform.field.forEach(segment => {
+    size += stringSize(segment);
+  });
+  if (transform instanceof ServerTimestampTransform) {
+    size += 8;
+  } else if (transform instanceof NumericIncrementTransformOperation) {
+    size += valueStats(transform.operand).size;
+  } else if (transform instanceof ArrayUnionTransformOperation) {
+    size += arrayStats(transform.elements).size;
+  }
+  return size;
+}
+
+/**
+ * Returns the estimated storage size of a document with the given data, as
+ * defined by https://firebase.google.com/docs/firestore/storage-size.
+ */
+export function documentSize(
+  key: DocumentKey,
+  data: ObjectValue,
+  fieldTransforms: FieldTransform[] = []
+): number {
+  return (
+    documentNameSize(key.path) +
+    mapStats(data.value.mapValue).size +
+    fieldTransforms.reduce(
+      (size, fieldTransform) => size + fieldTransformSize(fieldTransform),
+      0
+    ) +
+    DOCUMENT_OVERHEAD_BYTES
+  );
+}
+
+/** Returns the estimated number of bytes that `mutation` writes. */
+export function mutationSize(mutation: Mutation): number {
+  let data = ObjectValue.empty();
+  if (mutation instanceof SetMutation) {
+    data = mutation.value;
+  } else if (mutation instanceof PatchMutation) {
+    data = mutation.data;
+  }
+  return documentSize(mutation.key, data, mutation.fieldTransforms);
+}
+
+/**
+ * Checks `data`, which is written to the document `key`, against the
+ * document size, field count, index entry and nesting depth limits of the
+ * backend.
+ *
+ * If the data is merged into an existing document, only the written data is
+ * checked.
+ *
+ * @returns A description of the first limit that is exceeded and the
+ * top-level field that contributes most to it, or `null` if no limit is
+ * exceeded.
+ */
+export function validateDocumentLimits(
+  key: DocumentKey,
+  data: ObjectValue,
+  fieldTransforms: FieldTransform[]
+): DocumentLimitViolation | null {
+  const fieldStats = new Map<string, ValueStats>();
+  const totals: ValueStats = { size: 0, fields: 0, indexEntries: 0, depth: 0 };
+  forEach(data.value.mapValue.fields || {}, (field, value) => {
+    const stats = valueStats(value);
+    fieldStats.set(field, stats);
+    totals.fields += 1 + stats.fields;
+    totals.indexEntries += stats.indexEntries;
+    totals.depth = Math.max(totals.depth, stats.depth);
+  });
+
+  // Returns the top-level field that contributes most to `stat`.
+  const largestField = (stat: keyof ValueStats): FieldPath | null => {
+    let largest: string | null = null;
+    let largestValue = -1;
+    fieldStats.forEach((stats, field) => {
+      if (stats[stat] > largestValue) {
+        largest = field;
+        largestValue = stats[stat];
+      }
+    });
+    return largest === null ? null : new FieldPath([largest]);
+  };
+
+  const size = documentSize(key, data, fieldTransforms);
+  if (size > MAX_DOCUMENT_SIZE_BYTES) {
+    return {
+      reason:
+        `Document has an estimated size of ${size} bytes, which exceeds ` +
+        `the maximum of ${MAX_DOCUMENT_SIZE_BYTES} bytes`,
+      field: largestField('size')
+    };
+  }
+  if (totals.fields > MAX_DOCUMENT_FIELDS) {
+    return {
+      reason:
+        `Document has ${totals.fields} fields, which exceeds the maximum ` +
+        `of ${MAX_DOCUMENT_FIELDS} fields`,
+      field: largestField('fields')
+    };
+  }
+  if (totals.indexEntries > MAX_DOCUMENT_INDEX_ENTRIES) {
+    return {
+      reason:
+        `Document has an estimated ${totals.indexEntries} index entries, ` +
+        `which exceeds the maximum of ${MAX_DOCUMENT_INDEX_ENTRIES} index ` +
+        `entries`,
+      field: largestField('indexEntries')
+    };
+  }
+  if (totals.depth > MAX_FIELD_DEPTH) {
+    return {
+      reason:
+        `Document contains ${totals.depth} levels of nested maps and ` +
+        `arrays, which exceeds the maximum of ${MAX_FIELD_DEPTH} levels`,
+      field: largestField('depth')
+    };
+  }
+  return null;
+}
+
+/**
+ * Checks the writes of a commit against the write count and request size
+ * limits of the backend.
+ *
+ * @throws FirestoreError - If a limit is exceeded.
+ */
+export function validateCommitLimits(mutations: Mutation[]): void {
+  if (mutations.length > MAX_WRITES_PER_COMMIT) {
+    throw new FirestoreError(
+      Code.INVALID_ARGUMENT,
+      `A commit can contain at most ${MAX_WRITES_PER_COMMIT} writes, but ` +
+        `it contains ${mutations.length} writes.`
+    );
+  }
+
+  let size = 0;
+  let largestMutation: Mutation | null = null;
+  let largestMutationSize = 0;
+  for (const mutation of mutations) {
+    const currentSize = mutationSize(mutation);
+    size += currentSize;
+    if (currentSize > largestMutationSize) {
+      largestMutation = mutation;
+      largestMutationSize = currentSize;
+    }
+  }
+  if (size > MAX_COMMIT_SIZE_BYTES) {
+    throw new FirestoreError(
+      Code.INVALID_ARGUMENT,
+      `The writes of a commit have an estimated size of ${size} bytes, ` +
+        `which exceeds the maximum of ${MAX_COMMIT_SIZE_BYTES} bytes. The ` +
+        `largest write is to document ${largestMutation!.key} ` +
+        `(${largestMutationSize} bytes).`
+    );
+  }
+}
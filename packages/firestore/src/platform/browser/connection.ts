@@ -21,10 +21,24 @@ import { ConnectivityMonitor } from '../../remote/connectivity_monitor';
 import { NoopConnectivityMonitor } from '../../remote/connectivity_monitor_noop';
 
 import { BrowserConnectivityMonitor } from './connectivity_monitor';
+import {
+  FetchStreamConnection,
+  supportsRequestStreams
+} from './fetch_stream_connection';
 import { WebChannelConnection } from './webchannel_connection';
 
-/** Initializes the WebChannelConnection for the browser. */
+/**
+ * Initializes the WebChannelConnection for the browser, or the
+ * FetchStreamConnection if the Fetch API transport was selected.
+ */
 export function newConnection(databaseInfo: DatabaseInfo): Connection {
+  if (databaseInfo.experimentalTransport === 'fetch') {
+    return new FetchStreamConnection(
+      databaseInfo,
+      fetch.bind(null),
+      databaseInfo.forceLongPolling || !supportsRequestStreams()
+    );
+  }
   return new WebChannelConnection(databaseInfo);
 }
 
@@ -0,0 +1,588 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Token } from '../../api/credentials';
+import { DatabaseInfo } from '../../core/database_info';
+import {
+  CommitResponse,
+  ListenRequest,
+  ListenResponse,
+  Target as ProtoTarget,
+  TargetChange as ProtoTargetChange,
+  WriteRequest,
+  WriteResponse
+} from '../../protos/firestore_proto_api';
+import { Stream } from '../../remote/connection';
+import { mapCodeFromRpcStatus } from '../../remote/rpc_error';
+import { StreamBridge } from '../../remote/stream_bridge';
+import { generateUniqueDebugId } from '../../util/debug_uid';
+import { Code, FirestoreError } from '../../util/error';
+import { logDebug, logWarn } from '../../util/log';
+import { StringMap } from '../../util/types';
+import {
+  errorFromResponse,
+  FetchConnection
+} from '../browser_lite/fetch_connection';
+
+const LOG_TAG = 'FetchStreamConnection';
+
+/**
+ * The stream token of write streams that are emulated with Commit RPCs. The
+ * token is never sent to the backend.
+ */
+const EMULATED_STREAM_TOKEN = 'AA==';
+
+/** The error sent by the backend in place of a stream message. */
+interface StreamError {
+  error?: { status?: string; message?: string };
+}
+
+/**
+ * Returns whether the `fetch` implementation of the runtime can send request
+ * bodies as streams, which is required to send messages on a stream while
+ * receiving its responses.
+ */
+export function supportsRequestStreams(): boolean {
+  try {
+    let duplexAccessed = false;
+    const hasContentType = new Request('https://firestore.googleapis.com', {
+      body: new ReadableStream(),
+      method: 'POST',
+      get duplex() {
+        duplexAccessed = true;
+        return 'half';
+      }
+    } as RequestInit).headers.has('Content-Type');
+    return duplexAccessed && !hasContentType;
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Splits the body of a response that uses server-sent events (`alt=sse`) into
+ * the JSON messages of its events.
+ */
+export class ServerSentEventDecoder {
+  private buffer = '';
+
+  /**
+   * Appends `chunk` to the data received so far and returns the messages of
+   * all events that are complete.
+   */
+  decode(chunk: string): unknown[] {
+    this.buffer += chunk;
+    const messages: unknown[] = [];
+    let end = this.buffer.search(/\r?\n\r?\n/);
+    while (end !== -1) {
+      const event = this.buffer.substring(0, end);
+      this.buffer = this.buffer.substring(end).replace(/^\r?\n\r?\n/, '');
+      const data = event
+        .split(/\r?\n/)
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.substring('data:'.length).replace(/^ /, ''))
+        .join('\n');
+      if (data) {
+        messages.push(JSON.parse(data));
+      }
+      end = this.buffer.search(/\r?\n\r?\n/);
+    }
+    return messages;
+  }
+}
+
+/**
+ * Tracks whether a stream is closed and guards the callbacks of its
+ * StreamBridge, so that no events are delivered once it is closed.
+ */
+class FetchStream<Req, Resp> {
+  readonly bridge: StreamBridge<Req, Resp>;
+  closed = false;
+  private connected = false;
+
+  constructor(
+    private readonly rpcName: string,
+    private readonly streamId: string,
+    sendFn: (msg: Req) => void,
+    private readonly abortFn: () => void
+  ) {
+    this.bridge = new StreamBridge<Req, Resp>({
+      sendFn: (msg: Req) => {
+        if (!this.closed) {
+          logDebug(
+            LOG_TAG,
+            `RPC '${rpcName}' stream ${streamId} sending:`,
+            msg
+          );
+          sendFn(msg);
+        } else {
+          logDebug(
+            LOG_TAG,
+            `Not sending because RPC '${rpcName}' stream ${streamId} ` +
+              'is closed:',
+            msg
+          );
+        }
+      },
+      closeFn: () => {
+        if (!this.closed) {
+          this.closed = true;
+          abortFn();
+        }
+      }
+    });
+  }
+
+  /**
+   * Notifies the stream's listener asynchronously that it can send. Streams
+   * that do not wait for a response from the backend are `connected` at once.
+   */
+  open(connected: boolean): void {
+    setTimeout(() => {
+      if (connected) {
+        this.connect();
+      }
+      if (!this.closed) {
+        this.bridge.callOnOpen();
+      }
+    }, 0);
+  }
+
+  /** Notifies the stream's listener once the backend responded. */
+  connect(): void {
+    if (!this.closed && !this.connected) {
+      this.connected = true;
+      logDebug(
+        LOG_TAG,
+        `RPC '${this.rpcName}' stream ${this.streamId} transport opened.`
+      );
+      this.bridge.callOnConnected();
+    }
+  }
+
+  /**
+   * Delivers a message received from the backend, or closes the stream if the
+   * message is an error.
+   */
+  receive(msg: Resp): void {
+    if (this.closed) {
+      return;
+    }
+    const error = (msg as StreamError).error;
+    if (error) {
+      logDebug(
+        LOG_TAG,
+        `RPC '${this.rpcName}' stream ${this.streamId} received error:`,
+        error
+      );
+      let code = mapCodeFromRpcStatus(error.status ?? '');
+      let message = error.message ?? '';
+      if (code === undefined) {
+        code = Code.INTERNAL;
+        message =
+          'Unknown error status: ' + error.status + ' with message ' + message;
+      }
+      this.close(new FirestoreError(code, message));
+    } else {
+      logDebug(
+        LOG_TAG,
+        `RPC '${this.rpcName}' stream ${this.streamId} received:`,
+        msg
+      );
+      this.bridge.callOnMessage(msg);
+    }
+  }
+
+  /** Closes the stream, either because it ended or because it failed. */
+  close(error?: FirestoreError): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.abortFn();
+    if (error) {
+      logWarn(
+        LOG_TAG,
+        `RPC '${this.rpcName}' stream ${this.streamId} transport errored:`,
+        error
+      );
+    } else {
+      logDebug(
+        LOG_TAG,
+        `RPC '${this.rpcName}' stream ${this.streamId} transport closed`
+      );
+    }
+    this.bridge.callOnClose(error);
+  }
+
+  /** Closes the stream with the error that made a request fail. */
+  fail(e: unknown): void {
+    this.close(
+      e instanceof FirestoreError
+        ? e
+        : new FirestoreError(
+            Code.UNAVAILABLE,
+            'The operation could not be completed'
+          )
+    );
+  }
+}
+
+/**
+ * A connection that runs streams over the Fetch API, for runtimes that
+ * support neither WebChannel nor gRPC (e.g. Cloudflare Workers or Deno).
+ *
+ * Messages are sent as a JSON array in a streamed request body and received as
+ * server-sent events. Runtimes that cannot stream request bodies use long
+ * polling instead: the Listen stream re-sends its request with all active
+ * targets whenever they change, and the Write stream sends every batch of
+ * writes with a separate Commit RPC.
+ */
+export class FetchStreamConnection extends FetchConnection {
+  /**
+   * @param databaseInfo - The connection info.
+   * @param fetchImpl - `fetch` or a Polyfill that implements the fetch API.
+   * @param useLongPolling - Whether to use long polling instead of streaming
+   * request bodies.
+   */
+  constructor(
+    databaseInfo: DatabaseInfo,
+    fetchImpl: typeof fetch,
+    private readonly useLongPolling: boolean
+  ) {
+    super(databaseInfo, fetchImpl);
+  }
+
+  openStream<Req, Resp>(
+    rpcName: string,
+    authToken: Token | null,
+    appCheckToken: Token | null
+  ): Stream<Req, Resp> {
+    const streamId = generateUniqueDebugId();
+    const documentsPath = this.databasePath + '/documents';
+    const headers = this.makeHeaders(authToken, appCheckToken);
+
+    if (!this.useLongPolling) {
+      const url = this.makeUrl(rpcName, documentsPath) + '?alt=sse';
+      logDebug(LOG_TAG, `Creating RPC '${rpcName}' stream ${streamId}: ${url}`);
+      return this.openDuplexStream(rpcName, streamId, url, headers);
+    } else if (rpcName === 'Write') {
+      const url = this.makeUrl('Commit', documentsPath);
+      logDebug(
+        LOG_TAG,
+        `Creating RPC '${rpcName}' stream ${streamId} using Commit: ${url}`
+      );
+      return this.openCommitStream(
+        rpcName,
+        streamId,
+        url,
+        headers
+      ) as unknown as Stream<Req, Resp>;
+    } else {
+      const url = this.makeUrl(rpcName, documentsPath) + '?alt=sse';
+      logDebug(
+        LOG_TAG,
+        `Creating RPC '${rpcName}' stream ${streamId} using long polling: ` +
+          url
+      );
+      return this.openLongPollingListenStream(
+        rpcName,
+        streamId,
+        url,
+        headers
+      ) as unknown as Stream<Req, Resp>;
+    }
+  }
+
+  /**
+   * Opens a stream with a single request, whose body is streamed as messages
+   * are sent.
+   */
+  private openDuplexStream<Req, Resp>(
+    rpcName: string,
+    streamId: string,
+    url: string,
+    headers: StringMap
+  ): Stream<Req, Resp> {
+    const abortController = new AbortController();
+    const encoder = new TextEncoder();
+    let requestBody: ReadableStreamDefaultController<Uint8Array>;
+    const body = new ReadableStream<Uint8Array>({
+      start: controller => {
+        requestBody = controller;
+      }
+    });
+
+    // The request body is a JSON array with one element per message.
+    let messagesSent = 0;
+    const stream = new FetchStream<Req, Resp>(
+      rpcName,
+      streamId,
+      msg => {
+        const separator = messagesSent++ === 0 ? '[' : ',';
+        requestBody.enqueue(encoder.encode(separator + JSON.stringify(msg)));
+      },
+      () => abortController.abort()
+    );
+
+    this.fetchImpl(url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: abortController.signal,
+      duplex: 'half'
+    } as RequestInit)
+      .then(response =>
+        readResponse(stream, response, msg => stream.receive(msg))
+      )
+      .then(
+        () => stream.close(),
+        e => stream.fail(e)
+      );
+    stream.open(/* connected= */ false);
+    return stream.bridge;
+  }
+
+  /**
+   * Opens a Listen stream that sends a new request with all active targets
+   * whenever a target is added or removed, and whenever the backend ends the
+   * previous request.
+   */
+  private openLongPollingListenStream(
+    rpcName: string,
+    streamId: string,
+    url: string,
+    headers: StringMap
+  ): Stream<ListenRequest, ListenResponse> {
+    // The messages that added the active targets, by target ID.
+    const targets = new Map<number, ListenRequest>();
+    // The targets whose addition the backend has acknowledged already.
+    const acknowledgedTargets = new Set<number>();
+    let abortController: AbortController | null = null;
+    let pollScheduled = false;
+
+    const receive = (msg: ListenResponse): void => {
+      const targetChange = msg.targetChange;
+      const targetIds = targetChange?.targetIds ?? [];
+      if (targetChange?.resumeToken || targetChange?.readTime) {
+        // Resume the next request from the latest consistent snapshot, so that
+        // the backend sends a RESET if documents changed in between. A change
+        // without target IDs applies to all targets.
+        const resumedTargetIds =
+          targetIds.length > 0 ? targetIds : Array.from(targets.keys());
+        for (const targetId of resumedTargetIds) {
+          const request = targets.get(targetId);
+          if (request) {
+            targets.set(targetId, {
+              ...request,
+              addTarget: withResumePoint(request.addTarget!, targetChange)
+            });
+          }
+        }
+      }
+      if (targetChange?.targetChangeType === 'ADD') {
+        // Every request adds all active targets again. Only the first
+        // addition of a target is expected by the caller.
+        const addedTargetIds = targetIds.filter(
+          targetId => !acknowledgedTargets.has(targetId)
+        );
+        if (addedTargetIds.length === 0) {
+          return;
+        }
+        addedTargetIds.forEach(targetId => acknowledgedTargets.add(targetId));
+        msg = {
+          ...msg,
+          targetChange: { ...targetChange, targetIds: addedTargetIds }
+        };
+      } else if (targetChange?.targetChangeType === 'REMOVE') {
+        for (const targetId of targetIds) {
+          targets.delete(targetId);
+          acknowledgedTargets.delete(targetId);
+        }
+      }
+      stream.receive(msg);
+    };
+
+    const poll = (): void => {
+      abortController?.abort();
+      abortController = null;
+      if (stream.closed || targets.size === 0) {
+        return;
+      }
+      const controller = new AbortController();
+      abortController = controller;
+      this.fetchImpl(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(Array.from(targets.values())),
+        signal: controller.signal
+      })
+        .then(response => readResponse(stream, response, receive))
+        .then(
+          () => {
+            if (abortController === controller) {
+              poll();
+            }
+          },
+          e => {
+            if (abortController === controller) {
+              stream.fail(e);
+            }
+          }
+        );
+    };
+
+    const stream = new FetchStream<ListenRequest, ListenResponse>(
+      rpcName,
+      streamId,
+      msg => {
+        if (msg.addTarget) {
+          targets.set(msg.addTarget.targetId!, msg);
+        } else if (msg.removeTarget !== undefined) {
+          const targetId = msg.removeTarget;
+          targets.delete(targetId);
+          acknowledgedTargets.delete(targetId);
+          // The backend never learns about the removal, since the target is
+          // omitted from the next request. Acknowledge it on its behalf.
+          setTimeout(
+            () =>
+              stream.receive({
+                targetChange: {
+                  targetChangeType: 'REMOVE',
+                  targetIds: [targetId]
+                }
+              }),
+            0
+          );
+        }
+        // Batch the targets that are changed together into one request.
+        if (!pollScheduled) {
+          pollScheduled = true;
+          setTimeout(() => {
+            pollScheduled = false;
+            poll();
+          }, 0);
+        }
+      },
+      () => abortController?.abort()
+    );
+    stream.open(/* connected= */ true);
+    return stream.bridge;
+  }
+
+  /**
+   * Opens a Write stream that sends every batch of writes with a Commit RPC.
+   * The handshake is answered locally.
+   */
+  private openCommitStream(
+    rpcName: string,
+    streamId: string,
+    url: string,
+    headers: StringMap
+  ): Stream<WriteRequest, WriteResponse> {
+    let commits = Promise.resolve();
+    const stream = new FetchStream<WriteRequest, WriteResponse>(
+      rpcName,
+      streamId,
+      msg => {
+        if (!msg.writes) {
+          setTimeout(
+            () => stream.receive({ streamToken: EMULATED_STREAM_TOKEN }),
+            0
+          );
+          return;
+        }
+        // Writes are acknowledged in the order they were sent. Commits that
+        // are still queued once the stream closed are not sent, since the
+        // client sends their writes again on the next stream.
+        commits = commits
+          .then(() => {
+            if (stream.closed) {
+              return;
+            }
+            return this.performRPCRequest<WriteRequest, CommitResponse>(
+              'Commit',
+              url,
+              headers,
+              { writes: msg.writes }
+            ).then(response =>
+              stream.receive({
+                streamToken: EMULATED_STREAM_TOKEN,
+                commitTime: response.commitTime,
+                writeResults: response.writeResults
+              })
+            );
+          })
+          .catch(e => stream.fail(e));
+      },
+      () => {
+        commits = Promise.resolve();
+      }
+    );
+    stream.open(/* connected= */ true);
+    return stream.bridge;
+  }
+}
+
+/**
+ * Returns the `addTarget` message of a long polling Listen request that
+ * resumes the target from the resume token or read time of `targetChange`.
+ */
+function withResumePoint(
+  target: ProtoTarget,
+  targetChange: ProtoTargetChange
+): ProtoTarget {
+  // A target is resumed either from a resume token or from a read time, and
+  // the expected count only applies to the resume point it was sent with.
+  const resumed: ProtoTarget = { ...target };
+  delete resumed.resumeToken;
+  delete resumed.readTime;
+  delete resumed.expectedCount;
+  if (targetChange.resumeToken) {
+    resumed.resumeToken = targetChange.resumeToken;
+  } else {
+    resumed.readTime = targetChange.readTime;
+  }
+  return resumed;
+}
+
+/**
+ * Reads the server-sent events of `response` and passes their messages to
+ * `onMessage` until the response ends or `stream` is closed.
+ */
+async function readResponse<Req, Resp>(
+  stream: FetchStream<Req, Resp>,
+  response: Response,
+  onMessage: (msg: Resp) => void
+): Promise<void> {
+  if (!response.ok) {
+    throw await errorFromResponse(response);
+  }
+  stream.connect();
+
+  const reader = response.body!.getReader();
+  const textDecoder = new TextDecoder();
+  const eventDecoder = new ServerSentEventDecoder();
+  let result = await reader.read();
+  while (!result.done && !stream.closed) {
+    const text = textDecoder.decode(result.value, { stream: true });
+    for (const msg of eventDecoder.decode(text)) {
+      onMessage(msg as Resp);
+    }
+    result = await reader.read();
+  }
+}
@@ -34,14 +34,15 @@ export class FetchConnection extends RestConnection {
    */
   constructor(
     databaseInfo: DatabaseInfo,
-    private readonly fetchImpl: typeof fetch
+    protected readonly fetchImpl: typeof fetch
   ) {
     super(databaseInfo);
   }
 
   openStream<Req, Resp>(
     rpcName: string,
-    token: Token | null
+    authToken: Token | null,
+    appCheckToken: Token | null
   ): Stream<Req, Resp> {
     throw new Error('Not supported by FetchConnection');
   }
@@ -70,17 +71,24 @@ export class FetchConnection extends RestConnection {
     }
 
     if (!response.ok) {
-      let errorResponse = await response.json();
-      if (Array.isArray(errorResponse)) {
-        errorResponse = errorResponse[0];
-      }
-      const errorMessage = errorResponse?.error?.message;
-      throw new FirestoreError(
-        mapCodeFromHttpStatus(response.status),
-        `Request failed with error: ${errorMessage ?? response.statusText}`
-      );
+      throw await errorFromResponse(response);
     }
 
     return response.json();
   }
 }
+
+/** Returns the error described by a failed HTTP response. */
+export async function errorFromResponse(
+  response: Response
+): Promise<FirestoreError> {
+  let errorResponse = await response.json();
+  if (Array.isArray(errorResponse)) {
+    errorResponse = errorResponse[0];
+  }
+  const errorMessage = errorResponse?.error?.message;
+  return new FirestoreError(
+    mapCodeFromHttpStatus(response.status),
+    `Request failed with error: ${errorMessage ?? response.statusText}`
+  );
+}
@@ -0,0 +1,34 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { PersistentKeyValueStore } from '../api/cache_config';
+
+// This file is only used under ts-node.
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const platform = require(`./${
+  process.env.TEST_PLATFORM ?? 'node'
+}/key_value_store`);
+
+/**
+ * Creates a key-value store that saves each entry as a file in `directory`.
+ * Throws if the platform does not have a file system.
+ */
+export function newFileKeyValueStore(
+  directory: string
+): PersistentKeyValueStore {
+  return platform.newFileKeyValueStore(directory);
+}
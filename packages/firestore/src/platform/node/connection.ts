@@ -19,12 +19,26 @@ import { DatabaseInfo } from '../../core/database_info';
 import { Connection } from '../../remote/connection';
 import { ConnectivityMonitor } from '../../remote/connectivity_monitor';
 import { NoopConnectivityMonitor } from '../../remote/connectivity_monitor_noop';
+import {
+  FetchStreamConnection,
+  supportsRequestStreams
+} from '../browser/fetch_stream_connection';
 
 import { GrpcConnection } from './grpc_connection';
 import { loadProtos } from './load_protos';
 
-/** Loads the GRPC stack */
+/**
+ * Loads the GRPC stack, or initializes the FetchStreamConnection if the Fetch
+ * API transport was selected.
+ */
 export function newConnection(databaseInfo: DatabaseInfo): Connection {
+  if (databaseInfo.experimentalTransport === 'fetch') {
+    return new FetchStreamConnection(
+      databaseInfo,
+      fetch.bind(null),
+      databaseInfo.forceLongPolling || !supportsRequestStreams()
+    );
+  }
   const protos = loadProtos();
   return new GrpcConnection(protos, databaseInfo);
 }
@@ -0,0 +1,184 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+
+import { PersistentKeyValueStore } from '../../api/cache_config';
+import { LockableKeyValueStore } from '../../local/key_value_indexeddb';
+
+// The file that holds the ID of the process that locked the directory. Keys
+// are URI-encoded, so no entry is saved under this name.
+const LOCK_FILE = '.lock';
+
+// How long a client that took over a stale lock waits for other clients that
+// took it over at the same time, before checking which one holds it.
+const LOCK_TAKEOVER_DELAY_MS = 100;
+
+let lockAttempts = 0;
+
+/**
+ * A key-value store that saves each entry as a file in a directory. Entries
+ * are written to a temporary file first and then renamed, so that an entry is
+ * never left partially written.
+ *
+ * The store is locked with a lock file that holds the ID of the locking
+ * process. A lock is taken over once that process no longer runs.
+ */
+class FileKeyValueStore implements LockableKeyValueStore {
+  private directoryCreated = false;
+  /** The content of the lock file while this store holds the lock. */
+  private lockOwner: string | null = null;
+
+  constructor(private readonly directory: string) {}
+
+  async getItem(key: string): Promise<string | null> {
+    try {
+      return await fs.readFile(this.path(key), 'utf8');
+    } catch (e) {
+      if (isNotFoundError(e)) {
+        return null;
+      }
+      throw e;
+    }
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.createDirectory();
+    const path = this.path(key);
+    const temporaryPath = path + '.tmp';
+    await fs.writeFile(temporaryPath, value, 'utf8');
+    await fs.rename(temporaryPath, path);
+  }
+
+  removeItem(key: string): Promise<void> {
+    return removeFile(this.path(key));
+  }
+
+  async _lock(): Promise<boolean> {
+    await this.createDirectory();
+    const lockPath = join(this.directory, LOCK_FILE);
+    // The lock file is written under a unique name and then linked into place,
+    // which fails if the lock file exists and never exposes a partially
+    // written lock file. Its content identifies this lock attempt.
+    const owner = `${process.pid}:${++lockAttempts}`;
+    const temporaryPath = `${lockPath}.${process.pid}-${lockAttempts}`;
+    await fs.writeFile(temporaryPath, owner, 'utf8');
+    try {
+      try {
+        await fs.link(temporaryPath, lockPath);
+        this.lockOwner = owner;
+        return true;
+      } catch (e) {
+        if ((e as { code?: string }).code !== 'EEXIST') {
+          throw e;
+        }
+      }
+      if (isProcessRunning(parseInt(await readLockOwner(lockPath), 10))) {
+        return false;
+      }
+      // The process that locked the store exited without unlocking it. The
+      // lock is taken over by atomically replacing the lock file. Clients that
+      // take over the same lock at the same time all replace it, so the lock
+      // is only held once the lock file still names this attempt after the
+      // others had time to replace it.
+      await fs.rename(temporaryPath, lockPath);
+      await new Promise(resolve => setTimeout(resolve, LOCK_TAKEOVER_DELAY_MS));
+      if ((await readLockOwner(lockPath)) !== owner) {
+        return false;
+      }
+      this.lockOwner = owner;
+      return true;
+    } finally {
+      await removeFile(temporaryPath);
+    }
+  }
+
+  async _unlock(): Promise<void> {
+    const lockPath = join(this.directory, LOCK_FILE);
+    if (
+      this.lockOwner !== null &&
+      (await readLockOwner(lockPath)) === this.lockOwner
+    ) {
+      await removeFile(lockPath);
+    }
+    this.lockOwner = null;
+  }
+
+  private async createDirectory(): Promise<void> {
+    if (!this.directoryCreated) {
+      await fs.mkdir(this.directory, { recursive: true });
+      this.directoryCreated = true;
+    }
+  }
+
+  private path(key: string): string {
+    // Keys contain slashes, which are escaped to keep all files in one
+    // directory.
+    return join(this.directory, encodeURIComponent(key));
+  }
+}
+
+function isNotFoundError(e: unknown): boolean {
+  return (e as { code?: string }).code === 'ENOENT';
+}
+
+/** Returns the content of the lock file, or '' if there is none. */
+async function readLockOwner(lockPath: string): Promise<string> {
+  try {
+    return await fs.readFile(lockPath, 'utf8');
+  } catch (e) {
+    if (isNotFoundError(e)) {
+      return '';
+    }
+    throw e;
+  }
+}
+
+async function removeFile(path: string): Promise<void> {
+  try {
+    await fs.unlink(path);
+  } catch (e) {
+    if (!isNotFoundError(e)) {
+      throw e;
+    }
+  }
+}
+
+function isProcessRunning(pid: number): boolean {
+  if (!Number.isInteger(pid) || pid <= 0) {
+    return false;
+  }
+  try {
+    // Signal 0 only checks whether the process exists.
+    process.kill(pid, 0);
+    return true;
+  } catch (e) {
+    // `EPERM` means that the process exists but belongs to another user.
+    return (e as { code?: string }).code === 'EPERM';
+  }
+}
+
+/**
+ * Creates a key-value store that saves each entry as a file in `directory`.
+ * Throws if the platform does not have a file system.
+ */
+export function newFileKeyValueStore(
+  directory: string
+): PersistentKeyValueStore {
+  return new FileKeyValueStore(directory);
+}
@@ -29,6 +29,10 @@ export interface ApiClientObjectMap<T> {
 export declare type Timestamp =
   | string
   | { seconds?: string | number; nanos?: number };
+export declare type Duration =
+  | string
+  | { seconds?: string | number; nanos?: number };
+export declare type Struct = any;
 
 export declare type CompositeFilterOp = 'OPERATOR_UNSPECIFIED' | 'AND' | 'OR';
 export interface ICompositeFilterOpEnum {
@@ -64,6 +68,19 @@ export interface IFieldFilterOpEnum {
   values(): FieldFilterOp[];
 }
 export declare const FieldFilterOpEnum: IFieldFilterOpEnum;
+export declare type FindNearestDistanceMeasure =
+  | 'DISTANCE_MEASURE_UNSPECIFIED'
+  | 'EUCLIDEAN'
+  | 'COSINE'
+  | 'DOT_PRODUCT';
+export interface IFindNearestDistanceMeasureEnum {
+  DISTANCE_MEASURE_UNSPECIFIED: FindNearestDistanceMeasure;
+  EUCLIDEAN: FindNearestDistanceMeasure;
+  COSINE: FindNearestDistanceMeasure;
+  DOT_PRODUCT: FindNearestDistanceMeasure;
+  values(): FindNearestDistanceMeasure[];
+}
+export declare const FindNearestDistanceMeasureEnum: IFindNearestDistanceMeasureEnum;
 export declare type FieldTransformSetToServerValue =
   | 'SERVER_VALUE_UNSPECIFIED'
   | 'REQUEST_TIME';
@@ -154,7 +171,7 @@ export declare namespace firestoreV1ApiClientInterfaces {
     mask?: DocumentMask;
     transaction?: string;
     newTransaction?: TransactionOptions;
-    readTime?: string;
+    readTime?: Timestamp;
   }
   interface BatchGetDocumentsResponse {
     found?: Document;
@@ -234,6 +251,19 @@ export declare namespace firestoreV1ApiClientInterfaces {
     bitmap?: string | Uint8Array;
     padding?: number;
   }
+  interface ExecutionStats {
+    resultsReturned?: string | number;
+    executionDuration?: Duration;
+    readOperations?: string | number;
+    debugStats?: Struct;
+  }
+  interface ExplainMetrics {
+    planSummary?: PlanSummary;
+    executionStats?: ExecutionStats;
+  }
+  interface ExplainOptions {
+    analyze?: boolean;
+  }
   interface FieldFilter {
     field?: FieldReference;
     op?: FieldFilterOp;
@@ -249,6 +279,14 @@ export declare namespace firestoreV1ApiClientInterfaces {
     removeAllFromArray?: ArrayValue;
     increment?: Value;
   }
+  interface FindNearest {
+    vectorField?: FieldReference;
+    queryVector?: Value;
+    distanceMeasure?: FindNearestDistanceMeasure;
+    limit?: number | { value: number };
+    distanceResultField?: string;
+    distanceThreshold?: number | { value: number };
+  }
   interface Filter {
     compositeFilter?: CompositeFilter;
     fieldFilter?: FieldFilter;
@@ -310,6 +348,9 @@ export declare namespace firestoreV1ApiClientInterfaces {
     field?: FieldReference;
     direction?: OrderDirection;
   }
+  interface PlanSummary {
+    indexesUsed?: Struct[];
+  }
   interface Precondition {
     exists?: boolean;
     updateTime?: Timestamp;
@@ -322,7 +363,7 @@ export declare namespace firestoreV1ApiClientInterfaces {
     structuredQuery?: StructuredQuery;
   }
   interface ReadOnly {
-    readTime?: string;
+    readTime?: Timestamp;
   }
   interface ReadWrite {
     retryTransaction?: string;
@@ -335,25 +376,29 @@ export declare namespace firestoreV1ApiClientInterfaces {
     structuredQuery?: StructuredQuery;
     transaction?: string;
     newTransaction?: TransactionOptions;
-    readTime?: string;
+    readTime?: Timestamp;
+    explainOptions?: ExplainOptions;
   }
   interface RunQueryResponse {
     transaction?: string;
     document?: Document;
     readTime?: string;
     skippedResults?: number;
+    explainMetrics?: ExplainMetrics;
   }
   interface RunAggregationQueryRequest {
     parent?: string;
     structuredAggregationQuery?: StructuredAggregationQuery;
     transaction?: string;
     newTransaction?: TransactionOptions;
-    readTime?: string;
+    readTime?: Timestamp;
+    explainOptions?: ExplainOptions;
   }
   interface RunAggregationQueryResponse {
     result?: AggregationResult;
     transaction?: string;
     readTime?: string;
+    explainMetrics?: ExplainMetrics;
   }
   interface AggregationResult {
     aggregateFields?: ApiClientObjectMap<Value>;
@@ -391,6 +436,7 @@ export declare namespace firestoreV1ApiClientInterfaces {
     endAt?: Cursor;
     offset?: number;
     limit?: number | { value: number };
+    findNearest?: FindNearest;
   }
   interface Target {
     query?: QueryTarget;
@@ -487,14 +533,21 @@ export declare type DocumentTransform =
 export declare type DocumentsTarget =
   firestoreV1ApiClientInterfaces.DocumentsTarget;
 export declare type Empty = firestoreV1ApiClientInterfaces.Empty;
+export declare type ExecutionStats =
+  firestoreV1ApiClientInterfaces.ExecutionStats;
 export declare type ExistenceFilter =
   firestoreV1ApiClientInterfaces.ExistenceFilter;
+export declare type ExplainMetrics =
+  firestoreV1ApiClientInterfaces.ExplainMetrics;
+export declare type ExplainOptions =
+  firestoreV1ApiClientInterfaces.ExplainOptions;
 export declare type FieldFilter = firestoreV1ApiClientInterfaces.FieldFilter;
 export declare type FieldReference =
   firestoreV1ApiClientInterfaces.FieldReference;
 export declare type FieldTransform =
   firestoreV1ApiClientInterfaces.FieldTransform;
 export declare type Filter = firestoreV1ApiClientInterfaces.Filter;
+export declare type FindNearest = firestoreV1ApiClientInterfaces.FindNearest;
 export declare type Index = firestoreV1ApiClientInterfaces.Index;
 export declare type IndexField = firestoreV1ApiClientInterfaces.IndexField;
 export declare type LatLng = firestoreV1ApiClientInterfaces.LatLng;
@@ -513,6 +566,7 @@ export declare type ListenResponse =
 export declare type MapValue = firestoreV1ApiClientInterfaces.MapValue;
 export declare type Operation = firestoreV1ApiClientInterfaces.Operation;
 export declare type Order = firestoreV1ApiClientInterfaces.Order;
+export declare type PlanSummary = firestoreV1ApiClientInterfaces.PlanSummary;
 export declare type Precondition = firestoreV1ApiClientInterfaces.Precondition;
 export declare type Projection = firestoreV1ApiClientInterfaces.Projection;
 export declare type QueryTarget = firestoreV1ApiClientInterfaces.QueryTarget;
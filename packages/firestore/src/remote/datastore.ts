@@ -19,7 +19,9 @@ import { CredentialsProvider } from '../api/credentials';
 import { User } from '../auth/user';
 import { Aggregate } from '../core/aggregate';
 import { DatabaseId } from '../core/database_info';
+import { ExplainMetrics, ExplainOptions } from '../core/explain_metrics';
 import { queryToAggregateTarget, Query, queryToTarget } from '../core/query';
+import { Timestamp } from '../lite-api/timestamp';
 import { Document } from '../model/document';
 import { DocumentKey } from '../model/document_key';
 import { Mutation } from '../model/mutation';
@@ -28,6 +30,8 @@ import {
   ApiClientObjectMap,
   BatchGetDocumentsRequest as ProtoBatchGetDocumentsRequest,
   BatchGetDocumentsResponse as ProtoBatchGetDocumentsResponse,
+  BeginTransactionRequest as ProtoBeginTransactionRequest,
+  BeginTransactionResponse as ProtoBeginTransactionResponse,
   RunAggregationQueryRequest as ProtoRunAggregationQueryRequest,
   RunAggregationQueryResponse as ProtoRunAggregationQueryResponse,
   RunQueryRequest as ProtoRunQueryRequest,
@@ -49,12 +53,15 @@ import {
 import {
   fromDocument,
   fromBatchGetDocumentsResponse,
+  fromExplainMetrics,
   JsonProtoSerializer,
+  toExplainOptions,
   toMutation,
   toName,
   toQueryTarget,
   toResourcePath,
-  toRunAggregationQueryRequest
+  toRunAggregationQueryRequest,
+  toTimestamp
 } from './serializer';
 
 /**
@@ -201,14 +208,55 @@ export async function invokeCommitRpc(
   );
 }
 
+/**
+ * Begins a read-only transaction and returns its ID. If `readTime` is set,
+ * the documents read in the transaction are read as they were at that time.
+ */
+export async function invokeBeginReadOnlyTransactionRpc(
+  datastore: Datastore,
+  readTime?: Timestamp
+): Promise<string> {
+  const datastoreImpl = debugCast(datastore, DatastoreImpl);
+  const request: ProtoBeginTransactionRequest = {
+    options: {
+      readOnly: readTime
+        ? { readTime: toTimestamp(datastoreImpl.serializer, readTime) }
+        : {}
+    }
+  };
+  const response = await datastoreImpl.invokeRPC<
+    ProtoBeginTransactionRequest,
+    ProtoBeginTransactionResponse
+  >(
+    'BeginTransaction',
+    datastoreImpl.serializer.databaseId,
+    ResourcePath.emptyPath(),
+    request
+  );
+  hardAssert(!!response.transaction, 'Missing transaction ID in response');
+  return response.transaction;
+}
+
+/**
+ * Reads the given documents from the backend. If `readTime` is set, the
+ * documents are read as they were at that time. If `transaction` is set, the
+ * documents are read in the transaction with that ID.
+ */
 export async function invokeBatchGetDocumentsRpc(
   datastore: Datastore,
-  keys: DocumentKey[]
+  keys: DocumentKey[],
+  readTime?: Timestamp,
+  transaction?: string
 ): Promise<Document[]> {
   const datastoreImpl = debugCast(datastore, DatastoreImpl);
-  const request = {
+  const request: ProtoBatchGetDocumentsRequest = {
     documents: keys.map(k => toName(datastoreImpl.serializer, k))
   };
+  if (readTime) {
+    request.readTime = toTimestamp(datastoreImpl.serializer, readTime);
+  } else if (transaction) {
+    request.transaction = transaction;
+  }
   const response = await datastoreImpl.invokeStreamingRPC<
     ProtoBatchGetDocumentsRequest,
     ProtoBatchGetDocumentsResponse
@@ -234,36 +282,143 @@ export async function invokeBatchGetDocumentsRpc(
   return result;
 }
 
+/**
+ * Runs the query against the backend. If `readTime` is set, the query is
+ * executed against the documents as they were at that time.
+ */
 export async function invokeRunQueryRpc(
   datastore: Datastore,
-  query: Query
+  query: Query,
+  readTime?: Timestamp
 ): Promise<Document[]> {
+  const { documents } = await runQuery(
+    datastore,
+    query,
+    /* explainOptions= */ undefined,
+    readTime
+  );
+  return documents;
+}
+
+/**
+ * Runs the query with the given explain options. If `explainOptions.analyze`
+ * is false, the backend only plans the query and no documents are returned.
+ */
+export async function invokeExplainRunQueryRpc(
+  datastore: Datastore,
+  query: Query,
+  explainOptions: ExplainOptions
+): Promise<{ documents: Document[]; explainMetrics: ExplainMetrics }> {
+  const { documents, explainMetrics } = await runQuery(
+    datastore,
+    query,
+    explainOptions
+  );
+  hardAssert(!!explainMetrics, 'Explain metrics are missing from result.');
+  return { documents, explainMetrics };
+}
+
+async function runQuery(
+  datastore: Datastore,
+  query: Query,
+  explainOptions?: ExplainOptions,
+  readTime?: Timestamp
+): Promise<{ documents: Document[]; explainMetrics: ExplainMetrics | null }> {
   const datastoreImpl = debugCast(datastore, DatastoreImpl);
   const { queryTarget, parent } = toQueryTarget(
     datastoreImpl.serializer,
     queryToTarget(query)
   );
+  const request: ProtoRunQueryRequest = {
+    structuredQuery: queryTarget.structuredQuery
+  };
+  if (explainOptions) {
+    request.explainOptions = toExplainOptions(explainOptions);
+  }
+  if (readTime) {
+    request.readTime = toTimestamp(datastoreImpl.serializer, readTime);
+  }
   const response = await datastoreImpl.invokeStreamingRPC<
     ProtoRunQueryRequest,
     ProtoRunQueryResponse
-  >('RunQuery', datastoreImpl.serializer.databaseId, parent, {
-    structuredQuery: queryTarget.structuredQuery
-  });
-  return (
-    response
-      // Omit RunQueryResponses that only contain readTimes.
-      .filter(proto => !!proto.document)
-      .map(proto =>
-        fromDocument(datastoreImpl.serializer, proto.document!, undefined)
-      )
-  );
+  >('RunQuery', datastoreImpl.serializer.databaseId, parent, request);
+  const documents = response
+    // Omit RunQueryResponses that only contain readTimes.
+    .filter(proto => !!proto.document)
+    .map(proto =>
+      fromDocument(datastoreImpl.serializer, proto.document!, undefined)
+    );
+  // The explain metrics are only sent with the last response.
+  const metricsProto = response.find(proto => !!proto.explainMetrics);
+  return {
+    documents,
+    explainMetrics: metricsProto
+      ? fromExplainMetrics(
+          datastoreImpl.serializer,
+          metricsProto.explainMetrics!
+        )
+      : null
+  };
 }
 
+/**
+ * Runs the aggregation against the backend. If `readTime` is set, the
+ * aggregation is computed over the documents as they were at that time.
+ */
 export async function invokeRunAggregationQueryRpc(
   datastore: Datastore,
   query: Query,
-  aggregates: Aggregate[]
+  aggregates: Aggregate[],
+  readTime?: Timestamp
 ): Promise<ApiClientObjectMap<Value>> {
+  const { aggregateFields } = await runAggregationQuery(
+    datastore,
+    query,
+    aggregates,
+    /* explainOptions= */ undefined,
+    readTime
+  );
+  hardAssert(
+    aggregateFields !== null,
+    'Aggregation fields are missing from result.'
+  );
+  return aggregateFields;
+}
+
+/**
+ * Runs the aggregation with the given explain options. If
+ * `explainOptions.analyze` is false, the backend only plans the aggregation
+ * and `aggregateFields` is null.
+ */
+export async function invokeExplainRunAggregationQueryRpc(
+  datastore: Datastore,
+  query: Query,
+  aggregates: Aggregate[],
+  explainOptions: ExplainOptions
+): Promise<{
+  aggregateFields: ApiClientObjectMap<Value> | null;
+  explainMetrics: ExplainMetrics;
+}> {
+  const { aggregateFields, explainMetrics } = await runAggregationQuery(
+    datastore,
+    query,
+    aggregates,
+    explainOptions
+  );
+  hardAssert(!!explainMetrics, 'Explain metrics are missing from result.');
+  return { aggregateFields, explainMetrics };
+}
+
+async function runAggregationQuery(
+  datastore: Datastore,
+  query: Query,
+  aggregates: Aggregate[],
+  explainOptions?: ExplainOptions,
+  readTime?: Timestamp
+): Promise<{
+  aggregateFields: ApiClientObjectMap<Value> | null;
+  explainMetrics: ExplainMetrics | null;
+}> {
   const datastoreImpl = debugCast(datastore, DatastoreImpl);
   const { request, aliasMap, parent } = toRunAggregationQueryRequest(
     datastoreImpl.serializer,
@@ -274,6 +429,12 @@ export async function invokeRunAggregationQueryRpc(
   if (!datastoreImpl.connection.shouldResourcePathBeIncludedInRequest) {
     delete request.parent;
   }
+  if (explainOptions) {
+    request.explainOptions = toExplainOptions(explainOptions);
+  }
+  if (readTime) {
+    request.readTime = toTimestamp(datastoreImpl.serializer, readTime);
+  }
   const response = await datastoreImpl.invokeStreamingRPC<
     ProtoRunAggregationQueryRequest,
     ProtoRunAggregationQueryResponse
@@ -282,11 +443,21 @@ export async function invokeRunAggregationQueryRpc(
     datastoreImpl.serializer.databaseId,
     parent,
     request,
-    /*expectedResponseCount=*/ 1
+    // The explain metrics may be sent in a separate, final response.
+    /*expectedResponseCount=*/ explainOptions ? undefined : 1
   );
 
+  // The explain metrics are only sent with the last response.
+  const metricsProto = response.find(proto => !!proto.explainMetrics);
+  const explainMetrics = metricsProto
+    ? fromExplainMetrics(datastoreImpl.serializer, metricsProto.explainMetrics!)
+    : null;
+
   // Omit RunAggregationQueryResponse that only contain readTimes.
   const filteredResult = response.filter(proto => !!proto.result);
+  if (filteredResult.length === 0) {
+    return { aggregateFields: null, explainMetrics };
+  }
 
   hardAssert(
     filteredResult.length === 1,
@@ -316,7 +487,7 @@ export async function invokeRunAggregationQueryRpc(
     return accumulator;
   }, {});
 
-  return remappedFields;
+  return { aggregateFields: remappedFields, explainMetrics };
 }
 
 export function newPersistentWriteStream(
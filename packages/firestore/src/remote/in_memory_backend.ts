@@ -0,0 +1,705 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Token } from '../api/credentials';
+import { DatabaseInfo } from '../core/database_info';
+import {
+  newQueryComparator,
+  newQueryForPath,
+  Query,
+  queryMatches
+} from '../core/query';
+import { SnapshotVersion } from '../core/snapshot_version';
+import { Timestamp } from '../lite-api/timestamp';
+import {
+  DocumentKeySet,
+  documentKeySet,
+  MutableDocumentMap,
+  mutableDocumentMap
+} from '../model/collections';
+import { MutableDocument } from '../model/document';
+import { DocumentKey } from '../model/document_key';
+import {
+  Mutation,
+  mutationApplyToRemoteDocument,
+  MutationResult,
+  preconditionIsValidForDocument,
+  VerifyMutation
+} from '../model/mutation';
+import { normalizeNumber } from '../model/normalize';
+import { ObjectValue } from '../model/object_value';
+import { ResourcePath } from '../model/path';
+import {
+  applyTransformOperationToLocalView,
+  ServerTimestampTransform
+} from '../model/transform_operation';
+import { isInteger, isNumber } from '../model/values';
+import { encodeBase64 } from '../platform/base64';
+import { newSerializer } from '../platform/serializer';
+import {
+  Aggregation as ProtoAggregation,
+  BatchGetDocumentsRequest as ProtoBatchGetDocumentsRequest,
+  BatchGetDocumentsResponse as ProtoBatchGetDocumentsResponse,
+  CommitRequest as ProtoCommitRequest,
+  CommitResponse as ProtoCommitResponse,
+  ListenRequest as ProtoListenRequest,
+  ListenResponse as ProtoListenResponse,
+  RunAggregationQueryRequest as ProtoRunAggregationQueryRequest,
+  RunAggregationQueryResponse as ProtoRunAggregationQueryResponse,
+  RunQueryRequest as ProtoRunQueryRequest,
+  RunQueryResponse as ProtoRunQueryResponse,
+  StructuredQuery as ProtoStructuredQuery,
+  Value as ProtoValue,
+  WriteRequest as ProtoWriteRequest,
+  WriteResponse as ProtoWriteResponse
+} from '../protos/firestore_proto_api';
+import { ByteString } from '../util/byte_string';
+import { Code, FirestoreError } from '../util/error';
+import { SortedMap } from '../util/sorted_map';
+
+import { Connection, Stream } from './connection';
+import {
+  convertQueryTargetToQuery,
+  fromFieldPathReference,
+  fromMutation,
+  fromName,
+  JsonProtoSerializer,
+  toBytes,
+  toDocument,
+  toName,
+  toVersion
+} from './serializer';
+import { StreamBridge } from './stream_bridge';
+
+/**
+ * The documents of one database of an {@link InMemoryBackend}, and the
+ * listeners that are notified when they change.
+ */
+class InMemoryDatabase {
+  private documents: MutableDocumentMap = mutableDocumentMap();
+  private readonly listeners = new Set<(changes: DocumentKeySet) => void>();
+
+  /**
+   * The version of the latest commit. Versions are derived from a logical
+   * clock that advances by one millisecond per commit, which keeps commit
+   * times deterministic.
+   */
+  version = SnapshotVersion.fromTimestamp(Timestamp.fromMillis(1));
+
+  getDocument(key: DocumentKey): MutableDocument {
+    return (
+      this.documents.get(key) ||
+      MutableDocument.newNoDocument(key, SnapshotVersion.min())
+    );
+  }
+
+  /** Returns the documents that match `query`, in query order. */
+  runQuery(query: Query): MutableDocument[] {
+    if (query.findNearest) {
+      throw new FirestoreError(
+        Code.UNIMPLEMENTED,
+        'The in-memory backend does not support vector queries.'
+      );
+    }
+    const results: MutableDocument[] = [];
+    this.documents.forEach((key, doc) => {
+      if (queryMatches(query, doc)) {
+        results.push(doc);
+      }
+    });
+    results.sort(newQueryComparator(query));
+    return query.limit !== null ? results.slice(0, query.limit) : results;
+  }
+
+  /**
+   * Applies all mutations atomically. Throws if the precondition of any
+   * mutation is not met, in which case no mutation is applied.
+   */
+  commit(mutations: Mutation[]): {
+    commitVersion: SnapshotVersion;
+    results: MutationResult[];
+  } {
+    const commitTime = Timestamp.fromMillis(
+      this.version.toTimestamp().toMillis() + 1
+    );
+    const commitVersion = SnapshotVersion.fromTimestamp(commitTime);
+    let updates = mutableDocumentMap();
+    const results: MutationResult[] = [];
+
+    for (const mutation of mutations) {
+      const doc = (
+        updates.get(mutation.key) || this.getDocument(mutation.key)
+      ).mutableCopy();
+      validatePrecondition(mutation, doc);
+      if (mutation instanceof VerifyMutation) {
+        results.push(new MutationResult(commitVersion, []));
+        continue;
+      }
+
+      const transformResults = mutation.fieldTransforms.map(fieldTransform =>
+        fieldTransform.transform instanceof ServerTimestampTransform
+          ? {
+              timestampValue: {
+                seconds: commitTime.seconds,
+                nanos: commitTime.nanoseconds
+              }
+            }
+          : applyTransformOperationToLocalView(
+              fieldTransform.transform,
+              doc.data.field(fieldTransform.field),
+              commitTime
+            )
+      );
+      const result = new MutationResult(commitVersion, transformResults);
+      mutationApplyToRemoteDocument(mutation, doc, result);
+      updates = updates.insert(mutation.key, doc);
+      results.push(result);
+    }
+
+    this.version = commitVersion;
+    let changes = documentKeySet();
+    updates.forEach((key, doc) => {
+      if (doc.isFoundDocument()) {
+        const createTime = this.documents.get(key)?.createTime;
+        this.documents = this.documents.insert(
+          key,
+          MutableDocument.newFoundDocument(
+            key,
+            commitVersion,
+            createTime || commitVersion,
+            doc.data
+          )
+        );
+      } else {
+        this.documents = this.documents.remove(key);
+      }
+      changes = changes.add(key);
+    });
+    this.listeners.forEach(listener => listener(changes));
+    return { commitVersion, results };
+  }
+
+  /**
+   * Registers a listener that is called with the keys of the documents that
+   * changed in each commit. Returns a function to unregister it.
+   */
+  addListener(listener: (changes: DocumentKeySet) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+}
+
+function validatePrecondition(mutation: Mutation, doc: MutableDocument): void {
+  const precondition = mutation.precondition;
+  if (preconditionIsValidForDocument(precondition, doc)) {
+    return;
+  }
+  if (precondition.exists === true) {
+    throw new FirestoreError(
+      Code.NOT_FOUND,
+      `No document to update: ${mutation.key}`
+    );
+  } else if (precondition.exists === false) {
+    throw new FirestoreError(
+      Code.ALREADY_EXISTS,
+      `Document already exists: ${mutation.key}`
+    );
+  } else {
+    throw new FirestoreError(
+      Code.FAILED_PRECONDITION,
+      `The stored version of ${mutation.key} does not match the required ` +
+        'base version.'
+    );
+  }
+}
+
+/** The state of a target of a Listen stream. */
+interface ListenTarget {
+  readonly query: Query;
+  /** The documents that were last sent for the target. */
+  documents: SortedMap<DocumentKey, SnapshotVersion>;
+}
+
+/**
+ * A connection to an {@link InMemoryBackend}. Requests are decoded with the
+ * same serializer that the client uses to encode them, and are answered
+ * asynchronously.
+ */
+class InMemoryConnection implements Connection {
+  readonly shouldResourcePathBeIncludedInRequest = false;
+  private readonly streams = new Set<{ close(): void }>();
+
+  constructor(
+    private readonly database: InMemoryDatabase,
+    private readonly serializer: JsonProtoSerializer
+  ) {}
+
+  async invokeRPC<Req, Resp>(
+    rpcName: string,
+    path: ResourcePath,
+    request: Req
+  ): Promise<Resp> {
+    // Let the caller finish its current operation, as a network request would.
+    await Promise.resolve();
+    switch (rpcName) {
+      case 'Commit':
+        return this.commit(request as ProtoCommitRequest) as Resp;
+      case 'BeginTransaction':
+        return {
+          transaction: encodeBase64(String(this.database.version))
+        } as unknown as Resp;
+      default:
+        return (
+          await this.invokeStreamingRPC<Req, Resp>(rpcName, path, request)
+        )[0];
+    }
+  }
+
+  async invokeStreamingRPC<Req, Resp>(
+    rpcName: string,
+    path: ResourcePath,
+    request: Req
+  ): Promise<Resp[]> {
+    await Promise.resolve();
+    if ((request as { readTime?: unknown }).readTime) {
+      throw new FirestoreError(
+        Code.UNIMPLEMENTED,
+        'The in-memory backend does not support reads at a past time.'
+      );
+    }
+    switch (rpcName) {
+      case 'BatchGetDocuments':
+        return this.batchGetDocuments(
+          request as ProtoBatchGetDocumentsRequest
+        ) as Resp[];
+      case 'RunQuery':
+        return this.runQuery(path, request as ProtoRunQueryRequest) as Resp[];
+      case 'RunAggregationQuery':
+        return this.runAggregationQuery(
+          path,
+          request as ProtoRunAggregationQueryRequest
+        ) as Resp[];
+      default:
+        throw new FirestoreError(
+          Code.UNIMPLEMENTED,
+          `The in-memory backend does not support ${rpcName}.`
+        );
+    }
+  }
+
+  openStream<Req, Resp>(
+    rpcName: string,
+    authToken: Token | null,
+    appCheckToken: Token | null
+  ): Stream<Req, Resp> {
+    const stream = (rpcName === 'Write'
+      ? this.openWriteStream()
+      : this.openListenStream()) as unknown as StreamBridge<Req, Resp>;
+    this.enqueue(() => {
+      if (this.streams.has(stream)) {
+        stream.callOnConnected();
+        stream.callOnOpen();
+      }
+    });
+    return stream;
+  }
+
+  terminate(): void {
+    this.streams.forEach(stream => stream.close());
+  }
+
+  private commit(request: ProtoCommitRequest): ProtoCommitResponse {
+    const mutations = (request.writes || []).map(write =>
+      fromMutation(this.serializer, write)
+    );
+    const { commitVersion, results } = this.database.commit(mutations);
+    return {
+      commitTime: this.toTimestamp(commitVersion),
+      writeResults: results.map((result, i) =>
+        mutations[i] instanceof VerifyMutation
+          ? {}
+          : {
+              updateTime: this.toTimestamp(result.version),
+              transformResults: result.transformResults as ProtoValue[]
+            }
+      )
+    };
+  }
+
+  private batchGetDocuments(
+    request: ProtoBatchGetDocumentsRequest
+  ): ProtoBatchGetDocumentsResponse[] {
+    const readTime = this.toTimestamp(this.database.version);
+    return (request.documents || []).map(name => {
+      const doc = this.database.getDocument(fromName(this.serializer, name));
+      return doc.isFoundDocument()
+        ? { found: toDocument(this.serializer, doc), readTime }
+        : { missing: name, readTime };
+    });
+  }
+
+  private runQuery(
+    parent: ResourcePath,
+    request: ProtoRunQueryRequest
+  ): ProtoRunQueryResponse[] {
+    if (request.explainOptions) {
+      throw new FirestoreError(
+        Code.UNIMPLEMENTED,
+        'The in-memory backend does not support explaining queries.'
+      );
+    }
+    const query = this.toQuery(parent, request.structuredQuery!);
+    const readTime = this.toTimestamp(this.database.version);
+    const documents = this.database.runQuery(query).map(doc => {
+      if (query.projection) {
+        const data = ObjectValue.empty();
+        for (const field of query.projection) {
+          const value = doc.data.field(field);
+          if (value) {
+            data.set(field, value);
+          }
+        }
+        doc = MutableDocument.newFoundDocument(
+          doc.key,
+          doc.version,
+          doc.createTime,
+          data
+        );
+      }
+      return { document: toDocument(this.serializer, doc), readTime };
+    });
+    return documents.length > 0 ? documents : [{ readTime }];
+  }
+
+  private runAggregationQuery(
+    parent: ResourcePath,
+    request: ProtoRunAggregationQueryRequest
+  ): ProtoRunAggregationQueryResponse[] {
+    if (request.explainOptions) {
+      throw new FirestoreError(
+        Code.UNIMPLEMENTED,
+        'The in-memory backend does not support explaining queries.'
+      );
+    }
+    const aggregationQuery = request.structuredAggregationQuery!;
+    const docs = this.database.runQuery(
+      this.toQuery(parent, aggregationQuery.structuredQuery!)
+    );
+    const aggregateFields: Record<string, ProtoValue> = {};
+    for (const aggregation of aggregationQuery.aggregations || []) {
+      aggregateFields[aggregation.alias!] = aggregate(aggregation, docs);
+    }
+    return [
+      {
+        result: { aggregateFields },
+        readTime: this.toTimestamp(this.database.version)
+      }
+    ];
+  }
+
+  private toQuery(
+    parent: ResourcePath,
+    structuredQuery: ProtoStructuredQuery
+  ): Query {
+    return convertQueryTargetToQuery({
+      parent: parent.canonicalString(),
+      structuredQuery
+    });
+  }
+
+  private openWriteStream(): StreamBridge<
+    ProtoWriteRequest,
+    ProtoWriteResponse
+  > {
+    const streamToken = toBytes(
+      this.serializer,
+      ByteString.fromUint8Array(new Uint8Array([1]))
+    );
+    const stream: StreamBridge<ProtoWriteRequest, ProtoWriteResponse> =
+      new StreamBridge({
+        sendFn: request => {
+          let response: ProtoWriteResponse;
+          try {
+            response = request.writes
+              ? { streamToken, ...this.commit(request) }
+              : { streamId: '1', streamToken };
+          } catch (e) {
+            this.closeStream(stream, e as FirestoreError);
+            return;
+          }
+          this.deliver(stream, response);
+        },
+        closeFn: () => this.streams.delete(stream)
+      });
+    this.streams.add(stream);
+    return stream;
+  }
+
+  private openListenStream(): StreamBridge<
+    ProtoListenRequest,
+    ProtoListenResponse
+  > {
+    const targets = new Map<number, ListenTarget>();
+
+    const sendChanges = (
+      targetId: number,
+      target: ListenTarget,
+      changes: DocumentKeySet | null
+    ): boolean => {
+      let documents = new SortedMap<DocumentKey, SnapshotVersion>(
+        DocumentKey.comparator
+      );
+      let changed = false;
+      for (const doc of this.database.runQuery(target.query)) {
+        documents = documents.insert(doc.key, doc.version);
+        if (!target.documents.get(doc.key) || changes?.has(doc.key)) {
+          changed = true;
+          this.deliver(stream, {
+            documentChange: {
+              document: toDocument(this.serializer, doc),
+              targetIds: [targetId]
+            }
+          });
+        }
+      }
+      target.documents.forEach(key => {
+        if (documents.get(key)) {
+          return;
+        }
+        changed = true;
+        const doc = this.database.getDocument(key);
+        this.deliver(
+          stream,
+          doc.isFoundDocument()
+            ? {
+                documentChange: {
+                  document: toDocument(this.serializer, doc),
+                  removedTargetIds: [targetId]
+                }
+              }
+            : {
+                documentDelete: {
+                  document: toName(this.serializer, key),
+                  removedTargetIds: [targetId],
+                  readTime: this.toTimestamp(this.database.version)
+                }
+              }
+        );
+      });
+      target.documents = documents;
+      return changed;
+    };
+
+    const sendSnapshot = (targetIds: number[]): void => {
+      const readTime = this.toTimestamp(this.database.version);
+      const resumeToken = toBytes(
+        this.serializer,
+        ByteString.fromBase64String(encodeBase64(String(this.database.version)))
+      );
+      this.deliver(stream, {
+        targetChange: { targetChangeType: 'CURRENT', targetIds, resumeToken }
+      });
+      this.deliver(stream, {
+        targetChange: { targetChangeType: 'NO_CHANGE', targetIds: [], readTime }
+      });
+    };
+
+    const stream: StreamBridge<ProtoListenRequest, ProtoListenResponse> =
+      new StreamBridge({
+        sendFn: request => {
+          if (request.addTarget) {
+            const targetId = request.addTarget.targetId!;
+            const target: ListenTarget = {
+              query: this.toListenQuery(request.addTarget),
+              documents: new SortedMap<DocumentKey, SnapshotVersion>(
+                DocumentKey.comparator
+              )
+            };
+            targets.set(targetId, target);
+            this.deliver(stream, {
+              targetChange: { targetChangeType: 'ADD', targetIds: [targetId] }
+            });
+            if (request.addTarget.resumeToken || request.addTarget.readTime) {
+              // No history is kept, so resumed targets are sent in full.
+              this.deliver(stream, {
+                targetChange: {
+                  targetChangeType: 'RESET',
+                  targetIds: [targetId]
+                }
+              });
+            }
+            sendChanges(targetId, target, null);
+            sendSnapshot([targetId]);
+          } else if (request.removeTarget !== undefined) {
+            targets.delete(request.removeTarget);
+            this.deliver(stream, {
+              targetChange: {
+                targetChangeType: 'REMOVE',
+                targetIds: [request.removeTarget]
+              }
+            });
+          }
+        },
+        closeFn: () => {
+          removeListener();
+          this.streams.delete(stream);
+        }
+      });
+
+    const removeListener = this.database.addListener(changes => {
+      const changedTargetIds: number[] = [];
+      targets.forEach((target, targetId) => {
+        if (sendChanges(targetId, target, changes)) {
+          changedTargetIds.push(targetId);
+        }
+      });
+      if (changedTargetIds.length > 0) {
+        sendSnapshot(changedTargetIds);
+      }
+    });
+    this.streams.add(stream);
+    return stream;
+  }
+
+  private toListenQuery(target: {
+    query?: { parent?: string; structuredQuery?: ProtoStructuredQuery };
+    documents?: { documents?: string[] };
+  }): Query {
+    if (target.query) {
+      return convertQueryTargetToQuery(target.query);
+    }
+    const key = fromName(this.serializer, target.documents!.documents![0]);
+    return newQueryForPath(key.path);
+  }
+
+  /**
+   * Runs `fn` once the current operation of the client completed, as a
+   * network response would.
+   */
+  private enqueue(fn: () => void): void {
+    // eslint-disable-next-line @typescript-eslint/no-floating-promises
+    Promise.resolve().then(fn);
+  }
+
+  /**
+   * Encodes a version for a response. The proto typings declare some
+   * timestamps as strings, but the serializer may encode them as objects.
+   */
+  private toTimestamp(version: SnapshotVersion): string {
+    return toVersion(this.serializer, version) as string;
+  }
+
+  /** Delivers a message asynchronously, unless the stream is closed. */
+  private deliver<Req, Resp>(
+    stream: StreamBridge<Req, Resp>,
+    message: Resp
+  ): void {
+    this.enqueue(() => {
+      if (this.streams.has(stream)) {
+        stream.callOnMessage(message);
+      }
+    });
+  }
+
+  /** Closes a stream asynchronously with an error. */
+  private closeStream<Req, Resp>(
+    stream: StreamBridge<Req, Resp>,
+    error: FirestoreError
+  ): void {
+    this.enqueue(() => {
+      if (this.streams.delete(stream)) {
+        stream.callOnClose(error);
+      }
+    });
+  }
+}
+
+/** Computes the result of an aggregation over `docs`. */
+function aggregate(
+  aggregation: ProtoAggregation,
+  docs: MutableDocument[]
+): ProtoValue {
+  if (aggregation.count) {
+    return { integerValue: String(docs.length) };
+  }
+  const field = fromFieldPathReference(
+    (aggregation.sum || aggregation.avg)!.field!
+  );
+  let sum = 0;
+  let count = 0;
+  let isIntegerSum = true;
+  for (const doc of docs) {
+    const value = doc.data.field(field);
+    if (value && isNumber(value)) {
+      sum += isInteger(value)
+        ? normalizeNumber(value.integerValue)
+        : normalizeNumber(value.doubleValue);
+      isIntegerSum = isIntegerSum && isInteger(value);
+      ++count;
+    }
+  }
+  if (aggregation.sum) {
+    return isIntegerSum && Number.isSafeInteger(sum)
+      ? { integerValue: String(sum) }
+      : { doubleValue: sum };
+  }
+  return count > 0 ? { doubleValue: sum / count } : { nullValue: 'NULL_VALUE' };
+}
+
+/**
+ * An in-process fake of the Firestore backend, for fast and deterministic
+ * tests. It keeps documents in memory, runs queries, serves Listen and Write
+ * streams, and commits writes atomically, enforcing their preconditions
+ * (which implements the optimistic concurrency of transactions).
+ *
+ * Security rules, indexes, vector queries, query explanations and reads at a
+ * past time are not supported. Commit times come from a logical clock that
+ * advances by one millisecond per commit.
+ *
+ * Pass the backend to `initializeFirestore()` with the `_backend` setting.
+ * Firestore instances that share a backend see each other's writes.
+ */
+export class InMemoryBackend {
+  private readonly databases = new Map<string, InMemoryDatabase>();
+
+  /** @internal */
+  _newConnection(databaseInfo: DatabaseInfo): Connection {
+    const databaseId = databaseInfo.databaseId;
+    const name = `${databaseId.projectId}/${databaseId.database}`;
+    let database = this.databases.get(name);
+    if (!database) {
+      database = new InMemoryDatabase();
+      this.databases.set(name, database);
+    }
+    return new InMemoryConnection(database, newSerializer(databaseId));
+  }
+}
+
+/**
+ * Creates an {@link InMemoryBackend}, an in-process fake of the Firestore
+ * backend for tests.
+ *
+ * @example
+ * ```typescript
+ * const db = initializeFirestore(app, {
+ *   _backend: createInMemoryBackend()
+ * });
+ * ```
+ */
+export function createInMemoryBackend(): InMemoryBackend {
+  return new InMemoryBackend();
+}
@@ -17,7 +17,8 @@
 
 import { User } from '../auth/user';
 import { SnapshotVersion } from '../core/snapshot_version';
-import { OnlineState, TargetId } from '../core/types';
+import { BatchId, OnlineState, TargetId } from '../core/types';
+import { UsageStatsRecorder } from '../core/usage_stats';
 import { LocalStore } from '../local/local_store';
 import {
   localStoreGetLastRemoteSnapshotVersion,
@@ -168,7 +169,9 @@ class RemoteStoreImpl implements RemoteStore {
     readonly datastore: Datastore,
     readonly asyncQueue: AsyncQueue,
     onlineStateHandler: (onlineState: OnlineState) => void,
-    connectivityMonitor: ConnectivityMonitor
+    connectivityMonitor: ConnectivityMonitor,
+    /** Records the document reads and writes of the watch and write streams. */
+    readonly usageStats: UsageStatsRecorder | null
   ) {
     this.connectivityMonitor = connectivityMonitor;
     this.connectivityMonitor.addCallback((_: NetworkStatus) => {
@@ -198,14 +201,16 @@ export function newRemoteStore(
   datastore: Datastore,
   asyncQueue: AsyncQueue,
   onlineStateHandler: (onlineState: OnlineState) => void,
-  connectivityMonitor: ConnectivityMonitor
+  connectivityMonitor: ConnectivityMonitor,
+  usageStats: UsageStatsRecorder | null = null
 ): RemoteStore {
   return new RemoteStoreImpl(
     localStore,
     datastore,
     asyncQueue,
     onlineStateHandler,
-    connectivityMonitor
+    connectivityMonitor,
+    usageStats
   );
 }
 
@@ -371,13 +376,16 @@ function startWatchStream(remoteStoreImpl: RemoteStoreImpl): void {
     'getRemoteKeysForTarget() not set'
   );
 
-  remoteStoreImpl.watchChangeAggregator = new WatchChangeAggregator({
-    getRemoteKeysForTarget: targetId =>
-      remoteStoreImpl.remoteSyncer.getRemoteKeysForTarget!(targetId),
-    getTargetDataForTarget: targetId =>
-      remoteStoreImpl.listenTargets.get(targetId) || null,
-    getDatabaseId: () => remoteStoreImpl.datastore.serializer.databaseId
-  });
+  remoteStoreImpl.watchChangeAggregator = new WatchChangeAggregator(
+    {
+      getRemoteKeysForTarget: targetId =>
+        remoteStoreImpl.remoteSyncer.getRemoteKeysForTarget!(targetId),
+      getTargetDataForTarget: targetId =>
+        remoteStoreImpl.listenTargets.get(targetId) || null,
+      getDatabaseId: () => remoteStoreImpl.datastore.serializer.databaseId
+    },
+    remoteStoreImpl.usageStats
+  );
   ensureWatchStream(remoteStoreImpl).start();
   remoteStoreImpl.onlineStateTracker.handleWatchStreamStart();
 }
@@ -703,6 +711,23 @@ export async function fillWritePipeline(
   }
 }
 
+/**
+ * Removes all writes from the write pipeline and stops the write stream if the
+ * pipeline contains the given batch, so that the batch is not sent (again) and
+ * a response for it is ignored. The remaining writes are sent again once the
+ * write pipeline is refilled by fillWritePipeline().
+ */
+export async function remoteStoreRemoveFromWritePipeline(
+  remoteStore: RemoteStore,
+  batchId: BatchId
+): Promise<void> {
+  const remoteStoreImpl = debugCast(remoteStore, RemoteStoreImpl);
+  if (remoteStoreImpl.writePipeline.some(batch => batch.batchId === batchId)) {
+    remoteStoreImpl.writePipeline = [];
+    await ensureWriteStream(remoteStoreImpl).stop();
+  }
+}
+
 /**
  * Returns true if we can add to the write pipeline (i.e. the network is
  * enabled and the write pipeline is not full).
@@ -785,6 +810,7 @@ async function onMutationResult(
   );
   const batch = remoteStoreImpl.writePipeline.shift()!;
   const success = MutationBatchResult.from(batch, commitVersion, results);
+  remoteStoreImpl.usageStats?.recordWrites(batch.mutations.length);
 
   debugAssert(
     !!remoteStoreImpl.remoteSyncer.applySuccessfulWrite,
@@ -41,9 +41,12 @@ const LOG_TAG = 'RestConnection';
 const RPC_NAME_URL_MAPPING: StringMap = {};
 
 RPC_NAME_URL_MAPPING['BatchGetDocuments'] = 'batchGet';
+RPC_NAME_URL_MAPPING['BeginTransaction'] = 'beginTransaction';
 RPC_NAME_URL_MAPPING['Commit'] = 'commit';
 RPC_NAME_URL_MAPPING['RunQuery'] = 'runQuery';
 RPC_NAME_URL_MAPPING['RunAggregationQuery'] = 'runAggregationQuery';
+RPC_NAME_URL_MAPPING['Listen'] = 'listen';
+RPC_NAME_URL_MAPPING['Write'] = 'write';
 
 const RPC_URL_VERSION = 'v1';
 
@@ -59,7 +62,7 @@ function getGoogApiClientValue(): string {
 export abstract class RestConnection implements Connection {
   protected readonly databaseId: DatabaseId;
   protected readonly baseUrl: string;
-  private readonly databasePath: string;
+  protected readonly databasePath: string;
   private readonly requestParams: string;
 
   get shouldResourcePathBeIncludedInRequest(): boolean {
@@ -92,12 +95,7 @@ export abstract class RestConnection implements Connection {
     const url = this.makeUrl(rpcName, path.toUriEncodedString());
     logDebug(LOG_TAG, `Sending RPC '${rpcName}' ${streamId}:`, url, req);
 
-    const headers: StringMap = {
-      'google-cloud-resource-prefix': this.databasePath,
-      'x-goog-request-params': this.requestParams
-    };
-    this.modifyHeadersForRequest(headers, authToken, appCheckToken);
-
+    const headers = this.makeHeaders(authToken, appCheckToken);
     return this.performRPCRequest<Req, Resp>(rpcName, url, headers, req).then(
       response => {
         logDebug(LOG_TAG, `Received RPC '${rpcName}' ${streamId}: `, response);
@@ -143,6 +141,22 @@ export abstract class RestConnection implements Connection {
     appCheckToken: Token | null
   ): Stream<Req, Resp>;
 
+  /**
+   * Returns the headers for a request to the database, including any
+   * authorization token if present.
+   */
+  protected makeHeaders(
+    authToken: Token | null,
+    appCheckToken: Token | null
+  ): StringMap {
+    const headers: StringMap = {
+      'google-cloud-resource-prefix': this.databasePath,
+      'x-goog-request-params': this.requestParams
+    };
+    this.modifyHeadersForRequest(headers, authToken, appCheckToken);
+    return headers;
+  }
+
   /**
    * Modifies the headers for a request, adding any authorization token if
    * present and any additional headers for the request.
@@ -182,7 +196,7 @@ export abstract class RestConnection implements Connection {
     body: Req
   ): Promise<Resp>;
 
-  private makeUrl(rpcName: string, path: string): string {
+  protected makeUrl(rpcName: string, path: string): string {
     const urlRpcName = RPC_NAME_URL_MAPPING[rpcName];
     debugAssert(
       urlRpcName !== undefined,
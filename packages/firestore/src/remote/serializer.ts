@@ -18,6 +18,7 @@
 import { Aggregate } from '../core/aggregate';
 import { Bound } from '../core/bound';
 import { DatabaseId } from '../core/database_info';
+import { ExplainMetrics, ExplainOptions } from '../core/explain_metrics';
 import {
   CompositeFilter,
   compositeFilterIsFlatConjunction,
@@ -26,6 +27,7 @@ import {
   Filter,
   Operator
 } from '../core/filter';
+import { DistanceMeasure, FindNearest } from '../core/find_nearest';
 import { Direction, OrderBy } from '../core/order_by';
 import {
   LimitType,
@@ -39,7 +41,7 @@ import { targetIsDocumentTarget, Target } from '../core/target';
 import { TargetId } from '../core/types';
 import { Timestamp } from '../lite-api/timestamp';
 import { TargetData, TargetPurpose } from '../local/target_data';
-import { MutableDocument } from '../model/document';
+import { Document, MutableDocument } from '../model/document';
 import { DocumentKey } from '../model/document_key';
 import { FieldMask } from '../model/field_mask';
 import {
@@ -52,8 +54,8 @@ import {
   SetMutation,
   VerifyMutation
 } from '../model/mutation';
-import { normalizeTimestamp } from '../model/normalize';
-import { ObjectValue } from '../model/object_value';
+import { normalizeNumber, normalizeTimestamp } from '../model/normalize';
+import { JsonObject, ObjectValue } from '../model/object_value';
 import { FieldPath, ResourcePath } from '../model/path';
 import {
   ArrayRemoveTransformOperation,
@@ -71,18 +73,25 @@ import {
   Document as ProtoDocument,
   DocumentMask as ProtoDocumentMask,
   DocumentsTarget as ProtoDocumentsTarget,
+  Duration as ProtoDuration,
+  ExplainMetrics as ProtoExplainMetrics,
+  ExplainOptions as ProtoExplainOptions,
   FieldFilterOp as ProtoFieldFilterOp,
   FieldReference as ProtoFieldReference,
   FieldTransform as ProtoFieldTransform,
   Filter as ProtoFilter,
+  FindNearest as ProtoFindNearest,
+  FindNearestDistanceMeasure as ProtoFindNearestDistanceMeasure,
   ListenResponse as ProtoListenResponse,
   Order as ProtoOrder,
   OrderDirection as ProtoOrderDirection,
   Precondition as ProtoPrecondition,
+  Projection as ProtoProjection,
   QueryTarget as ProtoQueryTarget,
   RunAggregationQueryRequest as ProtoRunAggregationQueryRequest,
   Aggregation as ProtoAggregation,
   Status as ProtoStatus,
+  Struct as ProtoStruct,
   Target as ProtoTarget,
   TargetChangeTargetChangeType as ProtoTargetChangeTargetChangeType,
   Timestamp as ProtoTimestamp,
@@ -92,6 +101,7 @@ import {
 import { debugAssert, fail, hardAssert } from '../util/assert';
 import { ByteString } from '../util/byte_string';
 import { Code, FirestoreError } from '../util/error';
+import { forEach } from '../util/obj';
 import { isNullOrUndefined } from '../util/types';
 
 import { ExistenceFilter } from './existence_filter';
@@ -127,6 +137,14 @@ const OPERATORS = (() => {
   return ops;
 })();
 
+const DISTANCE_MEASURES = (() => {
+  const measures: { [measure: string]: ProtoFindNearestDistanceMeasure } = {};
+  measures[DistanceMeasure.EUCLIDEAN] = 'EUCLIDEAN';
+  measures[DistanceMeasure.COSINE] = 'COSINE';
+  measures[DistanceMeasure.DOT_PRODUCT] = 'DOT_PRODUCT';
+  return measures;
+})();
+
 const COMPOSITE_OPERATORS = (() => {
   const ops: { [op: string]: ProtoCompositeFilterOp } = {};
   ops[CompositeOperator.AND] = 'AND';
@@ -199,6 +217,33 @@ function fromInt32Proto(
   return isNullOrUndefined(result) ? null : result;
 }
 
+/**
+ * Returns a value for a number (or null) that's appropriate to put into
+ * a google.protobuf.DoubleValue proto.
+ * DO NOT USE THIS FOR ANYTHING ELSE.
+ * See `toInt32Proto()` for why this is typed as returning "number".
+ */
+function toDoubleWrapperProto(
+  serializer: JsonProtoSerializer,
+  val: number | null
+): number | { value: number } | null {
+  if (serializer.useProto3Json || isNullOrUndefined(val)) {
+    return val;
+  } else {
+    return { value: val };
+  }
+}
+
+/**
+ * Returns a number (or null) from a google.protobuf.DoubleValue proto.
+ */
+function fromDoubleWrapperProto(
+  val: number | { value: number } | undefined
+): number | null {
+  // Int32Value and DoubleValue share the same wrapper representation.
+  return fromInt32Proto(val);
+}
+
 /**
  * Returns a value for a Date that's appropriate to put into a proto.
  */
@@ -408,7 +453,7 @@ export function toMutationDocument(
 
 export function toDocument(
   serializer: JsonProtoSerializer,
-  document: MutableDocument
+  document: Document
 ): ProtoDocument {
   debugAssert(
     !document.hasLocalMutations,
@@ -896,6 +941,15 @@ export function toQueryTarget(
   if (target.endAt) {
     queryTarget.structuredQuery!.endAt = toEndAtCursor(target.endAt);
   }
+  if (target.findNearest) {
+    queryTarget.structuredQuery!.findNearest = toFindNearest(
+      serializer,
+      target.findNearest
+    );
+  }
+  if (target.projection) {
+    queryTarget.structuredQuery!.select = toProjection(target.projection);
+  }
 
   return { queryTarget, parent };
 }
@@ -960,6 +1014,94 @@ export function toRunAggregationQueryRequest(
   };
 }
 
+export function toExplainOptions(
+  explainOptions: ExplainOptions
+): ProtoExplainOptions {
+  return { analyze: explainOptions.analyze };
+}
+
+export function fromExplainMetrics(
+  serializer: JsonProtoSerializer,
+  proto: ProtoExplainMetrics
+): ExplainMetrics {
+  const indexesUsed = (proto.planSummary?.indexesUsed || []).map(index =>
+    fromStruct(serializer, index)
+  );
+  const stats = proto.executionStats;
+  return {
+    planSummary: { indexesUsed },
+    executionStats: stats
+      ? {
+          resultsReturned: normalizeNumber(stats.resultsReturned),
+          executionDuration: fromDuration(stats.executionDuration),
+          readOperations: normalizeNumber(stats.readOperations),
+          debugStats: fromStruct(serializer, stats.debugStats)
+        }
+      : null
+  };
+}
+
+/**
+ * Returns the number of milliseconds in a google.protobuf.Duration proto,
+ * which is either a string such as "1.5s" (Proto3 JSON) or an object with
+ * `seconds` and `nanos`.
+ */
+function fromDuration(duration: ProtoDuration | undefined | null): number {
+  if (isNullOrUndefined(duration)) {
+    return 0;
+  } else if (typeof duration === 'string') {
+    hardAssert(/^-?\d+(\.\d+)?s$/.test(duration), 'Invalid duration');
+    return Number(duration.slice(0, -1)) * 1000;
+  } else {
+    return (
+      normalizeNumber(duration.seconds) * 1000 +
+      normalizeNumber(duration.nanos) / 1e6
+    );
+  }
+}
+
+/**
+ * Converts a google.protobuf.Struct proto into a plain JavaScript object.
+ * Proto3 JSON already encodes a Struct as a JSON object, whereas Protobuf.js
+ * uses the `fields` map of google.protobuf.Value messages.
+ */
+function fromStruct(
+  serializer: JsonProtoSerializer,
+  struct: ProtoStruct | undefined | null
+): JsonObject<unknown> {
+  if (isNullOrUndefined(struct)) {
+    return {};
+  } else if (serializer.useProto3Json) {
+    return struct;
+  }
+
+  const result: JsonObject<unknown> = {};
+  forEach(struct.fields || {}, (key: string, value: ProtoStruct) => {
+    result[key] = fromStructValue(serializer, value);
+  });
+  return result;
+}
+
+function fromStructValue(
+  serializer: JsonProtoSerializer,
+  value: ProtoStruct
+): unknown {
+  if (value.structValue) {
+    return fromStruct(serializer, value.structValue);
+  } else if (value.listValue) {
+    return (value.listValue.values || []).map((element: ProtoStruct) =>
+      fromStructValue(serializer, element)
+    );
+  } else if (value.stringValue !== undefined) {
+    return value.stringValue;
+  } else if (value.numberValue !== undefined) {
+    return value.numberValue;
+  } else if (value.boolValue !== undefined) {
+    return value.boolValue;
+  }
+  return null;
+}
+
 export function convertQueryTargetToQuery(target: ProtoQueryTarget): Query {
   let path = fromQueryPath(target.parent!);
 
@@ -1004,6 +1146,16 @@ export function convertQueryTargetToQuery(target: ProtoQueryTarget): Query {
     endAt = fromEndAtCursor(query.endAt);
   }
 
+  let findNearest: FindNearest | null = null;
+  if (query.findNearest) {
+    findNearest = fromFindNearest(query.findNearest);
+  }
+
+  let projection: FieldPath[] | null = null;
+  if (query.select) {
+    projection = fromProjection(query.select);
+  }
+
   return newQuery(
     path,
     collectionGroup,
@@ -1012,7 +1164,9 @@ export function convertQueryTargetToQuery(target: ProtoQueryTarget): Query {
     limit,
     LimitType.First,
     startAt,
-    endAt
+    endAt,
+    findNearest,
+    projection
   );
 }
 
@@ -1176,6 +1330,67 @@ export function fromDirection(
   }
 }
 
+// visible for testing
+export function toFindNearest(
+  serializer: JsonProtoSerializer,
+  findNearest: FindNearest
+): ProtoFindNearest {
+  const result: ProtoFindNearest = {
+    vectorField: toFieldPathReference(findNearest.vectorField),
+    queryVector: findNearest.queryVector,
+    distanceMeasure: DISTANCE_MEASURES[findNearest.distanceMeasure],
+    limit: toInt32Proto(serializer, findNearest.limit)!
+  };
+  if (findNearest.distanceResultField !== null) {
+    result.distanceResultField =
+      findNearest.distanceResultField.canonicalString();
+  }
+  const distanceThreshold = toDoubleWrapperProto(
+    serializer,
+    findNearest.distanceThreshold
+  );
+  if (distanceThreshold !== null) {
+    result.distanceThreshold = distanceThreshold;
+  }
+  return result;
+}
+
+export function fromFindNearest(findNearest: ProtoFindNearest): FindNearest {
+  return new FindNearest(
+    fromFieldPathReference(findNearest.vectorField!),
+    findNearest.queryVector!,
+    fromInt32Proto(findNearest.limit)!,
+    fromDistanceMeasure(findNearest.distanceMeasure),
+    findNearest.distanceResultField
+      ? FieldPath.fromServerFormat(findNearest.distanceResultField)
+      : null,
+    fromDoubleWrapperProto(findNearest.distanceThreshold)
+  );
+}
+
+export function toProjection(projection: FieldPath[]): ProtoProjection {
+  return { fields: projection.map(toFieldPathReference) };
+}
+
+export function fromProjection(projection: ProtoProjection): FieldPath[] {
+  return (projection.fields || []).map(fromFieldPathReference);
+}
+
+export function fromDistanceMeasure(
+  measure: ProtoFindNearestDistanceMeasure | undefined
+): DistanceMeasure {
+  switch (measure) {
+    case 'EUCLIDEAN':
+      return DistanceMeasure.EUCLIDEAN;
+    case 'COSINE':
+      return DistanceMeasure.COSINE;
+    case 'DOT_PRODUCT':
+      return DistanceMeasure.DOT_PRODUCT;
+    default:
+      return fail('Unknown distance measure: ' + measure);
+  }
+}
+
 // visible for testing
 export function toOperatorName(op: Operator): ProtoFieldFilterOp {
   return OPERATORS[op];
@@ -17,8 +17,9 @@
 
 import { DatabaseId } from '../core/database_info';
 import { SnapshotVersion } from '../core/snapshot_version';
-import { targetIsDocumentTarget } from '../core/target';
+import { Target, targetIsDocumentTarget } from '../core/target';
 import { TargetId } from '../core/types';
+import { UsageStatsRecorder } from '../core/usage_stats';
 import { ChangeType } from '../core/view_snapshot';
 import { TargetData, TargetPurpose } from '../local/target_data';
 import {
@@ -29,6 +30,7 @@ import {
 import { MutableDocument } from '../model/document';
 import { DocumentKey } from '../model/document_key';
 import { normalizeByteString } from '../model/normalize';
+import { documentSize } from '../model/write_limits';
 import { debugAssert, fail, hardAssert } from '../util/assert';
 import { Base64DecodeError } from '../util/base64_decode_error';
 import { ByteString } from '../util/byte_string';
@@ -284,7 +286,10 @@ const LOG_TAG = 'WatchChangeAggregator';
  * A helper class to accumulate watch changes into a RemoteEvent.
  */
 export class WatchChangeAggregator {
-  constructor(private metadataProvider: TargetMetadataProvider) {}
+  constructor(
+    private metadataProvider: TargetMetadataProvider,
+    private usageStats: UsageStatsRecorder | null = null
+  ) {}
 
   /** The internal state of all tracked targets. */
   private targetStates = new Map<TargetId, TargetState>();
@@ -308,6 +313,20 @@ export class WatchChangeAggregator {
    * Processes and adds the DocumentWatchChange to the current set of changes.
    */
   handleDocumentChange(docChange: DocumentWatchChange): void {
+    if (this.usageStats?.enabled && docChange.newDoc?.isFoundDocument()) {
+      const targets: Target[] = [];
+      for (const targetId of docChange.updatedTargetIds) {
+        const targetData = this.targetDataForActiveTarget(targetId);
+        if (targetData) {
+          targets.push(targetData.target);
+        }
+      }
+      this.usageStats.recordServerRead(
+        targets,
+        documentSize(docChange.key, docChange.newDoc.data)
+      );
+    }
+
     for (const targetId of docChange.updatedTargetIds) {
       if (docChange.newDoc && docChange.newDoc.isFoundDocument()) {
         this.addDocumentToTarget(targetId, docChange.newDoc);
@@ -459,6 +478,10 @@ export class WatchChangeAggregator {
               purpose
             );
           }
+          this.usageStats?.recordExistenceFilterMismatch(
+            target,
+            /* fullRequery= */ status !== BloomFilterApplicationStatus.Success
+          );
           testingHooksSpi?.notifyOnExistenceFilterMismatch(
             createExistenceFilterMismatchInfoForTestingHooks(
               currentSize,
@@ -72,6 +72,16 @@ export const enum TimerId {
    */
   TransactionRetry = 'transaction_retry',
 
+  /**
+   * Timers used by the BulkWriter to retry failed commits with backoff and to
+   * send commits once the rate limit allows it.
+   */
+  BulkWriterRetry = 'bulk_writer_retry',
+  BulkWriterThrottle = 'bulk_writer_throttle',
+
+  /** A timer used to report usage statistics at the end of each interval. */
+  UsageStatsReport = 'usage_stats_report',
+
   /**
    * A timer used to retry operations scheduled via retryable AsyncQueue
    * operations.
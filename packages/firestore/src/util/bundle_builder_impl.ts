@@ -0,0 +1,181 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { BundledDocument } from '../core/bundle';
+import { DatabaseId } from '../core/database_info';
+import { LimitType, Query, queryToTarget, queryWithLimit } from '../core/query';
+import { SnapshotVersion } from '../core/snapshot_version';
+import { Document } from '../model/document';
+import { newTextEncoder } from '../platform/text_serializer';
+import {
+  BundleElement,
+  BundledQuery as ProtoBundledQuery,
+  NamedQuery as ProtoNamedQuery
+} from '../protos/firestore_bundle_proto';
+import {
+  JsonProtoSerializer,
+  toDocument,
+  toName,
+  toQueryTarget,
+  toVersion
+} from '../remote/serializer';
+
+/** The schema version of the bundles produced by the SDK. */
+const BUNDLE_VERSION = 1;
+
+/**
+ * Builds a Firestore data bundle from documents and named queries. The result
+ * uses the same length-prefixed JSON format as the bundles produced by the
+ * Server SDKs and can be loaded with `loadBundle()`.
+ */
+export class BundleBuilder {
+  /** Resulting documents for the bundle, keyed by full document name. */
+  private documents = new Map<string, BundledDocument>();
+  /** The read times of the bundled documents, keyed by full document name. */
+  private documentReadTimes = new Map<string, SnapshotVersion>();
+  /** Named queries saved in the bundle, keyed by query name. */
+  private namedQueries = new Map<string, ProtoNamedQuery>();
+  /** The latest read time of any document or query in the bundle. */
+  private latestReadTime = SnapshotVersion.min();
+  private readonly serializer: JsonProtoSerializer;
+  private readonly encoder = newTextEncoder();
+
+  constructor(databaseId: DatabaseId, readonly bundleId: string) {
+    // Bundles are exchanged as JSON strings, so values need to be encoded
+    // with Proto3 JSON on all platforms.
+    this.serializer = new JsonProtoSerializer(
+      databaseId,
+      /* useProto3Json= */ true
+    );
+  }
+
+  /**
+   * Adds a document to the bundle. `queryNames` are the names of the bundled
+   * queries that this document is a result of.
+   *
+   * If the document was already added, the newer version is kept and the
+   * query names are merged.
+   */
+  addBundleDocument(document: Document, queryNames: string[] = []): void {
+    const name = toName(this.serializer, document.key);
+    const readTime = document.readTime.isEqual(SnapshotVersion.min())
+      ? document.version
+      : document.readTime;
+    const existing = this.documents.get(name);
+    const queries = existing?.metadata.queries ?? [];
+    for (const queryName of queryNames) {
+      if (queries.indexOf(queryName) === -1) {
+        queries.push(queryName);
+      }
+    }
+
+    if (
+      !existing ||
+      readTime.compareTo(this.documentReadTimes.get(name)!) > 0
+    ) {
+      this.documents.set(name, {
+        metadata: {
+          name,
+          readTime: toVersion(this.serializer, readTime),
+          exists: document.isFoundDocument()
+        },
+        document: document.isFoundDocument()
+          ? toDocument(this.serializer, document)
+          : undefined
+      });
+      this.documentReadTimes.set(name, readTime);
+    }
+    if (queries.length > 0) {
+      this.documents.get(name)!.metadata.queries = queries;
+    }
+
+    this.updateLatestReadTime(readTime);
+  }
+
+  /** Adds a named query with the time at which its results were read. */
+  addBundleQuery(name: string, query: Query, readTime: SnapshotVersion): void {
+    this.namedQueries.set(name, {
+      name,
+      readTime: toVersion(this.serializer, readTime),
+      bundledQuery: this.toBundledQuery(query)
+    });
+    this.updateLatestReadTime(readTime);
+  }
+
+  /** Returns the bundle as a length-prefixed JSON string. */
+  build(): string {
+    let bundle = '';
+    let totalDocuments = 0;
+
+    this.namedQueries.forEach(namedQuery => {
+      bundle += this.lengthPrefixedString({ namedQuery });
+    });
+    this.documents.forEach(bundledDocument => {
+      bundle += this.lengthPrefixedString({
+        documentMetadata: bundledDocument.metadata
+      });
+      if (bundledDocument.document) {
+        bundle += this.lengthPrefixedString({
+          document: bundledDocument.document
+        });
+      }
+      ++totalDocuments;
+    });
+
+    const metadata = this.lengthPrefixedString({
+      metadata: {
+        id: this.bundleId,
+        createTime: toVersion(this.serializer, this.latestReadTime),
+        version: BUNDLE_VERSION,
+        totalDocuments,
+        totalBytes: this.encoder.encode(bundle).length
+      }
+    });
+    return metadata + bundle;
+  }
+
+  private toBundledQuery(query: Query): ProtoBundledQuery {
+    // Bundles store limit-to-last queries with their original ordering and
+    // rely on `limitType` to restore them.
+    let limitType: ProtoBundledQuery['limitType'] =
+      query.limit !== null ? 'FIRST' : undefined;
+    if (query.limitType === LimitType.Last) {
+      query = queryWithLimit(query, query.limit!, LimitType.First);
+      limitType = 'LAST';
+    }
+    const { queryTarget } = toQueryTarget(
+      this.serializer,
+      queryToTarget(query)
+    );
+    return {
+      parent: queryTarget.parent,
+      structuredQuery: queryTarget.structuredQuery,
+      limitType
+    };
+  }
+
+  private updateLatestReadTime(readTime: SnapshotVersion): void {
+    if (readTime.compareTo(this.latestReadTime) > 0) {
+      this.latestReadTime = readTime;
+    }
+  }
+
+  private lengthPrefixedString(element: BundleElement): string {
+    const str = JSON.stringify(element);
+    return `${this.encoder.encode(str).length}${str}`;
+  }
+}
@@ -65,3 +65,24 @@ export interface BundleReader {
    */
   nextElement(): Promise<SizedBundleElement | null>;
 }
+
+/**
+ * A class representing a bundle that is fully available in memory.
+ *
+ * Takes a bundle string, parses it eagerly and presents the bundled elements
+ * synchronously.
+ */
+export interface BundleReaderSync {
+  serializer: JsonProtoSerializer;
+
+  /**
+   * Returns the metadata of the bundle.
+   */
+  getMetadata(): BundleMetadata;
+
+  /**
+   * Returns all BundleElements (together with their byte sizes in the bundle)
+   * that follow the metadata element.
+   */
+  getElements(): SizedBundleElement[];
+}
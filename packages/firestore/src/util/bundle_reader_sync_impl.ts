@@ -0,0 +1,117 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { newTextDecoder, newTextEncoder } from '../platform/text_serializer';
+import { BundleMetadata } from '../protos/firestore_bundle_proto';
+import { JsonProtoSerializer } from '../remote/serializer';
+
+import { BundleReaderSync, SizedBundleElement } from './bundle_reader';
+
+/**
+ * A class representing a bundle that is fully available in memory.
+ *
+ * Parses all elements of the bundle upon construction, so that callers can
+ * access them without waiting on a stream.
+ */
+class BundleReaderSyncImpl implements BundleReaderSync {
+  private metadata: BundleMetadata;
+  private elements: SizedBundleElement[] = [];
+  /** The encoded bundle content. */
+  private buffer: Uint8Array;
+  /** The position in `buffer` at which the next element starts. */
+  private cursor = 0;
+  /** The decoder used to parse binary data into strings. */
+  private textDecoder: TextDecoder;
+
+  constructor(bundleData: string, readonly serializer: JsonProtoSerializer) {
+    this.buffer = newTextEncoder().encode(bundleData);
+    this.textDecoder = newTextDecoder();
+
+    let element = this.nextElement();
+    if (element && element.isBundleMetadata()) {
+      this.metadata = element.payload.metadata!;
+    } else {
+      throw new Error(
+        `The first element of the bundle is not a metadata, it is
+         ${JSON.stringify(element?.payload)}`
+      );
+    }
+
+    element = this.nextElement();
+    while (element !== null) {
+      this.elements.push(element);
+      element = this.nextElement();
+    }
+  }
+
+  getMetadata(): BundleMetadata {
+    return this.metadata;
+  }
+
+  getElements(): SizedBundleElement[] {
+    return this.elements;
+  }
+
+  /**
+   * Reads the next element (including the prefixed length and the JSON
+   * string) from the buffer.
+   *
+   * Returns either the bundled element, or null if we have reached the end of
+   * the buffer.
+   */
+  private nextElement(): SizedBundleElement | null {
+    if (this.cursor === this.buffer.length) {
+      return null;
+    }
+
+    const position = this.buffer.indexOf('{'.charCodeAt(0), this.cursor);
+    if (position < 0) {
+      this.raiseError(
+        'Reached the end of bundle when a length string is expected.'
+      );
+    }
+
+    const lengthString = this.textDecoder.decode(
+      this.buffer.slice(this.cursor, position)
+    );
+    const length = Number(lengthString);
+    if (isNaN(length)) {
+      this.raiseError(`length string (${lengthString}) is not valid number`);
+    }
+    if (position + length > this.buffer.length) {
+      this.raiseError('Reached the end of bundle when more is expected.');
+    }
+
+    const jsonString = this.textDecoder.decode(
+      this.buffer.slice(position, position + length)
+    );
+    const byteLength = position + length - this.cursor;
+    this.cursor = position + length;
+    return new SizedBundleElement(JSON.parse(jsonString), byteLength);
+  }
+
+  private raiseError(message: string): never {
+    throw new Error(`Invalid bundle format: ${message}`);
+  }
+}
+
+export function newBundleReaderSync(
+  bundleData: string,
+  serializer: JsonProtoSerializer
+): BundleReaderSync {
+  return new BundleReaderSyncImpl(bundleData, serializer);
+}
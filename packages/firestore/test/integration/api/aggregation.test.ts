@@ -15,6 +15,7 @@
  * limitations under the License.
  */
 
+import { Deferred } from '@firebase/util';
 import { expect } from 'chai';
 
 import {
@@ -24,8 +25,12 @@ import {
   doc,
   orderBy,
   DocumentData,
+  findNearest,
   getCountFromServer,
+  getAggregateFromCache,
   getAggregateFromServer,
+  getDocs,
+  onAggregateSnapshot,
   query,
   QueryDocumentSnapshot,
   terminate,
@@ -34,7 +39,8 @@ import {
   count,
   sum,
   average,
-  addDoc
+  addDoc,
+  setDoc
 } from '../util/firebase_export';
 import {
   apiDescribe,
@@ -1409,3 +1415,151 @@ apiDescribe('Aggregation queries - sum / average', persistence => {
     });
   });
 });
+
+apiDescribe('Aggregation queries from cache', persistence => {
+  const testDocs = {
+    a: { pages: 100, rating: 5 },
+    b: { pages: 50, rating: 4 },
+    c: { pages: 100, rating: 'none' }
+  };
+
+  it('can compute aggregations over cached documents', () => {
+    return withTestCollection(persistence, testDocs, async (coll, db) => {
+      await getDocs(coll);
+      await disableNetwork(db);
+
+      const snapshot = await getAggregateFromCache(coll, {
+        count: count(),
+        totalPages: sum('pages'),
+        averageRating: average('rating')
+      });
+      expect(snapshot.data()).to.deep.equal({
+        count: 3,
+        totalPages: 250,
+        averageRating: 4.5
+      });
+    });
+  });
+
+  it('includes pending writes in cached aggregations', () => {
+    return withTestCollection(persistence, testDocs, async (coll, db) => {
+      await getDocs(coll);
+      await disableNetwork(db);
+
+      // The write does not resolve while offline.
+      void setDoc(doc(coll, 'd'), { pages: 10, rating: 3 });
+      const snapshot = await getAggregateFromCache(query(coll), {
+        count: count(),
+        totalPages: sum('pages')
+      });
+      expect(snapshot.data()).to.deep.equal({ count: 4, totalPages: 260 });
+    });
+  });
+
+  it('onAggregateSnapshot raises events when the result changes', () => {
+    return withTestCollection(persistence, testDocs, async coll => {
+      const events: Array<{ count: number; totalPages: number }> = [];
+      let waitingFor = 0;
+      let gotEvents = new Deferred<void>();
+      const unsubscribe = onAggregateSnapshot(
+        coll,
+        { count: count(), totalPages: sum('pages') },
+        snapshot => {
+          events.push(snapshot.data());
+          if (events.length === waitingFor) {
+            gotEvents.resolve();
+          }
+        }
+      );
+
+      waitingFor = 1;
+      await gotEvents.promise;
+      expect(events[0]).to.deep.equal({ count: 3, totalPages: 250 });
+
+      gotEvents = new Deferred<void>();
+      waitingFor = 2;
+      await setDoc(doc(coll, 'd'), { pages: 10 });
+      await gotEvents.promise;
+      expect(events[1]).to.deep.equal({ count: 4, totalPages: 260 });
+
+      unsubscribe();
+    });
+  });
+
+  it('cannot be used with findNearest()', () => {
+    return withTestCollection(persistence, testDocs, async coll => {
+      const vectorQuery = query(
+        coll,
+        findNearest('embedding', [1, 2], {
+          limit: 1,
+          distanceMeasure: 'EUCLIDEAN'
+        })
+      );
+      expect(() =>
+        getAggregateFromCache(vectorQuery, { count: count() })
+      ).to.throw(
+        'findNearest() queries are not supported by getAggregateFromCache(). ' +
+          'Use getDocs() or getDocsFromServer() instead.'
+      );
+    });
+  });
+});
+
+apiDescribe('Query explain', persistence => {
+  const testDocs = {
+    a: { pages: 100, year: 1980 },
+    b: { pages: 50, year: 2001 },
+    c: { pages: 100, year: 2020 }
+  };
+
+  // The Firestore Emulator does not support query explain.
+  // eslint-disable-next-line no-restricted-properties
+  (USE_EMULATOR ? it.skip : it)(
+    'returns the plan without results if not analyzed',
+    () => {
+      return withTestCollection(persistence, testDocs, async coll => {
+        const results = await getDocs(query(coll, where('pages', '>', 60)), {
+          explainOptions: { analyze: false }
+        });
+        expect(results.snapshot).to.be.null;
+        expect(results.metrics.executionStats).to.be.null;
+        expect(
+          results.metrics.planSummary.indexesUsed.length
+        ).to.be.greaterThan(0);
+      });
+    }
+  );
+
+  // eslint-disable-next-line no-restricted-properties
+  (USE_EMULATOR ? it.skip : it)(
+    'returns results and execution stats if analyzed',
+    () => {
+      return withTestCollection(persistence, testDocs, async coll => {
+        const results = await getDocs(query(coll, where('pages', '>', 60)), {
+          explainOptions: { analyze: true }
+        });
+        expect(results.snapshot!.size).to.equal(2);
+        const stats = results.metrics.executionStats!;
+        expect(stats.resultsReturned).to.equal(2);
+        expect(stats.readOperations).to.be.greaterThan(0);
+        expect(stats.executionDuration).to.be.greaterThan(0);
+      });
+    }
+  );
+
+  // eslint-disable-next-line no-restricted-properties
+  (USE_EMULATOR ? it.skip : it)('explains aggregation queries', () => {
+    return withTestCollection(persistence, testDocs, async coll => {
+      const results = await getAggregateFromServer(
+        coll,
+        { count: count(), totalPages: sum('pages') },
+        { explainOptions: { analyze: true } }
+      );
+      expect(results.snapshot!.data()).to.deep.equal({
+        count: 3,
+        totalPages: 250
+      });
+      expect(results.metrics.executionStats!.resultsReturned).to.equal(1);
+    });
+  });
+});
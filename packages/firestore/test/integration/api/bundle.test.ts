@@ -20,15 +20,21 @@ import { expect } from 'chai';
 import { EventsAccumulator } from '../util/events_accumulator';
 import {
   collection,
+  createBundleBuilder,
   doc,
+  exportCacheAsBundle,
   Firestore,
+  getDoc,
   getDocs,
   getDocsFromCache,
   loadBundle,
   LoadBundleTask,
+  limit,
   LoadBundleTaskProgress,
   namedQuery,
   onSnapshot,
+  orderBy,
+  query,
   QuerySnapshot,
   setDoc
 } from '../util/firebase_export';
@@ -36,7 +42,8 @@ import {
   apiDescribe,
   toDataArray,
   withAlternateTestDb,
-  withTestDb
+  withTestDb,
+  withTestDbs
 } from '../util/helpers';
 
 export const encoder = new TextEncoder();
@@ -246,6 +253,72 @@ apiDescribe('Bundles', persistence => {
     });
   });
 
+  it('can export the cache as a bundle', () => {
+    return withTestDbs(persistence, 2, async ([db, otherDb]) => {
+      await loadBundle(db, bundleString(db));
+      const bundle = await exportCacheAsBundle(db, {
+        queries: {
+          first: query(collection(db, 'coll-1'), orderBy('bar'), limit(1))
+        }
+      });
+
+      const progress = await loadBundle(otherDb, bundle);
+      verifySuccessProgress(progress);
+      expect(progress.totalDocuments).to.equal(2);
+
+      // Read from cache. These documents do not exist in backend, so they can
+      // only be read from cache.
+      let snap = await getDocsFromCache(collection(otherDb, 'coll-1'));
+      verifySnapEqualsTestDocs(snap);
+
+      snap = await getDocsFromCache((await namedQuery(otherDb, 'first'))!);
+      expect(toDataArray(snap)).to.deep.equal([{ k: 'a', bar: 1 }]);
+    });
+  });
+
+  it('can build a bundle from snapshots', () => {
+    return withTestDbs(persistence, 2, async ([db, otherDb]) => {
+      const coll = collection(db, doc(collection(db, 'bundles')).id);
+      await setDoc(doc(coll, 'a'), { k: 'a', bar: 1 });
+      await setDoc(doc(coll, 'b'), { k: 'b', bar: 2 });
+      await setDoc(doc(db, coll.path + '-other/c'), { k: 'c' });
+
+      const querySnap = await getDocs(query(coll, orderBy('bar'), limit(1)));
+      const builder = createBundleBuilder(db, 'built-bundle')
+        .add('first', querySnap)
+        .add(await getDoc(doc(db, coll.path + '-other/c')));
+      expect(() => builder.add('first', querySnap)).to.throw(
+        'the bundle already contains a query with that name'
+      );
+
+      const progress = await loadBundle(otherDb, builder.build());
+      verifySuccessProgress(progress);
+      expect(progress.totalDocuments).to.equal(2);
+
+      const snap = await getDocsFromCache(
+        (await namedQuery(otherDb, 'first'))!
+      );
+      expect(toDataArray(snap)).to.deep.equal([{ k: 'a', bar: 1 }]);
+      const docSnap = await getDocsFromCache(
+        collection(otherDb, coll.path + '-other')
+      );
+      expect(toDataArray(docSnap)).to.deep.equal([{ k: 'c' }]);
+    });
+  });
+
+  it('bundle builder rejects snapshots with pending writes', () => {
+    return withTestDb(persistence, async db => {
+      const coll = collection(db, doc(collection(db, 'bundles')).id);
+      await setDoc(doc(coll, 'a'), { k: 'a' });
+      const pending = setDoc(doc(coll, 'b'), { k: 'b' });
+      const snap = await getDocsFromCache(coll);
+      expect(() =>
+        createBundleBuilder(db, 'bundle').add('query', snap)
+      ).to.throw('cannot add snapshots with pending writes');
+      await pending;
+    });
+  });
+
   it('load with documents from other projects fails', () => {
     return withTestDb(persistence, async db => {
       return withAlternateTestDb(persistence, async otherDb => {
@@ -29,6 +29,7 @@ import {
   deleteDoc,
   deleteField,
   disableNetwork,
+  discardPendingWrite,
   doc,
   DocumentData,
   documentId,
@@ -39,10 +40,14 @@ import {
   getDocFromCache,
   getDocFromServer,
   getDocs,
+  getPendingWrites,
   initializeFirestore,
   limit,
   onSnapshot,
+  onSnapshotGroup,
+  onSnapshotResume,
   onSnapshotsInSync,
+  onWriteRejected,
   orderBy,
   query,
   queryEqual,
@@ -66,8 +71,10 @@ import {
   newTestApp,
   FirestoreError,
   QuerySnapshot,
+  RejectedWrite,
   vector,
-  getDocsFromServer
+  getDocsFromServer,
+  schemaConverter
 } from '../util/firebase_export';
 import {
   apiDescribe,
@@ -156,6 +163,29 @@ apiDescribe('Database', persistence => {
     });
   });
 
+  it('can read documents at a read time', () => {
+    return withTestDocAndInitialData(persistence, { val: 1 }, async docRef => {
+      await new Promise(resolve => setTimeout(resolve, 2000));
+      const readTime = Timestamp.fromMillis(Date.now() - 1000);
+      await updateDoc(docRef, { val: 2 });
+
+      const docSnap = await getDoc(docRef, { readTime });
+      expect(docSnap.data()).to.deep.equal({ val: 1 });
+      expect(docSnap.metadata.fromCache).to.be.false;
+      expect(docSnap.metadata.readTime!.isEqual(readTime)).to.be.true;
+
+      const querySnap = await getDocs(query(docRef.parent), { readTime });
+      expect(toDataArray(querySnap)).to.deep.equal([{ val: 1 }]);
+      expect(querySnap.metadata.readTime!.isEqual(readTime)).to.be.true;
+      expect(querySnap.docs[0].metadata.readTime!.isEqual(readTime)).to.be.true;
+
+      // Reads at a read time do not update the cache.
+      const latest = await getDoc(docRef);
+      expect(latest.data()).to.deep.equal({ val: 2 });
+      expect(latest.metadata.readTime).to.be.null;
+    });
+  });
+
   // eslint-disable-next-line no-restricted-properties
   (persistence.gc === 'lru' ? it : it.skip)(
     'can update an unknown document',
@@ -868,6 +898,88 @@ apiDescribe('Database', persistence => {
     });
   });
 
+  it('onSnapshotGroup raises consistent snapshots of all targets', () => {
+    const testDocs = {
+      a: { foo: 1 },
+      b: { foo: 2 }
+    };
+    return withTestCollection(persistence, testDocs, async (coll, db) => {
+      const docA = doc(coll, 'a');
+      let nextEvent = new Deferred<[DocumentSnapshot, QuerySnapshot]>();
+      const unsubscribe = onSnapshotGroup(
+        [docA, query(coll, where('foo', '>', 1))] as const,
+        snapshots => nextEvent.resolve([snapshots[0], snapshots[1]])
+      );
+
+      let [docSnap, querySnap] = await nextEvent.promise;
+      expect(docSnap.get('foo')).to.equal(1);
+      expect(toDataArray(querySnap)).to.deep.equal([{ foo: 2 }]);
+
+      nextEvent = new Deferred();
+      const batch = writeBatch(db);
+      batch.set(docA, { foo: 3 });
+      batch.delete(doc(coll, 'b'));
+      await batch.commit();
+
+      // Both changes are raised in the same event.
+      [docSnap, querySnap] = await nextEvent.promise;
+      expect(docSnap.get('foo')).to.equal(3);
+      expect(toDataArray(querySnap)).to.deep.equal([{ foo: 3 }]);
+      unsubscribe();
+    });
+  });
+
+  it('onSnapshotResume raises serialized documents from cache', () => {
+    const testDocs = {
+      a: { foo: 1 },
+      b: { foo: 2 }
+    };
+    return withTestCollection(persistence, testDocs, async coll => {
+      const docSnapshot = await getDoc(doc(coll, 'a'));
+      const querySnapshot = await getDocs(query(coll, orderBy('foo')));
+
+      return withTestDb(persistence, async db => {
+        const docAccumulator = new EventsAccumulator<DocumentSnapshot>();
+        const unsubscribeDoc = onSnapshotResume(
+          doc(db, docSnapshot.ref.path),
+          JSON.parse(JSON.stringify(docSnapshot)),
+          { includeMetadataChanges: true },
+          docAccumulator.storeEvent
+        );
+        const queryAccumulator = new EventsAccumulator<QuerySnapshot>();
+        const unsubscribeQuery = onSnapshotResume(
+          query(collection(db, coll.path), orderBy('foo')),
+          JSON.parse(JSON.stringify(querySnapshot)),
+          { includeMetadataChanges: true },
+          queryAccumulator.storeEvent
+        );
+
+        const docEvent = await docAccumulator.awaitEvent();
+        expect(docEvent.metadata.fromCache).to.be.true;
+        expect(docEvent.data()).to.deep.equal({ foo: 1 });
+
+        const queryEvent = await queryAccumulator.awaitEvent();
+        expect(queryEvent.metadata.fromCache).to.be.true;
+        expect(toDataArray(queryEvent)).to.deep.equal([{ foo: 1 }, { foo: 2 }]);
+
+        unsubscribeDoc();
+        unsubscribeQuery();
+      });
+    });
+  });
+
+  it('onSnapshotResume validates the serialized snapshot', () => {
+    return withTestCollection(persistence, { a: { foo: 1 } }, async coll => {
+      const querySnapshot = await getDocs(coll);
+      expect(() =>
+        onSnapshotResume(doc(coll, 'a'), querySnapshot.toJSON(), () => {})
+      ).to.throw(
+        'Function onSnapshotResume() requires the result of ' +
+          `DocumentSnapshot.toJSON() for document '${coll.path}/a'.`
+      );
+    });
+  });
+
   apiDescribe('Queries are validated client-side', persistence => {
     // NOTE: Failure cases are validated in validation_test.ts
 
@@ -1447,6 +1559,78 @@ apiDescribe('Database', persistence => {
     });
   });
 
+  it('can get and discard pending writes', () => {
+    return withTestDoc(persistence, async (docRef, firestore) => {
+      await setDoc(docRef, { foo: 'bar' });
+      const accumulator = new EventsAccumulator<DocumentSnapshot>();
+      const unsubscribe = onSnapshot(docRef, accumulator.storeEvent);
+      await accumulator.awaitEvent();
+      await disableNetwork(firestore);
+
+      const write = updateDoc(docRef, { foo: 'baz' });
+      let snapshot = await accumulator.awaitEvent();
+      expect(snapshot.data()).to.deep.equal({ foo: 'baz' });
+      expect(snapshot.metadata.hasPendingWrites).to.be.true;
+
+      const pendingWrites = await getPendingWrites(firestore);
+      expect(pendingWrites.length).to.equal(1);
+      expect(pendingWrites[0].localWriteTime).to.be.an.instanceof(Timestamp);
+      expect(pendingWrites[0].operations.length).to.equal(1);
+      expect(pendingWrites[0].operations[0].type).to.equal('update');
+      expect(pendingWrites[0].operations[0].data).to.deep.equal({ foo: 'baz' });
+      expect(refEqual(pendingWrites[0].operations[0].documentRef, docRef)).to.be
+        .true;
+
+      await discardPendingWrite(firestore, pendingWrites[0].batchId);
+      await expect(write).to.eventually.be.rejectedWith(
+        'The write was discarded by discardPendingWrite().'
+      );
+      snapshot = await accumulator.awaitEvent();
+      expect(snapshot.data()).to.deep.equal({ foo: 'bar' });
+      expect(snapshot.metadata.hasPendingWrites).to.be.false;
+      expect(await getPendingWrites(firestore)).to.deep.equal([]);
+
+      await enableNetwork(firestore);
+      await waitForPendingWrites(firestore);
+      const serverSnapshot = await getDocFromServer(docRef);
+      expect(serverSnapshot.data()).to.deep.equal({ foo: 'bar' });
+      unsubscribe();
+    });
+  });
+
+  it('rejects discarding unknown pending writes', () => {
+    return withTestDb(persistence, async db => {
+      await expect(discardPendingWrite(db, 1234)).to.eventually.be.rejectedWith(
+        'No pending write with batch ID 1234 exists.'
+      );
+    });
+  });
+
+  it('notifies listeners of rejected writes', () => {
+    return withTestDoc(persistence, async (docRef, firestore) => {
+      const rejected = new Deferred<RejectedWrite>();
+      const unsubscribe = onWriteRejected(firestore, rejectedWrite =>
+        rejected.resolve(rejectedWrite)
+      );
+      await disableNetwork(firestore);
+
+      // Updating a document that does not exist fails once it is sent.
+      const write = updateDoc(docRef, { foo: 'bar' });
+      await enableNetwork(firestore);
+      await expect(write).to.eventually.be.rejected;
+
+      const rejectedWrite = await rejected.promise;
+      expect(rejectedWrite.error.code).to.equal('not-found');
+      expect(rejectedWrite.localWriteTime).to.be.an.instanceof(Timestamp);
+      expect(rejectedWrite.operations.length).to.equal(1);
+      expect(rejectedWrite.operations[0].type).to.equal('update');
+      expect(rejectedWrite.operations[0].data).to.deep.equal({ foo: 'bar' });
+      expect(refEqual(rejectedWrite.operations[0].documentRef, docRef)).to.be
+        .true;
+      unsubscribe();
+    });
+  });
+
   // eslint-disable-next-line no-restricted-properties
   (persistence.storage === 'indexeddb' ? it : it.skip)(
     'offline writes are sent after restart',
@@ -2119,6 +2303,43 @@ apiDescribe('Database', persistence => {
         expect(snapshot.docs[0].data()).to.equal(42);
       });
     });
+
+    it('validates documents with schemaConverter()', () => {
+      const schema = {
+        properties: { title: { type: 'string' as const } },
+        required: ['title']
+      };
+      const testDocs = { valid: { title: 'foo' }, invalid: { title: 42 } };
+      return withTestCollection(persistence, testDocs, async collectionRef => {
+        const throwing = collectionRef.withConverter(schemaConverter(schema));
+        const snapshot = await getDocs(throwing);
+        expect(snapshot.size).to.equal(2);
+        const invalid = snapshot.docs.find(d => d.id === 'invalid')!;
+        expect(invalid.validationError!.code).to.equal('failed-precondition');
+        expect(() => invalid.data()).to.throw(
+          'Document ' + invalid.ref.path + ' failed validation'
+        );
+
+        const skipping = collectionRef.withConverter(
+          schemaConverter(schema, { onValidationFailure: 'skip' })
+        );
+        const skipped = await getDocs(skipping);
+        expect(skipped.docs.map(d => d.id)).to.deep.equal(['valid']);
+
+        const reporting = collectionRef.withConverter(
+          schemaConverter(schema, { onValidationFailure: 'report' })
+        );
+        const reported = await getDoc(doc(reporting, 'invalid'));
+        expect(reported.data()).to.deep.equal({ title: 42 });
+        expect(reported.validationError).to.not.be.null;
+
+        expect(() => setDoc(doc(throwing, 'new'), { title: 1 })).to.throw(
+          'Document data failed validation: Field "title" must be of type ' +
+            'string, but it was of type number.'
+        );
+        await setDoc(doc(throwing, 'new'), { title: 'bar' });
+      });
+    });
   });
 
   // TODO(b/196858864): This test regularly times out on CI.
@@ -22,6 +22,7 @@ import {
   disablePersistentCacheIndexAutoCreation,
   doc,
   enablePersistentCacheIndexAutoCreation,
+  explainLocalQuery,
   getDoc,
   getDocs,
   getDocsFromCache,
@@ -162,6 +163,39 @@ apiDescribe('PersistentCacheIndexManager', persistence => {
         expect(snapshot2.size).to.equal(1);
       });
     });
+
+    it('explainLocalQuery() reports the auto-created index', () => {
+      const testDocs = partitionedTestDocs({
+        matching: { documentData: { match: true }, documentCount: 1 },
+        nonmatching: { documentData: { match: false }, documentCount: 100 }
+      });
+      return withTestCollection(persistence, testDocs, async (coll, db) => {
+        const indexManager = getPersistentCacheIndexManager(db)!;
+        enablePersistentCacheIndexAutoCreation(indexManager);
+
+        // Populate the local cache with the entire collection's contents.
+        await getDocs(coll);
+
+        // The first execution scans the collection and auto-creates an index.
+        const query_ = query(coll, where('match', '==', true));
+        const explanation1 = await explainLocalQuery(query_);
+        expect(explanation1.strategy).to.equal('FULL_COLLECTION_SCAN');
+        expect(explanation1.documentsScanned).to.equal(101);
+        expect(explanation1.documentsReturned).to.equal(1);
+        expect(explanation1.indexesUsed).to.be.empty;
+        expect(explanation1.indexAutoCreationTriggered).to.be.true;
+
+        // The second execution uses the auto-created index.
+        const explanation2 = await explainLocalQuery(query_);
+        expect(explanation2.strategy).to.equal('INDEX');
+        expect(explanation2.documentsReturned).to.equal(1);
+        expect(explanation2.indexesUsed.length).to.equal(1);
+        expect(explanation2.indexesUsed[0].fields![0].fieldPath).to.equal(
+          'match'
+        );
+        expect(explanation2.indexAutoCreationTriggered).to.be.false;
+      });
+    });
   });
 
   describe('delete all persistent cache indexes', () => {
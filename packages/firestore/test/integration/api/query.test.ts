@@ -34,17 +34,23 @@ import {
   DocumentData,
   documentId,
   enableNetwork,
+  getDocFromCache,
   endAt,
   endBefore,
   GeoPoint,
   getDocs,
+  getDocsFromCache,
+  keepSynced,
   limit,
   limitToLast,
   onSnapshot,
   or,
   orderBy,
+  PageCursor,
+  paginate,
   query,
   QuerySnapshot,
+  select,
   setDoc,
   startAfter,
   startAt,
@@ -66,6 +72,7 @@ import {
   withRetry,
   withTestCollection,
   withTestDb,
+  withTestDbs,
   checkOnlineAndOfflineResultsMatch
 } from '../util/helpers';
 import { USE_EMULATOR } from '../util/settings';
@@ -87,6 +94,40 @@ apiDescribe('Queries', persistence => {
     });
   });
 
+  it('can issue select queries', () => {
+    const testDocs = {
+      a: { k: 'a', sort: 2, nested: { x: 1, y: 2 } },
+      b: { k: 'b', sort: 1, nested: { x: 3, y: 4 } }
+    };
+    return withTestCollection(persistence, testDocs, async collection => {
+      const snapshot = await getDocs(
+        query(collection, orderBy('sort'), select('k', 'nested.x'))
+      );
+      expect(toDataArray(snapshot)).to.deep.equal([
+        { k: 'b', nested: { x: 3 } },
+        { k: 'a', nested: { x: 1 } }
+      ]);
+      expect(snapshot.docs.every(d => d.isPartial)).to.be.true;
+
+      const keysOnly = await getDocs(query(collection, select()));
+      expect(toDataArray(keysOnly)).to.deep.equal([{}, {}]);
+    });
+  });
+
+  it('does not store partial documents in the cache', () => {
+    const testDocs = { a: { k: 'a', sort: 1 } };
+    return withTestCollection(persistence, testDocs, async collection => {
+      await getDocs(collection);
+      const snapshot = await getDocs(query(collection, select('k')));
+      expect(toDataArray(snapshot)).to.deep.equal([{ k: 'a' }]);
+      if (persistence.gc === 'lru') {
+        const cached = await getDocFromCache(doc(collection, 'a'));
+        expect(cached.isPartial).to.be.false;
+        expect(cached.data()).to.deep.equal({ k: 'a', sort: 1 });
+      }
+    });
+  });
+
   it('cannot issue limitToLast queries without explicit order-by', () => {
     return withTestCollection(persistence, {}, async collection => {
       const expectedError =
@@ -97,6 +138,67 @@ apiDescribe('Queries', persistence => {
     });
   });
 
+  it('keeps pinned queries synced in the cache', () => {
+    return withTestDbs(persistence, 2, async ([db, otherDb]) => {
+      const coll = collection(db, doc(collection(db, 'pinned')).id);
+      await setDoc(doc(coll, 'a'), { k: 'a' });
+      await keepSynced(coll, true);
+
+      // No listener is attached, but the pinned query receives the remote
+      // change.
+      await setDoc(doc(otherDb, coll.path, 'b'), { k: 'b' });
+      await withRetry(async () => {
+        const snapshot = await getDocsFromCache(coll);
+        if (snapshot.size !== 2) {
+          throw new RetryError();
+        }
+      });
+
+      await keepSynced(coll, false);
+      // Unpinning a query that is not pinned is a no-op.
+      await keepSynced(coll, false);
+    });
+  });
+
+  it('cannot pin limitToLast queries without explicit order-by', () => {
+    return withTestCollection(persistence, {}, async coll => {
+      expect(() => keepSynced(query(coll, limitToLast(2)), true)).to.throw(
+        'limitToLast() queries require specifying at least one orderBy() clause'
+      );
+    });
+  });
+
+  it('can paginate queries and resume from a cursor', () => {
+    const testDocs = {
+      a: { k: 'a', sort: 1 },
+      b: { k: 'b', sort: 2 },
+      c: { k: 'c', sort: 2 },
+      d: { k: 'd', sort: 3 },
+      e: { k: 'e', sort: 4 }
+    };
+    return withTestCollection(persistence, testDocs, async coll => {
+      const q = query(coll, orderBy('sort', 'desc'));
+      const pages: unknown[][] = [];
+      for await (const page of paginate(q, { pageSize: 2 })) {
+        pages.push(toDataArray(page).map(data => data.k));
+      }
+      expect(pages).to.deep.equal([['e', 'd'], ['c', 'b'], ['a']]);
+
+      const paginator = paginate(q, { pageSize: 3 });
+      await paginator.nextPage();
+      const cursor = PageCursor.fromJSON(
+        JSON.parse(JSON.stringify(paginator.cursor))
+      );
+      const resumed = paginate(q, { pageSize: 3, startAfter: cursor });
+      const page = await resumed.nextPage();
+      expect(toDataArray(page!)).to.deep.equal([
+        { k: 'b', sort: 2 },
+        { k: 'a', sort: 1 }
+      ]);
+      expect(await resumed.nextPage()).to.be.null;
+    });
+  });
+
   it('can issue limit queries using descending sort order', () => {
     const testDocs = {
       a: { k: 'a', sort: 0 },
@@ -31,7 +31,8 @@ import {
   FirestoreError,
   getDoc,
   runTransaction,
-  setDoc
+  setDoc,
+  Timestamp
 } from '../util/firebase_export';
 import { apiDescribe, withTestDb } from '../util/helpers';
 
@@ -643,6 +644,54 @@ apiDescribe('Database transactions', persistence => {
     });
   });
 
+  it('can run read-only transactions', () => {
+    return withTestDb(persistence, async db => {
+      const docRef = doc(collection(db, 'foo'));
+      await setDoc(docRef, { count: 1 });
+      await new Promise(resolve => setTimeout(resolve, 2000));
+      const readTime = Timestamp.fromMillis(Date.now() - 1000);
+      await setDoc(docRef, { count: 2 });
+
+      const latest = await runTransaction(db, txn => txn.get(docRef), {
+        readOnly: true
+      });
+      expect(latest.get('count')).to.equal(2);
+      const previous = await runTransaction(db, txn => txn.get(docRef), {
+        readOnly: true,
+        readTime
+      });
+      expect(previous.get('count')).to.equal(1);
+    });
+  });
+
+  it('does not commit or retry read-only transactions', () => {
+    return withTestDb(persistence, async db => {
+      const docRef = doc(collection(db, 'foo'));
+      await setDoc(docRef, { count: 1 });
+      let counter = 0;
+      try {
+        await runTransaction(
+          db,
+          async txn => {
+            ++counter;
+            await txn.get(docRef);
+            txn.set(docRef, { count: 2 });
+          },
+          { readOnly: true }
+        );
+        expect.fail('transaction should fail');
+      } catch (err) {
+        expect((err as FirestoreError).code).to.equal('invalid-argument');
+        expect((err as FirestoreError).message).to.equal(
+          'Firestore read-only transactions cannot write documents.'
+        );
+      }
+      expect(counter).to.equal(1);
+      const snapshot = await getDoc(docRef);
+      expect(snapshot.get('count')).to.equal(1);
+    });
+  });
+
   it('does not retry on permanent errors', () => {
     return withTestDb(persistence, db => {
       let counter = 0;
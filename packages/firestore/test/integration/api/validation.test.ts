@@ -28,6 +28,8 @@ import {
   enableIndexedDbPersistence,
   endAt,
   endBefore,
+  findNearest,
+  getDocsFromCache,
   increment,
   limit,
   limitToLast,
@@ -46,13 +48,15 @@ import {
   orderBy,
   query,
   runTransaction,
+  select,
   serverTimestamp,
   setDoc,
   updateDoc,
   where,
   or,
   and,
-  newTestApp
+  newTestApp,
+  vector
 } from '../util/firebase_export';
 import {
   apiDescribe,
@@ -1238,6 +1242,90 @@ apiDescribe('Validation:', persistence => {
         );
       }
     );
+
+    validationIt(persistence, 'with invalid findNearest options fail', db => {
+      const coll = collection(db, 'test');
+      const options = { limit: 5, distanceMeasure: 'COSINE' } as const;
+      expect(() => findNearest('embedding', [], options)).to.throw(
+        'Function findNearest() requires a non-empty query vector.'
+      );
+      expect(() => findNearest('embedding', 'foo' as any, options)).to.throw(
+        'Function findNearest() requires its second argument to be a ' +
+          'VectorValue or an array of numbers, but it was: "foo".'
+      );
+      expect(() =>
+        findNearest('embedding', [1, 2], { ...options, limit: 1001 })
+      ).to.throw(
+        'Function findNearest() requires "limit" to be a positive integer ' +
+          'of no more than 1000, but it was: 1001.'
+      );
+      expect(() =>
+        findNearest('embedding', vector([1, 2]), {
+          ...options,
+          distanceMeasure: 'MANHATTAN' as any
+        })
+      ).to.throw(
+        'Function findNearest() requires "distanceMeasure" to be one of ' +
+          `'EUCLIDEAN', 'COSINE' or 'DOT_PRODUCT', but it was: "MANHATTAN".`
+      );
+      expect(() =>
+        query(coll, findNearest('embedding', [1, 2], options), limit(3))
+      ).to.throw(
+        'Invalid query. You cannot use limit() together with findNearest().'
+      );
+      expect(() =>
+        query(coll, orderBy('foo'), findNearest('embedding', [1, 2], options))
+      ).to.throw(
+        'Invalid query. You cannot use findNearest() together with ' +
+          'orderBy(), limit(), limitToLast() or cursors.'
+      );
+      expect(() =>
+        query(
+          coll,
+          findNearest('embedding', [1, 2], options),
+          findNearest('embedding', [1, 2], options)
+        )
+      ).to.throw(
+        'Invalid query. You cannot use more than one findNearest() stage.'
+      );
+    });
+
+    validationIt(
+      persistence,
+      'findNearest queries cannot be listened to',
+      db => {
+        const vectorQuery = query(
+          collection(db, 'test'),
+          findNearest('embedding', [1, 2], {
+            limit: 5,
+            distanceMeasure: 'EUCLIDEAN'
+          })
+        );
+        expect(() => onSnapshot(vectorQuery, () => {})).to.throw(
+          'findNearest() queries are not supported by onSnapshot(). Use ' +
+            'getDocs() or getDocsFromServer() instead.'
+        );
+        expect(() => getDocsFromCache(vectorQuery)).to.throw(
+          'findNearest() queries are not supported by getDocsFromCache(). Use ' +
+            'getDocs() or getDocsFromServer() instead.'
+        );
+      }
+    );
+
+    validationIt(persistence, 'select queries cannot be listened to', db => {
+      const projectedQuery = query(collection(db, 'test'), select('a'));
+      expect(() => onSnapshot(projectedQuery, () => {})).to.throw(
+        'select() queries are not supported by onSnapshot(). Use ' +
+          'getDocs() or getDocsFromServer() instead.'
+      );
+      expect(() => getDocsFromCache(projectedQuery)).to.throw(
+        'select() queries are not supported by getDocsFromCache(). Use ' +
+          'getDocs() or getDocsFromServer() instead.'
+      );
+      expect(() => query(projectedQuery, select('b'))).to.throw(
+        'Invalid query. You cannot use more than one select() constraint.'
+      );
+    });
   });
 });
 
@@ -364,7 +364,9 @@ function sampleTargetData(): TargetData {
     filters: [],
     limit: null,
     startAt: null,
-    endAt: null
+    endAt: null,
+    findNearest: null,
+    projection: null
   };
   return new TargetData(target, 1, TargetPurpose.Listen, 1);
 }
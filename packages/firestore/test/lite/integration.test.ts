@@ -423,6 +423,26 @@ describe('getDoc()', () => {
       expect(docSnap.exists()).to.be.true;
     });
   });
+
+  it('can get a document at a read time', () => {
+    return withTestDocAndInitialData({ val: 1 }, async docRef => {
+      await new Promise(resolve => setTimeout(resolve, 2000));
+      const readTime = Timestamp.fromMillis(Date.now() - 1000);
+      await updateDoc(docRef, { val: 2 });
+      const docSnap = await getDoc(docRef, { readTime });
+      expect(docSnap.data()).to.deep.equal({ val: 1 });
+    });
+  });
+
+  it('validates the read time', () => {
+    return withTestDoc(async docRef => {
+      expect(() =>
+        getDoc(docRef, { readTime: Timestamp.fromMillis(Date.now() + 60000) })
+      ).to.throw(
+        'Function getDoc() requires "readTime" to not be in the future.'
+      );
+    });
+  });
 });
 
 /**
@@ -587,6 +607,63 @@ describe('Transaction', () => {
     });
   });
 
+  it('can run read-only transactions', () => {
+    return withTestDocAndInitialData({ counter: 1 }, async doc => {
+      await new Promise(resolve => setTimeout(resolve, 2000));
+      const readTime = Timestamp.fromMillis(Date.now() - 1000);
+      await updateDoc(doc, { counter: 2 });
+      const [latest, previous] = await Promise.all([
+        runTransaction(doc.firestore, txn => txn.get(doc), { readOnly: true }),
+        runTransaction(doc.firestore, txn => txn.get(doc), {
+          readOnly: true,
+          readTime
+        })
+      ]);
+      expect(latest.get('counter')).to.equal(2);
+      expect(previous.get('counter')).to.equal(1);
+    });
+  });
+
+  it('rejects writes in read-only transactions', () => {
+    return withTestDocAndInitialData({ counter: 1 }, async doc => {
+      let attempts = 0;
+      await expect(
+        runTransaction(
+          doc.firestore,
+          async transaction => {
+            ++attempts;
+            const snap = await transaction.get(doc);
+            transaction.update(doc, 'counter', snap.get('counter') + 1);
+          },
+          { readOnly: true }
+        )
+      ).to.eventually.be.rejectedWith(
+        'Firestore read-only transactions cannot write documents.'
+      );
+      expect(attempts).to.equal(1);
+      const result = await getDoc(doc);
+      expect(result.get('counter')).to.equal(1);
+    });
+  });
+
+  it('validates read-only transaction options', () => {
+    return withTestDb(db => {
+      expect(() =>
+        runTransaction(db, async () => {}, {
+          readTime: Timestamp.fromMillis(Date.now() - 1000)
+        })
+      ).to.throw('Only read-only transactions can specify a "readTime"');
+      expect(() =>
+        runTransaction(db, async () => {}, {
+          readOnly: true,
+          readTime: Timestamp.fromMillis(Date.now() + 60000)
+        })
+      ).to.throw(
+        'Function runTransaction() requires "readTime" to not be in the future.'
+      );
+    });
+  });
+
   it('can read non-existing doc then write', () => {
     return withTestDoc(async doc => {
       await runTransaction(doc.firestore, async transaction => {
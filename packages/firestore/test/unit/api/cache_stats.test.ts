@@ -0,0 +1,136 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+
+import {
+  collectGarbage,
+  collection,
+  createInMemoryBackend,
+  doc,
+  Firestore,
+  getCacheStats,
+  getDocs,
+  memoryLocalCache,
+  memoryLruGarbageCollector,
+  onSnapshot,
+  setDoc
+} from '../../../src';
+import { PrivateSettings } from '../../../src/lite-api/settings';
+import { newTestFirestore } from '../../util/api_helpers';
+
+describe('getCacheStats() and collectGarbage()', () => {
+  let db: Firestore;
+
+  function newDb(settings: PrivateSettings = {}): void {
+    db = newTestFirestore('test-project');
+    db._setSettings({
+      _backend: createInMemoryBackend(),
+      ...settings
+    } as PrivateSettings);
+  }
+
+  afterEach(() => db._delete());
+
+  async function writeDocs(): Promise<void> {
+    for (let i = 0; i < 3; ++i) {
+      await setDoc(doc(db, 'coll/doc' + i), { value: i });
+    }
+    await getDocs(collection(db, 'coll'));
+  }
+
+  it('validates the target size', () => {
+    newDb();
+    expect(() => collectGarbage(db, { targetBytes: -1 })).to.throw(
+      'targetBytes must be at least 0, but it was: -1.'
+    );
+  });
+
+  it('reports the contents of the cache', async () => {
+    newDb({
+      localCache: memoryLocalCache({
+        garbageCollector: memoryLruGarbageCollector()
+      })
+    });
+    await writeDocs();
+    const stats = await getCacheStats(db);
+    expect(stats).to.deep.include({
+      documentCount: 3,
+      targetCount: 1,
+      pendingWriteCount: 0,
+      overlayCount: 0
+    });
+    expect(stats.byteSize).to.be.greaterThan(0);
+  });
+
+  it('collects garbage until the cache is below the target size', async () => {
+    newDb({
+      localCache: memoryLocalCache({
+        garbageCollector: memoryLruGarbageCollector()
+      })
+    });
+    await writeDocs();
+    const { byteSize } = await getCacheStats(db);
+
+    // Nothing is collected while the cache is below the target size.
+    expect(await collectGarbage(db)).to.deep.equal({
+      documentsRemoved: 0,
+      targetsRemoved: 0
+    });
+    expect(
+      await collectGarbage(db, { targetBytes: byteSize + 1 })
+    ).to.deep.equal({ documentsRemoved: 0, targetsRemoved: 0 });
+
+    expect(await collectGarbage(db, { targetBytes: 0 })).to.deep.equal({
+      documentsRemoved: 3,
+      targetsRemoved: 1
+    });
+    expect(await getCacheStats(db)).to.deep.equal({
+      documentCount: 0,
+      byteSize: 0,
+      targetCount: 0,
+      pendingWriteCount: 0,
+      overlayCount: 0
+    });
+  });
+
+  it('does not collect documents of active queries', async () => {
+    newDb({
+      localCache: memoryLocalCache({
+        garbageCollector: memoryLruGarbageCollector()
+      })
+    });
+    await writeDocs();
+    let unsubscribe: () => void;
+    await new Promise<void>(resolve => {
+      unsubscribe = onSnapshot(doc(db, 'coll/doc0'), () => resolve());
+    });
+    const result = await collectGarbage(db, { targetBytes: 0 });
+    expect(result.documentsRemoved).to.equal(2);
+    expect((await getCacheStats(db)).documentCount).to.equal(1);
+    unsubscribe!();
+  });
+
+  it('does nothing with eager garbage collection', async () => {
+    newDb();
+    await writeDocs();
+    expect(await collectGarbage(db, { targetBytes: 0 })).to.deep.equal({
+      documentsRemoved: 0,
+      targetsRemoved: 0
+    });
+  });
+});
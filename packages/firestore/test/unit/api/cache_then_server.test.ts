@@ -0,0 +1,122 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+
+import {
+  CacheThenServerReadOptions,
+  collection,
+  createInMemoryBackend,
+  doc,
+  Firestore,
+  getDoc,
+  getDocs,
+  memoryLocalCache,
+  memoryLruGarbageCollector,
+  setDoc
+} from '../../../src';
+import { PrivateSettings } from '../../../src/lite-api/settings';
+import { newTestFirestore } from '../../util/api_helpers';
+
+describe('cache-then-server reads', () => {
+  let db: Firestore;
+
+  // The in-memory backend versions its documents from the start of the epoch,
+  // so cached data is only fresh enough if any staleness is accepted.
+  const fresh: CacheThenServerReadOptions = {
+    source: 'cache-then-server',
+    maxStaleness: Number.POSITIVE_INFINITY
+  };
+  const stale: CacheThenServerReadOptions = {
+    source: 'cache-then-server',
+    maxStaleness: 60 * 1000
+  };
+
+  beforeEach(() => {
+    db = newTestFirestore('test-project');
+    db._setSettings({
+      _backend: createInMemoryBackend(),
+      localCache: memoryLocalCache({
+        garbageCollector: memoryLruGarbageCollector()
+      })
+    } as PrivateSettings);
+  });
+
+  afterEach(() => db._delete());
+
+  it('validates the options', () => {
+    const ref = doc(db, 'coll/doc');
+    expect(() =>
+      getDoc(ref, { source: 'cache-then-server', maxStaleness: -1 })
+    ).to.throw(
+      'Function getDoc() requires "maxStaleness" to be a non-negative number, ' +
+        'but it was: -1.'
+    );
+    expect(() =>
+      getDocs(collection(db, 'coll'), {
+        source: 'cache',
+        maxStaleness: 0
+      } as unknown as CacheThenServerReadOptions)
+    ).to.throw(
+      `Function getDocs() requires "source" to be 'cache-then-server', but ` +
+        'it was: cache.'
+    );
+  });
+
+  it('serves documents from the cache if they are fresh enough', async () => {
+    const ref = doc(db, 'coll/doc');
+    await setDoc(ref, { value: 1 });
+
+    const cached = await getDoc(ref, fresh);
+    expect(cached.metadata.fromCache).to.be.true;
+    expect(cached.data()).to.deep.equal({ value: 1 });
+
+    const fetched = await getDoc(ref, stale);
+    expect(fetched.metadata.fromCache).to.be.false;
+    expect(fetched.data()).to.deep.equal({ value: 1 });
+  });
+
+  it('serves missing documents from the cache', async () => {
+    const ref = doc(db, 'coll/missing');
+    const fetched = await getDoc(ref, fresh);
+    expect(fetched.metadata.fromCache).to.be.false;
+    expect(fetched.exists()).to.be.false;
+
+    const cached = await getDoc(ref, fresh);
+    expect(cached.metadata.fromCache).to.be.true;
+    expect(cached.exists()).to.be.false;
+  });
+
+  it('serves query results from the cache if they are fresh enough', async () => {
+    await setDoc(doc(db, 'coll/a'), { value: 1 });
+    await setDoc(doc(db, 'coll/b'), { value: 2 });
+    const coll = collection(db, 'coll');
+
+    // The query was never synced with the server.
+    const first = await getDocs(coll, fresh);
+    expect(first.metadata.fromCache).to.be.false;
+    expect(first.size).to.equal(2);
+
+    const cached = await getDocs(coll, fresh);
+    expect(cached.metadata.fromCache).to.be.true;
+    expect(cached.docs.map(d => d.id)).to.deep.equal(['a', 'b']);
+
+    const fetched = await getDocs(coll, stale);
+    expect(fetched.metadata.fromCache).to.be.false;
+    expect(fetched.size).to.equal(2);
+  });
+});
@@ -19,6 +19,8 @@ import { expect } from 'chai';
 
 import {
   connectFirestoreEmulator,
+  documentSnapshotFromJSON,
+  querySnapshotFromJSON,
   refEqual,
   snapshotEqual,
   queryEqual
@@ -29,6 +31,7 @@ import {
   collectionReference,
   documentReference,
   documentSnapshot,
+  firestore,
   newTestFirestore,
   query,
   querySnapshot
@@ -107,6 +110,41 @@ describe('DocumentSnapshot', () => {
   it('JSON.stringify() does not throw', () => {
     JSON.stringify(documentSnapshot('foo/bar', { a: 1 }, true));
   });
+
+  it('can be restored with documentSnapshotFromJSON()', () => {
+    const snapshot = documentSnapshot(
+      'foo/bar',
+      { a: 1, b: { c: 'd' } },
+      false
+    );
+    const json = JSON.parse(JSON.stringify(snapshot));
+
+    const restored = documentSnapshotFromJSON(firestore(), json);
+    expect(snapshotEqual(restored, snapshot)).to.be.true;
+    expect(restored.data()).to.deep.equal({ a: 1, b: { c: 'd' } });
+    expect(restored.metadata.fromCache).to.be.true;
+  });
+
+  it('can restore missing documents with documentSnapshotFromJSON()', () => {
+    const snapshot = documentSnapshot('foo/bar', null, false);
+
+    const restored = documentSnapshotFromJSON(firestore(), snapshot.toJSON());
+    expect(restored.exists()).to.be.false;
+    expect(restored.ref.path).to.equal('foo/bar');
+  });
+
+  it('documentSnapshotFromJSON() validates its input', () => {
+    expect(() => documentSnapshotFromJSON(firestore(), {})).to.throw(
+      'Function documentSnapshotFromJSON() requires its argument to be the ' +
+        'result of DocumentSnapshot.toJSON() or QuerySnapshot.toJSON().'
+    );
+    expect(() =>
+      documentSnapshotFromJSON(
+        firestore(),
+        querySnapshot('foo', {}, {}, keys(), false, false).toJSON()
+      )
+    ).to.throw('Use querySnapshotFromJSON() instead.');
+  });
 });
 
 describe('Query', () => {
@@ -229,6 +267,42 @@ describe('QuerySnapshot', () => {
       querySnapshot('foo', {}, { a: { a: 1 } }, keys(), false, false)
     );
   });
+
+  it('can be restored with querySnapshotFromJSON()', () => {
+    const snapshot = querySnapshot(
+      'foo',
+      {},
+      { a: { a: 1 }, b: { a: 2 } },
+      keys(),
+      false,
+      false
+    );
+    const json = JSON.parse(JSON.stringify(snapshot));
+
+    const restored = querySnapshotFromJSON(firestore(), json);
+    expect(queryEqual(restored.query, snapshot.query)).to.be.true;
+    expect(restored.docs.map(doc => doc.id)).to.deep.equal(['a', 'b']);
+    expect(restored.docs.map(doc => doc.data())).to.deep.equal([
+      { a: 1 },
+      { a: 2 }
+    ]);
+    expect(restored.metadata.fromCache).to.be.true;
+  });
+
+  it('toJSON() fails for snapshots with pending writes', () => {
+    expect(() =>
+      querySnapshot(
+        'foo',
+        {},
+        { a: { a: 1 } },
+        keys('foo/a'),
+        false,
+        false
+      ).toJSON()
+    ).to.throw(
+      'QuerySnapshot.toJSON() cannot serialize documents with pending writes.'
+    );
+  });
 });
 
 describe('SnapshotMetadata', () => {
@@ -0,0 +1,184 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+
+import {
+  collection,
+  createInMemoryBackend,
+  doc,
+  Firestore,
+  findNearest,
+  limit,
+  orderBy,
+  PageCursor,
+  paginate,
+  query as newQuery,
+  QuerySnapshot,
+  select,
+  setDoc
+} from '../../../src';
+import { Bound } from '../../../src/core/bound';
+import { Direction } from '../../../src/core/order_by';
+import { PrivateSettings } from '../../../src/lite-api/settings';
+import { newTestFirestore, query } from '../../util/api_helpers';
+import { ref, wrap } from '../../util/helpers';
+
+describe('PageCursor', () => {
+  it('can be serialized and restored', () => {
+    const cursor = new PageCursor(
+      [
+        ['a', Direction.ASCENDING],
+        ['__name__', Direction.ASCENDING]
+      ],
+      new Bound(
+        [{ bytesValue: new Uint8Array([0, 1, 255]) }, wrap(ref('coll/doc'))],
+        /* inclusive= */ false
+      )
+    );
+    const json = JSON.parse(JSON.stringify(cursor.toJSON()));
+    expect(json.position[0]).to.deep.equal({ bytesValue: 'AAH/' });
+
+    const restored = PageCursor.fromJSON(json);
+    expect(restored._orderBy).to.deep.equal(cursor._orderBy);
+    expect(restored._position.position).to.deep.equal(json.position);
+    expect(restored._position.inclusive).to.be.false;
+  });
+
+  it('validates its JSON representation', () => {
+    const message =
+      'Function PageCursor.fromJSON() requires its argument to be the result ' +
+      'of PageCursor.toJSON().';
+    expect(() => PageCursor.fromJSON({ type: 'foo' })).to.throw(message);
+
+    const json = {
+      type: 'firestore/pageCursor/1.0',
+      orderBy: [
+        ['a', 'asc'],
+        ['__name__', 'desc']
+      ],
+      position: [
+        { mapValue: { fields: { b: { integerValue: '1' } } } },
+        { referenceValue: 'projects/p/databases/d/documents/coll/doc' }
+      ]
+    };
+    expect(PageCursor.fromJSON(json)._orderBy).to.deep.equal(json.orderBy);
+    for (const invalid of [
+      { orderBy: [['a', 'up'], json.orderBy[1]] },
+      { orderBy: [[1, 'asc'], json.orderBy[1]] },
+      { position: [{ integerValue: 'one' }, json.position[1]] },
+      {
+        position: [{ stringValue: 'a', booleanValue: true }, json.position[1]]
+      },
+      { position: [{ unknownValue: 'a' }, json.position[1]] },
+      {
+        position: [
+          { mapValue: { fields: { b: { integerValue: {} } } } },
+          json.position[1]
+        ]
+      }
+    ]) {
+      expect(() => PageCursor.fromJSON({ ...json, ...invalid })).to.throw(
+        message
+      );
+    }
+  });
+});
+
+describe('paginate()', () => {
+  let db: Firestore | null = null;
+
+  afterEach(async () => {
+    await db?._delete();
+    db = null;
+  });
+
+  it('reads overlapping pages one after the other', async () => {
+    db = newTestFirestore('test-project');
+    db._setSettings({ _backend: createInMemoryBackend() } as PrivateSettings);
+    for (const id of ['a', 'b', 'c']) {
+      await setDoc(doc(db, 'coll', id), {});
+    }
+    const paginator = paginate(collection(db, 'coll'), { pageSize: 1 });
+    const iterator = paginator[Symbol.asyncIterator]();
+    const ids = (page: QuerySnapshot | null): string[] =>
+      page ? page.docs.map(d => d.id) : [];
+    const [first, second, third, fourth] = await Promise.all([
+      paginator.nextPage(),
+      iterator.next().then(result => (result.done ? null : result.value)),
+      paginator.nextPage(),
+      paginator.nextPage()
+    ]);
+    expect(ids(first)).to.deep.equal(['a']);
+    expect(ids(second)).to.deep.equal(['b']);
+    expect(ids(third)).to.deep.equal(['c']);
+    expect(fourth).to.be.null;
+  });
+
+  it('validates the page size', () => {
+    expect(() => paginate(query('coll'), { pageSize: 0 })).to.throw(
+      'Function paginate() requires a positive number, but it was: 0.'
+    );
+  });
+
+  it('rejects queries with a limit', () => {
+    expect(() =>
+      paginate(newQuery(query('coll'), limit(2)), { pageSize: 1 })
+    ).to.throw('Function paginate() cannot be called with a query that has');
+  });
+
+  it('rejects findNearest() queries', () => {
+    expect(() =>
+      paginate(
+        newQuery(
+          query('coll'),
+          findNearest('embedding', [1, 2], {
+            limit: 2,
+            distanceMeasure: 'EUCLIDEAN'
+          })
+        ),
+        { pageSize: 1 }
+      )
+    ).to.throw(
+      'Function paginate() cannot be called with a findNearest() query.'
+    );
+  });
+
+  it('rejects select() queries', () => {
+    expect(() =>
+      paginate(newQuery(query('coll'), orderBy('a'), select('b')), {
+        pageSize: 1
+      })
+    ).to.throw('Function paginate() cannot be called with a select() query');
+  });
+
+  it('rejects cursors for queries with other order-by clauses', () => {
+    const cursor = new PageCursor(
+      [['__name__', Direction.ASCENDING]],
+      new Bound([wrap(ref('coll/doc'))], /* inclusive= */ false)
+    );
+    expect(
+      paginate(query('coll'), { pageSize: 1, startAfter: cursor }).cursor
+    ).to.equal(cursor);
+    expect(() =>
+      paginate(newQuery(query('coll'), orderBy('a')), {
+        pageSize: 1,
+        startAfter: cursor
+      })
+    ).to.throw('requires the "startAfter" cursor to be created for a query');
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect, use } from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+
+import {
+  createInMemoryBackend,
+  disableNetwork,
+  discardPendingWrite,
+  doc,
+  enableNetwork,
+  Firestore,
+  getDocFromServer,
+  getPendingWrites,
+  memoryLocalCache,
+  setDoc,
+  waitForPendingWrites
+} from '../../../src';
+import { PrivateSettings } from '../../../src/lite-api/settings';
+import { newTestFirestore } from '../../util/api_helpers';
+
+use(chaiAsPromised);
+
+describe('getPendingWrites() and discardPendingWrite()', () => {
+  let db: Firestore;
+
+  beforeEach(() => {
+    db = newTestFirestore('test-project');
+    db._setSettings({
+      _backend: createInMemoryBackend(),
+      localCache: memoryLocalCache()
+    } as PrivateSettings);
+  });
+
+  afterEach(() => db._delete());
+
+  it('can discard a pending write that is not the first one', async () => {
+    await disableNetwork(db);
+    const first = setDoc(doc(db, 'coll/a'), { value: 1 });
+    const second = setDoc(doc(db, 'coll/b'), { value: 2 });
+    const third = setDoc(doc(db, 'coll/c'), { value: 3 });
+
+    const pendingWrites = await getPendingWrites(db);
+    expect(pendingWrites.length).to.equal(3);
+    await discardPendingWrite(db, pendingWrites[1].batchId);
+    await expect(second).to.eventually.be.rejectedWith(
+      'The write was discarded by discardPendingWrite().'
+    );
+
+    const fourth = setDoc(doc(db, 'coll/d'), { value: 4 });
+    expect(
+      (await getPendingWrites(db)).map(write => write.batchId)
+    ).to.deep.equal([
+      pendingWrites[0].batchId,
+      pendingWrites[2].batchId,
+      pendingWrites[2].batchId + 1
+    ]);
+
+    await enableNetwork(db);
+    await Promise.all([first, third, fourth]);
+    await waitForPendingWrites(db);
+    expect((await getDocFromServer(doc(db, 'coll/b'))).exists()).to.be.false;
+    expect((await getDocFromServer(doc(db, 'coll/d'))).data()).to.deep.equal({
+      value: 4
+    });
+  });
+
+  it('waits for earlier writes when the last pending write is discarded', async () => {
+    await disableNetwork(db);
+    const first = setDoc(doc(db, 'coll/a'), { value: 1 });
+    const second = setDoc(doc(db, 'coll/b'), { value: 2 });
+    let done = false;
+    const allWritten = waitForPendingWrites(db).then(() => {
+      done = true;
+    });
+
+    const pendingWrites = await getPendingWrites(db);
+    await discardPendingWrite(db, pendingWrites[1].batchId);
+    await expect(second).to.eventually.be.rejected;
+    await getPendingWrites(db);
+    expect(done).to.be.false;
+
+    await enableNetwork(db);
+    await Promise.all([first, allWritten]);
+    expect(done).to.be.true;
+  });
+});
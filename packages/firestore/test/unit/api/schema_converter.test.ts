@@ -0,0 +1,222 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+
+import {
+  Bytes,
+  DocumentSnapshot,
+  GeoPoint,
+  QuerySnapshot,
+  Schema,
+  schemaConverter,
+  serverTimestamp,
+  SnapshotMetadata,
+  Timestamp
+} from '../../../src';
+import { UntypedFirestoreDataConverter } from '../../../src/lite-api/user_data_reader';
+import {
+  documentReference,
+  documentSnapshot,
+  querySnapshot
+} from '../../util/api_helpers';
+import { keys } from '../../util/helpers';
+
+describe('schemaConverter', () => {
+  const schema: Schema = {
+    type: 'object',
+    properties: {
+      title: { type: 'string' },
+      rating: { type: ['integer', 'null'] },
+      status: { enum: ['draft', 'published'] },
+      tags: { type: 'array', items: { type: 'string' } },
+      author: {
+        type: 'object',
+        properties: { name: { type: 'string' } },
+        required: ['name'],
+        additionalProperties: false
+      }
+    },
+    required: ['title']
+  };
+
+  function validate(data: Record<string, unknown>): void {
+    const converter = schemaConverter(
+      schema
+    ) as UntypedFirestoreDataConverter<unknown>;
+    converter.validate!(data);
+  }
+
+  it('accepts valid data', () => {
+    expect(() =>
+      validate({
+        title: 'foo',
+        rating: null,
+        status: 'draft',
+        tags: ['a', 'b'],
+        author: { name: 'bar' },
+        other: 1
+      })
+    ).not.to.throw();
+    expect(() => validate({ title: 'foo', rating: 3 })).not.to.throw();
+  });
+
+  it('accepts field value sentinels', () => {
+    expect(() =>
+      validate({ title: 'foo', rating: serverTimestamp() })
+    ).not.to.throw();
+  });
+
+  it('checks the types of values', () => {
+    const anyType: Schema = {
+      properties: {
+        timestamp: { type: 'timestamp' },
+        date: { type: 'timestamp' },
+        geopoint: { type: 'geopoint' },
+        bytes: { type: 'bytes' },
+        reference: { type: 'reference' },
+        map: { type: 'object' }
+      }
+    };
+    const converter = schemaConverter(
+      anyType
+    ) as UntypedFirestoreDataConverter<unknown>;
+    expect(() =>
+      converter.validate!({
+        timestamp: Timestamp.now(),
+        date: new Date(),
+        geopoint: new GeoPoint(1, 2),
+        bytes: Bytes.fromUint8Array(new Uint8Array([1])),
+        reference: documentReference('coll/doc'),
+        map: {}
+      })
+    ).not.to.throw();
+    expect(() => converter.validate!({ geopoint: Timestamp.now() })).to.throw(
+      'Field "geopoint" must be of type geopoint, but it was of type timestamp.'
+    );
+  });
+
+  it('names the invalid field', () => {
+    expect(() => validate({})).to.throw(
+      'Document is missing the required field "title".'
+    );
+    expect(() => validate({ title: 1 })).to.throw(
+      'Field "title" must be of type string, but it was of type number.'
+    );
+    expect(() => validate({ title: 'foo', rating: 1.5 })).to.throw(
+      'Field "rating" must be of type integer or null, but it was of type ' +
+        'number.'
+    );
+    expect(() => validate({ title: 'foo', status: 'deleted' })).to.throw(
+      'Field "status" must be one of ["draft","published"].'
+    );
+    expect(() => validate({ title: 'foo', tags: ['a', 1] })).to.throw(
+      'Field "tags[1]" must be of type string'
+    );
+    expect(() => validate({ title: 'foo', author: {} })).to.throw(
+      'Field "author" is missing the required field "name".'
+    );
+    expect(() =>
+      validate({ title: 'foo', author: { name: 'bar', age: 3 } })
+    ).to.throw('Field "author" contains the unexpected field "age".');
+  });
+
+  it('requires an object schema', () => {
+    expect(() => schemaConverter({ type: 'string' })).to.throw(
+      'Function schemaConverter() requires a schema of type "object".'
+    );
+  });
+});
+
+describe('Converter validation', () => {
+  const schema: Schema = { properties: { title: { type: 'string' } } };
+
+  function withSchema(
+    snapshot: DocumentSnapshot,
+    onValidationFailure: 'throw' | 'skip' | 'report'
+  ): DocumentSnapshot {
+    return new DocumentSnapshot(
+      snapshot._firestore,
+      snapshot._userDataWriter,
+      snapshot._key,
+      snapshot._document,
+      new SnapshotMetadata(false, false),
+      schemaConverter(schema, { onValidationFailure })
+    );
+  }
+
+  it('throws for invalid documents by default', () => {
+    const snapshot = withSchema(
+      documentSnapshot('coll/doc', { title: 1 }, false),
+      'throw'
+    );
+    expect(() => snapshot.data()).to.throw(
+      'Document coll/doc failed validation: Field "title" must be of type ' +
+        'string, but it was of type number.'
+    );
+    expect(snapshot.validationError!.code).to.equal('failed-precondition');
+  });
+
+  it('reports validation errors', () => {
+    const invalid = withSchema(
+      documentSnapshot('coll/doc', { title: 1 }, false),
+      'report'
+    );
+    expect(invalid.data()).to.deep.equal({ title: 1 });
+    expect(invalid.validationError).to.be.an.instanceof(Error);
+
+    const valid = withSchema(
+      documentSnapshot('coll/doc', { title: 'foo' }, false),
+      'report'
+    );
+    expect(valid.data()).to.deep.equal({ title: 'foo' });
+    expect(valid.validationError).to.be.null;
+  });
+
+  it('skips invalid documents', () => {
+    const snapshot = withSchema(
+      documentSnapshot('coll/doc', { title: 1 }, false),
+      'skip'
+    );
+    expect(snapshot.exists()).to.be.true;
+    expect(snapshot.data()).to.be.undefined;
+  });
+
+  it('skips invalid documents in query snapshots', () => {
+    const snapshot = querySnapshot(
+      'coll',
+      { a: { title: 'foo' }, b: { title: 'bar' } },
+      { a: { title: 1 }, c: { title: 'baz' }, d: { title: 2 } },
+      keys(),
+      false,
+      false
+    );
+    const converted = new QuerySnapshot(
+      snapshot._firestore,
+      snapshot._userDataWriter,
+      snapshot.query.withConverter(
+        schemaConverter(schema, { onValidationFailure: 'skip' })
+      ),
+      snapshot._snapshot
+    );
+    expect(converted.size).to.equal(1);
+    expect(converted.docs.map(d => d.id)).to.deep.equal(['c']);
+    expect(
+      converted.docChanges().map(c => [c.type, c.doc.id, c.oldIndex])
+    ).to.deep.equal([['added', 'c', -1]]);
+  });
+});
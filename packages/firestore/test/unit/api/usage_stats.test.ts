@@ -0,0 +1,130 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+
+import {
+  collection,
+  createInMemoryBackend,
+  doc,
+  Firestore,
+  getDocs,
+  getDocsFromCache,
+  onSnapshot,
+  onUsageStats,
+  query,
+  setDoc,
+  setUsageLabel,
+  UsageStats,
+  where
+} from '../../../src';
+import { PrivateSettings } from '../../../src/lite-api/settings';
+import { TimerId } from '../../../src/util/async_queue';
+import { AsyncQueueImpl } from '../../../src/util/async_queue_impl';
+import { newTestFirestore } from '../../util/api_helpers';
+
+describe('onUsageStats()', () => {
+  let db: Firestore;
+
+  beforeEach(() => {
+    db = newTestFirestore('test-project');
+    db._setSettings({ _backend: createInMemoryBackend() } as PrivateSettings);
+  });
+
+  afterEach(() => db._delete());
+
+  /**
+   * Registers a usage stats listener and returns a function that ends its
+   * current interval and returns the reported stats.
+   */
+  function listenToUsageStats(): () => Promise<UsageStats> {
+    const reports: UsageStats[] = [];
+    onUsageStats(db, stats => reports.push(stats));
+    return async () => {
+      const reportCount = reports.length;
+      await (db._queue as AsyncQueueImpl).runAllDelayedOperationsUntil(
+        TimerId.UsageStatsReport
+      );
+      // Observers are called asynchronously.
+      await new Promise(resolve => setTimeout(resolve, 0));
+      expect(reports.length).to.equal(reportCount + 1);
+      return reports[reportCount];
+    };
+  }
+
+  it('validates the interval', () => {
+    expect(() => onUsageStats(db, () => {}, { intervalMillis: 0 })).to.throw(
+      'intervalMillis must be at least 1, but it was: 0.'
+    );
+  });
+
+  it('reports reads and writes by label', async () => {
+    const takeStats = listenToUsageStats();
+    let synced: () => void;
+    const snapshots = new Promise<void>(resolve => (synced = resolve));
+    const unsubscribe = onSnapshot(
+      collection(db, 'coll'),
+      { includeMetadataChanges: true },
+      snapshot => {
+        if (snapshot.size === 2 && !snapshot.metadata.hasPendingWrites) {
+          synced();
+        }
+      }
+    );
+    await setDoc(doc(db, 'coll/a'), { value: 1 });
+    await setDoc(doc(db, 'coll/b'), { value: 2 });
+    await snapshots;
+
+    const labeled = query(collection(db, 'coll'), where('value', '>', 1));
+    setUsageLabel(labeled, 'home');
+    await getDocs(labeled);
+    await getDocsFromCache(collection(db, 'coll'));
+    unsubscribe();
+
+    const { startTime, endTime, targets, ...totals } = await takeStats();
+    expect(endTime.toMillis()).to.be.at.least(startTime.toMillis());
+    // Every document is 69 bytes: name: 16 + "coll" (5) + "a" (2), document
+    // overhead: 32, "value" (6) + 1 (8).
+    expect(totals).to.deep.equal({
+      documentReadsFromServer: 3,
+      documentReadsFromCache: 3,
+      existenceFilterMismatches: 0,
+      fullRequeries: 0,
+      bytesReceived: 3 * 69,
+      writes: 2
+    });
+    const byLabel = targets.map(t => [
+      t.label,
+      t.documentReadsFromServer,
+      t.documentReadsFromCache
+    ]);
+    expect(byLabel).to.have.deep.members([
+      [null, 2, 2],
+      ['home', 1, 1]
+    ]);
+  });
+
+  it('starts a new interval after each report', async () => {
+    const takeStats = listenToUsageStats();
+    await setDoc(doc(db, 'coll/a'), { value: 1 });
+    const first = await takeStats();
+    const second = await takeStats();
+    expect(first.writes).to.equal(1);
+    expect(second.writes).to.equal(0);
+    expect(second.startTime).to.deep.equal(first.endTime);
+  });
+});
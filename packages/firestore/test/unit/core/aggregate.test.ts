@@ -0,0 +1,75 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+
+import { AggregateImpl, computeAggregates } from '../../../src/core/aggregate';
+import { DocumentSet } from '../../../src/model/document_set';
+import { doc, field } from '../../util/helpers';
+
+describe('computeAggregates()', () => {
+  function documentSet(
+    ...values: Array<{ [key: string]: unknown }>
+  ): DocumentSet {
+    let set = new DocumentSet();
+    values.forEach((value, i) => {
+      set = set.add(doc(`coll/${i}`, 1, value));
+    });
+    return set;
+  }
+
+  it('counts documents', () => {
+    const result = computeAggregates(
+      [new AggregateImpl('count', 'count')],
+      documentSet({ a: 1 }, {}, { b: 'foo' })
+    );
+    expect(result).to.deep.equal({ count: { integerValue: 3 } });
+  });
+
+  it('sums numeric values and ignores other values', () => {
+    const sum = [new AggregateImpl('total', 'sum', field('a'))];
+    expect(
+      computeAggregates(sum, documentSet({ a: 1 }, { a: 2 }, { a: 'x' }, {}))
+    ).to.deep.equal({ total: { integerValue: 3 } });
+    expect(
+      computeAggregates(sum, documentSet({ a: 1 }, { a: 2.5 }))
+    ).to.deep.equal({ total: { doubleValue: 3.5 } });
+    expect(computeAggregates(sum, documentSet())).to.deep.equal({
+      total: { integerValue: 0 }
+    });
+  });
+
+  it('switches to doubles when an integer sum overflows', () => {
+    const result = computeAggregates(
+      [new AggregateImpl('total', 'sum', field('a'))],
+      documentSet({ a: Number.MAX_SAFE_INTEGER }, { a: 1 })
+    );
+    expect(result).to.deep.equal({
+      total: { doubleValue: Number.MAX_SAFE_INTEGER + 1 }
+    });
+  });
+
+  it('averages numeric values', () => {
+    const average = [new AggregateImpl('avg', 'avg', field('a'))];
+    expect(
+      computeAggregates(average, documentSet({ a: 1 }, { a: 2 }, { a: true }))
+    ).to.deep.equal({ avg: { doubleValue: 1.5 } });
+    expect(computeAggregates(average, documentSet({ b: 1 }))).to.deep.equal({
+      avg: { nullValue: 'NULL_VALUE' }
+    });
+  });
+});
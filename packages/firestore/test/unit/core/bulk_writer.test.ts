@@ -0,0 +1,191 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect, use } from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+
+import {
+  BulkWriterOptions,
+  BulkWriterProgress,
+  BulkWriterRunner,
+  isRetryableBulkWriterError,
+  RateLimiter
+} from '../../../src/core/bulk_writer';
+import { Mutation } from '../../../src/model/mutation';
+import { TimerId } from '../../../src/util/async_queue';
+import { AsyncQueueImpl } from '../../../src/util/async_queue_impl';
+import { Code, FirestoreError } from '../../../src/util/error';
+import { deleteMutation, setMutation } from '../../util/helpers';
+
+use(chaiAsPromised);
+
+describe('RateLimiter', () => {
+  it('limits requests to the capacity', () => {
+    const limiter = new RateLimiter(500, 1.5, 5 * 60 * 1000, 10000, 0);
+    expect(limiter.tryMakeRequest(300, 0)).to.be.true;
+    expect(limiter.tryMakeRequest(300, 0)).to.be.false;
+    expect(limiter.getNextRequestDelayMs(300, 0)).to.equal(200);
+    expect(limiter.tryMakeRequest(300, 199)).to.be.false;
+    expect(limiter.tryMakeRequest(300, 200)).to.be.true;
+    expect(limiter.getNextRequestDelayMs(100, 200)).to.equal(200);
+    expect(limiter.getNextRequestDelayMs(100, 400)).to.equal(0);
+  });
+
+  it('increases the capacity by 50% every 5 minutes', () => {
+    const limiter = new RateLimiter(500, 1.5, 5 * 60 * 1000, 1000, 0);
+    expect(limiter.calculateCapacity(0)).to.equal(500);
+    expect(limiter.calculateCapacity(5 * 60 * 1000 - 1)).to.equal(500);
+    expect(limiter.calculateCapacity(5 * 60 * 1000)).to.equal(750);
+    expect(limiter.calculateCapacity(10 * 60 * 1000)).to.equal(1000);
+    expect(limiter.calculateCapacity(60 * 60 * 1000)).to.equal(1000);
+  });
+});
+
+describe('BulkWriterRunner', () => {
+  let queue: AsyncQueueImpl;
+  let commits: Mutation[][];
+  let commitResults: Array<FirestoreError | null>;
+  let progress: BulkWriterProgress[];
+
+  beforeEach(() => {
+    queue = new AsyncQueueImpl();
+    commits = [];
+    commitResults = [];
+    progress = [];
+  });
+
+  function newRunner(
+    options: Partial<BulkWriterOptions> = {}
+  ): BulkWriterRunner {
+    return new BulkWriterRunner(
+      queue,
+      mutations => {
+        commits.push(mutations);
+        const error = commitResults.shift();
+        return error ? Promise.reject(error) : Promise.resolve();
+      },
+      {
+        maxOpsPerSecond: Number.POSITIVE_INFINITY,
+        retryPredicate: isRetryableBulkWriterError,
+        onProgress: p => progress.push(p),
+        ...options
+      }
+    );
+  }
+
+  it('groups writes into commits', async () => {
+    const runner = newRunner();
+    const writes: Array<Promise<void>> = [];
+    for (let i = 0; i < 45; ++i) {
+      writes.push(runner.enqueue(deleteMutation('coll/doc' + i)));
+    }
+    expect(commits.map(c => c.length)).to.deep.equal([20, 20]);
+
+    await runner.close();
+    expect(commits.map(c => c.length)).to.deep.equal([20, 20, 5]);
+    await Promise.all(writes);
+    expect(runner.progress).to.deep.equal({
+      succeeded: 45,
+      failed: 0,
+      pending: 0,
+      retries: 0
+    });
+    expect(() => runner.enqueue(deleteMutation('coll/doc'))).to.throw(
+      'A BulkWriter can no longer be used after close() has been called.'
+    );
+  });
+
+  it('starts a new commit when the commit size limit is reached', async () => {
+    const runner = newRunner();
+    for (let i = 0; i < 11; ++i) {
+      // eslint-disable-next-line @typescript-eslint/no-floating-promises
+      runner.enqueue(setMutation('coll/doc' + i, { a: 'x'.repeat(1000000) }));
+    }
+    await runner.flush();
+    expect(commits.map(c => c.length)).to.deep.equal([10, 1]);
+  });
+
+  it('limits the number of writes per second', async () => {
+    const runner = newRunner({ maxOpsPerSecond: 5 });
+    for (let i = 0; i < 7; ++i) {
+      // eslint-disable-next-line @typescript-eslint/no-floating-promises
+      runner.enqueue(deleteMutation('coll/doc' + i));
+    }
+    const flushed = runner.flush();
+    expect(commits.map(c => c.length)).to.deep.equal([5]);
+    expect(queue.containsDelayedOperation(TimerId.BulkWriterThrottle)).to.be
+      .true;
+
+    // The remaining writes are sent once the rate limiter has refilled.
+    await flushed;
+    expect(commits.map(c => c.length)).to.deep.equal([5, 2]);
+  });
+
+  it('retries commits that failed with retryable errors', async () => {
+    commitResults.push(
+      new FirestoreError(Code.UNAVAILABLE, 'unavailable'),
+      new FirestoreError(Code.ABORTED, 'aborted')
+    );
+    const runner = newRunner();
+    const write = runner.enqueue(deleteMutation('coll/doc'));
+    const flushed = runner.flush();
+    await queue.runAllDelayedOperationsUntil(TimerId.BulkWriterRetry);
+    await queue.runAllDelayedOperationsUntil(TimerId.BulkWriterRetry);
+    await flushed;
+    await write;
+    expect(commits.length).to.equal(3);
+    expect(progress.map(p => p.retries)).to.deep.equal([1, 2, 2]);
+    expect(runner.progress.succeeded).to.equal(1);
+  });
+
+  it('rejects writes that failed with permanent errors', async () => {
+    commitResults.push(
+      new FirestoreError(Code.PERMISSION_DENIED, 'permission denied')
+    );
+    const runner = newRunner();
+    const first = runner.enqueue(deleteMutation('coll/doc1'));
+    const second = runner.enqueue(deleteMutation('coll/doc2'));
+    await runner.flush();
+    await expect(first).to.eventually.be.rejectedWith('permission denied');
+    await expect(second).to.eventually.be.rejectedWith('permission denied');
+    expect(commits.length).to.equal(1);
+    expect(progress).to.deep.equal([
+      { succeeded: 0, failed: 2, pending: 0, retries: 0 }
+    ]);
+  });
+
+  it('uses the retry predicate', async () => {
+    commitResults.push(
+      new FirestoreError(Code.NOT_FOUND, 'not found'),
+      new FirestoreError(Code.NOT_FOUND, 'not found')
+    );
+    const attempts: number[] = [];
+    const runner = newRunner({
+      retryPredicate: (error, attempt) => {
+        attempts.push(attempt);
+        return error.code === Code.NOT_FOUND && attempt < 2;
+      }
+    });
+    const write = runner.enqueue(deleteMutation('coll/doc'));
+    // eslint-disable-next-line @typescript-eslint/no-floating-promises
+    runner.flush();
+    await queue.runAllDelayedOperationsUntil(TimerId.BulkWriterRetry);
+    await expect(write).to.eventually.be.rejectedWith('not found');
+    expect(attempts).to.deep.equal([1, 2]);
+    expect(commits.length).to.equal(2);
+  });
+});
@@ -20,10 +20,14 @@ import * as sinon from 'sinon';
 
 import {
   eventManagerListen,
+  eventManagerListenGroup,
+  eventManagerOnWatchError,
   eventManagerUnlisten,
+  eventManagerUnlistenGroup,
   ListenOptions,
   newEventManager,
   eventManagerOnWatchChange,
+  QueryGroupListener,
   QueryListener,
   eventManagerOnOnlineStateChange,
   EventManager
@@ -603,3 +607,99 @@ describe('QueryListener', () => {
     expect(events).to.deep.equal([expectedSnap]);
   });
 });
+
+describe('QueryGroupListener', () => {
+  addEqualityMatcher();
+
+  const rooms = query('rooms');
+  const users = query('users');
+  let eventManager: EventManager;
+  let roomsView: View;
+  let usersView: View;
+  let events: ViewSnapshot[][];
+  let errors: FirestoreError[];
+  let groupListener: QueryGroupListener;
+
+  beforeEach(() => {
+    roomsView = new View(rooms, documentKeySet());
+    usersView = new View(users, documentKeySet());
+    events = [];
+    errors = [];
+
+    eventManager = newEventManager();
+    eventManager.onListen = query =>
+      Promise.resolve(
+        query === rooms
+          ? applyDocChanges(roomsView, doc('rooms/a', 1, { v: 1 })).snapshot!
+          : applyDocChanges(usersView).snapshot!
+      );
+    eventManager.onUnlisten = sinon.stub().returns(Promise.resolve());
+    eventManager.onFirstRemoteStoreListen = sinon.spy();
+    eventManager.onLastRemoteStoreUnlisten = sinon.spy();
+
+    groupListener = new QueryGroupListener([rooms, users], {
+      next: snapshots => events.push(snapshots),
+      error: error => errors.push(error)
+    });
+  });
+
+  it('raises an event once all queries have a snapshot', async () => {
+    await eventManagerListenGroup(eventManager, groupListener);
+    expect(events).to.deep.equal([]);
+
+    const usersSnap = applyDocChanges(usersView, doc('users/a', 1, { v: 1 }))
+      .snapshot!;
+    eventManagerOnWatchChange(eventManager, [usersSnap]);
+    expect(events.length).to.equal(1);
+    expect(events[0].map(snap => snap.query)).to.deep.equal([rooms, users]);
+    expect(events[0][1].docs).to.equal(usersSnap.docs);
+  });
+
+  it('raises changes to several queries as a single event', async () => {
+    await eventManagerListenGroup(eventManager, groupListener);
+    eventManagerOnWatchChange(eventManager, [
+      applyDocChanges(usersView, doc('users/a', 1, { v: 1 })).snapshot!
+    ]);
+
+    const roomsSnap = applyDocChanges(roomsView, doc('rooms/a', 2, { v: 2 }))
+      .snapshot!;
+    const usersSnap = applyDocChanges(usersView, doc('users/a', 2, { v: 2 }))
+      .snapshot!;
+    eventManagerOnWatchChange(eventManager, [roomsSnap, usersSnap]);
+    expect(events.length).to.equal(2);
+    expect(events[1].map(snap => snap.docs)).to.deep.equal([
+      roomsSnap.docs,
+      usersSnap.docs
+    ]);
+
+    const roomsSnap2 = applyDocChanges(roomsView, doc('rooms/b', 1, { v: 1 }))
+      .snapshot!;
+    eventManagerOnWatchChange(eventManager, [roomsSnap2]);
+    expect(events.length).to.equal(3);
+    expect(events[2][0].docChanges).to.deep.equal(roomsSnap2.docChanges);
+    // The unchanged snapshot is raised without document changes.
+    expect(events[2][1].docs).to.equal(usersSnap.docs);
+    expect(events[2][1].docChanges).to.deep.equal([]);
+  });
+
+  it('raises the first error only', async () => {
+    await eventManagerListenGroup(eventManager, groupListener);
+    const error = new FirestoreError(Code.PERMISSION_DENIED, 'denied');
+    eventManagerOnWatchError(eventManager, rooms, error);
+    eventManagerOnWatchError(eventManager, users, error);
+    eventManagerOnWatchChange(eventManager, [
+      applyDocChanges(usersView, doc('users/a', 1, { v: 1 })).snapshot!
+    ]);
+    expect(errors).to.deep.equal([error]);
+    expect(events).to.deep.equal([]);
+  });
+
+  it('stops raising events after unlisten', async () => {
+    await eventManagerListenGroup(eventManager, groupListener);
+    await eventManagerUnlistenGroup(eventManager, groupListener);
+    expect((eventManager.onUnlisten as sinon.SinonStub).callCount).to.equal(2);
+
+    groupListener.onSnapshotsInSync();
+    expect(events).to.deep.equal([]);
+  });
+});
@@ -19,6 +19,7 @@ import { expect } from 'chai';
 
 import { Bytes, GeoPoint, Timestamp } from '../../../src';
 import { Bound, boundEquals } from '../../../src/core/bound';
+import { DistanceMeasure, FindNearest } from '../../../src/core/find_nearest';
 import { OrderBy } from '../../../src/core/order_by';
 import {
   canonifyQuery,
@@ -30,7 +31,9 @@ import {
   queryNormalizedOrderBy,
   queryWithAddedFilter,
   queryWithEndAt,
+  queryWithFindNearest,
   queryWithLimit,
+  queryWithProjection,
   queryWithStartAt,
   stringifyQuery,
   queryToAggregateTarget,
@@ -42,6 +45,7 @@ import {
   newQueryForCollectionGroup
 } from '../../../src/core/query';
 import { canonifyTarget } from '../../../src/core/target';
+import { vector } from '../../../src/lite-api/field_value_impl';
 import { MutableDocument } from '../../../src/model/document';
 import { DOCUMENT_KEY_NAME, ResourcePath } from '../../../src/model/path';
 import { addEqualityMatcher } from '../../util/equality_matcher';
@@ -51,6 +55,7 @@ import {
   doc,
   expectCorrectComparisons,
   expectEqualitySets,
+  field,
   filter,
   orderBy,
   orFilter,
@@ -545,6 +550,95 @@ describe('Query', () => {
     expectCorrectComparisons(docs, newQueryComparator(query1));
   });
 
+  it('sorts findNearest results by vector distance', () => {
+    const findNearest = (distanceMeasure: DistanceMeasure): Query =>
+      queryWithFindNearest(
+        query('collection'),
+        new FindNearest(
+          field('embedding'),
+          wrap(vector([1, 1])),
+          10,
+          distanceMeasure
+        )
+      );
+
+    expectCorrectComparisons(
+      [
+        doc('collection/1', 0, { embedding: vector([1, 1]) }),
+        doc('collection/1', 0, { embedding: vector([2, 2]) }),
+        doc('collection/2', 0, { embedding: vector([2, 2]) }), // by key
+        doc('collection/1', 0, { embedding: vector([5, 5]) }),
+        // Documents without a comparable vector sort last, by key.
+        doc('collection/1', 0, { embedding: vector([1, 1, 1]) }),
+        doc('collection/2', 0, { embedding: 'not a vector' })
+      ],
+      newQueryComparator(findNearest(DistanceMeasure.EUCLIDEAN))
+    );
+
+    expectCorrectComparisons(
+      [
+        doc('collection/1', 0, { embedding: vector([5, 5]) }),
+        doc('collection/1', 0, { embedding: vector([2, 2]) }),
+        doc('collection/1', 0, { embedding: vector([1, 1]) }),
+        doc('collection/1', 0, { embedding: vector([-1, -1]) })
+      ],
+      newQueryComparator(findNearest(DistanceMeasure.DOT_PRODUCT))
+    );
+  });
+
+  it('does not add implicit order-bys to findNearest targets', () => {
+    const query1 = queryWithFindNearest(
+      query('collection', filter('foo', '>', 1)),
+      new FindNearest(
+        field('embedding'),
+        wrap(vector([1, 2])),
+        5,
+        DistanceMeasure.COSINE
+      )
+    );
+    const target = queryToTarget(query1);
+    expect(target.orderBy.length).to.equal(0);
+    expect(target.findNearest).to.equal(query1.findNearest);
+    expect(queryMatchesAllDocuments(query1)).to.be.false;
+    expect(
+      queryEquals(
+        query1,
+        queryWithFindNearest(
+          query('collection', filter('foo', '>', 1)),
+          new FindNearest(
+            field('embedding'),
+            wrap(vector([1, 2])),
+            5,
+            DistanceMeasure.EUCLIDEAN
+          )
+        )
+      )
+    ).to.be.false;
+  });
+
+  it('includes projections in targets', () => {
+    const query1 = queryWithProjection(query('collection'), [field('a')]);
+    expect(queryToTarget(query1).projection).to.deep.equal([field('a')]);
+    expect(queryToAggregateTarget(query1).projection).to.equal(null);
+    expect(queryMatchesAllDocuments(query1)).to.be.true;
+    expect(queryEquals(query1, query('collection'))).to.be.false;
+    expect(
+      queryEquals(
+        query1,
+        queryWithProjection(query('collection'), [field('a')])
+      )
+    ).to.be.true;
+    expect(
+      queryEquals(
+        query1,
+        queryWithProjection(query('collection'), [field('a'), field('b')])
+      )
+    ).to.be.false;
+    expect(canonifyQuery(query1)).to.not.equal(
+      canonifyQuery(query('collection'))
+    );
+  });
+
   it('generates canonical ids', () => {
     /* tslint:disable:variable-name */
     const q1a = query('foo', filter('i1', '<', 2), filter('i2', '==', 3));
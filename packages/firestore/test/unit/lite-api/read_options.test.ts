@@ -0,0 +1,82 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+
+import { validateReadOptions } from '../../../src/lite-api/read_options';
+import { Timestamp } from '../../../src/lite-api/timestamp';
+
+describe('validateReadOptions()', () => {
+  // A whole minute, so that older read times derived from it are valid.
+  const nowMs = Date.UTC(2024, 0, 10, 12, 0, 0);
+
+  function readTimeBefore(ms: number): { readTime: Timestamp } {
+    return { readTime: Timestamp.fromMillis(nowMs - ms) };
+  }
+
+  it('returns undefined without a read time', () => {
+    expect(validateReadOptions('getDocs', undefined, nowMs)).to.be.undefined;
+    expect(validateReadOptions('getDocs', {}, nowMs)).to.be.undefined;
+  });
+
+  it('accepts any read time within the last hour', () => {
+    const options = readTimeBefore(60 * 60 * 1000 - 1);
+    expect(validateReadOptions('getDocs', options, nowMs)).to.equal(
+      options.readTime
+    );
+  });
+
+  it('accepts whole minutes within the last 7 days', () => {
+    const options = readTimeBefore(7 * 24 * 60 * 60 * 1000);
+    expect(validateReadOptions('getDocs', options, nowMs)).to.equal(
+      options.readTime
+    );
+  });
+
+  it('rejects read times in the future', () => {
+    expect(() =>
+      validateReadOptions('getDocs', readTimeBefore(-1), nowMs)
+    ).to.throw(
+      'Function getDocs() requires "readTime" to not be in the future.'
+    );
+  });
+
+  it('rejects read times older than 7 days', () => {
+    expect(() =>
+      validateReadOptions(
+        'getDoc',
+        readTimeBefore(7 * 24 * 60 * 60 * 1000 + 60 * 1000),
+        nowMs
+      )
+    ).to.throw(
+      'Function getDoc() requires "readTime" to be at most 7 days in the past.'
+    );
+  });
+
+  it('rejects partial minutes older than one hour', () => {
+    expect(() =>
+      validateReadOptions(
+        'getDocs',
+        readTimeBefore(60 * 60 * 1000 + 1000),
+        nowMs
+      )
+    ).to.throw(
+      'Function getDocs() requires "readTime" to be a whole minute if it is ' +
+        'more than one hour in the past.'
+    );
+  });
+});
@@ -155,6 +155,8 @@ export class CountingQueryEngine extends QueryEngine {
           return result;
         });
       },
+      getAllEntries: transaction => subject.getAllEntries(transaction),
+      getEntryCount: transaction => subject.getEntryCount(transaction),
       getSize: subject.getSize,
       newChangeBuffer: subject.newChangeBuffer
     };
@@ -228,7 +230,9 @@ export class CountingQueryEngine extends QueryEngine {
           documentKeys,
           batchId
         );
-      }
+      },
+
+      getOverlayCount: transaction => subject.getOverlayCount(transaction)
     };
   }
 }
@@ -328,6 +328,30 @@ function genericDocumentOverlayCacheTests(): void {
     expect(await overlayCache.getOverlay(key('coll/doc'))).to.equal(null);
   });
 
+  it('counts the overlays of the current user', async () => {
+    expect(await overlayCache.getOverlayCount()).to.equal(0);
+    await saveOverlaysForKeys(2, 'coll/doc1', 'coll/doc2');
+    await saveOverlaysForKeys(3, 'other/doc1');
+
+    for (const uid of ['other', 'user2']) {
+      const otherUserCache = new TestDocumentOverlayCache(
+        persistence,
+        persistence.getDocumentOverlayCache(new User(uid))
+      );
+      const data: MutationMap = newMutationMap();
+      data.set(key('coll/doc3'), setMutation('coll/doc3', {}));
+      await otherUserCache.saveOverlays(4, data);
+      expect(await otherUserCache.getOverlayCount()).to.equal(1);
+    }
+
+    expect(await overlayCache.getOverlayCount()).to.equal(3);
+    await overlayCache.removeOverlaysForBatchId(
+      documentKeySet(key('coll/doc1'), key('coll/doc2')),
+      2
+    );
+    expect(await overlayCache.getOverlayCount()).to.equal(1);
+  });
+
   it('skips non-existing overlay in batch lookup', async () => {
     const result = await overlayCache.getOverlays([key('coll/doc1')]);
     expect(result.isEmpty()).to.equal(true);
@@ -0,0 +1,421 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect, use } from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+
+import { User as AuthUser } from '../../../src/auth/user';
+import {
+  compareKeys,
+  newKeyValueIndexedDb,
+  newKeyValueKeyRange
+} from '../../../src/local/key_value_indexeddb';
+import { PersistencePromise } from '../../../src/local/persistence_promise';
+import {
+  SimpleDb,
+  SimpleDbSchemaConverter,
+  SimpleDbStore,
+  SimpleDbTransaction
+} from '../../../src/local/simple_db';
+import { addEqualityMatcher } from '../../util/equality_matcher';
+import { setMutation } from '../../util/helpers';
+
+import {
+  MemoryKeyValueStore,
+  testIndexedDbPersistence
+} from './persistence_test_helpers';
+import { TestMutationQueue } from './test_mutation_queue';
+
+use(chaiAsPromised);
+
+interface User {
+  id: number;
+  name: string;
+  age: number;
+}
+
+interface Counter {
+  id?: number;
+  data: unknown;
+}
+
+const testData: User[] = [
+  { id: 0, name: 'frank', age: 5 },
+  { id: 1, name: 'joe', age: 6 },
+  { id: 2, name: 'sally', age: 10 },
+  { id: 3, name: 'denise', age: 8 },
+  { id: 4, name: 'derek', age: 10 },
+  { id: 5, name: 'greg', age: 10 },
+  { id: 6, name: 'rachel', age: 10 },
+  { id: 7, name: 'freddy', age: 11 }
+];
+
+class TestSchemaConverter implements SimpleDbSchemaConverter {
+  createOrUpgrade(db: IDBDatabase): PersistencePromise<void> {
+    const userStore = db.createObjectStore('users', { keyPath: 'id' });
+    userStore.createIndex('age-name', ['age', 'name'], { unique: false });
+    userStore.createIndex('name', 'name', { unique: true });
+    db.createObjectStore('counters', { keyPath: 'id', autoIncrement: true });
+    return PersistencePromise.resolve();
+  }
+}
+
+describe('KeyValueIndexedDb', () => {
+  addEqualityMatcher();
+
+  const dbName = 'key-value-tests';
+  let storage: MemoryKeyValueStore;
+  let db: SimpleDb;
+
+  function openDb(): SimpleDb {
+    return new SimpleDb(
+      dbName,
+      1,
+      new TestSchemaConverter(),
+      newKeyValueIndexedDb(storage)
+    );
+  }
+
+  function runTransaction<T>(
+    fn: (
+      store: SimpleDbStore<number, User>,
+      transaction: SimpleDbTransaction
+    ) => PersistencePromise<T>
+  ): Promise<T> {
+    return db.runTransaction<T>('KeyValueTests', 'readwrite', ['users'], txn =>
+      fn(txn.store<number, User>('users'), txn)
+    );
+  }
+
+  beforeEach(async () => {
+    storage = new MemoryKeyValueStore();
+    db = openDb();
+    await runTransaction(store =>
+      PersistencePromise.waitFor(testData.map(user => store.put(user)))
+    );
+  });
+
+  afterEach(() => db.close());
+
+  it('orders keys like IndexedDB', () => {
+    const keys: IDBValidKey[] = [
+      -1,
+      0,
+      2,
+      new Date(0),
+      '',
+      'a',
+      'b',
+      new Uint8Array([0]),
+      new Uint8Array([0, 1]),
+      [],
+      [0],
+      ['a', 1],
+      ['a', 'b']
+    ];
+    for (let i = 0; i < keys.length; ++i) {
+      for (let j = 0; j < keys.length; ++j) {
+        expect(Math.sign(compareKeys(keys[i], keys[j]))).to.equal(
+          Math.sign(i - j),
+          `comparing ${i} and ${j}`
+        );
+      }
+    }
+  });
+
+  it('rejects invalid key ranges', () => {
+    expect(() => newKeyValueKeyRange(2, 1, false, false)).to.throw();
+    expect(() => newKeyValueKeyRange(1, 1, true, false)).to.throw();
+    expect(newKeyValueKeyRange(1, 1, false, false).includes(1)).to.be.true;
+  });
+
+  it('can get and put', async () => {
+    await runTransaction(store =>
+      store
+        .get(42)
+        .next(user => {
+          expect(user).to.equal(null);
+          return store.put({ id: 42, name: 'nobody', age: 7 });
+        })
+        .next(() => store.get(2))
+        .next(user => {
+          expect(user).to.deep.equal(testData[2]);
+        })
+    );
+    await runTransaction(store =>
+      store.get(42).next(user => {
+        expect(user).to.deep.equal({ id: 42, name: 'nobody', age: 7 });
+      })
+    );
+  });
+
+  it('can load ranges', async () => {
+    await runTransaction(store =>
+      store.loadAll(newKeyValueKeyRange(2, 5, false, true)).next(users => {
+        expect(users).to.deep.equal(testData.slice(2, 5));
+      })
+    );
+  });
+
+  it('can load by index and range', async () => {
+    await runTransaction(store =>
+      store
+        .loadAll('age-name', newKeyValueKeyRange([10], [11], false, true))
+        .next(users => {
+          expect(users.map(user => user.name)).to.deep.equal([
+            'derek',
+            'greg',
+            'rachel',
+            'sally'
+          ]);
+        })
+    );
+  });
+
+  it('can iterate in reverse and skip', async () => {
+    const iterated: User[] = [];
+    await runTransaction(store =>
+      store.iterate({ reverse: true }, (key, value, control) => {
+        iterated.push(value);
+        control.skip(value.id - 2);
+      })
+    );
+    expect(iterated.map(user => user.id)).to.deep.equal([7, 5, 3, 1]);
+  });
+
+  it('can iterate over index as keys-only', async () => {
+    const iterated: number[] = [];
+    await runTransaction(store =>
+      store.iterate(
+        { index: 'age-name', keysOnly: true },
+        (key, value, control) => {
+          expect(value).to.equal(undefined);
+          iterated.push(key);
+        }
+      )
+    );
+    expect(iterated).to.deep.equal([0, 1, 3, 4, 5, 6, 2, 7]);
+  });
+
+  it('can delete by index range', async () => {
+    await runTransaction(store =>
+      store.deleteAll('age-name', newKeyValueKeyRange([10], [11], false, true))
+    );
+    await runTransaction(store =>
+      store.loadAll().next(users => {
+        expect(users.map(user => user.id)).to.deep.equal([0, 1, 3, 7]);
+      })
+    );
+  });
+
+  it('rolls back aborted transactions', async () => {
+    await runTransaction((store, txn) =>
+      store.put({ id: 42, name: 'nobody', age: 7 }).next(() => txn.abort())
+    );
+    await expect(
+      runTransaction(store =>
+        store.delete(0).next(() => {
+          throw new Error('Generated error');
+        })
+      )
+    ).to.eventually.be.rejectedWith('Generated error');
+
+    await runTransaction(store =>
+      store.count().next(count => {
+        expect(count).to.equal(testData.length);
+      })
+    );
+  });
+
+  it('enforces unique indexes', async () => {
+    await expect(
+      runTransaction(store => store.put({ id: 42, name: 'joe', age: 7 }))
+    ).to.eventually.be.rejected;
+    await runTransaction(store =>
+      store.get(42).next(user => {
+        expect(user).to.equal(null);
+      })
+    );
+  });
+
+  it('generates keys for auto-increment stores', async () => {
+    const ids = await db.runTransaction(
+      'KeyValueTests',
+      'readwrite',
+      ['counters'],
+      txn => {
+        const store = txn.store<number, Counter>('counters');
+        return store
+          .add({ data: 'first' })
+          .next(first =>
+            store.add({ data: 'second' }).next(second => [first, second])
+          );
+      }
+    );
+    expect(ids).to.deep.equal([1, 2]);
+  });
+
+  it('persists data across instances', async () => {
+    const bytes = new Uint8Array([0, 1, 255]);
+    await db.runTransaction('KeyValueTests', 'readwrite', ['counters'], txn =>
+      txn
+        .store<number, Counter>('counters')
+        .put({ id: 1, data: { bytes, nan: NaN, negativeZero: -0 } })
+    );
+    db.close();
+
+    storage = new MemoryKeyValueStore(new Map(storage.entries));
+    db = openDb();
+
+    const counter = await db.runTransaction(
+      'KeyValueTests',
+      'readonly',
+      ['counters'],
+      txn => txn.store<number, Counter>('counters').get(1)
+    );
+    const data = counter!.data as Record<string, unknown>;
+    expect(data.bytes).to.deep.equal(bytes);
+    expect(data.nan).to.be.NaN;
+    expect(Object.is(data.negativeZero, -0)).to.be.true;
+
+    await runTransaction(store =>
+      store.loadAll('age-name').next(users => {
+        expect(users.length).to.equal(testData.length);
+      })
+    );
+  });
+
+  it('only keeps the latest generation of a store', async () => {
+    const entryCount = storage.entries.size;
+    await runTransaction(store =>
+      store.put({ id: 42, name: 'nobody', age: 7 })
+    );
+    expect(storage.entries.size).to.equal(entryCount);
+  });
+
+  it('saves large stores in bounded segments', async () => {
+    const entryCount = storage.entries.size;
+    const counterCount = 100;
+    const padding = 'x'.repeat(10000);
+    await db.runTransaction('KeyValueTests', 'readwrite', ['counters'], txn =>
+      PersistencePromise.forEach(
+        Array.from({ length: counterCount }, (_, i) => i + 1),
+        (id: number) =>
+          txn.store<number, Counter>('counters').put({ id, data: padding })
+      )
+    );
+    const sizes = Array.from(storage.entries.values()).map(
+      value => value.length
+    );
+    expect(storage.entries.size).to.be.greaterThan(entryCount + 2);
+    expect(Math.max(...sizes)).to.be.at.most(256 * 1024);
+
+    // Changing a record only rewrites its segment and the manifest.
+    const writes: string[] = [];
+    const setItem = storage.setItem.bind(storage);
+    storage.setItem = (key, value) => {
+      writes.push(key);
+      return setItem(key, value);
+    };
+    await db.runTransaction('KeyValueTests', 'readwrite', ['counters'], txn =>
+      txn.store<number, Counter>('counters').put({ id: 50, data: 'changed' })
+    );
+    expect(writes.length).to.equal(2);
+
+    db.close();
+    storage = new MemoryKeyValueStore(new Map(storage.entries));
+    db = openDb();
+    const counters = await db.runTransaction(
+      'KeyValueTests',
+      'readonly',
+      ['counters'],
+      txn => txn.store<number, Counter>('counters').loadAll()
+    );
+    expect(counters.length).to.equal(counterCount);
+    expect(counters[49].data).to.equal('changed');
+
+    await db.runTransaction('KeyValueTests', 'readwrite', ['counters'], txn =>
+      txn.store<number, Counter>('counters').deleteAll()
+    );
+    expect(storage.entries.size).to.equal(entryCount);
+  });
+
+  it('removes the segments of interrupted commits', async () => {
+    const entries = new Map(storage.entries);
+    const setItem = storage.setItem.bind(storage);
+    storage.setItem = (key, value) =>
+      key === dbName
+        ? Promise.reject(new Error('Simulated crash'))
+        : setItem(key, value);
+    const padding = 'x'.repeat(100000);
+    await expect(
+      db.runTransaction('KeyValueTests', 'readwrite', ['counters'], txn =>
+        PersistencePromise.forEach([1, 2, 3, 4, 5], (id: number) =>
+          txn.store<number, Counter>('counters').put({ id, data: padding })
+        )
+      )
+    ).to.eventually.be.rejectedWith('Simulated crash');
+    expect(storage.entries.size).to.be.greaterThan(entries.size);
+
+    db.close();
+    storage = new MemoryKeyValueStore(new Map(storage.entries));
+    db = openDb();
+    const counters = await db.runTransaction(
+      'KeyValueTests',
+      'readonly',
+      ['counters'],
+      txn => txn.store<number, Counter>('counters').loadAll()
+    );
+    expect(counters).to.deep.equal([]);
+    expect(Array.from(storage.entries.keys())).to.have.members(
+      Array.from(entries.keys())
+    );
+  });
+
+  it('deletes databases', async () => {
+    db.close();
+    await SimpleDb.delete(dbName, newKeyValueIndexedDb(storage));
+    expect(storage.entries.size).to.equal(0);
+    db = openDb();
+  });
+
+  it('keeps pending writes of the persistence layer', async () => {
+    const user = new AuthUser('user');
+    let persistence = await testIndexedDbPersistence({ storage });
+    let mutationQueue = new TestMutationQueue(
+      persistence,
+      persistence.getMutationQueue(user, persistence.getIndexManager(user))
+    );
+    await mutationQueue.addMutationBatch([setMutation('foo/bar', { a: 1 })]);
+    await persistence.shutdown();
+
+    persistence = await testIndexedDbPersistence({
+      storage: new MemoryKeyValueStore(new Map(storage.entries)),
+      dontPurgeData: true
+    });
+    mutationQueue = new TestMutationQueue(
+      persistence,
+      persistence.getMutationQueue(user, persistence.getIndexManager(user))
+    );
+    const batches = await mutationQueue.getAllMutationBatches();
+    expect(batches.length).to.equal(1);
+    expect(batches[0].mutations).to.deep.equal([
+      setMutation('foo/bar', { a: 1 })
+    ]);
+    await persistence.shutdown();
+  });
+});
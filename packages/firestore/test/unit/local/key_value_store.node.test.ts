@@ -0,0 +1,172 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { spawnSync } from 'child_process';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { expect, use } from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+
+import { PersistentKeyValueStore } from '../../../src/api/cache_config';
+import { User } from '../../../src/auth/user';
+import { IndexedDbPersistence } from '../../../src/local/indexeddb_persistence';
+import { LockableKeyValueStore } from '../../../src/local/key_value_indexeddb';
+import { newFileKeyValueStore } from '../../../src/platform/node/key_value_store';
+import { addEqualityMatcher } from '../../util/equality_matcher';
+import { setMutation } from '../../util/helpers';
+
+import { testIndexedDbPersistence } from './persistence_test_helpers';
+import { TestMutationQueue } from './test_mutation_queue';
+
+use(chaiAsPromised);
+
+describe('FileKeyValueStore', () => {
+  addEqualityMatcher();
+
+  let directory: string;
+  let store: PersistentKeyValueStore;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), 'firestore-'));
+    store = newFileKeyValueStore(join(directory, 'cache'));
+  });
+
+  afterEach(() => fs.rm(directory, { recursive: true, force: true }));
+
+  function newMutationQueue(
+    persistence: IndexedDbPersistence
+  ): TestMutationQueue {
+    const user = new User('user');
+    return new TestMutationQueue(
+      persistence,
+      persistence.getMutationQueue(user, persistence.getIndexManager(user))
+    );
+  }
+
+  it('stores entries as files', async () => {
+    expect(await store.getItem('a/b')).to.equal(null);
+    await store.setItem('a/b', 'foo');
+    await store.setItem('c', 'bar');
+    await store.setItem('a/b', 'baz');
+    expect(await store.getItem('a/b')).to.equal('baz');
+    expect(await store.getItem('c')).to.equal('bar');
+    expect(await fs.readdir(join(directory, 'cache'))).to.have.members([
+      'a%2Fb',
+      'c'
+    ]);
+
+    await store.removeItem('a/b');
+    await store.removeItem('missing');
+    expect(await store.getItem('a/b')).to.equal(null);
+  });
+
+  it('keeps pending writes across restarts', async () => {
+    let persistence = await testIndexedDbPersistence({ storage: store });
+    await newMutationQueue(persistence).addMutationBatch([
+      setMutation('foo/bar', { a: 1 })
+    ]);
+    await persistence.shutdown();
+
+    persistence = await testIndexedDbPersistence({
+      storage: newFileKeyValueStore(join(directory, 'cache')),
+      dontPurgeData: true
+    });
+    const batches = await newMutationQueue(persistence).getAllMutationBatches();
+    expect(batches.length).to.equal(1);
+    expect(batches[0].mutations).to.deep.equal([
+      setMutation('foo/bar', { a: 1 })
+    ]);
+    await persistence.shutdown();
+  });
+
+  it('takes over the cache of a process that did not shut down', async () => {
+    const previousPersistence = await testIndexedDbPersistence({
+      storage: store
+    });
+    await newMutationQueue(previousPersistence).addMutationBatch([
+      setMutation('foo/bar', { a: 1 })
+    ]);
+    // Pretend that the lock is held by a process that exited.
+    const exitedProcess = spawnSync(process.execPath, ['-e', '']);
+    await fs.writeFile(
+      join(directory, 'cache', '.lock'),
+      String(exitedProcess.pid)
+    );
+
+    const persistence = await testIndexedDbPersistence({
+      storage: newFileKeyValueStore(join(directory, 'cache')),
+      dontPurgeData: true
+    });
+    expect(persistence.started).to.be.true;
+    const batches = await newMutationQueue(persistence).getAllMutationBatches();
+    expect(batches.length).to.equal(1);
+
+    await persistence.shutdown();
+    await previousPersistence.shutdown();
+  });
+
+  it('lets one of several clients take over a stale lock', async () => {
+    await fs.mkdir(join(directory, 'cache'));
+    const exitedProcess = spawnSync(process.execPath, ['-e', '']);
+    await fs.writeFile(
+      join(directory, 'cache', '.lock'),
+      String(exitedProcess.pid)
+    );
+
+    const stores = [1, 2].map(
+      () =>
+        newFileKeyValueStore(join(directory, 'cache')) as LockableKeyValueStore
+    );
+    const locked = await Promise.all(stores.map(store => store._lock()));
+    expect(locked.filter(isLocked => isLocked).length).to.equal(1);
+
+    // Only the client that holds the lock removes the lock file.
+    const [winner, loser] = locked[0] ? stores : [stores[1], stores[0]];
+    await loser._unlock();
+    expect(await fs.readdir(join(directory, 'cache'))).to.deep.equal(['.lock']);
+    await winner._unlock();
+    expect(await fs.readdir(join(directory, 'cache'))).to.deep.equal([]);
+  });
+
+  it('is locked by a single client', async () => {
+    const persistence = await testIndexedDbPersistence({ storage: store });
+    await expect(
+      testIndexedDbPersistence({
+        storage: newFileKeyValueStore(join(directory, 'cache')),
+        dontPurgeData: true
+      })
+    ).to.eventually.be.rejectedWith('exclusive access');
+    await persistence.shutdown();
+
+    const nextPersistence = await testIndexedDbPersistence({
+      storage: newFileKeyValueStore(join(directory, 'cache')),
+      dontPurgeData: true
+    });
+    expect(nextPersistence.started).to.be.true;
+    await nextPersistence.shutdown();
+  });
+
+  it('is locked against other processes', async () => {
+    await fs.mkdir(join(directory, 'cache'));
+    await fs.writeFile(join(directory, 'cache', '.lock'), String(process.ppid));
+    await expect(
+      testIndexedDbPersistence({ storage: store })
+    ).to.eventually.be.rejectedWith('exclusive access');
+  });
+});
@@ -424,14 +424,36 @@ function genericLruGarbageCollectorTests(
       'verify remaining targets > 20 or odd',
       'readwrite',
       txn => {
-        return targetCache.forEachTarget(txn, targetData => {
-          const targetId = targetData.targetId;
-          expect(targetId > 20 || targetId % 2 === 1).to.be.true;
-        });
+        return targetCache
+          .forEachTarget(txn, targetData => {
+            const targetId = targetData.targetId;
+            expect(targetId > 20 || targetId % 2 === 1).to.be.true;
+          })
+          .next(() => targetCache.getTargetCount(txn))
+          .next(targetCount => expect(targetCount).to.equal(90));
       }
     );
   });
 
+  it('does not remove pinned targets', async () => {
+    const pinned = await addNextTarget();
+    await persistence.runTransaction('pin target', 'readwrite', txn =>
+      targetCache.updateTargetData(txn, pinned.withPinned(true))
+    );
+    const unpinned = await addNextTarget();
+
+    const removed = await removeTargets(
+      unpinned.sequenceNumber,
+      emptyTargetDataMap()
+    );
+    expect(removed).to.equal(1);
+    await persistence.runTransaction('verify pinned target', 'readonly', txn =>
+      targetCache.getTargetData(txn, pinned.target).next(targetData => {
+        expect(targetData?.pinned).to.be.true;
+      })
+    );
+  });
+
   it('removes orphaned documents', async () => {
     // Track documents we expect to be retained so we can verify post-GC.
     // This will contain documents associated with targets that survive GC, as well
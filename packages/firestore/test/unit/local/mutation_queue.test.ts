@@ -61,6 +61,20 @@ describe('IndexedDbMutationQueue', () => {
   genericMutationQueueTests();
 });
 
+describe('IndexedDbMutationQueue w/ key-value storage', () => {
+  beforeEach(() => {
+    return persistenceHelpers
+      .testIndexedDbPersistence({
+        storage: new persistenceHelpers.MemoryKeyValueStore()
+      })
+      .then(p => {
+        persistence = p;
+      });
+  });
+
+  genericMutationQueueTests();
+});
+
 /**
  * Defines the set of tests to run against both mutation queue
  * implementations.
@@ -348,4 +362,33 @@ function genericMutationQueueTests(): void {
     expect(found.length).to.equal(0);
     expect(await mutationQueue.checkEmpty()).to.equal(true);
   });
+
+  it('can removeMutationBatch() from the middle of the queue', async () => {
+    const batches = await createBatches(5);
+
+    const [removed] = batches.splice(2, 1);
+    await mutationQueue.removeMutationBatch(removed);
+    expect(await mutationQueue.countBatches()).to.equal(4);
+    expectEqualArrays(await mutationQueue.getAllMutationBatches(), batches);
+    expect(await mutationQueue.lookupMutationBatch(removed.batchId)).to.be.null;
+    for (const batch of batches) {
+      const found = await mutationQueue.lookupMutationBatch(batch.batchId);
+      expect(found!.batchId).to.equal(batch.batchId);
+    }
+
+    let found = await mutationQueue.getNextMutationBatchAfterBatchId(
+      batches[1].batchId
+    );
+    expect(found!.batchId).to.equal(batches[2].batchId);
+
+    const last = batches.pop()!;
+    await mutationQueue.removeMutationBatch(last);
+    const added = await addMutationBatch();
+    batches.push(added);
+    expectEqualArrays(await mutationQueue.getAllMutationBatches(), batches);
+    found = await mutationQueue.getNextMutationBatchAfterBatchId(
+      batches[2].batchId
+    );
+    expect(found!.batchId).to.equal(added.batchId);
+  });
 }
@@ -15,6 +15,7 @@
  * limitations under the License.
  */
 
+import { PersistentKeyValueStore } from '../../../src/api/cache_config';
 import { User } from '../../../src/auth/user';
 import { DatabaseId } from '../../../src/core/database_info';
 import { SequenceNumberSyncer } from '../../../src/core/listen_sequence';
@@ -29,6 +30,7 @@ import {
   IndexedDbPersistence,
   MAIN_DATABASE
 } from '../../../src/local/indexeddb_persistence';
+import { newKeyValueIndexedDb } from '../../../src/local/key_value_indexeddb';
 import { LocalSerializer } from '../../../src/local/local_serializer';
 import { LruParams } from '../../../src/local/lru_garbage_collector';
 import {
@@ -94,6 +96,7 @@ export async function testIndexedDbPersistence(
     synchronizeTabs?: boolean;
     queue?: AsyncQueue;
     schemaVersion?: number;
+    storage?: PersistentKeyValueStore;
   } = {},
   lruParams: LruParams = LruParams.DEFAULT
 ): Promise<IndexedDbPersistence> {
@@ -101,7 +104,10 @@ export async function testIndexedDbPersistence(
   const clientId = AutoId.newId();
   const prefix = `${TEST_PERSISTENCE_PREFIX}/`;
   if (!options.dontPurgeData) {
-    await SimpleDb.delete(prefix + MAIN_DATABASE);
+    await SimpleDb.delete(
+      prefix + MAIN_DATABASE,
+      options.storage && newKeyValueIndexedDb(options.storage)
+    );
   }
   const persistence = new IndexedDbPersistence(
     !!options.synchronizeTabs,
@@ -114,12 +120,36 @@ export async function testIndexedDbPersistence(
     JSON_SERIALIZER,
     MOCK_SEQUENCE_NUMBER_SYNCER,
     /** forceOwningTab= */ false,
+    options.storage ?? null,
     options.schemaVersion
   );
   await persistence.start();
   return persistence;
 }
 
+/**
+ * A `PersistentKeyValueStore` that keeps its entries in memory. Used to run the
+ * IndexedDB persistence layer on top of the key-value IndexedDB
+ * implementation.
+ */
+export class MemoryKeyValueStore implements PersistentKeyValueStore {
+  constructor(readonly entries = new Map<string, string>()) {}
+
+  getItem(key: string): Promise<string | null> {
+    return Promise.resolve(this.entries.get(key) ?? null);
+  }
+
+  setItem(key: string, value: string): Promise<void> {
+    this.entries.set(key, value);
+    return Promise.resolve();
+  }
+
+  removeItem(key: string): Promise<void> {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+}
+
 /** Creates and starts a MemoryPersistence instance for testing. */
 export async function testMemoryEagerPersistence(): Promise<MemoryPersistence> {
   return new MemoryPersistence(MemoryEagerDelegate.factory, JSON_SERIALIZER);
@@ -40,7 +40,7 @@ import { MutationQueue } from '../../../src/local/mutation_queue';
 import { Persistence } from '../../../src/local/persistence';
 import { PersistencePromise } from '../../../src/local/persistence_promise';
 import { PersistenceTransaction } from '../../../src/local/persistence_transaction';
-import { QueryContext } from '../../../src/local/query_context';
+import { QueryContext, QueryStrategy } from '../../../src/local/query_context';
 import { QueryEngine } from '../../../src/local/query_engine';
 import { RemoteDocumentCache } from '../../../src/local/remote_document_cache';
 import { TargetCache } from '../../../src/local/target_cache';
@@ -227,7 +227,8 @@ function genericQueryEngineTest(
 
   function runQuery(
     query: Query,
-    lastLimboFreeSnapshot: SnapshotVersion
+    lastLimboFreeSnapshot: SnapshotVersion,
+    context?: QueryContext
   ): Promise<DocumentSet> {
     debugAssert(
       localDocuments.expectFullCollectionScan !== undefined,
@@ -246,7 +247,8 @@ function genericQueryEngineTest(
               txn,
               query,
               lastLimboFreeSnapshot,
-              remoteKeys
+              remoteKeys,
+              context
             )
             .next(docs => {
               const view = new View(query, remoteKeys);
@@ -310,6 +312,43 @@ function genericQueryEngineTest(
       verifyResult(docs, [MATCHING_DOC_A, MATCHING_DOC_B]);
     });
 
+    it('records previous results strategy in query context', async () => {
+      const query1 = query('coll', filter('matches', '==', true));
+
+      await addDocument(MATCHING_DOC_A, MATCHING_DOC_B);
+      await persistQueryMapping(MATCHING_DOC_A.key, MATCHING_DOC_B.key);
+
+      const context = new QueryContext();
+      await expectOptimizedCollectionQuery(() =>
+        runQuery(query1, LAST_LIMBO_FREE_SNAPSHOT, context)
+      );
+
+      expect(context.strategy).to.equal(QueryStrategy.PreviousResults);
+      expect(context.documentReadCount).to.equal(2);
+      expect(context.indexesUsed).to.be.empty;
+      expect(context.indexAutoCreationTriggered).to.be.false;
+    });
+
+    it('records full collection scan strategy in query context', async () => {
+      const query1 = query('coll', filter('matches', '==', true));
+
+      await addDocument(
+        MATCHING_DOC_A,
+        MATCHING_DOC_B,
+        doc('coll/c', 1, { matches: false })
+      );
+
+      const context = new QueryContext();
+      const docs = await expectFullCollectionQuery(() =>
+        runQuery(query1, MISSING_LAST_LIMBO_FREE_SNAPSHOT, context)
+      );
+
+      verifyResult(docs, [MATCHING_DOC_A, MATCHING_DOC_B]);
+      expect(context.strategy).to.equal(QueryStrategy.FullCollectionScan);
+      expect(context.documentReadCount).to.equal(3);
+      expect(context.indexesUsed).to.be.empty;
+    });
+
     it('filters non-matching changes since initial results', async () => {
       const query1 = query('coll', filter('matches', '==', true));
 
@@ -768,6 +807,42 @@ function genericQueryEngineTest(
       verifyResult(results, [doc1, doc2, doc3, doc4]);
     });
 
+    it('records the index used in query context', async () => {
+      debugAssert(configureCsi, 'Test requires durable persistence');
+
+      const doc1 = doc('coll/a', 1, { 'foo': true });
+      const doc2 = doc('coll/b', 1, { 'foo': false });
+      const index = fieldIndex('coll', {
+        id: 1,
+        fields: [['foo', IndexKind.ASCENDING]]
+      });
+      await indexManager.addFieldIndex(index);
+      await addDocument(doc1, doc2);
+      await indexManager.updateIndexEntries(documentMap(doc1, doc2));
+      await indexManager.updateCollectionGroup(
+        'coll',
+        newIndexOffsetFromDocument(doc2)
+      );
+
+      const context = new QueryContext();
+      const results = await expectOptimizedCollectionQuery(() =>
+        runQuery(
+          query('coll', filter('foo', '==', true)),
+          SnapshotVersion.min(),
+          context
+        )
+      );
+
+      verifyResult(results, [doc1]);
+      expect(context.strategy).to.equal(QueryStrategy.Index);
+      expect(context.documentReadCount).to.equal(1);
+      expect(context.indexesUsed.length).to.equal(1);
+      expect(context.indexesUsed[0].collectionGroup).to.equal('coll');
+      expect(
+        context.indexesUsed[0].fields.map(f => f.fieldPath.canonicalString())
+      ).to.deep.equal(['foo']);
+    });
+
     it('uses partial index for limit queries', async () => {
       debugAssert(configureCsi, 'Test requires durable persistence');
 
@@ -913,6 +988,32 @@ function genericQueryEngineTest(
         expectedPostQueryExecutionIndexType: IndexType.FULL
       }));
 
+    it('records index auto-creation in query context', async () => {
+      debugAssert(configureCsi, 'Test requires durable persistence');
+
+      await addDocument(
+        doc('coll/a', 1, { 'foo': 'match' }),
+        doc('coll/b', 1, { 'foo': 'nomatch' }),
+        doc('coll/c', 1, { 'foo': 'nomatch' })
+      );
+      queryEngine.indexAutoCreationEnabled = true;
+      queryEngine.indexAutoCreationMinCollectionSize = 0;
+      queryEngine.relativeIndexReadCostPerDocument = 2;
+
+      const context = new QueryContext();
+      await expectFullCollectionQuery(() =>
+        runQuery(
+          query('coll', filter('foo', '==', 'match')),
+          SnapshotVersion.min(),
+          context
+        )
+      );
+
+      expect(context.strategy).to.equal(QueryStrategy.FullCollectionScan);
+      expect(context.documentReadCount).to.equal(3);
+      expect(context.indexAutoCreationTriggered).to.be.true;
+    });
+
     it('does not create indexes when indexAutoCreationEnabled=false', () =>
       testIndexAutoCreation({
         indexAutoCreationEnabled: false,
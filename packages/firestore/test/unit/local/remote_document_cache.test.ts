@@ -457,6 +457,30 @@ function genericRemoteDocumentCacheTests(
       });
   });
 
+  it('can read all documents', async () => {
+    const docs = [
+      doc('a/1', VERSION, DOC_DATA),
+      doc('a/1/b/1', VERSION, DOC_DATA),
+      deletedDoc('c/1', VERSION)
+    ];
+    await cache.addEntries(docs);
+    const read = await cache.getAllEntries();
+    expect(read.size).to.equal(3);
+    docs.forEach(doc => expectEqual(read.get(doc.key), doc));
+  });
+
+  it('can count all documents', async () => {
+    expect(await cache.getEntryCount()).to.equal(0);
+    await cache.addEntries([
+      doc('a/1', VERSION, DOC_DATA),
+      doc('a/1/b/1', VERSION, DOC_DATA),
+      deletedDoc('c/1', VERSION)
+    ]);
+    expect(await cache.getEntryCount()).to.equal(3);
+    await cache.removeEntry(key('a/1'));
+    expect(await cache.getEntryCount()).to.equal(2);
+  });
+
   it('can remove nonexistent document', () => {
     // no-op, but make sure it doesn't fail.
     return cache.removeEntry(key(DOC_PATH));
@@ -105,6 +105,29 @@ describe('IndexedDbTargetCache', () => {
     await db2.shutdown();
     await persistenceHelpers.clearTestPersistence();
   });
+
+  it('persists pinned targets across restarts', async () => {
+    const db1 = await persistencePromise;
+    const targetCache1 = new TestTargetCache(db1, db1.getTargetCache());
+    const target = queryToTarget(query('rooms'));
+    const targetData = new TargetData(
+      target,
+      /* targetId= */ 5,
+      TargetPurpose.Listen,
+      /* sequenceNumber= */ 1
+    ).withPinned(true);
+    await targetCache1.addTargetData(targetData);
+    await db1.shutdown();
+
+    const db2 = await persistenceHelpers.testIndexedDbPersistence({
+      dontPurgeData: true
+    });
+    const targetCache2 = new TestTargetCache(db2, db2.getTargetCache());
+    const actualTargetData = await targetCache2.getTargetData(target);
+    expect(actualTargetData!.pinned).to.be.true;
+    await db2.shutdown();
+    await persistenceHelpers.clearTestPersistence();
+  });
 });
 
 /**
@@ -97,6 +97,16 @@ export class TestDocumentOverlayCache {
     );
   }
 
+  getOverlayCount(): Promise<number> {
+    return this.persistence.runTransaction(
+      'getOverlayCount',
+      'readonly',
+      txn => {
+        return this.cache.getOverlayCount(txn);
+      }
+    );
+  }
+
   removeOverlaysForBatchId(
     documentKeys: DocumentKeySet,
     batchId: number
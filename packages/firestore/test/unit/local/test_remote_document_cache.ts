@@ -141,6 +141,18 @@ export class TestRemoteDocumentCache {
     );
   }
 
+  getAllEntries(): Promise<MutableDocumentMap> {
+    return this.persistence.runTransaction('getAllEntries', 'readonly', txn =>
+      this.cache.getAllEntries(txn)
+    );
+  }
+
+  getEntryCount(): Promise<number> {
+    return this.persistence.runTransaction('get entry count', 'readonly', txn =>
+      this.cache.getEntryCount(txn)
+    );
+  }
+
   getSize(): Promise<number> {
     return this.persistence.runTransaction('get size', 'readonly', txn =>
       this.cache.getSize(txn)
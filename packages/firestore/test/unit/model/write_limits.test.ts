@@ -0,0 +1,154 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+
+import { serverTimestamp } from '../../../src/lite-api/field_value_impl';
+import { estimateSetDataSize } from '../../../src/lite-api/user_data_reader';
+import { Mutation } from '../../../src/model/mutation';
+import {
+  documentSize,
+  MAX_WRITES_PER_COMMIT,
+  validateCommitLimits,
+  validateDocumentLimits
+} from '../../../src/model/write_limits';
+import {
+  deleteMutation,
+  field,
+  key,
+  setMutation,
+  testUserDataReader,
+  wrapObject
+} from '../../util/helpers';
+
+describe('Write limits', () => {
+  function nestedMap(depth: number): Record<string, unknown> {
+    let value: Record<string, unknown> = { leaf: true };
+    for (let i = 1; i < depth; ++i) {
+      value = { nested: value };
+    }
+    return value;
+  }
+
+  it('estimates document sizes', () => {
+    // Name: 16 + "tasks" (6) + "id5" (4), document overhead: 32.
+    expect(documentSize(key('tasks/id5'), wrapObject({}))).to.equal(58);
+    // "type" (5) + "Personal" (9), "done" (5) + false (1),
+    // "priority" (9) + 1 (8), "description" (12) + "Learn Japanese" (15).
+    expect(
+      documentSize(
+        key('tasks/id5'),
+        wrapObject({
+          type: 'Personal',
+          done: false,
+          priority: 1,
+          description: 'Learn Japanese'
+        })
+      )
+    ).to.equal(58 + 14 + 6 + 17 + 27);
+    // Multi-byte characters are counted in UTF-8.
+    expect(documentSize(key('tasks/id5'), wrapObject({ a: 'é😀' }))).to.equal(
+      58 + 2 + 7
+    );
+  });
+
+  it('estimates the size of data with field transforms', () => {
+    const size = estimateSetDataSize(
+      testUserDataReader(),
+      'estimateSetDataSize',
+      key('tasks/id5'),
+      { a: 1, b: serverTimestamp() },
+      false
+    );
+    // "a" (2) + 1 (8), "b" (2) + a timestamp (8).
+    expect(size).to.equal(58 + 10 + 10);
+  });
+
+  it('accepts documents within the limits', () => {
+    expect(
+      validateDocumentLimits(
+        key('coll/doc'),
+        wrapObject({ a: 'foo', b: nestedMap(20) }),
+        []
+      )
+    ).to.equal(null);
+  });
+
+  it('reports documents that are too large', () => {
+    const violation = validateDocumentLimits(
+      key('coll/doc'),
+      wrapObject({ small: 'foo', large: 'x'.repeat(1024 * 1024) }),
+      []
+    );
+    expect(violation!.reason).to.contain('exceeds the maximum of 1048576');
+    expect(violation!.field).to.deep.equal(field('large'));
+  });
+
+  it('reports documents with too many fields', () => {
+    const fields: Record<string, number> = {};
+    for (let i = 0; i < 20001; ++i) {
+      fields['f' + i] = i;
+    }
+    const violation = validateDocumentLimits(
+      key('coll/doc'),
+      wrapObject({ a: 1, map: fields }),
+      []
+    );
+    expect(violation!.reason).to.contain('20003 fields');
+    expect(violation!.field).to.deep.equal(field('map'));
+  });
+
+  it('reports documents that are nested too deeply', () => {
+    const violation = validateDocumentLimits(
+      key('coll/doc'),
+      wrapObject({ a: 1, b: nestedMap(21) }),
+      []
+    );
+    expect(violation!.reason).to.contain('21 levels');
+    expect(violation!.field).to.deep.equal(field('b'));
+  });
+
+  it('names the document and field of invalid writes', () => {
+    expect(() => setMutation('coll/doc', { a: 1, b: nestedMap(21) })).to.throw(
+      /exceeds the maximum of 20 levels.*field b in document coll\/doc/
+    );
+  });
+
+  it('reports commits with too many writes', () => {
+    const mutations: Mutation[] = [];
+    for (let i = 0; i <= MAX_WRITES_PER_COMMIT; ++i) {
+      mutations.push(deleteMutation('coll/doc' + i));
+    }
+    expect(() => validateCommitLimits(mutations.slice(1))).not.to.throw();
+    expect(() => validateCommitLimits(mutations)).to.throw(
+      'at most 500 writes, but it contains 501 writes'
+    );
+  });
+
+  it('reports commits that are too large', () => {
+    const mutations: Mutation[] = [];
+    for (let i = 0; i < 11; ++i) {
+      mutations.push(
+        setMutation('coll/doc' + i, { a: 'x'.repeat(1000000 + i) })
+      );
+    }
+    expect(() => validateCommitLimits(mutations.slice(1))).not.to.throw();
+    expect(() => validateCommitLimits(mutations)).to.throw(
+      /exceeds the maximum of 10485760 bytes. The largest write is to document coll\/doc10/
+    );
+  });
+});
@@ -23,6 +23,7 @@ import {
   EmptyAuthCredentialsProvider,
   Token
 } from '../../../src/api/credentials';
+import { AggregateImpl } from '../../../src/core/aggregate';
 import { DatabaseId } from '../../../src/core/database_info';
 import { ResourcePath } from '../../../src/model/path';
 import { Connection, Stream } from '../../../src/remote/connection';
@@ -30,10 +31,13 @@ import {
   Datastore,
   newDatastore,
   invokeCommitRpc,
-  invokeBatchGetDocumentsRpc
+  invokeBatchGetDocumentsRpc,
+  invokeExplainRunAggregationQueryRpc,
+  invokeExplainRunQueryRpc
 } from '../../../src/remote/datastore';
 import { JsonProtoSerializer } from '../../../src/remote/serializer';
 import { Code, FirestoreError } from '../../../src/util/error';
+import { query } from '../../util/helpers';
 
 use(chaiAsPromised);
 
@@ -295,4 +299,86 @@ describe('Datastore', () => {
     expect(authCredentials.invalidateTokenInvoked).to.be.true;
     expect(appCheckCredentials.invalidateTokenInvoked).to.be.true;
   });
+
+  it('invokeExplainRunQueryRpc() sends explain options and decodes metrics', async () => {
+    const connection = new MockConnection();
+    const requests: unknown[] = [];
+    connection.invokeStreamingRPC = <Req, Resp>(
+      rpcName: string,
+      path: ResourcePath,
+      request: Req
+    ) => {
+      requests.push(request);
+      return Promise.resolve([
+        { readTime: { seconds: '1', nanos: 0 } },
+        {
+          explainMetrics: {
+            planSummary: { indexesUsed: [] },
+            executionStats: {
+              resultsReturned: '0',
+              executionDuration: { seconds: '0', nanos: 2000000 },
+              readOperations: '1',
+              debugStats: { fields: {} }
+            }
+          }
+        }
+      ] as unknown as Resp[]);
+    };
+    const datastore = newDatastore(
+      new EmptyAuthCredentialsProvider(),
+      new EmptyAppCheckTokenProvider(),
+      connection,
+      serializer
+    );
+
+    const result = await invokeExplainRunQueryRpc(datastore, query('coll'), {
+      analyze: true
+    });
+    expect(requests[0]).to.deep.include({ explainOptions: { analyze: true } });
+    expect(result.documents).to.deep.equal([]);
+    expect(result.explainMetrics.executionStats).to.deep.equal({
+      resultsReturned: 0,
+      executionDuration: 2,
+      readOperations: 1,
+      debugStats: {}
+    });
+  });
+
+  it('invokeExplainRunAggregationQueryRpc() returns no result if not analyzed', async () => {
+    const connection = new MockConnection();
+    connection.invokeStreamingRPC = <Req, Resp>(
+      rpcName: string,
+      path: ResourcePath,
+      request: Req
+    ) =>
+      Promise.resolve([
+        {
+          explainMetrics: {
+            planSummary: {
+              indexesUsed: [
+                { fields: { 'query_scope': { stringValue: 'Collection' } } }
+              ]
+            }
+          }
+        }
+      ] as unknown as Resp[]);
+    const datastore = newDatastore(
+      new EmptyAuthCredentialsProvider(),
+      new EmptyAppCheckTokenProvider(),
+      connection,
+      serializer
+    );
+
+    const result = await invokeExplainRunAggregationQueryRpc(
+      datastore,
+      query('coll'),
+      [new AggregateImpl('count', 'count')],
+      { analyze: false }
+    );
+    expect(result.aggregateFields).to.be.null;
+    expect(result.explainMetrics).to.deep.equal({
+      planSummary: { indexesUsed: [{ 'query_scope': 'Collection' }] },
+      executionStats: null
+    });
+  });
 });
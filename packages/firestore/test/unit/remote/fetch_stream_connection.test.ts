@@ -0,0 +1,334 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+
+import { DatabaseId, DatabaseInfo } from '../../../src/core/database_info';
+import {
+  FetchStreamConnection,
+  ServerSentEventDecoder
+} from '../../../src/platform/browser/fetch_stream_connection';
+import { Stream } from '../../../src/remote/connection';
+import { FirestoreError } from '../../../src/util/error';
+
+/** A request received by the fake `fetch` and the stream of its response. */
+interface FakeRequest {
+  url: string;
+  init: RequestInit;
+  aborted: boolean;
+  respond(msg: unknown): void;
+  end(): void;
+}
+
+describe('ServerSentEventDecoder', () => {
+  it('decodes events split across chunks', () => {
+    const decoder = new ServerSentEventDecoder();
+    expect(decoder.decode('data: {"a":')).to.deep.equal([]);
+    expect(
+      decoder.decode('1}\n\ndata: {"b":2}\r\n\r\n: comment\n\nda')
+    ).to.deep.equal([{ a: 1 }, { b: 2 }]);
+    expect(decoder.decode('ta: {"c":\ndata: 3}\n\n')).to.deep.equal([{ c: 3 }]);
+  });
+});
+
+describe('FetchStreamConnection', () => {
+  const databaseInfo = new DatabaseInfo(
+    new DatabaseId('testproject'),
+    'test-app-id',
+    'persistenceKey',
+    'example.com',
+    /*ssl=*/ false,
+    /*forceLongPolling=*/ false,
+    /*autoDetectLongPolling=*/ false,
+    /*longPollingOptions=*/ {},
+    /*useFetchStreams=*/ false,
+    /*experimentalTransport=*/ 'fetch',
+    /*backend=*/ null
+  );
+
+  let requests: FakeRequest[];
+
+  const fakeFetch = ((url: string, init: RequestInit) => {
+    const encoder = new TextEncoder();
+    let responseBody!: ReadableStreamDefaultController<Uint8Array>;
+    const request: FakeRequest = {
+      url,
+      init,
+      aborted: false,
+      respond: msg =>
+        responseBody.enqueue(
+          encoder.encode(`data: ${JSON.stringify(msg)}\n\n`)
+        ),
+      end: () => responseBody.close()
+    };
+    init.signal?.addEventListener('abort', () => (request.aborted = true));
+    requests.push(request);
+    return Promise.resolve(
+      new Response(
+        new ReadableStream<Uint8Array>({
+          start: controller => {
+            responseBody = controller;
+          }
+        })
+      )
+    );
+  }) as typeof fetch;
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  function nextTick(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  function openStream<Req, Resp>(
+    rpcName: string,
+    useLongPolling: boolean
+  ): {
+    stream: Stream<Req, Resp>;
+    messages: Resp[];
+    closes: Array<FirestoreError | undefined>;
+  } {
+    const connection = new FetchStreamConnection(
+      databaseInfo,
+      fakeFetch,
+      useLongPolling
+    );
+    const stream = connection.openStream<Req, Resp>(rpcName, null, null);
+    const messages: Resp[] = [];
+    const closes: Array<FirestoreError | undefined> = [];
+    stream.onOpen(() => {});
+    stream.onConnected(() => {});
+    stream.onMessage(msg => messages.push(msg));
+    stream.onClose(err => closes.push(err));
+    return { stream, messages, closes };
+  }
+
+  async function readRequestBody(request: FakeRequest): Promise<string> {
+    const reader = (
+      request.init.body as ReadableStream<Uint8Array>
+    ).getReader();
+    const { value } = await reader.read();
+    reader.releaseLock();
+    return new TextDecoder().decode(value);
+  }
+
+  it('streams requests and responses', async () => {
+    const { stream, messages, closes } = openStream('Listen', false);
+    await nextTick();
+    expect(requests.length).to.equal(1);
+    expect(requests[0].url).to.equal(
+      'http://example.com/v1/projects/testproject/databases/(default)/documents:listen?alt=sse'
+    );
+
+    stream.send({ addTarget: { targetId: 1 } });
+    expect(await readRequestBody(requests[0])).to.equal(
+      '[{"addTarget":{"targetId":1}}'
+    );
+    stream.send({ addTarget: { targetId: 2 } });
+    expect(await readRequestBody(requests[0])).to.equal(
+      ',{"addTarget":{"targetId":2}}'
+    );
+
+    requests[0].respond({ targetChange: { targetChangeType: 'ADD' } });
+    await nextTick();
+    expect(messages).to.deep.equal([
+      { targetChange: { targetChangeType: 'ADD' } }
+    ]);
+
+    requests[0].end();
+    await nextTick();
+    expect(closes).to.deep.equal([undefined]);
+  });
+
+  it('closes the stream when receiving an error', async () => {
+    const { closes } = openStream('Listen', false);
+    await nextTick();
+    requests[0].respond({
+      error: { status: 'PERMISSION_DENIED', message: 'denied' }
+    });
+    await nextTick();
+    expect(closes.length).to.equal(1);
+    expect(closes[0]!.code).to.equal('permission-denied');
+    expect(requests[0].aborted).to.be.true;
+  });
+
+  it('re-sends the active targets when long polling', async () => {
+    const { stream, messages } = openStream<unknown, unknown>('Listen', true);
+    await nextTick();
+    expect(requests.length).to.equal(0);
+
+    stream.send({ addTarget: { targetId: 1 } });
+    stream.send({ addTarget: { targetId: 2 } });
+    await nextTick();
+    expect(requests.length).to.equal(1);
+    expect(JSON.parse(requests[0].init.body as string)).to.deep.equal([
+      { addTarget: { targetId: 1 } },
+      { addTarget: { targetId: 2 } }
+    ]);
+    requests[0].respond({
+      targetChange: { targetChangeType: 'ADD', targetIds: [1, 2] }
+    });
+    await nextTick();
+
+    stream.send({ removeTarget: 1 });
+    stream.send({ addTarget: { targetId: 3 } });
+    await nextTick();
+    expect(requests[0].aborted).to.be.true;
+    expect(JSON.parse(requests[1].init.body as string)).to.deep.equal([
+      { addTarget: { targetId: 2 } },
+      { addTarget: { targetId: 3 } }
+    ]);
+    requests[1].respond({
+      targetChange: { targetChangeType: 'ADD', targetIds: [2, 3] }
+    });
+    await nextTick();
+
+    // The request is sent again once the backend ends it.
+    requests[1].end();
+    await nextTick();
+    await nextTick();
+    expect(requests.length).to.equal(3);
+
+    expect(messages).to.deep.equal([
+      { targetChange: { targetChangeType: 'ADD', targetIds: [1, 2] } },
+      { targetChange: { targetChangeType: 'REMOVE', targetIds: [1] } },
+      { targetChange: { targetChangeType: 'ADD', targetIds: [3] } }
+    ]);
+  });
+
+  it('resumes the targets from the latest resume token when long polling', async () => {
+    const { stream } = openStream<unknown, unknown>('Listen', true);
+    await nextTick();
+    stream.send({ addTarget: { targetId: 1, expectedCount: 3 } });
+    stream.send({ addTarget: { targetId: 2 } });
+    await nextTick();
+
+    requests[0].respond({
+      targetChange: {
+        targetChangeType: 'CURRENT',
+        targetIds: [1],
+        resumeToken: 'dG9rZW4x'
+      }
+    });
+    requests[0].respond({
+      targetChange: {
+        targetChangeType: 'NO_CHANGE',
+        targetIds: [],
+        readTime: '2024-01-01T00:00:00Z'
+      }
+    });
+    requests[0].end();
+    await nextTick();
+    await nextTick();
+
+    expect(requests.length).to.equal(2);
+    expect(JSON.parse(requests[1].init.body as string)).to.deep.equal([
+      { addTarget: { targetId: 1, readTime: '2024-01-01T00:00:00Z' } },
+      { addTarget: { targetId: 2, readTime: '2024-01-01T00:00:00Z' } }
+    ]);
+
+    requests[1].respond({
+      targetChange: {
+        targetChangeType: 'NO_CHANGE',
+        targetIds: [2],
+        resumeToken: 'dG9rZW4y'
+      }
+    });
+    requests[1].end();
+    await nextTick();
+    await nextTick();
+    expect(JSON.parse(requests[2].init.body as string)).to.deep.equal([
+      { addTarget: { targetId: 1, readTime: '2024-01-01T00:00:00Z' } },
+      { addTarget: { targetId: 2, resumeToken: 'dG9rZW4y' } }
+    ]);
+  });
+
+  it('does not send queued commits once the write stream closed', async () => {
+    const commits: unknown[] = [];
+    let rejectCommit!: (e: FirestoreError) => void;
+    const connection = new (class extends FetchStreamConnection {
+      protected performRPCRequest<Req, Resp>(
+        rpcName: string,
+        url: string,
+        headers: unknown,
+        body: Req
+      ): Promise<Resp> {
+        commits.push(body);
+        return new Promise<Resp>((_, reject) => (rejectCommit = reject));
+      }
+    })(databaseInfo, fakeFetch, /* useLongPolling= */ true);
+    const stream = connection.openStream<unknown, unknown>('Write', null, null);
+    const closes: Array<FirestoreError | undefined> = [];
+    stream.onOpen(() => {});
+    stream.onConnected(() => {});
+    stream.onMessage(() => {});
+    stream.onClose(err => closes.push(err));
+    await nextTick();
+
+    stream.send({ streamToken: 'AA==', writes: [{ delete: 'doc1' }] });
+    stream.send({ streamToken: 'AA==', writes: [{ delete: 'doc2' }] });
+    await nextTick();
+    expect(commits.length).to.equal(1);
+
+    rejectCommit(new FirestoreError('unavailable', 'unavailable'));
+    await nextTick();
+    expect(closes.length).to.equal(1);
+    expect(commits.length).to.equal(1);
+  });
+
+  it('sends writes as commits when long polling', async () => {
+    let commitResponse: unknown = {};
+    const connection = new (class extends FetchStreamConnection {
+      protected performRPCRequest<Req, Resp>(
+        rpcName: string,
+        url: string,
+        headers: unknown,
+        body: Req
+      ): Promise<Resp> {
+        expect(rpcName).to.equal('Commit');
+        expect(body).to.deep.equal({ writes: [{ delete: 'doc' }] });
+        return Promise.resolve(commitResponse as Resp);
+      }
+    })(databaseInfo, fakeFetch, /* useLongPolling= */ true);
+    const stream = connection.openStream<unknown, unknown>('Write', null, null);
+    const messages: unknown[] = [];
+    stream.onOpen(() => {});
+    stream.onConnected(() => {});
+    stream.onMessage(msg => messages.push(msg));
+    stream.onClose(() => {});
+    await nextTick();
+
+    stream.send({ database: 'projects/testproject/databases/(default)' });
+    await nextTick();
+    expect(messages).to.deep.equal([{ streamToken: 'AA==' }]);
+
+    commitResponse = {
+      commitTime: '2024-01-01T00:00:00Z',
+      writeResults: [{}]
+    };
+    stream.send({ streamToken: 'AA==', writes: [{ delete: 'doc' }] });
+    await nextTick();
+    expect(messages[1]).to.deep.equal({
+      streamToken: 'AA==',
+      commitTime: '2024-01-01T00:00:00Z',
+      writeResults: [{}]
+    });
+    expect(requests.length).to.equal(0);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { deleteApp, initializeApp } from '@firebase/app';
+import { expect, use } from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+
+import {
+  collection,
+  createInMemoryBackend,
+  deleteDoc,
+  doc,
+  Firestore,
+  getCountFromServer,
+  getDoc,
+  getDocFromServer,
+  getDocsFromServer,
+  increment,
+  initializeFirestore,
+  InMemoryBackend,
+  onSnapshot,
+  orderBy,
+  query,
+  QuerySnapshot,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where,
+  writeBatch
+} from '../../../src';
+import { PrivateSettings } from '../../../src/lite-api/settings';
+import { newTestFirestore } from '../../util/api_helpers';
+
+use(chaiAsPromised);
+
+describe('InMemoryBackend', () => {
+  let backend: InMemoryBackend;
+  let instances: Firestore[];
+
+  beforeEach(() => {
+    backend = createInMemoryBackend();
+    instances = [];
+  });
+
+  afterEach(() => Promise.all(instances.map(db => db._delete())));
+
+  function newFirestore(): Firestore {
+    const db = newTestFirestore('test-project');
+    db._setSettings({ _backend: backend } as PrivateSettings);
+    instances.push(db);
+    return db;
+  }
+
+  it('stores and reads documents', async () => {
+    const db = newFirestore();
+    await setDoc(doc(db, 'coll/a'), { value: 1 });
+    await updateDoc(doc(db, 'coll/a'), { count: increment(2) });
+
+    const snapshot = await getDocFromServer(doc(newFirestore(), 'coll/a'));
+    expect(snapshot.data()).to.deep.equal({ value: 1, count: 2 });
+    const missing = await getDocFromServer(doc(db, 'coll/b'));
+    expect(missing.exists()).to.be.false;
+  });
+
+  it('resolves server timestamps to the commit time', async () => {
+    const db = newFirestore();
+    await setDoc(doc(db, 'coll/a'), { time: serverTimestamp() });
+    await setDoc(doc(db, 'coll/b'), { time: serverTimestamp() });
+
+    const first = await getDocFromServer(doc(db, 'coll/a'));
+    const second = await getDocFromServer(doc(db, 'coll/b'));
+    expect(first.get('time')).to.deep.equal(Timestamp.fromMillis(2));
+    expect(second.get('time')).to.deep.equal(Timestamp.fromMillis(3));
+  });
+
+  it('runs queries and aggregations', async () => {
+    const db = newFirestore();
+    const batch = writeBatch(db);
+    batch.set(doc(db, 'coll/a'), { value: 3 });
+    batch.set(doc(db, 'coll/b'), { value: 1 });
+    batch.set(doc(db, 'coll/c'), { value: 2 });
+    batch.set(doc(db, 'other/d'), { value: 2 });
+    await batch.commit();
+
+    const q = query(
+      collection(db, 'coll'),
+      where('value', '>', 1),
+      orderBy('value', 'desc')
+    );
+    const snapshot = await getDocsFromServer(q);
+    expect(snapshot.docs.map(d => d.id)).to.deep.equal(['a', 'c']);
+    expect((await getCountFromServer(q)).data().count).to.equal(2);
+  });
+
+  it('raises snapshots for remote changes', async () => {
+    const db = newFirestore();
+    await setDoc(doc(db, 'coll/a'), { value: 1 });
+
+    const snapshots: string[][] = [];
+    let next: (snapshot: QuerySnapshot) => void = () => {};
+    const unsubscribe = onSnapshot(collection(db, 'coll'), snapshot => {
+      snapshots.push(snapshot.docs.map(d => d.id));
+      next(snapshot);
+    });
+    const nextSnapshot = (): Promise<QuerySnapshot> =>
+      new Promise(resolve => (next = resolve));
+
+    await nextSnapshot();
+    const other = newFirestore();
+    let added = nextSnapshot();
+    await setDoc(doc(other, 'coll/b'), { value: 2 });
+    await added;
+    added = nextSnapshot();
+    await deleteDoc(doc(other, 'coll/a'));
+    await added;
+    unsubscribe();
+
+    expect(snapshots).to.deep.equal([['a'], ['a', 'b'], ['b']]);
+  });
+
+  it('runs transactions', async () => {
+    const db = newFirestore();
+    const ref = doc(db, 'coll/counter');
+    await setDoc(ref, { count: 0 });
+
+    let attempts = 0;
+    await runTransaction(db, async transaction => {
+      ++attempts;
+      const snapshot = await transaction.get(ref);
+      if (attempts === 1) {
+        // A concurrent write makes the first attempt fail.
+        await setDoc(doc(newFirestore(), 'coll/counter'), { count: 10 });
+      }
+      transaction.update(ref, { count: snapshot.get('count') + 1 });
+    });
+
+    expect(attempts).to.equal(2);
+    expect((await getDocFromServer(ref)).get('count')).to.equal(11);
+  });
+
+  it('enforces preconditions', async () => {
+    const db = newFirestore();
+    await expect(
+      updateDoc(doc(db, 'coll/missing'), { value: 1 })
+    ).to.eventually.be.rejectedWith('No document to update');
+    expect((await getDoc(doc(db, 'coll/missing'))).exists()).to.be.false;
+  });
+
+  it('is accepted by initializeFirestore()', async () => {
+    const app = initializeApp(
+      { apiKey: 'fake-api-key', projectId: 'test-project' },
+      'test-app-in-memory-backend'
+    );
+    try {
+      const db = initializeFirestore(app, { _backend: backend });
+      await setDoc(doc(db, 'coll/a'), { value: 1 });
+      const snapshot = await getDocFromServer(doc(newFirestore(), 'coll/a'));
+      expect(snapshot.data()).to.deep.equal({ value: 1 });
+    } finally {
+      await deleteApp(app);
+    }
+  });
+
+  it('keeps databases of different projects apart', async () => {
+    await setDoc(doc(newFirestore(), 'coll/a'), { value: 1 });
+    const db = newTestFirestore('other-project');
+    db._setSettings({ _backend: backend } as PrivateSettings);
+    instances.push(db);
+    expect((await getDocFromServer(doc(db, 'coll/a'))).exists()).to.be.false;
+  });
+});
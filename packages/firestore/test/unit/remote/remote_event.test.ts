@@ -19,6 +19,7 @@ import { expect } from 'chai';
 
 import { SnapshotVersion } from '../../../src/core/snapshot_version';
 import { TargetId } from '../../../src/core/types';
+import { UsageStats, UsageStatsRecorder } from '../../../src/core/usage_stats';
 import { TargetData, TargetPurpose } from '../../../src/local/target_data';
 import { DocumentKeySet, documentKeySet } from '../../../src/model/collections';
 import { ExistenceFilter } from '../../../src/remote/existence_filter';
@@ -30,6 +31,8 @@ import {
   WatchTargetChange,
   WatchTargetChangeState
 } from '../../../src/remote/watch_change';
+import { TimerId } from '../../../src/util/async_queue';
+import { AsyncQueueImpl } from '../../../src/util/async_queue_impl';
 import { ByteString } from '../../../src/util/byte_string';
 import {
   deletedDoc,
@@ -103,6 +106,7 @@ describe('RemoteEvent', () => {
     outstandingResponses?: PendingTargetResponses;
     existingKeys?: DocumentKeySet;
     changes?: Array<DocumentWatchChange | WatchTargetChange>;
+    usageStats?: UsageStatsRecorder;
   }): WatchChangeAggregator {
     const targetIds: TargetId[] = [];
 
@@ -111,12 +115,15 @@ describe('RemoteEvent', () => {
         targetIds.push(targetId);
       });
     }
-    const aggregator = new WatchChangeAggregator({
-      getRemoteKeysForTarget: () => options.existingKeys || documentKeySet(),
-      getTargetDataForTarget: targetId =>
-        options.targets ? options.targets[targetId] : null,
-      getDatabaseId: () => TEST_DATABASE_ID
-    });
+    const aggregator = new WatchChangeAggregator(
+      {
+        getRemoteKeysForTarget: () => options.existingKeys || documentKeySet(),
+        getTargetDataForTarget: targetId =>
+          options.targets ? options.targets[targetId] : null,
+        getDatabaseId: () => TEST_DATABASE_ID
+      },
+      options.usageStats
+    );
 
     if (options.outstandingResponses) {
       forEachNumber(options.outstandingResponses, (targetId, count) => {
@@ -477,6 +484,48 @@ describe('RemoteEvent', () => {
     expectTargetChangeEquals(event.targetChanges.get(1)!, expected);
   });
 
+  it('records usage stats', async () => {
+    const queue = new AsyncQueueImpl();
+    const usageStats = new UsageStatsRecorder(queue);
+    const reports: UsageStats[] = [];
+    usageStats.addListener(1000, stats => reports.push(stats));
+    await queue.enqueue(() => Promise.resolve());
+
+    const targets = { ...listens(1), ...limboListens(2) };
+    const doc1 = doc('docs/1', 1, { value: 1 });
+    const doc2 = doc('docs/2', 1, { value: 1 });
+    const aggregator = createAggregator({
+      snapshotVersion: 3,
+      targets,
+      changes: [
+        new DocumentWatchChange([1, 2], [], doc1.key, doc1),
+        new DocumentWatchChange([1], [], doc2.key, doc2),
+        new DocumentWatchChange([1], [], key('docs/3'), null)
+      ],
+      usageStats
+    });
+    aggregator.handleExistenceFilter(
+      new ExistenceFilterChange(1, new ExistenceFilter(3))
+    );
+    await queue.runAllDelayedOperationsUntil(TimerId.UsageStatsReport);
+
+    expect(reports.length).to.equal(1);
+    const stats = reports[0];
+    // The first document is sent once for both targets.
+    expect(stats.documentReadsFromServer).to.equal(2);
+    // Name: 16 + "docs" (5) + "1" (2), document overhead: 32,
+    // "value" (6) + 1 (8).
+    expect(stats.bytesReceived).to.equal(2 * 69);
+    expect(stats.existenceFilterMismatches).to.equal(1);
+    expect(stats.fullRequeries).to.equal(1);
+    expect(
+      stats.targets.map(t => [t.documentReadsFromServer, t.fullRequeries])
+    ).to.deep.equal([
+      [2, 1],
+      [1, 0]
+    ]);
+  });
+
   it('existence filters removes current changes', () => {
     const targets = listens(1);
 
@@ -67,7 +67,9 @@ describe('RestConnection', () => {
     /*forceLongPolling=*/ false,
     /*autoDetectLongPolling=*/ false,
     /*longPollingOptions=*/ {},
-    /*useFetchStreams=*/ false
+    /*useFetchStreams=*/ false,
+    /*experimentalTransport=*/ 'default',
+    /*backend=*/ null
   );
   const connection = new TestRestConnection(testDatabaseInfo);
 
@@ -42,12 +42,15 @@ import {
   NotInFilter,
   Operator
 } from '../../../src/core/filter';
+import { DistanceMeasure, FindNearest } from '../../../src/core/find_nearest';
 import { Direction, OrderBy } from '../../../src/core/order_by';
 import {
   LimitType,
   queryToTarget,
   queryWithEndAt,
+  queryWithFindNearest,
   queryWithLimit,
+  queryWithProjection,
   queryWithStartAt
 } from '../../../src/core/query';
 import { SnapshotVersion } from '../../../src/core/snapshot_version';
@@ -71,6 +74,7 @@ import {
   fromDocument,
   fromDocumentMask,
   fromDocumentsTarget,
+  fromExplainMetrics,
   fromFieldFilter,
   fromMutation,
   fromName,
@@ -1800,6 +1804,70 @@ export function serializerTest(
         );
       });
 
+      it('converts findNearest', () => {
+        const q = queryToTarget(
+          queryWithFindNearest(
+            query('docs'),
+            new FindNearest(
+              field('embedding'),
+              wrap(vector([1, 2, 3])),
+              10,
+              DistanceMeasure.COSINE,
+              field('distance'),
+              0.5
+            )
+          )
+        );
+        const result = toTarget(s, wrapTargetData(q));
+        const expected = {
+          query: {
+            parent: 'projects/p/databases/d/documents',
+            structuredQuery: {
+              from: [{ collectionId: 'docs' }],
+              findNearest: {
+                vectorField: { fieldPath: 'embedding' },
+                queryVector: wrap(vector([1, 2, 3])),
+                distanceMeasure: 'COSINE',
+                limit: { value: 10 },
+                distanceResultField: 'distance',
+                distanceThreshold: { value: 0.5 }
+              }
+            }
+          },
+          targetId: 1
+        };
+        expect(result).to.deep.equal(expected);
+        expect(fromQueryTarget(toQueryTarget(s, q).queryTarget)).to.deep.equal(
+          q
+        );
+      });
+
+      it('converts projections', () => {
+        const q = queryToTarget(
+          queryWithProjection(query('docs'), [field('a'), field('b.c')])
+        );
+        const result = toTarget(s, wrapTargetData(q));
+        const expected = {
+          query: {
+            parent: 'projects/p/databases/d/documents',
+            structuredQuery: {
+              from: [{ collectionId: 'docs' }],
+              orderBy: [
+                { field: { fieldPath: '__name__' }, direction: 'ASCENDING' }
+              ],
+              select: {
+                fields: [{ fieldPath: 'a' }, { fieldPath: 'b.c' }]
+              }
+            }
+          },
+          targetId: 1
+        };
+        expect(result).to.deep.equal(expected);
+        expect(fromQueryTarget(toQueryTarget(s, q).queryTarget)).to.deep.equal(
+          q
+        );
+      });
+
       it('converts resume tokens', () => {
         const q = queryToTarget(query('docs'));
         const result = toTarget(
@@ -1834,6 +1902,95 @@ export function serializerTest(
       });
     });
 
+    describe('fromExplainMetrics', () => {
+      it('converts plan summary without execution stats', () => {
+        const actual = fromExplainMetrics(s, {
+          planSummary: {
+            indexesUsed: [
+              {
+                fields: {
+                  'query_scope': { stringValue: 'Collection' },
+                  'properties': { stringValue: '(a ASC, __name__ ASC)' }
+                }
+              }
+            ]
+          }
+        });
+        expect(actual).to.deep.equal({
+          planSummary: {
+            indexesUsed: [
+              {
+                'query_scope': 'Collection',
+                'properties': '(a ASC, __name__ ASC)'
+              }
+            ]
+          },
+          executionStats: null
+        });
+      });
+
+      it('converts execution stats', () => {
+        const actual = fromExplainMetrics(s, {
+          planSummary: { indexesUsed: [] },
+          executionStats: {
+            resultsReturned: '3',
+            executionDuration: { seconds: '1', nanos: 500000000 },
+            readOperations: '4',
+            debugStats: {
+              fields: {
+                'documents_scanned': { stringValue: '3' },
+                'billing_details': {
+                  structValue: {
+                    fields: { 'min_query_cost': { numberValue: 0 } }
+                  }
+                },
+                'flags': {
+                  listValue: { values: [{ boolValue: true }, { nullValue: 0 }] }
+                }
+              }
+            }
+          }
+        });
+        expect(actual.executionStats).to.deep.equal({
+          resultsReturned: 3,
+          executionDuration: 1500,
+          readOperations: 4,
+          debugStats: {
+            'documents_scanned': '3',
+            'billing_details': { 'min_query_cost': 0 },
+            'flags': [true, null]
+          }
+        });
+      });
+
+      it('converts execution stats (useProto3Json=true)', () => {
+        const serializer = new JsonProtoSerializer(
+          partition,
+          /* useProto3Json= */ true
+        );
+        const actual = fromExplainMetrics(serializer, {
+          planSummary: {
+            indexesUsed: [{ 'query_scope': 'Collection' }]
+          },
+          executionStats: {
+            resultsReturned: '1',
+            executionDuration: '0.025s',
+            readOperations: '1',
+            debugStats: { 'documents_scanned': '1' }
+          }
+        });
+        expect(actual).to.deep.equal({
+          planSummary: { indexesUsed: [{ 'query_scope': 'Collection' }] },
+          executionStats: {
+            resultsReturned: 1,
+            executionDuration: 25,
+            readOperations: 1,
+            debugStats: { 'documents_scanned': '1' }
+          }
+        });
+      });
+    });
+
     describe('to/from OperatorName', () => {
       addEqualityMatcher();
 
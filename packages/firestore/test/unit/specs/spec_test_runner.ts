@@ -66,6 +66,7 @@ import {
   triggerRemoteStoreUnlisten
 } from '../../../src/core/sync_engine_impl';
 import { TargetId } from '../../../src/core/types';
+import { UsageStatsRecorder } from '../../../src/core/usage_stats';
 import {
   ChangeType,
   DocumentViewChange
@@ -282,7 +283,9 @@ abstract class TestRunner {
       /*forceLongPolling=*/ false,
       /*autoDetectLongPolling=*/ false,
       /*longPollingOptions=*/ {},
-      /*useFetchStreams=*/ false
+      /*useFetchStreams=*/ false,
+      /*experimentalTransport=*/ 'default',
+      /*backend=*/ null
     );
 
     // TODO(mrschmidt): During client startup in `firestore_client`, we block
@@ -316,7 +319,8 @@ abstract class TestRunner {
       clientId: this.clientId,
       initialUser: this.user,
       maxConcurrentLimboResolutions:
-        this.maxConcurrentLimboResolutions ?? Number.MAX_SAFE_INTEGER
+        this.maxConcurrentLimboResolutions ?? Number.MAX_SAFE_INTEGER,
+      usageStats: new UsageStatsRecorder(this.queue)
     };
 
     this.connection = new MockConnection(this.queue);
@@ -24,6 +24,7 @@ import {
   SizedBundleElement
 } from '../../../src/util/bundle_reader';
 import { newBundleReader } from '../../../src/util/bundle_reader_impl';
+import { newBundleReaderSync } from '../../../src/util/bundle_reader_sync_impl';
 import { JSON_SERIALIZER } from '../local/persistence_test_helpers';
 
 import {
@@ -264,3 +265,40 @@ function genericBundleReadingTests(bytesPerRead: number): void {
     }
   );
 }
+
+describe('BundleReaderSync', () => {
+  it('reads all elements of a bundle', () => {
+    const bundle = newBundleReaderSync(
+      metaString +
+        limitQueryString +
+        doc1MetaString +
+        doc1String +
+        noDocMetaString,
+      JSON_SERIALIZER
+    );
+
+    expect(bundle.getMetadata()).to.deep.equal(meta.metadata);
+    const elements = bundle.getElements();
+    expect(elements.map(e => e.payload)).to.deep.equal([
+      limitQuery,
+      doc1Meta,
+      doc1,
+      noDocMeta
+    ]);
+    expect(elements[2].byteLength).to.equal(
+      encoder.encode(doc1String).byteLength
+    );
+  });
+
+  it('throws for invalid bundles', () => {
+    expect(() =>
+      newBundleReaderSync(metaString + 'invalid-string', JSON_SERIALIZER)
+    ).to.throw('Reached the end of bundle when a length string is expected.');
+    expect(() =>
+      newBundleReaderSync('1' + metaString, JSON_SERIALIZER)
+    ).to.throw('Reached the end of bundle when more is expected.');
+    expect(() =>
+      newBundleReaderSync(doc1MetaString + doc1String, JSON_SERIALIZER)
+    ).to.throw('The first element of the bundle is not a metadata');
+  });
+});
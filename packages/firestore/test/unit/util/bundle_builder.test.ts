@@ -0,0 +1,104 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+
+import {
+  LimitType,
+  queryEquals,
+  queryWithLimit
+} from '../../../src/core/query';
+import { fromBundledQuery } from '../../../src/local/local_serializer';
+import { fromDocument } from '../../../src/remote/serializer';
+import { BundleBuilder } from '../../../src/util/bundle_builder_impl';
+import { newBundleReaderSync } from '../../../src/util/bundle_reader_sync_impl';
+import {
+  deletedDoc,
+  doc,
+  filter,
+  orderBy,
+  query,
+  version
+} from '../../util/helpers';
+import {
+  JSON_SERIALIZER,
+  TEST_DATABASE_ID
+} from '../local/persistence_test_helpers';
+
+describe('BundleBuilder', () => {
+  it('builds a bundle with documents and queries', () => {
+    const builder = new BundleBuilder(TEST_DATABASE_ID, 'bundle-id');
+    const limitToLast = queryWithLimit(
+      query('coll', filter('foo', '>', 1), orderBy('foo')),
+      2,
+      LimitType.Last
+    );
+    builder.addBundleDocument(doc('coll/a', 1000, { foo: 2 }), ['query']);
+    builder.addBundleDocument(deletedDoc('coll/b', 2000));
+    builder.addBundleQuery('query', limitToLast, version(1000));
+
+    const bundle = builder.build();
+    const reader = newBundleReaderSync(bundle, JSON_SERIALIZER);
+    const metadata = reader.getMetadata();
+    const elements = reader.getElements();
+
+    expect(metadata.id).to.equal('bundle-id');
+    expect(metadata.totalDocuments).to.equal(2);
+    expect(metadata.totalBytes).to.equal(
+      elements.reduce((sum, element) => sum + element.byteLength, 0)
+    );
+
+    const [namedQuery, docMetadata, document, noDocMetadata] = elements.map(
+      element => element.payload
+    );
+    expect(namedQuery.namedQuery!.name).to.equal('query');
+    expect(
+      queryEquals(
+        fromBundledQuery(namedQuery.namedQuery!.bundledQuery!),
+        limitToLast
+      )
+    ).to.be.true;
+    expect(docMetadata.documentMetadata!.exists).to.be.true;
+    expect(docMetadata.documentMetadata!.queries).to.deep.equal(['query']);
+    expect(
+      fromDocument(JSON_SERIALIZER, document.document!).isEqual(
+        doc('coll/a', 1000, { foo: 2 })
+      )
+    ).to.be.true;
+    expect(noDocMetadata.documentMetadata!.exists).to.be.false;
+    expect(noDocMetadata.documentMetadata!.queries).to.be.undefined;
+  });
+
+  it('keeps the newest version of a document', () => {
+    const builder = new BundleBuilder(TEST_DATABASE_ID, 'bundle-id');
+    builder.addBundleDocument(doc('coll/a', 2000, { foo: 'new' }), ['q1']);
+    builder.addBundleDocument(doc('coll/a', 1000, { foo: 'old' }), ['q2']);
+
+    const elements = newBundleReaderSync(
+      builder.build(),
+      JSON_SERIALIZER
+    ).getElements();
+    expect(elements.length).to.equal(2);
+    expect(elements[0].payload.documentMetadata!.queries).to.deep.equal([
+      'q1',
+      'q2'
+    ]);
+    expect(elements[1].payload.document!.fields).to.deep.equal({
+      foo: { stringValue: 'new' }
+    });
+  });
+});